@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+
+import { FlatFileEventAdapter } from '../dist/adapters/flatfile-event-adapter.js';
+
+/**
+ * One-shot migration of flat-file events into the UTC partition layout.
+ * Re-buckets every event under EVENTS_PATH by its UTC timestamp, using the
+ * EVENTS_PARTITION strategy. Stop the server before running; safe to re-run.
+ */
+
+const eventsPath = process.env.EVENTS_PATH || './data/events';
+const partition = process.env.EVENTS_PARTITION || 'daily';
+
+if (!['daily', 'hourly'].includes(partition)) {
+  console.error(`❌ Invalid EVENTS_PARTITION: ${partition}. Must be one of: daily, hourly`);
+  process.exit(1);
+}
+
+console.log(`🔄 Repartitioning events in ${eventsPath} (${partition}, UTC)...`);
+
+const startTime = Date.now();
+const adapter = new FlatFileEventAdapter(eventsPath, partition);
+
+adapter
+  .repartition()
+  .then(result => {
+    console.log(
+      `✅ Repartitioned ${result.eventsWritten} events for ${result.tenants} tenants: ` +
+        `${result.filesRead} files read, ${result.filesWritten} files written, ` +
+        `${result.duplicatesDropped} duplicates dropped in ${Date.now() - startTime}ms`
+    );
+  })
+  .catch(error => {
+    console.error('❌ Repartition failed:', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,506 @@
+import { createClient, ClickHouseClient, ResultSet } from '@clickhouse/client';
+import { EventAdapter } from '../interfaces/storage.js';
+import {
+  AnalyticsEvent,
+  InsertResult,
+  QueryFilter,
+  QueryResult,
+  ExportFilter,
+  ExportFormat,
+  ExportResult,
+  AggregationQuery,
+  AggregationResult,
+  AggregationInterval,
+  PropertyFilter,
+} from '../types/core.js';
+import { createExportResult } from './event-export.js';
+import { aggregateEvents } from './event-aggregation.js';
+import { matchesPropertyFilter } from '../services/property-filter.js';
+
+interface EventRow {
+  tenant_id: string;
+  event_id: string;
+  user_id: string | null;
+  event_name: string;
+  properties: string;
+  timestamp_ms: string;
+  received_at_ms: string;
+  session_id: string | null;
+  device_id: string | null;
+}
+
+// Maps QueryFilter.sortBy values to columns; anything else falls back to timestamp.
+// Missing user ids sort as '' so cursors can compare against them.
+const SORT_COLUMNS: Record<string, string> = {
+  timestamp: 'timestamp',
+  eventName: 'event_name',
+  userId: "ifNull(user_id, '')",
+};
+
+// Bucket start for each interval, in the {timezone:String} query parameter
+const BUCKET_EXPRESSIONS: Record<AggregationInterval, string> = {
+  minute: 'toStartOfMinute(timestamp)',
+  hour: 'toStartOfHour(timestamp, {timezone:String})',
+  day: 'toStartOfDay(timestamp, {timezone:String})',
+  week: 'toMonday(timestamp, {timezone:String})',
+  month: 'toStartOfMonth(timestamp, {timezone:String})',
+};
+
+const SELECT_COLUMNS = `tenant_id, event_id, user_id, event_name, properties,
+  toUnixTimestamp64Milli(timestamp) AS timestamp_ms,
+  toUnixTimestamp64Milli(received_at) AS received_at_ms,
+  session_id, device_id`;
+
+export class ClickHouseEventAdapter implements EventAdapter {
+  private client: ClickHouseClient;
+  private ownsClient: boolean;
+  private table: string;
+
+  constructor(connection: string | ClickHouseClient, table: string = 'events') {
+    if (typeof connection === 'string') {
+      // The database is taken from the URL path, e.g. http://host:8123/analytics
+      this.client = createClient({ url: connection });
+      this.ownsClient = true;
+    } else {
+      this.client = connection;
+      this.ownsClient = false;
+    }
+    this.table = table;
+  }
+
+  /**
+   * Create the events table if it does not exist; call before first use
+   */
+  async initialize(): Promise<void> {
+    await this.client.command({
+      query: `
+        CREATE TABLE IF NOT EXISTS ${this.table} (
+          tenant_id LowCardinality(String),
+          event_id String,
+          user_id Nullable(String),
+          event_name LowCardinality(String),
+          properties String,
+          timestamp DateTime64(3, 'UTC'),
+          received_at DateTime64(3, 'UTC'),
+          session_id Nullable(String),
+          device_id Nullable(String)
+        )
+        ENGINE = MergeTree
+        PARTITION BY (tenant_id, toYYYYMM(timestamp))
+        ORDER BY (tenant_id, timestamp, event_id)
+      `,
+    });
+  }
+
+  async insert(event: AnalyticsEvent): Promise<InsertResult> {
+    const [result] = await this.insertBatch([event]);
+    return result!;
+  }
+
+  async insertBatch(events: AnalyticsEvent[]): Promise<InsertResult[]> {
+    if (events.length === 0) {
+      return [];
+    }
+
+    try {
+      await this.client.insert({
+        table: this.table,
+        values: events.map((event) => this.toRow(event)),
+        format: 'JSONEachRow',
+      });
+
+      return events.map((event) => ({
+        success: true,
+        eventId: event.eventId,
+      }));
+    } catch (error) {
+      // A ClickHouse insert is atomic per block, so every event shares the outcome
+      return events.map((event) => ({
+        success: false,
+        eventId: event.eventId,
+        error: `Failed to insert event: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }
+
+  async query(filter: QueryFilter): Promise<QueryResult> {
+    const startTime = Date.now();
+
+    try {
+      const { where: filterWhere, params } = this.buildWhere(filter);
+
+      // Default sort by timestamp descending, like the flat-file adapter
+      const sortColumn =
+        (filter.sortBy && SORT_COLUMNS[filter.sortBy]) || 'timestamp';
+      const sortDirection =
+        filter.sortBy && filter.sortOrder !== 'desc' ? 'ASC' : 'DESC';
+      const orderBy = `${sortColumn} ${sortDirection}, event_id ${sortDirection}`;
+
+      let where = filterWhere;
+      if (filter.after) {
+        // Tuples compare element by element, matching the ORDER BY
+        const afterValue =
+          sortColumn === 'timestamp'
+            ? "fromUnixTimestamp64Milli({afterValue:Int64}, 'UTC')"
+            : '{afterValue:String}';
+        where += ` AND (${sortColumn}, event_id) ${sortDirection === 'ASC' ? '>' : '<'} (${afterValue}, {afterId:String})`;
+        params.afterValue = filter.after.value;
+        params.afterId = filter.after.id;
+      }
+
+      const offset = filter.offset || 0;
+      const limit = filter.limit || 100;
+
+      let events: AnalyticsEvent[];
+      let totalCount: number;
+
+      if (filter.where) {
+        // Filter expressions run in-process with the shared evaluator, so
+        // every event matching the SQL conditions is streamed through
+        const resultSet = await this.client.query({
+          query: `SELECT ${SELECT_COLUMNS} FROM ${this.table} WHERE ${where} ORDER BY ${orderBy}`,
+          query_params: params,
+          format: 'JSONEachRow',
+        });
+        events = [];
+        totalCount = 0;
+        for await (const event of this.filterEvents(
+          this.streamEvents(resultSet),
+          filter.where
+        )) {
+          if (totalCount >= offset && totalCount < offset + limit) {
+            events.push(event);
+          }
+          totalCount++;
+        }
+      } else {
+        const countResult = await this.client.query({
+          query: `SELECT count() AS total FROM ${this.table} WHERE ${where}`,
+          query_params: params,
+          format: 'JSONEachRow',
+        });
+        const [countRow] = await countResult.json<{ total: string }>();
+        totalCount = Number(countRow?.total ?? 0);
+
+        const resultSet = await this.client.query({
+          query: `
+            SELECT ${SELECT_COLUMNS}
+            FROM ${this.table}
+            WHERE ${where}
+            ORDER BY ${orderBy}
+            LIMIT {limit:UInt32} OFFSET {offset:UInt32}
+          `,
+          query_params: { ...params, limit, offset },
+          format: 'JSONEachRow',
+        });
+        const rows = await resultSet.json<EventRow>();
+        events = rows.map((row) => this.toEvent(row));
+      }
+
+      return {
+        events,
+        totalCount,
+        hasMore: offset + limit < totalCount,
+        pagination: {
+          limit,
+          offset,
+          ...(offset + limit < totalCount
+            ? { nextOffset: offset + limit }
+            : {}),
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to query events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async export(
+    filter: ExportFilter,
+    format: ExportFormat
+  ): Promise<ExportResult> {
+    try {
+      const { where, params } = this.buildWhere(filter);
+      const resultSet = await this.client.query({
+        query: `
+          SELECT ${SELECT_COLUMNS}
+          FROM ${this.table}
+          WHERE ${where}
+          ORDER BY timestamp, event_id
+        `,
+        query_params: params,
+        format: 'JSONEachRow',
+      });
+
+      return createExportResult(this.streamEvents(resultSet), format);
+    } catch (error) {
+      throw new Error(
+        `Failed to export events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async aggregate(query: AggregationQuery): Promise<AggregationResult> {
+    const startTime = Date.now();
+
+    try {
+      const { where, params } = this.buildWhere(query.filter);
+
+      if (query.filter.where) {
+        // Filter expressions have no SQL translation; aggregate the matching
+        // events in-process instead
+        const resultSet = await this.client.query({
+          query: `SELECT ${SELECT_COLUMNS} FROM ${this.table} WHERE ${where}`,
+          query_params: params,
+          format: 'JSONEachRow',
+        });
+        return {
+          buckets: await aggregateEvents(
+            this.filterEvents(this.streamEvents(resultSet), query.filter.where),
+            query
+          ),
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      const columns: string[] = [];
+      const groupColumns: string[] = [];
+
+      if (query.interval) {
+        // toDateTime reads Date results (week, month) as midnight in the zone
+        columns.push(
+          `toUnixTimestamp(toDateTime(${BUCKET_EXPRESSIONS[query.interval]}, {timezone:String})) * 1000 AS bucket_ms`
+        );
+        groupColumns.push('bucket_ms');
+        params.timezone = query.timezone ?? 'UTC';
+      }
+
+      if (query.groupBy) {
+        if ('field' in query.groupBy) {
+          columns.push('toString(event_name) AS group_value');
+        } else {
+          // Strings as plain text, other values as raw JSON, missing as NULL
+          columns.push(
+            `if(JSONType(properties, {groupKey:String}) = 'String',
+              JSONExtractString(properties, {groupKey:String}),
+              nullIf(JSONExtractRaw(properties, {groupKey:String}), '')) AS group_value`
+          );
+          params.groupKey = query.groupBy.property;
+        }
+        groupColumns.push('group_value');
+      }
+
+      // Only JSON numbers take part in sum, avg, min and max
+      const numeric = `if(JSONType(properties, {metricKey:String}) IN ('Int64', 'UInt64', 'Double'),
+        JSONExtractFloat(properties, {metricKey:String}), NULL)`;
+      const metrics: Record<AggregationQuery['metric'], string> = {
+        count: 'count()',
+        uniqueUsers: 'uniqExact(user_id)',
+        sum: `ifNull(sum(${numeric}), 0)`,
+        avg: `avg(${numeric})`,
+        min: `min(${numeric})`,
+        max: `max(${numeric})`,
+      };
+      columns.push(`${metrics[query.metric]} AS value`);
+      if (query.property) {
+        params.metricKey = query.property;
+      }
+
+      const resultSet = await this.client.query({
+        query: `
+          SELECT ${columns.join(', ')}
+          FROM ${this.table}
+          WHERE ${where}
+          ${groupColumns.length > 0 ? `GROUP BY ${groupColumns.join(', ')}` : ''}
+        `,
+        query_params: params,
+        format: 'JSONEachRow',
+      });
+      // 64-bit integers arrive as strings
+      const rows = await resultSet.json<{
+        bucket_ms?: string;
+        group_value?: string | null;
+        value: string | number | null;
+      }>();
+
+      return {
+        buckets: rows.map((row) => ({
+          ...(query.interval && { time: new Date(Number(row.bucket_ms)) }),
+          ...(query.groupBy && { group: row.group_value ?? null }),
+          value: row.value === null ? null : Number(row.value),
+        })),
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to aggregate events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Runs a synchronous mutation, so the call returns once the rows are gone
+   * from every part. Mutations rewrite whole parts; erasures should be rare.
+   */
+  async deleteUserEvents(tenantId: string, userId: string): Promise<string[]> {
+    try {
+      const where =
+        'tenant_id = {tenantId:String} AND user_id = {userId:String}';
+      const deleted: string[] = [];
+
+      // Mutations don't report what they removed, so delete exactly the ids
+      // read and read again until none are left; events inserted meanwhile
+      // are picked up by the next pass rather than deleted unreported
+      for (;;) {
+        const resultSet = await this.client.query({
+          query: `SELECT DISTINCT event_id FROM ${this.table} WHERE ${where}`,
+          query_params: { tenantId, userId },
+          format: 'JSONEachRow',
+        });
+        const eventIds = (await resultSet.json<{ event_id: string }>()).map(
+          (row) => row.event_id
+        );
+        if (eventIds.length === 0) {
+          return deleted;
+        }
+
+        await this.client.command({
+          query: `ALTER TABLE ${this.table} DELETE WHERE ${where} AND event_id IN {eventIds:Array(String)}`,
+          query_params: { tenantId, userId, eventIds },
+          clickhouse_settings: { mutations_sync: '2' },
+        });
+        deleted.push(...eventIds);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to delete user events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const result = await this.client.ping();
+      return result.success;
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsClient) {
+      await this.client.close();
+    }
+  }
+
+  private async *filterEvents(
+    events: AsyncIterable<AnalyticsEvent>,
+    filter: PropertyFilter
+  ): AsyncGenerator<AnalyticsEvent> {
+    for await (const event of events) {
+      if (matchesPropertyFilter(event.properties, filter)) {
+        yield event;
+      }
+    }
+  }
+
+  /**
+   * Read the response body as it arrives; breaking out of the loop destroys
+   * the stream and cancels the query
+   */
+  private async *streamEvents(
+    resultSet: ResultSet<'JSONEachRow'>
+  ): AsyncGenerator<AnalyticsEvent> {
+    for await (const rows of resultSet.stream<EventRow>()) {
+      for (const row of rows) {
+        yield this.toEvent(row.json());
+      }
+    }
+  }
+
+  private buildWhere(filter: QueryFilter): {
+    where: string;
+    params: Record<string, unknown>;
+  } {
+    const conditions: string[] = ['tenant_id = {tenantId:String}'];
+    const params: Record<string, unknown> = { tenantId: filter.tenantId };
+
+    if (filter.startTime) {
+      conditions.push(
+        "timestamp >= fromUnixTimestamp64Milli({startMs:Int64}, 'UTC')"
+      );
+      params.startMs = filter.startTime.getTime();
+    }
+
+    if (filter.endTime) {
+      conditions.push(
+        "timestamp <= fromUnixTimestamp64Milli({endMs:Int64}, 'UTC')"
+      );
+      params.endMs = filter.endTime.getTime();
+    }
+
+    if (filter.eventName) {
+      conditions.push('event_name = {eventName:String}');
+      params.eventName = filter.eventName;
+    }
+
+    if (filter.eventTypes && filter.eventTypes.length > 0) {
+      conditions.push('event_name IN {eventTypes:Array(String)}');
+      params.eventTypes = filter.eventTypes;
+    }
+
+    if (filter.userId) {
+      conditions.push('user_id = {userId:String}');
+      params.userId = filter.userId;
+    }
+
+    if (filter.userIds) {
+      conditions.push('user_id IN {userIds:Array(String)}');
+      params.userIds = filter.userIds;
+    }
+
+    // Property filters compare the raw JSON of top-level keys for equality
+    if (filter.properties) {
+      Object.entries(filter.properties).forEach(([key, value], index) => {
+        conditions.push(
+          `JSONExtractRaw(properties, {propKey${index}:String}) = {propValue${index}:String}`
+        );
+        params[`propKey${index}`] = key;
+        params[`propValue${index}`] = JSON.stringify(value);
+      });
+    }
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  private toRow(event: AnalyticsEvent): Record<string, unknown> {
+    return {
+      tenant_id: event.tenantId,
+      event_id: event.eventId,
+      user_id: event.userId ?? null,
+      event_name: event.eventName,
+      properties: JSON.stringify(event.properties || {}),
+      // DateTime64(3) accepts fractional unix seconds
+      timestamp: event.timestamp.getTime() / 1000,
+      received_at: event.receivedAt.getTime() / 1000,
+      session_id: event.sessionId ?? null,
+      device_id: event.deviceId ?? null,
+    };
+  }
+
+  private toEvent(row: EventRow): AnalyticsEvent {
+    return {
+      eventId: row.event_id,
+      tenantId: row.tenant_id,
+      eventName: row.event_name,
+      properties: JSON.parse(row.properties || '{}'),
+      timestamp: new Date(Number(row.timestamp_ms)),
+      receivedAt: new Date(Number(row.received_at_ms)),
+      ...(row.user_id !== null && { userId: row.user_id }),
+      ...(row.session_id !== null && { sessionId: row.session_id }),
+      ...(row.device_id !== null && { deviceId: row.device_id }),
+    };
+  }
+}
@@ -0,0 +1,302 @@
+import {
+  AnalyticsEvent,
+  AggregationBucket,
+  AggregationGroupBy,
+  AggregationInterval,
+  AggregationQuery,
+} from '../types/core.js';
+
+/**
+ * In-process aggregation shared by adapters that cannot push it down to a
+ * query engine, plus the time bucketing rules every adapter must agree on.
+ * Buckets start at the beginning of the minute, hour, day, ISO week (Monday)
+ * or month in the requested timezone.
+ */
+
+interface Accumulator {
+  time?: number;
+  group?: string | null;
+  count: number;
+  users: Set<string>;
+  sum: number;
+  numbers: number;
+  min: number | null;
+  max: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * groupsOf, when given, replaces query.groupBy: the event is counted once
+ * under each label it returns, or under null when it returns none
+ */
+export async function aggregateEvents(
+  events: AsyncIterable<AnalyticsEvent> | Iterable<AnalyticsEvent>,
+  query: AggregationQuery,
+  groupsOf?: (event: AnalyticsEvent) => string[]
+): Promise<AggregationBucket[]> {
+  const timezone = query.timezone ?? 'UTC';
+  const accumulators = new Map<string, Accumulator>();
+
+  for await (const event of events) {
+    const time = query.interval
+      ? bucketStart(event.timestamp.getTime(), query.interval, timezone)
+      : undefined;
+    let groups: (string | null | undefined)[];
+    if (groupsOf) {
+      const labels = groupsOf(event);
+      groups = labels.length > 0 ? labels : [null];
+    } else {
+      groups = [query.groupBy ? groupValue(event, query.groupBy) : undefined];
+    }
+
+    for (const group of groups) {
+      const key = `${time ?? ''}\u0000${group === null ? '\u0001' : (group ?? '')}`;
+      let accumulator = accumulators.get(key);
+      if (!accumulator) {
+        accumulator = {
+          ...(time !== undefined && { time }),
+          ...(group !== undefined && { group }),
+          count: 0,
+          users: new Set(),
+          sum: 0,
+          numbers: 0,
+          min: null,
+          max: null,
+        };
+        accumulators.set(key, accumulator);
+      }
+
+      accumulator.count++;
+      if (event.userId) {
+        accumulator.users.add(event.userId);
+      }
+
+      if (query.property) {
+        const value = numericValue(event, query.property);
+        if (value !== undefined) {
+          accumulator.sum += value;
+          accumulator.numbers++;
+          accumulator.min =
+            accumulator.min === null ? value : Math.min(accumulator.min, value);
+          accumulator.max =
+            accumulator.max === null ? value : Math.max(accumulator.max, value);
+        }
+      }
+    }
+  }
+
+  // Without a grouping there is always exactly one bucket, even if empty
+  if (
+    accumulators.size === 0 &&
+    !query.interval &&
+    !query.groupBy &&
+    !groupsOf
+  ) {
+    return [{ value: emptyValue(query) }];
+  }
+
+  return [...accumulators.values()].map((accumulator) => ({
+    ...(accumulator.time !== undefined && {
+      time: new Date(accumulator.time),
+    }),
+    ...(accumulator.group !== undefined && { group: accumulator.group }),
+    value: metricValue(accumulator, query),
+  }));
+}
+
+/**
+ * Start of the bucket containing the given instant, in ms since epoch
+ */
+export function bucketStart(
+  ms: number,
+  interval: AggregationInterval,
+  timezone: string
+): number {
+  // Every zone in use today is offset by whole minutes
+  if (interval === 'minute') {
+    return Math.floor(ms / MINUTE_MS) * MINUTE_MS;
+  }
+
+  let [year, month, day, hour, minute] = zonedParts(ms, timezone);
+  switch (interval) {
+    case 'hour':
+      minute = 0;
+      break;
+    case 'day':
+      hour = minute = 0;
+      break;
+    case 'week':
+      // Step back to Monday; Date.UTC normalizes days before the 1st
+      day -= (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+      hour = minute = 0;
+      break;
+    case 'month':
+      day = 1;
+      hour = minute = 0;
+      break;
+  }
+
+  return zonedToUtc(year, month, day, hour, minute, timezone);
+}
+
+/**
+ * Number of whole intervals from the bucket containing `fromMs` to the bucket
+ * containing `toMs`; negative when `toMs` is earlier
+ */
+export function bucketsBetween(
+  fromMs: number,
+  toMs: number,
+  interval: AggregationInterval,
+  timezone: string
+): number {
+  if (interval === 'minute' || interval === 'hour') {
+    const size = interval === 'minute' ? MINUTE_MS : 60 * MINUTE_MS;
+    return Math.round(
+      (bucketStart(toMs, interval, timezone) -
+        bucketStart(fromMs, interval, timezone)) /
+        size
+    );
+  }
+
+  const [fromYear, fromMonth, fromDay] = zonedParts(fromMs, timezone);
+  const [toYear, toMonth, toDay] = zonedParts(toMs, timezone);
+  if (interval === 'month') {
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  }
+
+  // Local calendar days since the epoch, then Mondays for weeks
+  const fromDays = Date.UTC(fromYear, fromMonth - 1, fromDay) / DAY_MS;
+  const toDays = Date.UTC(toYear, toMonth - 1, toDay) / DAY_MS;
+  if (interval === 'day') {
+    return toDays - fromDays;
+  }
+  // 1970-01-01 was a Thursday, so Monday-based weeks are offset by 3 days
+  return Math.floor((toDays + 3) / 7) - Math.floor((fromDays + 3) / 7);
+}
+
+/**
+ * Throw a RangeError unless the timezone is a known IANA zone name
+ */
+export function assertValidTimezone(timezone: string): void {
+  getZoneFormatter(timezone);
+}
+
+/**
+ * Group label for an event: the event name, or a property value with
+ * strings used as-is, other values JSON-encoded and missing values null
+ */
+export function groupValue(
+  event: AnalyticsEvent,
+  groupBy: AggregationGroupBy
+): string | null {
+  if ('field' in groupBy) {
+    return event.eventName;
+  }
+
+  return groupLabel(event.properties?.[groupBy.property]);
+}
+
+/**
+ * Label for a property or trait value when used as a group
+ */
+export function groupLabel(value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function numericValue(
+  event: AnalyticsEvent,
+  property: string
+): number | undefined {
+  const value = event.properties?.[property];
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function metricValue(
+  accumulator: Accumulator,
+  query: AggregationQuery
+): number | null {
+  switch (query.metric) {
+    case 'count':
+      return accumulator.count;
+    case 'uniqueUsers':
+      return accumulator.users.size;
+    case 'sum':
+      return accumulator.sum;
+    case 'avg':
+      return accumulator.numbers > 0
+        ? accumulator.sum / accumulator.numbers
+        : null;
+    case 'min':
+      return accumulator.min;
+    case 'max':
+      return accumulator.max;
+  }
+}
+
+function emptyValue(query: AggregationQuery): number | null {
+  return ['count', 'uniqueUsers', 'sum'].includes(query.metric) ? 0 : null;
+}
+
+function getZoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    zoneFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock [year, month, day, hour, minute] of an instant in a zone
+function zonedParts(
+  ms: number,
+  timezone: string
+): [number, number, number, number, number] {
+  const parts: Record<string, number> = {};
+  for (const part of getZoneFormatter(timezone).formatToParts(ms)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return [parts.year!, parts.month!, parts.day!, parts.hour!, parts.minute!];
+}
+
+function zonedToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Correct by the zone offset, then again with the offset at the result in
+  // case the first guess fell on the other side of a DST change
+  const guess = wallClock - zoneOffset(wallClock, timezone);
+  return wallClock - zoneOffset(guess, timezone);
+}
+
+function zoneOffset(ms: number, timezone: string): number {
+  const [year, month, day, hour, minute] = zonedParts(ms, timezone);
+  return (
+    Date.UTC(year, month - 1, day, hour, minute) -
+    Math.floor(ms / MINUTE_MS) * MINUTE_MS
+  );
+}
@@ -0,0 +1,78 @@
+import { AnalyticsEvent, ExportFormat, ExportResult } from '../types/core.js';
+import { escapeCsvField } from '../services/result-formatter.js';
+
+/**
+ * Serialization shared by the event adapters' export(). Adapters supply an
+ * async stream of events; the output is produced chunk by chunk as the
+ * consumer pulls, so an export never holds more than one chunk in memory.
+ */
+
+// Events serialized into each chunk
+const EVENTS_PER_CHUNK = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+const CSV_HEADER =
+  'eventId,tenantId,userId,eventName,timestamp,receivedAt,sessionId,deviceId,properties\n';
+
+export function createExportResult(
+  events: AsyncIterable<AnalyticsEvent>,
+  format: ExportFormat
+): ExportResult {
+  return {
+    format,
+    contentType: CONTENT_TYPES[format],
+    chunks: serializeEvents(events, format),
+  };
+}
+
+async function* serializeEvents(
+  events: AsyncIterable<AnalyticsEvent>,
+  format: ExportFormat
+): AsyncGenerator<string> {
+  let chunk = format === 'json' ? '[' : format === 'csv' ? CSV_HEADER : '';
+  let count = 0;
+
+  for await (const event of events) {
+    if (format === 'json') {
+      chunk += (count === 0 ? '\n' : ',\n') + JSON.stringify(event);
+    } else if (format === 'ndjson') {
+      chunk += JSON.stringify(event) + '\n';
+    } else {
+      chunk += toCsvRow(event) + '\n';
+    }
+
+    count++;
+    if (count % EVENTS_PER_CHUNK === 0) {
+      yield chunk;
+      chunk = '';
+    }
+  }
+
+  if (format === 'json') {
+    chunk += count === 0 ? ']' : '\n]';
+  }
+  if (chunk) {
+    yield chunk;
+  }
+}
+
+function toCsvRow(event: AnalyticsEvent): string {
+  return [
+    event.eventId,
+    event.tenantId,
+    event.userId ?? '',
+    event.eventName,
+    event.timestamp.toISOString(),
+    event.receivedAt.toISOString(),
+    event.sessionId ?? '',
+    event.deviceId ?? '',
+    JSON.stringify(event.properties),
+  ]
+    .map(escapeCsvField)
+    .join(',');
+}
@@ -0,0 +1,261 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Advisory locks for processes sharing a data directory. A lock on a file
+ * is a `<file>.lock` beside it, created exclusively and removed when the
+ * holder finishes. Every writer of the file must take the lock; readers
+ * rely on writes being renamed into place instead.
+ *
+ * A lock older than staleMs is assumed to belong to a process that died
+ * while holding it and is taken over, so a crash blocks writers for at
+ * most that long. Holders refresh their lock while they run, so a long
+ * write is never mistaken for a crash. Each lock file holds its holder's
+ * token, and a holder only refreshes or removes the lock while the token
+ * is still its own.
+ *
+ * The flat-file adapters take these locks through withFileLock, which also
+ * orders updates within the process, and write through writeJsonFile.
+ */
+
+export interface FileLockOptions {
+  retryMs?: number; // Wait between attempts while the lock is held
+  timeoutMs?: number; // Give up after waiting this long
+  staleMs?: number; // Take over locks older than this
+}
+
+export const LOCK_FILE_SUFFIX = '.lock';
+
+// Suffix for a file being written; renamed over the file when complete, so
+// a crash never leaves a truncated file behind
+export const WRITE_SUFFIX = '.tmp';
+
+const DEFAULT_RETRY_MS = 10;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 30_000;
+
+/**
+ * Run update while holding the advisory lock on filePath. The directory
+ * holding the file must exist.
+ */
+export async function withAdvisoryLock<T>(
+  filePath: string,
+  update: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const lockPath = filePath + LOCK_FILE_SUFFIX;
+  const token = await acquire(lockPath, options);
+  const heartbeat = setInterval(
+    () => void refresh(lockPath, token),
+    (options.staleMs ?? DEFAULT_STALE_MS) / 3
+  );
+  heartbeat.unref();
+
+  try {
+    return await update();
+  } finally {
+    clearInterval(heartbeat);
+    await release(lockPath, token);
+  }
+}
+
+// Tail of the pending updates to each file in this process, so concurrent
+// read-modify-writes never overwrite each other's changes
+const fileLocks = new Map<string, Promise<void>>();
+
+/**
+ * Run an update after every earlier update to the same file in this
+ * process has settled, holding the file's advisory lock so updates from
+ * other processes wait too. Creates the file's directory if needed.
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  update: () => Promise<T>
+): Promise<T> {
+  const previous = fileLocks.get(filePath) ?? Promise.resolve();
+  const result = previous.then(async () => {
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    return withAdvisoryLock(filePath, update);
+  });
+  const tail = result.then(
+    () => undefined,
+    () => undefined
+  );
+  fileLocks.set(filePath, tail);
+
+  try {
+    return await result;
+  } finally {
+    if (fileLocks.get(filePath) === tail) {
+      fileLocks.delete(filePath);
+    }
+  }
+}
+
+/**
+ * Write then rename, so readers never see a partially written file. Only
+ * call while holding the file's lock, as the temporary name is shared.
+ */
+export async function writeJsonFile(
+  filePath: string,
+  value: unknown
+): Promise<void> {
+  await fs.mkdir(dirname(filePath), { recursive: true });
+  await fs.writeFile(
+    filePath + WRITE_SUFFIX,
+    JSON.stringify(value, null, 2),
+    'utf8'
+  );
+  await fs.rename(filePath + WRITE_SUFFIX, filePath);
+}
+
+interface HeldLock {
+  token?: string; // Absent while the holder is still writing the file
+  ageMs: number;
+}
+
+/**
+ * Create the lock file holding a token unique to this holder, returning
+ * the token
+ */
+async function acquire(
+  lockPath: string,
+  options: FileLockOptions
+): Promise<string> {
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const token = randomUUID();
+  const startedAt = Date.now();
+
+  for (;;) {
+    try {
+      await fs.writeFile(
+        lockPath,
+        JSON.stringify({ pid: process.pid, token, acquiredAt: new Date() }),
+        { flag: 'wx' }
+      );
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const held = await readLock(lockPath);
+    if (held === undefined) {
+      continue; // Released between our attempt and the check
+    }
+    if (held.ageMs > staleMs) {
+      await takeOver(lockPath, held, token, options);
+      continue;
+    }
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error(`Timed out waiting for lock on ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+}
+
+/**
+ * Remove a stale lock by first renaming it to a name only this waiter
+ * uses. The rename is atomic, so of several waiters that found the lock
+ * stale only one moves it. A waiter that moved a fresh lock instead,
+ * created by another waiter that took over first, puts it back.
+ */
+async function takeOver(
+  lockPath: string,
+  stale: HeldLock,
+  token: string,
+  options: FileLockOptions
+): Promise<void> {
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const asidePath = `${lockPath}.${token}`;
+  try {
+    await fs.rename(lockPath, asidePath);
+  } catch {
+    return; // Already moved or released
+  }
+
+  const moved = await readLock(asidePath);
+  if (moved && (moved.token !== stale.token || moved.ageMs <= staleMs)) {
+    await restore(asidePath, lockPath, options);
+  }
+  await fs.unlink(asidePath).catch(() => undefined);
+}
+
+/**
+ * Put back a fresh lock moved aside. Another waiter may have locked the
+ * file while it was moved, so its holder has lost the lock; the restore is
+ * retried until that lock is released, or until the moved lock goes stale
+ * because its holder finished in the meantime.
+ */
+async function restore(
+  asidePath: string,
+  lockPath: string,
+  options: FileLockOptions
+): Promise<void> {
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+
+  for (;;) {
+    try {
+      await fs.link(asidePath, lockPath);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        return;
+      }
+    }
+
+    const moved = await readLock(asidePath);
+    if (moved === undefined || moved.ageMs > staleMs) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+}
+
+/**
+ * Mark the lock as recently used while it still holds this holder's token
+ */
+async function refresh(lockPath: string, token: string): Promise<void> {
+  const held = await readLock(lockPath);
+  if (held?.token === token) {
+    const now = new Date();
+    await fs.utimes(lockPath, now, now).catch(() => undefined);
+  }
+}
+
+/**
+ * Remove the lock only while it still holds this holder's token, so a
+ * holder whose lock was taken over as stale never removes the new owner's
+ */
+async function release(lockPath: string, token: string): Promise<void> {
+  const held = await readLock(lockPath);
+  if (held?.token === token) {
+    await fs.unlink(lockPath).catch(() => undefined);
+  }
+}
+
+async function readLock(lockPath: string): Promise<HeldLock | undefined> {
+  try {
+    const [content, { mtimeMs }] = await Promise.all([
+      fs.readFile(lockPath, 'utf8'),
+      fs.stat(lockPath),
+    ]);
+    return { token: parseToken(content), ageMs: Date.now() - mtimeMs };
+  } catch {
+    return undefined;
+  }
+}
+
+function parseToken(content: string): string | undefined {
+  try {
+    const { token } = JSON.parse(content);
+    return typeof token === 'string' ? token : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,13 +1,52 @@
-import { promises as fs } from 'fs';
+import { promises as fs, createReadStream } from 'fs';
 import { join, dirname } from 'path';
+import { createInterface } from 'readline';
 import { EventAdapter } from '../interfaces/storage.js';
 import {
   AnalyticsEvent,
   InsertResult,
   QueryFilter,
   QueryResult,
+  ExportFilter,
+  ExportFormat,
   ExportResult,
+  AggregationQuery,
+  AggregationResult,
 } from '../types/core.js';
+import { assertValidTenantId } from '../security/identifier-policy.js';
+import { createExportResult } from './event-export.js';
+import { aggregateEvents } from './event-aggregation.js';
+import { withFileLock } from './file-lock.js';
+import { eventOrdering, pageRecords } from './query-order.js';
+import { matchesPropertyFilter } from '../services/property-filter.js';
+
+interface PartitionFile {
+  path: string;
+  start: number; // inclusive, ms since epoch
+  end: number; // exclusive, ms since epoch
+}
+
+export interface RepartitionResult {
+  tenants: number;
+  filesRead: number;
+  filesWritten: number;
+  eventsWritten: number;
+  duplicatesDropped: number;
+}
+
+// Suffix for partition files being rebuilt; never matched by queries
+const REPARTITION_SUFFIX = '.repartition';
+
+// Lines buffered per target file before appending during a repartition
+const REPARTITION_FLUSH_LINES = 1000;
+
+// Suffix for a partition being rewritten without an erased user's events
+const ERASURE_SUFFIX = '.erasure';
+
+const YEAR_DIR_PATTERN = /^(\d{4})$/;
+const MONTH_DIR_PATTERN = /^(\d{2})$/;
+const PARTITION_FILE_PATTERN =
+  /^events-(\d{4})-(\d{2})-(\d{2})(?:-(\d{2}))?\.jsonl$/;
 
 export class FlatFileEventAdapter implements EventAdapter {
   private basePath: string;
@@ -27,7 +66,9 @@ export class FlatFileEventAdapter implements EventAdapter {
       await this.ensureDirectoryExists(dirname(filePath));
 
       const eventLine = JSON.stringify(event) + '\n';
-      await fs.appendFile(filePath, eventLine, 'utf8');
+      await withFileLock(filePath, () =>
+        fs.appendFile(filePath, eventLine, 'utf8')
+      );
 
       return {
         success: true,
@@ -42,43 +83,58 @@ export class FlatFileEventAdapter implements EventAdapter {
   }
 
   async insertBatch(events: AnalyticsEvent[]): Promise<InsertResult[]> {
-    const results: InsertResult[] = [];
+    // Results are returned in the same order as the input events
+    const results: InsertResult[] = new Array(events.length);
 
     // Group events by file path for efficient writing
-    const eventsByFile = new Map<string, AnalyticsEvent[]>();
+    const eventsByFile = new Map<string, number[]>();
+
+    events.forEach((event, index) => {
+      let filePath: string;
+      try {
+        filePath = this.getFilePath(event.tenantId, event.timestamp);
+      } catch (error) {
+        results[index] = {
+          success: false,
+          eventId: event.eventId,
+          error: `Failed to insert event: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+        return;
+      }
 
-    for (const event of events) {
-      const filePath = this.getFilePath(event.tenantId, event.timestamp);
       if (!eventsByFile.has(filePath)) {
         eventsByFile.set(filePath, []);
       }
-      eventsByFile.get(filePath)!.push(event);
-    }
+      eventsByFile.get(filePath)!.push(index);
+    });
 
     // Write events to their respective files
-    for (const [filePath, fileEvents] of eventsByFile) {
+    for (const [filePath, indexes] of eventsByFile) {
       try {
         await this.ensureDirectoryExists(dirname(filePath));
 
-        const lines = fileEvents
-          .map((event) => JSON.stringify(event) + '\n')
+        const lines = indexes
+          .map((index) => JSON.stringify(events[index]) + '\n')
           .join('');
-        await fs.appendFile(filePath, lines, 'utf8');
+        await withFileLock(filePath, () =>
+          fs.appendFile(filePath, lines, 'utf8')
+        );
 
         // Add success results for all events in this file
-        for (const event of fileEvents) {
-          results.push({
+        for (const index of indexes) {
+          results[index] = {
             success: true,
-            eventId: event.eventId,
-          });
+            eventId: events[index].eventId,
+          };
         }
       } catch (error) {
         // Add error results for all events in this file
-        for (const event of fileEvents) {
-          results.push({
+        for (const index of indexes) {
+          results[index] = {
             success: false,
+            eventId: events[index].eventId,
             error: `Failed to insert event: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          });
+          };
         }
       }
     }
@@ -90,116 +146,77 @@ export class FlatFileEventAdapter implements EventAdapter {
     const startTime = Date.now();
 
     try {
-      const events: AnalyticsEvent[] = [];
-      const filePaths = await this.getFilePathsForDateRange(
+      const offset = filter.offset || 0;
+      const limit = filter.limit || 100;
+      const ordering = eventOrdering(filter);
+      const { after } = filter;
+
+      // Partitions cover disjoint time ranges, so a time-ordered query can
+      // stop reading once the page is full and no unread partition overlaps,
+      // and skip partitions that lie wholly before a cursor
+      const timeOrdered = !filter.sortBy || filter.sortBy === 'timestamp';
+      const descending = !filter.sortBy || filter.sortOrder === 'desc';
+
+      let partitions = await this.getFilePathsForDateRange(
         filter.tenantId,
         filter.startTime,
         filter.endTime
       );
+      if (timeOrdered && after) {
+        const afterMs = after.value as number;
+        partitions = partitions.filter((partition) =>
+          descending ? partition.start <= afterMs : partition.end > afterMs
+        );
+      }
+      if (timeOrdered && descending) {
+        partitions.reverse();
+      }
 
-      for (const filePath of filePaths) {
-        try {
-          const content = await fs.readFile(filePath, 'utf8');
-          const lines = content.split('\n').filter((line) => line.trim());
-
-          for (const line of lines) {
-            try {
-              const eventData = JSON.parse(line);
-              const event: AnalyticsEvent = {
-                ...eventData,
-                timestamp: new Date(eventData.timestamp),
-                receivedAt: new Date(eventData.receivedAt),
-              };
-
-              // Apply filters
-              if (filter.eventName && event.eventName !== filter.eventName)
-                continue;
-              if (
-                filter.eventTypes &&
-                filter.eventTypes.length > 0 &&
-                !filter.eventTypes.includes(event.eventName)
-              )
-                continue;
-              if (filter.userId && event.userId !== filter.userId) continue;
-              if (filter.startTime && event.timestamp < filter.startTime)
-                continue;
-              if (filter.endTime && event.timestamp > filter.endTime) continue;
-
-              // Apply property filters
-              if (filter.properties) {
-                let matches = true;
-                for (const [key, value] of Object.entries(filter.properties)) {
-                  if (event.properties[key] !== value) {
-                    matches = false;
-                    break;
-                  }
-                }
-                if (!matches) continue;
-              }
-
-              events.push(event);
-            } catch (parseError) {
-              console.warn(`Failed to parse event line: ${line}`, parseError);
-            }
+      const events: AnalyticsEvent[] = [];
+      let readFrom = Infinity;
+      let readUntil = -Infinity;
+      let stoppedEarly = false;
+
+      for (const partition of partitions) {
+        if (timeOrdered && events.length >= offset + limit) {
+          const overlapsRead = descending
+            ? partition.end > readFrom
+            : partition.start < readUntil;
+          if (!overlapsRead) {
+            stoppedEarly = true;
+            break;
           }
-        } catch (fileError) {
-          console.warn(`Failed to read file: ${filePath}`, fileError);
         }
-      }
 
-      // Apply sorting
-      if (filter.sortBy) {
-        events.sort((a, b) => {
-          let aValue: any;
-          let bValue: any;
-
-          switch (filter.sortBy) {
-            case 'timestamp':
-              aValue = a.timestamp;
-              bValue = b.timestamp;
-              break;
-            case 'eventName':
-              aValue = a.eventName;
-              bValue = b.eventName;
-              break;
-            case 'userId':
-              aValue = a.userId || '';
-              bValue = b.userId || '';
-              break;
-            default:
-              return 0;
+        for await (const event of this.readEvents(partition.path)) {
+          if (
+            this.matches(event, filter) &&
+            (!after || ordering.compare(ordering.position(event), after) > 0)
+          ) {
+            events.push(event);
           }
+        }
 
-          if (aValue < bValue) {
-            return filter.sortOrder === 'desc' ? 1 : -1;
-          }
-          if (aValue > bValue) {
-            return filter.sortOrder === 'desc' ? -1 : 1;
-          }
-          return 0;
-        });
-      } else {
-        // Default sort by timestamp descending
-        events.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+        readFrom = Math.min(readFrom, partition.start);
+        readUntil = Math.max(readUntil, partition.end);
       }
 
-      // Apply pagination
-      const offset = filter.offset || 0;
-      const limit = filter.limit || 100;
-      const paginatedEvents = events.slice(offset, offset + limit);
+      // Apply pagination. After an early stop totalCount only covers the
+      // partitions that were read, so it is flagged as a lower bound.
+      const paged = pageRecords(events, ordering, { offset, limit });
+      const hasMore = stoppedEarly || paged.hasMore;
 
       const executionTime = Date.now() - startTime;
 
       return {
-        events: paginatedEvents,
-        totalCount: events.length,
-        hasMore: offset + limit < events.length,
+        events: paged.records,
+        totalCount: paged.totalCount,
+        ...(stoppedEarly && { totalCountIsLowerBound: true }),
+        hasMore,
         pagination: {
           limit,
           offset,
-          ...(offset + limit < events.length
-            ? { nextOffset: offset + limit }
-            : {}),
+          ...(hasMore ? { nextOffset: offset + limit } : {}),
         },
         executionTime,
       };
@@ -211,86 +228,81 @@ export class FlatFileEventAdapter implements EventAdapter {
   }
 
   async export(
-    startTime: Date,
-    endTime: Date,
-    format: 'json' | 'csv'
+    filter: ExportFilter,
+    format: ExportFormat
   ): Promise<ExportResult> {
     try {
-      const allEvents: AnalyticsEvent[] = [];
-      const tenantDirs = await this.getAllTenantDirectories();
-
-      for (const tenantId of tenantDirs) {
-        const filePaths = await this.getFilePathsForDateRange(
-          tenantId,
-          startTime,
-          endTime
-        );
+      const partitions = await this.getFilePathsForDateRange(
+        filter.tenantId,
+        filter.startTime,
+        filter.endTime
+      );
 
-        for (const filePath of filePaths) {
-          try {
-            const content = await fs.readFile(filePath, 'utf8');
-            const lines = content.split('\n').filter((line) => line.trim());
-
-            for (const line of lines) {
-              try {
-                const eventData = JSON.parse(line);
-                const event: AnalyticsEvent = {
-                  ...eventData,
-                  timestamp: new Date(eventData.timestamp),
-                  receivedAt: new Date(eventData.receivedAt),
-                };
-                if (
-                  event.timestamp >= startTime &&
-                  event.timestamp <= endTime
-                ) {
-                  allEvents.push(event);
-                }
-              } catch (parseError) {
-                console.warn(`Failed to parse event line: ${line}`, parseError);
-              }
+      return createExportResult(this.exportEvents(partitions, filter), format);
+    } catch (error) {
+      throw new Error(
+        `Failed to export events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async aggregate(query: AggregationQuery): Promise<AggregationResult> {
+    const startTime = Date.now();
+
+    try {
+      const partitions = await this.getFilePathsForDateRange(
+        query.filter.tenantId,
+        query.filter.startTime,
+        query.filter.endTime
+      );
+      const buckets = await aggregateEvents(
+        this.matchingEvents(partitions, query.filter),
+        query
+      );
+
+      return { buckets, executionTime: Date.now() - startTime };
+    } catch (error) {
+      throw new Error(
+        `Failed to aggregate events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Rewrite each partition holding the user's events without them. The new
+   * file is written beside the old one and renamed over it, so readers see
+   * either version and an interrupted erasure can be repeated.
+   */
+  async deleteUserEvents(tenantId: string, userId: string): Promise<string[]> {
+    const deleted: string[] = [];
+
+    try {
+      for (const partition of await this.getFilePathsForDateRange(tenantId)) {
+        await withFileLock(partition.path, async () => {
+          const kept: string[] = [];
+          const removed: string[] = [];
+
+          for await (const line of this.readLines(partition.path)) {
+            const event = this.parseEvent(line);
+            if (event?.userId === userId) {
+              removed.push(event.eventId);
+            } else {
+              kept.push(line + '\n');
             }
-          } catch (fileError) {
-            console.warn(`Failed to read file: ${filePath}`, fileError);
           }
-        }
-      }
+          if (removed.length === 0) return;
 
-      let data: string;
-      if (format === 'json') {
-        data = JSON.stringify(allEvents, null, 2);
-      } else {
-        // CSV format
-        if (allEvents.length === 0) {
-          data =
-            'eventId,tenantId,userId,eventName,timestamp,receivedAt,properties\n';
-        } else {
-          const headers =
-            'eventId,tenantId,userId,eventName,timestamp,receivedAt,properties\n';
-          const rows = allEvents
-            .map((event) =>
-              [
-                event.eventId,
-                event.tenantId,
-                event.userId || '',
-                event.eventName,
-                event.timestamp.toISOString(),
-                event.receivedAt.toISOString(),
-                JSON.stringify(event.properties).replace(/"/g, '""'),
-              ].join(',')
-            )
-            .join('\n');
-          data = headers + rows;
-        }
+          const rewritten = partition.path + ERASURE_SUFFIX;
+          await fs.writeFile(rewritten, kept.join(''), 'utf8');
+          await fs.rename(rewritten, partition.path);
+          deleted.push(...removed);
+        });
       }
 
-      return {
-        format,
-        data,
-        recordCount: allEvents.length,
-      };
+      return deleted;
     } catch (error) {
       throw new Error(
-        `Failed to export events: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Failed to delete user events: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
@@ -314,14 +326,106 @@ export class FlatFileEventAdapter implements EventAdapter {
     // No persistent connections to close for file-based storage
   }
 
+  /**
+   * Move every stored event into the partition getFilePath assigns it today.
+   * Run once to convert files written in server-local time to the UTC
+   * layout, or after changing the partition strategy. New files are built
+   * beside the old ones and swapped in at the end, and events are
+   * de-duplicated by eventId, so an interrupted run can simply be repeated.
+   * Writes must be stopped while it runs.
+   */
+  async repartition(): Promise<RepartitionResult> {
+    const result: RepartitionResult = {
+      tenants: 0,
+      filesRead: 0,
+      filesWritten: 0,
+      eventsWritten: 0,
+      duplicatesDropped: 0,
+    };
+
+    for (const tenantId of await this.getAllTenantDirectories()) {
+      const tenantPath = join(this.basePath, tenantId);
+      result.tenants++;
+
+      // Discard output from an interrupted run; its sources are still intact
+      for (const file of await fs.readdir(tenantPath, { recursive: true })) {
+        if (file.endsWith(REPARTITION_SUFFIX)) {
+          await fs.unlink(join(tenantPath, file));
+        }
+      }
+
+      const sources = await this.getFilePathsForDateRange(tenantId);
+      const seenEventIds = new Set<string>();
+      const pending = new Map<string, string[]>();
+      const targets = new Set<string>();
+
+      const flush = async (target: string): Promise<void> => {
+        const lines = pending.get(target);
+        if (!lines || lines.length === 0) return;
+        await this.ensureDirectoryExists(dirname(target));
+        await fs.appendFile(
+          target + REPARTITION_SUFFIX,
+          lines.join(''),
+          'utf8'
+        );
+        pending.set(target, []);
+      };
+
+      for (const source of sources) {
+        result.filesRead++;
+
+        for await (const event of this.readEvents(source.path)) {
+          if (seenEventIds.has(event.eventId)) {
+            result.duplicatesDropped++;
+            continue;
+          }
+          seenEventIds.add(event.eventId);
+
+          const target = this.getFilePath(tenantId, event.timestamp);
+          targets.add(target);
+
+          const lines = pending.get(target) || [];
+          lines.push(JSON.stringify(event) + '\n');
+          pending.set(target, lines);
+          result.eventsWritten++;
+
+          if (lines.length >= REPARTITION_FLUSH_LINES) {
+            await flush(target);
+          }
+        }
+      }
+
+      for (const target of targets) {
+        await flush(target);
+      }
+
+      // Swap the rebuilt files in, then drop sources that are no longer targets
+      for (const target of targets) {
+        await fs.rename(target + REPARTITION_SUFFIX, target);
+        result.filesWritten++;
+      }
+
+      for (const source of sources) {
+        if (!targets.has(source.path)) {
+          await fs.unlink(source.path);
+        }
+      }
+    }
+
+    return result;
+  }
+
   private getFilePath(tenantId: string, timestamp: Date): string {
-    const year = timestamp.getFullYear();
-    const month = String(timestamp.getMonth() + 1).padStart(2, '0');
-    const day = String(timestamp.getDate()).padStart(2, '0');
+    assertValidTenantId(tenantId);
+
+    // Partitions follow UTC so placement does not depend on the server timezone
+    const year = timestamp.getUTCFullYear();
+    const month = String(timestamp.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(timestamp.getUTCDate()).padStart(2, '0');
 
     let filename: string;
     if (this.partitionStrategy === 'hourly') {
-      const hour = String(timestamp.getHours()).padStart(2, '0');
+      const hour = String(timestamp.getUTCHours()).padStart(2, '0');
       filename = `events-${year}-${month}-${day}-${hour}.jsonl`;
     } else {
       filename = `events-${year}-${month}-${day}.jsonl`;
@@ -330,30 +434,69 @@ export class FlatFileEventAdapter implements EventAdapter {
     return join(this.basePath, tenantId, year.toString(), month, filename);
   }
 
+  /**
+   * List the tenant's partition files that can hold events in the range,
+   * ordered by partition start time. Directories and files whose names do
+   * not follow the partition layout are kept, with an unbounded range.
+   */
   private async getFilePathsForDateRange(
     tenantId: string,
     startTime?: Date,
     endTime?: Date
-  ): Promise<string[]> {
+  ): Promise<PartitionFile[]> {
+    assertValidTenantId(tenantId);
     const tenantPath = join(this.basePath, tenantId);
-    const filePaths: string[] = [];
+    const partitions: PartitionFile[] = [];
+
+    const overlaps = (start: number, end: number): boolean =>
+      (!endTime || start <= endTime.getTime()) &&
+      (!startTime || end > startTime.getTime());
 
     try {
       const yearDirs = await fs.readdir(tenantPath);
 
       for (const year of yearDirs) {
+        const yearMatch = YEAR_DIR_PATTERN.exec(year);
+        if (
+          yearMatch &&
+          !overlaps(
+            this.partitionStart(Number(yearMatch[1]), 1),
+            this.partitionStart(Number(yearMatch[1]) + 1, 1)
+          )
+        ) {
+          continue;
+        }
+
         const yearPath = join(tenantPath, year);
         try {
           const monthDirs = await fs.readdir(yearPath);
 
           for (const month of monthDirs) {
+            const monthMatch = MONTH_DIR_PATTERN.exec(month);
+            if (
+              yearMatch &&
+              monthMatch &&
+              !overlaps(
+                this.partitionStart(Number(year), Number(month)),
+                this.partitionStart(Number(year), Number(month) + 1)
+              )
+            ) {
+              continue;
+            }
+
             const monthPath = join(yearPath, month);
             try {
               const files = await fs.readdir(monthPath);
 
               for (const file of files) {
-                if (file.endsWith('.jsonl')) {
-                  filePaths.push(join(monthPath, file));
+                if (!file.endsWith('.jsonl')) continue;
+
+                const partition = this.parsePartitionFile(
+                  join(monthPath, file),
+                  file
+                );
+                if (overlaps(partition.start, partition.end)) {
+                  partitions.push(partition);
                 }
               }
             } catch {
@@ -369,7 +512,165 @@ export class FlatFileEventAdapter implements EventAdapter {
       return [];
     }
 
-    return filePaths;
+    return partitions.sort((a, b) => a.start - b.start || a.end - b.end);
+  }
+
+  private parsePartitionFile(path: string, file: string): PartitionFile {
+    const match = PARTITION_FILE_PATTERN.exec(file);
+    if (!match) {
+      return { path, start: -Infinity, end: Infinity };
+    }
+
+    const [, year, month, day, hour] = match.map(Number) as number[];
+    if (hour === undefined || isNaN(hour)) {
+      return {
+        path,
+        start: this.partitionStart(year!, month!, day!),
+        end: this.partitionStart(year!, month!, day! + 1),
+      };
+    }
+
+    return {
+      path,
+      start: this.partitionStart(year!, month!, day!, hour),
+      end: this.partitionStart(year!, month!, day!, hour + 1),
+    };
+  }
+
+  /**
+   * UTC start of a partition, matching the naming used by getFilePath.
+   * Out-of-range parts roll over, so month 13 is January of the next year.
+   */
+  private partitionStart(
+    year: number,
+    month: number,
+    day: number = 1,
+    hour: number = 0
+  ): number {
+    return Date.UTC(year, month - 1, day, hour);
+  }
+
+  private matches(event: AnalyticsEvent, filter: QueryFilter): boolean {
+    if (filter.eventName && event.eventName !== filter.eventName) return false;
+    if (
+      filter.eventTypes &&
+      filter.eventTypes.length > 0 &&
+      !filter.eventTypes.includes(event.eventName)
+    )
+      return false;
+    if (filter.userId && event.userId !== filter.userId) return false;
+    if (
+      filter.userIds &&
+      !(event.userId && filter.userIds.includes(event.userId))
+    )
+      return false;
+    if (filter.startTime && event.timestamp < filter.startTime) return false;
+    if (filter.endTime && event.timestamp > filter.endTime) return false;
+
+    // Apply property filters
+    if (filter.properties) {
+      for (const [key, value] of Object.entries(filter.properties)) {
+        if (event.properties[key] !== value) {
+          return false;
+        }
+      }
+    }
+
+    if (
+      filter.where &&
+      !matchesPropertyFilter(event.properties, filter.where)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private async *matchingEvents(
+    partitions: PartitionFile[],
+    filter: QueryFilter
+  ): AsyncGenerator<AnalyticsEvent> {
+    for (const partition of partitions) {
+      for await (const event of this.readEvents(partition.path)) {
+        if (this.matches(event, filter)) {
+          yield event;
+        }
+      }
+    }
+  }
+
+  /**
+   * Partitions cover disjoint time ranges, so sorting one partition at a time
+   * keeps the whole export in time order while buffering a single partition
+   */
+  private async *exportEvents(
+    partitions: PartitionFile[],
+    filter: ExportFilter
+  ): AsyncGenerator<AnalyticsEvent> {
+    for (const partition of partitions) {
+      const events: AnalyticsEvent[] = [];
+      for await (const event of this.readEvents(partition.path)) {
+        if (this.matches(event, filter)) {
+          events.push(event);
+        }
+      }
+
+      events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      yield* events;
+    }
+  }
+
+  /**
+   * Stream events from a partition file line by line
+   */
+  private async *readEvents(filePath: string): AsyncGenerator<AnalyticsEvent> {
+    for await (const line of this.readLines(filePath)) {
+      const event = this.parseEvent(line);
+      if (event) {
+        yield event;
+      }
+    }
+  }
+
+  /**
+   * Stream the non-blank lines of a partition file. A partition removed
+   * since it was listed reads as empty; any other read error is thrown, as
+   * ending early would pass for the whole file and erasures would rewrite
+   * the partition without the lines that were never read.
+   */
+  private async *readLines(filePath: string): AsyncGenerator<string> {
+    const input = createReadStream(filePath, { encoding: 'utf8' });
+    const lines = createInterface({ input, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (line.trim()) {
+          yield line;
+        }
+      }
+    } catch (fileError) {
+      if ((fileError as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw fileError;
+      }
+    } finally {
+      // Release the file handle when the consumer stops iterating early
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  private parseEvent(line: string): AnalyticsEvent | undefined {
+    try {
+      const eventData = JSON.parse(line);
+      return {
+        ...eventData,
+        timestamp: new Date(eventData.timestamp),
+        receivedAt: new Date(eventData.receivedAt),
+      };
+    } catch (parseError) {
+      console.warn(`Failed to parse event line: ${line}`, parseError);
+      return undefined;
+    }
   }
 
   private async getAllTenantDirectories(): Promise<string[]> {
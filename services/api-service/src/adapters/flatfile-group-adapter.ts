@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { GroupAdapter } from '../interfaces/storage.js';
+import {
+  DEFAULT_GROUP_TYPE,
+  GroupRecord,
+  GroupMembership,
+  GroupUpdate,
+  GroupUpsertResult,
+} from '../types/core.js';
+import {
+  assertValidTenantId,
+  groupIdToPathSegment,
+} from '../security/identifier-policy.js';
+import { withFileLock, writeJsonFile } from './file-lock.js';
+
+// A group as stored on disk, with the userIds of its members
+interface StoredGroup extends GroupRecord {
+  members: string[];
+}
+
+/**
+ * Group storage as one JSON file per group, holding the group's traits and
+ * its members, under <basePath>/<tenantId>/groups. Updates hold the file's
+ * lock and are renamed into place, as for users.
+ */
+export class FlatFileGroupAdapter implements GroupAdapter {
+  private basePath: string;
+
+  constructor(basePath: string) {
+    this.basePath = basePath;
+  }
+
+  async upsert(
+    group: GroupUpdate,
+    memberId?: string
+  ): Promise<GroupUpsertResult> {
+    try {
+      const filePath = this.getGroupFilePath(group.tenantId, group.groupId);
+
+      return await withFileLock(filePath, async () => {
+        const existing = await this.readGroupFile(filePath);
+        const members = existing?.members ?? [];
+        const memberAdded =
+          memberId !== undefined && !members.includes(memberId);
+
+        const updated: StoredGroup = {
+          groupId: group.groupId,
+          tenantId: group.tenantId,
+          groupType:
+            group.groupType ?? existing?.groupType ?? DEFAULT_GROUP_TYPE,
+          properties: {
+            ...(existing?.properties ?? {}),
+            ...group.properties,
+          },
+          createdAt: existing ? existing.createdAt : group.createdAt,
+          updatedAt: group.updatedAt,
+          members: memberAdded ? [...members, memberId].sort() : members,
+        };
+        await writeJsonFile(filePath, updated);
+
+        return {
+          success: true,
+          groupId: group.groupId,
+          groupType: updated.groupType,
+          created: !existing,
+          memberAdded,
+        };
+      });
+    } catch (error) {
+      return {
+        success: false,
+        created: false,
+        memberAdded: false,
+        error: `Failed to upsert group: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async get(tenantId: string, groupId: string): Promise<GroupRecord | null> {
+    try {
+      const stored = await this.readGroupFile(
+        this.getGroupFilePath(tenantId, groupId)
+      );
+      if (!stored) {
+        return null;
+      }
+
+      const { members, ...group } = stored;
+      return group;
+    } catch {
+      return null;
+    }
+  }
+
+  async getMembers(tenantId: string, groupId: string): Promise<string[]> {
+    const stored = await this.readGroupFile(
+      this.getGroupFilePath(tenantId, groupId)
+    );
+    return stored?.members ?? [];
+  }
+
+  async getMemberships(
+    tenantId: string,
+    groupType?: string
+  ): Promise<GroupMembership[]> {
+    const memberships: GroupMembership[] = [];
+
+    for (const filePath of await this.listGroupFiles(tenantId)) {
+      const stored = await this.readGroupFile(filePath);
+      if (!stored) continue;
+      if (groupType !== undefined && stored.groupType !== groupType) continue;
+
+      for (const userId of stored.members) {
+        memberships.push({
+          groupId: stored.groupId,
+          groupType: stored.groupType,
+          userId,
+        });
+      }
+    }
+
+    return memberships;
+  }
+
+  async removeMember(tenantId: string, userId: string): Promise<number> {
+    let removed = 0;
+
+    for (const filePath of await this.listGroupFiles(tenantId)) {
+      // Checked before locking, so groups without the user are not rewritten
+      const stored = await this.readGroupFile(filePath);
+      if (!stored?.members.includes(userId)) continue;
+
+      await withFileLock(filePath, async () => {
+        const current = await this.readGroupFile(filePath);
+        if (!current?.members.includes(userId)) return;
+
+        await writeJsonFile(filePath, {
+          ...current,
+          members: current.members.filter((member) => member !== userId),
+        });
+        removed++;
+      });
+    }
+
+    return removed;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.ensureDirectoryExists(this.basePath);
+
+      // Test write access
+      const testFile = join(this.basePath, '.health-check');
+      await fs.writeFile(testFile, 'test', 'utf8');
+      await fs.unlink(testFile);
+
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    // No persistent connections to close for file-based storage
+  }
+
+  private getGroupFilePath(tenantId: string, groupId: string): string {
+    assertValidTenantId(tenantId);
+    return join(
+      this.basePath,
+      tenantId,
+      'groups',
+      `${groupIdToPathSegment(groupId)}.json`
+    );
+  }
+
+  private async listGroupFiles(tenantId: string): Promise<string[]> {
+    assertValidTenantId(tenantId);
+    const groupsPath = join(this.basePath, tenantId, 'groups');
+
+    try {
+      return (await fs.readdir(groupsPath))
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => join(groupsPath, file));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return []; // No groups recorded yet
+      }
+      throw error;
+    }
+  }
+
+  private async readGroupFile(filePath: string): Promise<StoredGroup | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(content);
+    return {
+      ...parsed,
+      createdAt: new Date(parsed.createdAt),
+      updatedAt: new Date(parsed.updatedAt),
+    };
+  }
+
+  private async ensureDirectoryExists(dirPath: string): Promise<void> {
+    await fs.mkdir(dirPath, { recursive: true });
+  }
+}
@@ -1,13 +1,46 @@
 import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
+import { join } from 'path';
 import { UserAdapter } from '../interfaces/storage.js';
 import {
   UserRecord,
   UpsertResult,
+  AliasResult,
+  TraitOperations,
+  UserCounterIncrements,
   UserQueryFilter,
   UserQueryResult,
 } from '../types/core.js';
+import {
+  assertValidTenantId,
+  userIdToPathSegment,
+} from '../security/identifier-policy.js';
+import { matchesPropertyFilter } from '../services/property-filter.js';
+import { pageRecords, userOrdering } from './query-order.js';
+import {
+  mergeAliasProfile,
+  planAlias,
+  toAliasResult,
+} from './identity-graph.js';
+import { applyTraitOperations } from './trait-operations.js';
+import { incrementUserCounters } from './user-counters.js';
+import { withFileLock, writeJsonFile } from './file-lock.js';
+
+// An id's entry in the identity graph: an alias names the user it resolves
+// to, and a user lists its aliases
+interface AliasEntry {
+  userId?: string;
+  aliases?: string[];
+}
 
+/**
+ * User storage as one JSON file per user, plus one identity graph entry
+ * per aliased id, so resolving ids reads only their entries. Every
+ * read-modify-write holds the file's lock, both within this process and
+ * across processes sharing the directory, and is written to a temporary
+ * file renamed into place, so readers never see partial files. Changes to
+ * the graph hold the tenant's graph lock, as an alias can move the aliases
+ * of the id it links.
+ */
 export class FlatFileUserAdapter implements UserAdapter {
   private basePath: string;
   private tenantIsolation: boolean;
@@ -17,52 +50,87 @@ export class FlatFileUserAdapter implements UserAdapter {
     this.tenantIsolation = tenantIsolation;
   }
 
-  async upsert(user: UserRecord): Promise<UpsertResult> {
+  async upsert(
+    user: UserRecord,
+    operations?: TraitOperations
+  ): Promise<UpsertResult> {
     try {
       const filePath = this.getUserFilePath(user.tenantId, user.userId);
-      await this.ensureDirectoryExists(dirname(filePath));
 
-      let existingUser: UserRecord | null = null;
-      let created = true;
+      return await withFileLock(filePath, async () => {
+        let existingUser: UserRecord | null = null;
+        let created = true;
 
-      try {
-        const existingContent = await fs.readFile(filePath, 'utf8');
-        existingUser = JSON.parse(existingContent) as UserRecord;
-        created = false;
-      } catch {
-        // File doesn't exist, this is a new user
-      }
+        try {
+          const existingContent = await fs.readFile(filePath, 'utf8');
+          existingUser = JSON.parse(existingContent) as UserRecord;
+          created = false;
+        } catch {
+          // File doesn't exist, this is a new user
+        }
 
-      const updatedUser: UserRecord = {
-        userId: user.userId,
-        tenantId: user.tenantId,
-        properties: existingUser
-          ? { ...existingUser.properties, ...user.properties }
-          : user.properties,
-        firstSeen: existingUser ? existingUser.firstSeen : user.firstSeen,
-        lastSeen: user.lastSeen,
-        sessionCount: existingUser
-          ? existingUser.sessionCount
-          : user.sessionCount,
-        eventCount: existingUser ? existingUser.eventCount : user.eventCount,
-      };
+        const updatedUser: UserRecord = {
+          userId: user.userId,
+          tenantId: user.tenantId,
+          properties: applyTraitOperations(
+            existingUser?.properties ?? {},
+            user.properties,
+            operations
+          ),
+          firstSeen: existingUser ? existingUser.firstSeen : user.firstSeen,
+          lastSeen: user.lastSeen,
+          sessionCount: existingUser
+            ? existingUser.sessionCount
+            : user.sessionCount,
+          eventCount: existingUser ? existingUser.eventCount : user.eventCount,
+        };
 
-      await fs.writeFile(
-        filePath,
-        JSON.stringify(updatedUser, null, 2),
-        'utf8'
-      );
+        await writeJsonFile(filePath, updatedUser);
 
+        return {
+          success: true,
+          userId: user.userId,
+          created,
+        };
+      });
+    } catch (error) {
       return {
-        success: true,
-        userId: user.userId,
-        created,
+        success: false,
+        created: false,
+        error: `Failed to upsert user: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
+    }
+  }
+
+  async incrementCounters(
+    tenantId: string,
+    userId: string,
+    increments: UserCounterIncrements,
+    seenAt: Date
+  ): Promise<UpsertResult> {
+    try {
+      const filePath = this.getUserFilePath(tenantId, userId);
+
+      return await withFileLock(filePath, async () => {
+        const existingUser = await this.get(tenantId, userId);
+        await writeJsonFile(
+          filePath,
+          incrementUserCounters(
+            existingUser,
+            tenantId,
+            userId,
+            increments,
+            seenAt
+          )
+        );
+
+        return { success: true, userId, created: !existingUser };
+      });
     } catch (error) {
       return {
         success: false,
         created: false,
-        error: `Failed to upsert user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: `Failed to increment user counters: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
@@ -85,9 +153,23 @@ export class FlatFileUserAdapter implements UserAdapter {
   }
 
   async delete(tenantId: string, userId: string): Promise<boolean> {
+    await withFileLock(this.getAliasGraphLockPath(tenantId), async () => {
+      const entry = await this.readAliasEntry(tenantId, userId);
+      if (entry.userId !== undefined) {
+        const user = await this.readAliasEntry(tenantId, entry.userId);
+        await this.writeAliasEntry(tenantId, entry.userId, {
+          aliases: (user.aliases ?? []).filter((id) => id !== userId),
+        });
+      }
+      for (const aliasId of entry.aliases ?? []) {
+        await this.writeAliasEntry(tenantId, aliasId, {});
+      }
+      await this.writeAliasEntry(tenantId, userId, {});
+    });
+
     try {
       const filePath = this.getUserFilePath(tenantId, userId);
-      await fs.unlink(filePath);
+      await withFileLock(filePath, () => fs.unlink(filePath));
       return true;
     } catch {
       return false;
@@ -107,6 +189,93 @@ export class FlatFileUserAdapter implements UserAdapter {
     return users;
   }
 
+  async alias(
+    tenantId: string,
+    aliasId: string,
+    userId: string
+  ): Promise<AliasResult> {
+    try {
+      const lockPath = this.getAliasGraphLockPath(tenantId);
+
+      return await withFileLock(lockPath, async () => {
+        const target = await this.readAliasEntry(tenantId, userId);
+        const entry = await this.readAliasEntry(tenantId, aliasId);
+        const link = planAlias(aliasId, target.userId ?? userId, entry.userId);
+        if (link.status !== 'linked') {
+          return toAliasResult(aliasId, link);
+        }
+
+        // Profiles merge before the link is saved, so an interrupted alias
+        // leaves no profile behind under an id that already resolves away
+        const filePath = this.getUserFilePath(tenantId, link.userId);
+        const aliasPath = this.getUserFilePath(tenantId, aliasId);
+        const aliasUser = await withFileLock(filePath, () =>
+          withFileLock(aliasPath, async () => {
+            const aliasUser = await this.get(tenantId, aliasId);
+            if (aliasUser) {
+              const merged = mergeAliasProfile(
+                await this.get(tenantId, link.userId),
+                aliasUser,
+                link.userId
+              );
+              await writeJsonFile(filePath, merged);
+              await fs.unlink(aliasPath);
+            }
+            return aliasUser;
+          })
+        );
+
+        // The user's list is written first and the alias's own entry last,
+        // so an interrupted alias is completed by repeating it. The alias's
+        // own aliases move to the user with it.
+        const user =
+          link.userId === userId
+            ? target
+            : await this.readAliasEntry(tenantId, link.userId);
+        const moved = entry.aliases ?? [];
+        await this.writeAliasEntry(tenantId, link.userId, {
+          aliases: [
+            ...new Set([...(user.aliases ?? []), aliasId, ...moved]),
+          ].sort(),
+        });
+        for (const id of moved) {
+          await this.writeAliasEntry(tenantId, id, { userId: link.userId });
+        }
+        await this.writeAliasEntry(tenantId, aliasId, { userId: link.userId });
+
+        return toAliasResult(aliasId, link, aliasUser !== null);
+      });
+    } catch (error) {
+      return {
+        success: false,
+        linked: false,
+        profileMerged: false,
+        error: `Failed to alias user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async resolveIdentities(
+    tenantId: string,
+    ids: string[]
+  ): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+
+    for (const id of new Set(ids)) {
+      const { userId } = await this.readAliasEntry(tenantId, id);
+      if (userId !== undefined) {
+        resolved.set(id, userId);
+      }
+    }
+
+    return resolved;
+  }
+
+  async getAliases(tenantId: string, userId: string): Promise<string[]> {
+    const { aliases } = await this.readAliasEntry(tenantId, userId);
+    return [...(aliases ?? [])].sort();
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.ensureDirectoryExists(this.basePath);
@@ -125,6 +294,7 @@ export class FlatFileUserAdapter implements UserAdapter {
   async query(filter: UserQueryFilter): Promise<UserQueryResult> {
     try {
       const users: UserRecord[] = [];
+      assertValidTenantId(filter.tenantId);
       const tenantPath = this.tenantIsolation
         ? join(this.basePath, filter.tenantId, 'users')
         : join(this.basePath, 'users');
@@ -163,6 +333,11 @@ export class FlatFileUserAdapter implements UserAdapter {
                 }
                 if (!matches) continue;
               }
+              if (
+                filter.where &&
+                !matchesPropertyFilter(user.properties, filter.where)
+              )
+                continue;
 
               users.push(user);
             } catch (parseError) {
@@ -184,59 +359,13 @@ export class FlatFileUserAdapter implements UserAdapter {
         };
       }
 
-      // Apply sorting
-      if (filter.sortBy) {
-        users.sort((a, b) => {
-          let aValue: any;
-          let bValue: any;
-
-          switch (filter.sortBy) {
-            case 'firstSeen':
-              aValue = a.firstSeen;
-              bValue = b.firstSeen;
-              break;
-            case 'lastSeen':
-              aValue = a.lastSeen;
-              bValue = b.lastSeen;
-              break;
-            case 'eventCount':
-              aValue = a.eventCount;
-              bValue = b.eventCount;
-              break;
-            case 'sessionCount':
-              aValue = a.sessionCount;
-              bValue = b.sessionCount;
-              break;
-            default:
-              return 0;
-          }
-
-          if (aValue < bValue) {
-            return filter.sortOrder === 'desc' ? 1 : -1;
-          }
-          if (aValue > bValue) {
-            return filter.sortOrder === 'desc' ? -1 : 1;
-          }
-          return 0;
-        });
-      }
-
-      // Apply pagination
-      const offset = filter.offset || 0;
-      const limit = filter.limit || 100;
-      const paginatedUsers = users.slice(offset, offset + limit);
+      const paged = pageRecords(users, userOrdering(filter), filter);
 
       return {
-        users: paginatedUsers,
-        totalCount: users.length,
-        hasMore: offset + limit < users.length,
-        pagination: {
-          limit,
-          offset,
-          ...(offset + limit < users.length
-            ? { nextOffset: offset + limit }
-            : {}),
-        },
+        users: paged.records,
+        totalCount: paged.totalCount,
+        hasMore: paged.hasMore,
+        pagination: paged.pagination,
         executionTime: 0,
       };
     } catch (error) {
@@ -251,11 +380,79 @@ export class FlatFileUserAdapter implements UserAdapter {
   }
 
   private getUserFilePath(tenantId: string, userId: string): string {
+    assertValidTenantId(tenantId);
+    const userSegment = userIdToPathSegment(userId);
+
+    if (this.tenantIsolation) {
+      return join(this.basePath, tenantId, 'users', `${userSegment}.json`);
+    } else {
+      return join(this.basePath, 'users', `${tenantId}-${userSegment}.json`);
+    }
+  }
+
+  /**
+   * An id's identity graph entry, kept in an aliases directory beside the
+   * tenant's users directory and named the same way as user files
+   */
+  private getAliasEntryPath(tenantId: string, id: string): string {
+    assertValidTenantId(tenantId);
+    const idSegment = userIdToPathSegment(id);
+
+    if (this.tenantIsolation) {
+      return join(this.basePath, tenantId, 'aliases', `${idSegment}.json`);
+    } else {
+      return join(this.basePath, 'aliases', `${tenantId}-${idSegment}.json`);
+    }
+  }
+
+  /**
+   * The path whose lock guards changes to the tenant's identity graph
+   */
+  private getAliasGraphLockPath(tenantId: string): string {
+    assertValidTenantId(tenantId);
+
     if (this.tenantIsolation) {
-      return join(this.basePath, tenantId, 'users', `${userId}.json`);
+      return join(this.basePath, tenantId, 'aliases');
     } else {
-      return join(this.basePath, 'users', `${tenantId}-${userId}.json`);
+      return join(this.basePath, 'aliases', tenantId);
+    }
+  }
+
+  private async readAliasEntry(
+    tenantId: string,
+    id: string
+  ): Promise<AliasEntry> {
+    try {
+      const content = await fs.readFile(
+        this.getAliasEntryPath(tenantId, id),
+        'utf8'
+      );
+      return JSON.parse(content) as AliasEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {}; // Neither an alias nor a user with aliases
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Only call while holding the tenant's graph lock; an entry with neither
+   * a user nor aliases is removed
+   */
+  private async writeAliasEntry(
+    tenantId: string,
+    id: string,
+    entry: AliasEntry
+  ): Promise<void> {
+    const entryPath = this.getAliasEntryPath(tenantId, id);
+    if (entry.userId === undefined && !entry.aliases?.length) {
+      await fs.unlink(entryPath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+      return;
     }
+    await writeJsonFile(entryPath, entry);
   }
 
   private async ensureDirectoryExists(dirPath: string): Promise<void> {
@@ -0,0 +1,106 @@
+import { AliasResult, UserRecord } from '../types/core.js';
+
+/**
+ * Identity graph rules shared by the user adapters. A tenant's graph maps
+ * each alias (an anonymous, device or earlier userId) straight to its
+ * canonical userId, so resolving an id is a single lookup: when an id that
+ * has aliases of its own becomes an alias, those aliases move with it.
+ */
+
+export type AliasLink =
+  | { status: 'linked'; userId: string }
+  | { status: 'unchanged'; userId: string }
+  | { status: 'conflict'; userId: string }; // userId owns the alias
+
+/**
+ * Decide how an alias joins a user, given the canonical id the user
+ * resolves to and the user the alias already resolves to, if any
+ */
+export function planAlias(
+  aliasId: string,
+  canonical: string,
+  current: string | undefined
+): AliasLink {
+  if (aliasId === canonical || current === canonical) {
+    return { status: 'unchanged', userId: canonical };
+  }
+  if (current !== undefined) {
+    return { status: 'conflict', userId: current };
+  }
+  return { status: 'linked', userId: canonical };
+}
+
+/**
+ * Apply an alias to an in-process graph of alias to canonical userId
+ */
+export function linkAlias(
+  graph: Map<string, string>,
+  aliasId: string,
+  userId: string
+): AliasLink {
+  const link = planAlias(
+    aliasId,
+    graph.get(userId) ?? userId,
+    graph.get(aliasId)
+  );
+
+  if (link.status === 'linked') {
+    for (const [id, target] of graph) {
+      if (target === aliasId) {
+        graph.set(id, link.userId);
+      }
+    }
+    graph.set(aliasId, link.userId);
+  }
+
+  return link;
+}
+
+/**
+ * The profile kept when an alias's profile joins a user's. The user's own
+ * traits win over the alias's, activity spans both, and counts add up.
+ */
+export function mergeAliasProfile(
+  user: UserRecord | null,
+  alias: UserRecord,
+  userId: string
+): UserRecord {
+  if (!user) {
+    return { ...alias, userId };
+  }
+
+  return {
+    userId,
+    tenantId: user.tenantId,
+    properties: { ...alias.properties, ...user.properties },
+    firstSeen:
+      alias.firstSeen < user.firstSeen ? alias.firstSeen : user.firstSeen,
+    lastSeen: alias.lastSeen > user.lastSeen ? alias.lastSeen : user.lastSeen,
+    sessionCount: user.sessionCount + alias.sessionCount,
+    eventCount: user.eventCount + alias.eventCount,
+  };
+}
+
+export function toAliasResult(
+  aliasId: string,
+  link: AliasLink,
+  profileMerged: boolean = false
+): AliasResult {
+  if (link.status === 'conflict') {
+    return {
+      success: false,
+      userId: link.userId,
+      linked: false,
+      profileMerged: false,
+      conflict: true,
+      error: `Alias ${aliasId} already belongs to user ${link.userId}`,
+    };
+  }
+
+  return {
+    success: true,
+    userId: link.userId,
+    linked: link.status === 'linked',
+    profileMerged,
+  };
+}
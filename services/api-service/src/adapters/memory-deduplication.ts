@@ -8,33 +8,34 @@ interface DeduplicationRecord {
 export class MemoryDeduplicationAdapter implements DeduplicationAdapter {
   private processed = new Map<string, DeduplicationRecord>();
   private maxRecords: number;
+  private retentionSeconds: number;
 
-  constructor(maxRecords: number = 50000) {
+  constructor(maxRecords: number = 50000, retentionSeconds: number = 3600) {
     this.maxRecords = maxRecords;
+    this.retentionSeconds = retentionSeconds;
 
     // Cleanup expired records every 5 minutes
     setInterval(() => {
-      this.cleanup(3600); // Remove records older than 1 hour by default
+      this.cleanup(this.retentionSeconds);
     }, 300000);
   }
 
   async isDuplicate(tenantId: string, eventId: string): Promise<boolean> {
-    const key = this.getKey(tenantId, eventId);
-    const record = this.processed.get(key);
+    return this.hasRecord(this.getKey(tenantId, eventId));
+  }
 
-    if (!record) {
+  async claim(
+    tenantId: string,
+    eventId: string,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    // Checked and set without yielding, so concurrent claims cannot interleave
+    const key = this.getKey(tenantId, eventId);
+    if (this.hasRecord(key)) {
       return false;
     }
 
-    // Check if record has expired
-    if (record.ttl) {
-      const age = (Date.now() - record.processedAt.getTime()) / 1000;
-      if (age > record.ttl) {
-        this.processed.delete(key);
-        return false;
-      }
-    }
-
+    this.setRecord(key, ttlSeconds);
     return true;
   }
 
@@ -42,23 +43,21 @@ export class MemoryDeduplicationAdapter implements DeduplicationAdapter {
     tenantId: string,
     eventId: string,
     ttlSeconds?: number
-  ): Promise<void> {
+  ): Promise<boolean> {
     const key = this.getKey(tenantId, eventId);
+    const added = !this.hasRecord(key);
+    this.setRecord(key, ttlSeconds);
+    return added;
+  }
 
-    const record: DeduplicationRecord = {
-      processedAt: new Date(),
-    };
-
-    if (ttlSeconds !== undefined) {
-      record.ttl = ttlSeconds;
-    }
-
-    this.processed.set(key, record);
-
-    // Implement LRU eviction if we have too many records
-    if (this.processed.size > this.maxRecords) {
-      this.evictOldestRecords();
+  async forget(tenantId: string, eventIds: string[]): Promise<number> {
+    let removed = 0;
+    for (const eventId of eventIds) {
+      if (this.processed.delete(this.getKey(tenantId, eventId))) {
+        removed++;
+      }
     }
+    return removed;
   }
 
   async cleanup(olderThanSeconds: number): Promise<number> {
@@ -92,6 +91,42 @@ export class MemoryDeduplicationAdapter implements DeduplicationAdapter {
     this.processed.clear();
   }
 
+  private hasRecord(key: string): boolean {
+    const record = this.processed.get(key);
+
+    if (!record) {
+      return false;
+    }
+
+    // Check if record has expired
+    if (record.ttl) {
+      const age = (Date.now() - record.processedAt.getTime()) / 1000;
+      if (age > record.ttl) {
+        this.processed.delete(key);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private setRecord(key: string, ttlSeconds?: number): void {
+    const record: DeduplicationRecord = {
+      processedAt: new Date(),
+    };
+
+    if (ttlSeconds !== undefined) {
+      record.ttl = ttlSeconds;
+    }
+
+    this.processed.set(key, record);
+
+    // Implement LRU eviction if we have too many records
+    if (this.processed.size > this.maxRecords) {
+      this.evictOldestRecords();
+    }
+  }
+
   private getKey(tenantId: string, eventId: string): string {
     return `${tenantId}:${eventId}`;
   }
@@ -0,0 +1,179 @@
+import { EventAdapter } from '../interfaces/storage.js';
+import {
+  AnalyticsEvent,
+  InsertResult,
+  QueryFilter,
+  QueryResult,
+  ExportFilter,
+  ExportFormat,
+  ExportResult,
+  AggregationQuery,
+  AggregationResult,
+} from '../types/core.js';
+import { createExportResult } from './event-export.js';
+import { aggregateEvents } from './event-aggregation.js';
+import { eventOrdering, pageRecords } from './query-order.js';
+import { matchesPropertyFilter } from '../services/property-filter.js';
+
+/**
+ * Event storage held in process memory. Nothing survives a restart, which
+ * makes it suitable for tests and ephemeral deployments only.
+ */
+export class MemoryEventAdapter implements EventAdapter {
+  private eventsByTenant = new Map<string, AnalyticsEvent[]>();
+
+  async insert(event: AnalyticsEvent): Promise<InsertResult> {
+    try {
+      this.store(event);
+
+      return {
+        success: true,
+        eventId: event.eventId,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to insert event: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async insertBatch(events: AnalyticsEvent[]): Promise<InsertResult[]> {
+    return Promise.all(events.map((event) => this.insert(event)));
+  }
+
+  async query(filter: QueryFilter): Promise<QueryResult> {
+    const startTime = Date.now();
+
+    try {
+      const events = (this.eventsByTenant.get(filter.tenantId) || [])
+        .filter((event) => this.matches(event, filter))
+        .map((event) => this.copy(event));
+
+      const paged = pageRecords(events, eventOrdering(filter), filter);
+
+      return {
+        events: paged.records,
+        totalCount: paged.totalCount,
+        hasMore: paged.hasMore,
+        pagination: paged.pagination,
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to query events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async export(
+    filter: ExportFilter,
+    format: ExportFormat
+  ): Promise<ExportResult> {
+    // Snapshot the matches so later inserts don't affect a running export
+    const events = (this.eventsByTenant.get(filter.tenantId) ?? [])
+      .filter((event) => this.matches(event, filter))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return createExportResult(this.copyEach(events), format);
+  }
+
+  async aggregate(query: AggregationQuery): Promise<AggregationResult> {
+    const startTime = Date.now();
+    const events = (
+      this.eventsByTenant.get(query.filter.tenantId) ?? []
+    ).filter((event) => this.matches(event, query.filter));
+
+    return {
+      buckets: await aggregateEvents(events, query),
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  async deleteUserEvents(tenantId: string, userId: string): Promise<string[]> {
+    const events = this.eventsByTenant.get(tenantId) ?? [];
+    const deleted: string[] = [];
+    const kept = events.filter((event) => {
+      if (event.userId !== userId) return true;
+      deleted.push(event.eventId);
+      return false;
+    });
+
+    this.eventsByTenant.set(tenantId, kept);
+    return deleted;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true; // Memory-based implementation is always healthy
+  }
+
+  async close(): Promise<void> {
+    this.eventsByTenant.clear();
+  }
+
+  private store(event: AnalyticsEvent): void {
+    let events = this.eventsByTenant.get(event.tenantId);
+    if (!events) {
+      events = [];
+      this.eventsByTenant.set(event.tenantId, events);
+    }
+    events.push(this.copy(event));
+  }
+
+  private matches(event: AnalyticsEvent, filter: QueryFilter): boolean {
+    if (filter.eventName && event.eventName !== filter.eventName) return false;
+    if (
+      filter.eventTypes &&
+      filter.eventTypes.length > 0 &&
+      !filter.eventTypes.includes(event.eventName)
+    )
+      return false;
+    if (filter.userId && event.userId !== filter.userId) return false;
+    if (
+      filter.userIds &&
+      !(event.userId && filter.userIds.includes(event.userId))
+    )
+      return false;
+    if (filter.startTime && event.timestamp < filter.startTime) return false;
+    if (filter.endTime && event.timestamp > filter.endTime) return false;
+
+    // Apply property filters
+    if (filter.properties) {
+      for (const [key, value] of Object.entries(filter.properties)) {
+        if (event.properties[key] !== value) {
+          return false;
+        }
+      }
+    }
+
+    if (
+      filter.where &&
+      !matchesPropertyFilter(event.properties, filter.where)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Round-trip through JSON, as the flat-file adapter does on disk, so
+   * callers never share references with stored events
+   */
+  private async *copyEach(
+    events: AnalyticsEvent[]
+  ): AsyncGenerator<AnalyticsEvent> {
+    for (const event of events) {
+      yield this.copy(event);
+    }
+  }
+
+  private copy(event: AnalyticsEvent): AnalyticsEvent {
+    const eventData = JSON.parse(JSON.stringify(event));
+    return {
+      ...eventData,
+      timestamp: new Date(eventData.timestamp),
+      receivedAt: new Date(eventData.receivedAt),
+    };
+  }
+}
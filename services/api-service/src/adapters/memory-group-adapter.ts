@@ -0,0 +1,135 @@
+import { GroupAdapter } from '../interfaces/storage.js';
+import {
+  DEFAULT_GROUP_TYPE,
+  GroupRecord,
+  GroupMembership,
+  GroupUpdate,
+  GroupUpsertResult,
+} from '../types/core.js';
+
+interface StoredGroup {
+  group: GroupRecord;
+  members: Set<string>;
+}
+
+/**
+ * Group storage held in process memory. Nothing survives a restart, which
+ * makes it suitable for tests and ephemeral deployments only.
+ */
+export class MemoryGroupAdapter implements GroupAdapter {
+  private groupsByTenant = new Map<string, Map<string, StoredGroup>>();
+
+  async upsert(
+    group: GroupUpdate,
+    memberId?: string
+  ): Promise<GroupUpsertResult> {
+    try {
+      let groups = this.groupsByTenant.get(group.tenantId);
+      if (!groups) {
+        groups = new Map();
+        this.groupsByTenant.set(group.tenantId, groups);
+      }
+
+      const existing = groups.get(group.groupId);
+      const members = existing?.members ?? new Set<string>();
+      const memberAdded = memberId !== undefined && !members.has(memberId);
+      if (memberAdded) {
+        members.add(memberId);
+      }
+
+      const stored: StoredGroup = {
+        group: this.copy({
+          groupId: group.groupId,
+          tenantId: group.tenantId,
+          groupType:
+            group.groupType ?? existing?.group.groupType ?? DEFAULT_GROUP_TYPE,
+          properties: {
+            ...(existing?.group.properties ?? {}),
+            ...group.properties,
+          },
+          createdAt: existing ? existing.group.createdAt : group.createdAt,
+          updatedAt: group.updatedAt,
+        }),
+        members,
+      };
+      groups.set(group.groupId, stored);
+
+      return {
+        success: true,
+        groupId: group.groupId,
+        groupType: stored.group.groupType,
+        created: !existing,
+        memberAdded,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        created: false,
+        memberAdded: false,
+        error: `Failed to upsert group: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async get(tenantId: string, groupId: string): Promise<GroupRecord | null> {
+    const stored = this.groupsByTenant.get(tenantId)?.get(groupId);
+    return stored ? this.copy(stored.group) : null;
+  }
+
+  async getMembers(tenantId: string, groupId: string): Promise<string[]> {
+    const stored = this.groupsByTenant.get(tenantId)?.get(groupId);
+    return stored ? [...stored.members].sort() : [];
+  }
+
+  async getMemberships(
+    tenantId: string,
+    groupType?: string
+  ): Promise<GroupMembership[]> {
+    const memberships: GroupMembership[] = [];
+
+    const groups = this.groupsByTenant.get(tenantId)?.values() ?? [];
+    for (const { group, members } of groups) {
+      if (groupType !== undefined && group.groupType !== groupType) continue;
+
+      for (const userId of members) {
+        memberships.push({
+          groupId: group.groupId,
+          groupType: group.groupType,
+          userId,
+        });
+      }
+    }
+
+    return memberships;
+  }
+
+  async removeMember(tenantId: string, userId: string): Promise<number> {
+    let removed = 0;
+    const groups = this.groupsByTenant.get(tenantId)?.values() ?? [];
+    for (const { members } of groups) {
+      if (members.delete(userId)) removed++;
+    }
+    return removed;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true; // Memory-based implementation is always healthy
+  }
+
+  async close(): Promise<void> {
+    this.groupsByTenant.clear();
+  }
+
+  /**
+   * Round-trip through JSON, as the flat-file adapter does on disk, so
+   * callers never share references with stored groups
+   */
+  private copy(group: GroupRecord): GroupRecord {
+    const parsed = JSON.parse(JSON.stringify(group));
+    return {
+      ...parsed,
+      createdAt: new Date(parsed.createdAt),
+      updatedAt: new Date(parsed.updatedAt),
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SessionAdapter } from '../interfaces/storage.js';
+import { SessionAssignment } from '../types/core.js';
+import { SessionState, assignSession } from './session-window.js';
+
+interface StoredSession extends SessionState {
+  expiresAt: number; // Dropped once the user has been inactive this long
+}
+
+// How often sessions past their expiry are swept out
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class MemorySessionAdapter implements SessionAdapter {
+  private sessions = new Map<string, StoredSession>();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor() {
+    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+
+  async assign(
+    tenantId: string,
+    userId: string,
+    timestamp: Date,
+    timeoutMs: number,
+    sessionId?: string
+  ): Promise<SessionAssignment> {
+    const key = this.getKey(tenantId, userId);
+    const stored = this.sessions.get(key);
+    const current =
+      stored && stored.expiresAt > Date.now() ? stored : undefined;
+
+    // Read and write with no await between them, so assignments are atomic
+    const { assignment, state } = assignSession(
+      current,
+      timestamp.getTime(),
+      timeoutMs,
+      sessionId,
+      uuidv4
+    );
+    this.sessions.set(key, { ...state, expiresAt: Date.now() + timeoutMs });
+
+    return assignment;
+  }
+
+  async forget(tenantId: string, userIds: string[]): Promise<number> {
+    let removed = 0;
+    for (const userId of userIds) {
+      if (this.sessions.delete(this.getKey(tenantId, userId))) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true; // Memory-based implementation is always healthy
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+    this.sessions.clear();
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  private getKey(tenantId: string, userId: string): string {
+    return `${tenantId}:${userId}`;
+  }
+}
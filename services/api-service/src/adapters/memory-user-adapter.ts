@@ -0,0 +1,254 @@
+import { UserAdapter } from '../interfaces/storage.js';
+import {
+  UserRecord,
+  UpsertResult,
+  AliasResult,
+  TraitOperations,
+  UserCounterIncrements,
+  UserQueryFilter,
+  UserQueryResult,
+} from '../types/core.js';
+import { matchesPropertyFilter } from '../services/property-filter.js';
+import { pageRecords, userOrdering } from './query-order.js';
+import {
+  linkAlias,
+  mergeAliasProfile,
+  toAliasResult,
+} from './identity-graph.js';
+import { applyTraitOperations } from './trait-operations.js';
+import { incrementUserCounters } from './user-counters.js';
+
+/**
+ * User storage held in process memory. Nothing survives a restart, which
+ * makes it suitable for tests and ephemeral deployments only.
+ */
+export class MemoryUserAdapter implements UserAdapter {
+  private usersByTenant = new Map<string, Map<string, UserRecord>>();
+  // Alias to canonical userId, per tenant
+  private aliasesByTenant = new Map<string, Map<string, string>>();
+
+  async upsert(
+    user: UserRecord,
+    operations?: TraitOperations
+  ): Promise<UpsertResult> {
+    try {
+      let users = this.usersByTenant.get(user.tenantId);
+      if (!users) {
+        users = new Map();
+        this.usersByTenant.set(user.tenantId, users);
+      }
+
+      const existingUser = users.get(user.userId);
+
+      const updatedUser: UserRecord = {
+        userId: user.userId,
+        tenantId: user.tenantId,
+        properties: applyTraitOperations(
+          existingUser?.properties ?? {},
+          user.properties,
+          operations
+        ),
+        firstSeen: existingUser ? existingUser.firstSeen : user.firstSeen,
+        lastSeen: user.lastSeen,
+        sessionCount: existingUser
+          ? existingUser.sessionCount
+          : user.sessionCount,
+        eventCount: existingUser ? existingUser.eventCount : user.eventCount,
+      };
+
+      users.set(user.userId, this.copy(updatedUser));
+
+      return {
+        success: true,
+        userId: user.userId,
+        created: !existingUser,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        created: false,
+        error: `Failed to upsert user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async incrementCounters(
+    tenantId: string,
+    userId: string,
+    increments: UserCounterIncrements,
+    seenAt: Date
+  ): Promise<UpsertResult> {
+    let users = this.usersByTenant.get(tenantId);
+    if (!users) {
+      users = new Map();
+      this.usersByTenant.set(tenantId, users);
+    }
+
+    const existingUser = users.get(userId);
+    users.set(
+      userId,
+      this.copy(
+        incrementUserCounters(
+          existingUser ?? null,
+          tenantId,
+          userId,
+          increments,
+          seenAt
+        )
+      )
+    );
+
+    return { success: true, userId, created: !existingUser };
+  }
+
+  async get(tenantId: string, userId: string): Promise<UserRecord | null> {
+    const user = this.usersByTenant.get(tenantId)?.get(userId);
+    return user ? this.copy(user) : null;
+  }
+
+  async delete(tenantId: string, userId: string): Promise<boolean> {
+    const aliases = this.aliasesByTenant.get(tenantId);
+    for (const [aliasId, canonical] of aliases ?? []) {
+      if (aliasId === userId || canonical === userId) {
+        aliases!.delete(aliasId);
+      }
+    }
+
+    return this.usersByTenant.get(tenantId)?.delete(userId) ?? false;
+  }
+
+  async getBatch(tenantId: string, userIds: string[]): Promise<UserRecord[]> {
+    const users: UserRecord[] = [];
+
+    for (const userId of userIds) {
+      const user = await this.get(tenantId, userId);
+      if (user) {
+        users.push(user);
+      }
+    }
+
+    return users;
+  }
+
+  async alias(
+    tenantId: string,
+    aliasId: string,
+    userId: string
+  ): Promise<AliasResult> {
+    let aliases = this.aliasesByTenant.get(tenantId);
+    if (!aliases) {
+      aliases = new Map();
+      this.aliasesByTenant.set(tenantId, aliases);
+    }
+
+    const link = linkAlias(aliases, aliasId, userId);
+    if (link.status !== 'linked') {
+      return toAliasResult(aliasId, link);
+    }
+
+    const users = this.usersByTenant.get(tenantId);
+    const aliasUser = users?.get(aliasId);
+    if (users && aliasUser) {
+      const merged = mergeAliasProfile(
+        users.get(link.userId) ?? null,
+        aliasUser,
+        link.userId
+      );
+      users.set(link.userId, this.copy(merged));
+      users.delete(aliasId);
+    }
+
+    return toAliasResult(aliasId, link, aliasUser !== undefined);
+  }
+
+  async resolveIdentities(
+    tenantId: string,
+    ids: string[]
+  ): Promise<Map<string, string>> {
+    const aliases = this.aliasesByTenant.get(tenantId);
+    const resolved = new Map<string, string>();
+
+    for (const id of ids) {
+      const canonical = aliases?.get(id);
+      if (canonical !== undefined) {
+        resolved.set(id, canonical);
+      }
+    }
+
+    return resolved;
+  }
+
+  async getAliases(tenantId: string, userId: string): Promise<string[]> {
+    const aliasIds: string[] = [];
+
+    for (const [aliasId, canonical] of this.aliasesByTenant.get(tenantId) ??
+      []) {
+      if (canonical === userId) {
+        aliasIds.push(aliasId);
+      }
+    }
+
+    return aliasIds.sort();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true; // Memory-based implementation is always healthy
+  }
+
+  async query(filter: UserQueryFilter): Promise<UserQueryResult> {
+    const startTime = Date.now();
+    const users: UserRecord[] = [];
+
+    for (const user of this.usersByTenant.get(filter.tenantId)?.values() ||
+      []) {
+      // Apply filters
+      if (filter.userId && user.userId !== filter.userId) continue;
+      if (filter.activeSince && user.lastSeen < filter.activeSince) continue;
+      if (filter.activeUntil && user.firstSeen > filter.activeUntil) continue;
+
+      // Apply property filters
+      if (filter.properties) {
+        let matches = true;
+        for (const [key, value] of Object.entries(filter.properties)) {
+          if (user.properties[key] !== value) {
+            matches = false;
+            break;
+          }
+        }
+        if (!matches) continue;
+      }
+      if (filter.where && !matchesPropertyFilter(user.properties, filter.where))
+        continue;
+
+      users.push(this.copy(user));
+    }
+
+    const paged = pageRecords(users, userOrdering(filter), filter);
+
+    return {
+      users: paged.records,
+      totalCount: paged.totalCount,
+      hasMore: paged.hasMore,
+      pagination: paged.pagination,
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.usersByTenant.clear();
+    this.aliasesByTenant.clear();
+  }
+
+  /**
+   * Round-trip through JSON, as the flat-file adapter does on disk, so
+   * callers never share references with stored users
+   */
+  private copy(user: UserRecord): UserRecord {
+    const parsed = JSON.parse(JSON.stringify(user));
+    return {
+      ...parsed,
+      firstSeen: new Date(parsed.firstSeen),
+      lastSeen: new Date(parsed.lastSeen),
+    };
+  }
+}
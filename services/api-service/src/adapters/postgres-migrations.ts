@@ -0,0 +1,89 @@
+import type { Pool, PoolClient } from 'pg';
+
+export interface PostgresMigration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+/**
+ * Apply any migrations newer than the recorded schema version.
+ * Each migration runs in its own transaction and is recorded on success.
+ * The whole run holds an advisory lock, so instances starting at the same
+ * time apply each migration once.
+ */
+export async function runPostgresMigrations(
+  pool: Pool,
+  migrations: PostgresMigration[],
+  migrationsTable: string = 'schema_migrations'
+): Promise<number> {
+  // Session-level advisory locks belong to a connection, so every query of
+  // the run goes through the same client
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock(hashtext($1))', [
+      migrationsTable,
+    ]);
+    try {
+      return await applyPending(client, migrations, migrationsTable);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [
+        migrationsTable,
+      ]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function applyPending(
+  client: PoolClient,
+  migrations: PostgresMigration[],
+  migrationsTable: string
+): Promise<number> {
+  // Only the current schema counts: a same-named table elsewhere on the
+  // server is not this service's record
+  const { rows: tables } = await client.query(
+    `SELECT table_name FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_name = $1`,
+    [migrationsTable]
+  );
+
+  if (tables.length === 0) {
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS ${migrationsTable} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL
+      )`
+    );
+  }
+
+  const { rows } = await client.query(`SELECT version FROM ${migrationsTable}`);
+  const applied = new Set(rows.map((row) => Number(row.version)));
+
+  const pending = migrations
+    .filter((migration) => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await client.query('BEGIN');
+      for (const statement of migration.statements) {
+        await client.query(statement);
+      }
+      await client.query(
+        `INSERT INTO ${migrationsTable} (version, name, applied_at) VALUES ($1, $2, $3)`,
+        [migration.version, migration.name, new Date()]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  return pending.length;
+}
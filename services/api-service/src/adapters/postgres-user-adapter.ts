@@ -0,0 +1,556 @@
+import pg from 'pg';
+import type { Pool, PoolClient } from 'pg';
+import { UserAdapter } from '../interfaces/storage.js';
+import {
+  UserRecord,
+  UpsertResult,
+  AliasResult,
+  TraitOperations,
+  UserCounterIncrements,
+  UserQueryFilter,
+  UserQueryResult,
+} from '../types/core.js';
+import {
+  PostgresMigration,
+  runPostgresMigrations,
+} from './postgres-migrations.js';
+import { matchesPropertyFilter } from '../services/property-filter.js';
+import {
+  mergeAliasProfile,
+  planAlias,
+  toAliasResult,
+} from './identity-graph.js';
+import { applyTraitOperations } from './trait-operations.js';
+
+export const USER_MIGRATIONS: PostgresMigration[] = [
+  {
+    version: 1,
+    name: 'create_users',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS users (
+        tenant_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        properties JSONB NOT NULL DEFAULT '{}',
+        first_seen TIMESTAMPTZ NOT NULL,
+        last_seen TIMESTAMPTZ NOT NULL,
+        session_count INTEGER NOT NULL DEFAULT 0,
+        event_count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (tenant_id, user_id)
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'index_users_activity',
+    statements: [
+      'CREATE INDEX IF NOT EXISTS users_tenant_first_seen_idx ON users (tenant_id, first_seen)',
+      'CREATE INDEX IF NOT EXISTS users_tenant_last_seen_idx ON users (tenant_id, last_seen)',
+      'CREATE INDEX IF NOT EXISTS users_properties_idx ON users USING GIN (properties)',
+    ],
+  },
+  {
+    version: 3,
+    name: 'create_user_aliases',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS user_aliases (
+        tenant_id TEXT NOT NULL,
+        alias_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (tenant_id, alias_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS user_aliases_tenant_user_idx ON user_aliases (tenant_id, user_id)',
+    ],
+  },
+];
+
+// Maps UserQueryFilter.sortBy values to columns; anything else is rejected
+const SORT_COLUMNS: Record<string, string> = {
+  firstSeen: 'first_seen',
+  lastSeen: 'last_seen',
+  eventCount: 'event_count',
+  sessionCount: 'session_count',
+};
+
+export class PostgresUserAdapter implements UserAdapter {
+  private pool: Pool;
+  private ownsPool: boolean;
+
+  constructor(connection: string | Pool) {
+    if (typeof connection === 'string') {
+      this.pool = new pg.Pool({ connectionString: connection });
+      this.ownsPool = true;
+    } else {
+      this.pool = connection;
+      this.ownsPool = false;
+    }
+  }
+
+  /**
+   * Bring the database schema up to date; call before first use
+   */
+  async initialize(): Promise<void> {
+    await runPostgresMigrations(this.pool, USER_MIGRATIONS);
+  }
+
+  async upsert(
+    user: UserRecord,
+    operations?: TraitOperations
+  ): Promise<UpsertResult> {
+    let client: PoolClient | undefined;
+
+    try {
+      client = await this.pool.connect();
+      await client.query('BEGIN');
+
+      // Lock the existing row so concurrent trait merges do not overwrite each other
+      let existing = await this.selectForUpdate(client, user);
+      let created = false;
+
+      if (!existing) {
+        const inserted = await client.query(
+          `INSERT INTO users
+            (tenant_id, user_id, properties, first_seen, last_seen, session_count, event_count)
+          VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)
+          ON CONFLICT (tenant_id, user_id) DO NOTHING
+          RETURNING user_id`,
+          [
+            user.tenantId,
+            user.userId,
+            JSON.stringify(
+              applyTraitOperations({}, user.properties || {}, operations)
+            ),
+            user.firstSeen,
+            user.lastSeen,
+            user.sessionCount,
+            user.eventCount,
+          ]
+        );
+        created = inserted.rows.length === 1;
+
+        // Another writer created the user between our select and insert
+        if (!created) {
+          existing = await this.selectForUpdate(client, user);
+        }
+      }
+
+      if (!created) {
+        const properties = applyTraitOperations(
+          existing?.properties || {},
+          user.properties,
+          operations
+        );
+
+        await client.query(
+          `UPDATE users SET properties = $3::jsonb, last_seen = $4
+          WHERE tenant_id = $1 AND user_id = $2`,
+          [
+            user.tenantId,
+            user.userId,
+            JSON.stringify(properties),
+            user.lastSeen,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      return {
+        success: true,
+        userId: user.userId,
+        created,
+      };
+    } catch (error) {
+      await client?.query('ROLLBACK').catch(() => undefined);
+      return {
+        success: false,
+        created: false,
+        error: `Failed to upsert user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      client?.release();
+    }
+  }
+
+  async incrementCounters(
+    tenantId: string,
+    userId: string,
+    increments: UserCounterIncrements,
+    seenAt: Date
+  ): Promise<UpsertResult> {
+    try {
+      const sessionCount = increments.sessionCount ?? 0;
+      const eventCount = increments.eventCount ?? 0;
+
+      // Each row update is atomic, so concurrent increments all count.
+      // Most calls are for existing users, so try the update first.
+      const update = async (): Promise<boolean> => {
+        const updated = await this.pool.query(
+          `UPDATE users SET
+            session_count = session_count + $3,
+            event_count = event_count + $4,
+            first_seen = CASE WHEN first_seen > $5 THEN $5 ELSE first_seen END,
+            last_seen = CASE WHEN last_seen < $5 THEN $5 ELSE last_seen END
+          WHERE tenant_id = $1 AND user_id = $2`,
+          [tenantId, userId, sessionCount, eventCount, seenAt]
+        );
+        return (updated.rowCount ?? 0) > 0;
+      };
+
+      let created = false;
+      if (!(await update())) {
+        const inserted = await this.pool.query(
+          `INSERT INTO users
+            (tenant_id, user_id, properties, first_seen, last_seen, session_count, event_count)
+          VALUES ($1, $2, '{}'::jsonb, $3, $3, $4, $5)
+          ON CONFLICT (tenant_id, user_id) DO NOTHING
+          RETURNING user_id`,
+          [tenantId, userId, seenAt, sessionCount, eventCount]
+        );
+        created = inserted.rows.length === 1;
+
+        // Another writer created the user between our update and insert
+        if (!created) {
+          await update();
+        }
+      }
+
+      return { success: true, userId, created };
+    } catch (error) {
+      return {
+        success: false,
+        created: false,
+        error: `Failed to increment user counters: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async get(tenantId: string, userId: string): Promise<UserRecord | null> {
+    try {
+      const { rows } = await this.pool.query(
+        'SELECT * FROM users WHERE tenant_id = $1 AND user_id = $2',
+        [tenantId, userId]
+      );
+      return rows.length > 0 ? this.toUserRecord(rows[0]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(tenantId: string, userId: string): Promise<boolean> {
+    let client: PoolClient | undefined;
+
+    try {
+      client = await this.pool.connect();
+      await client.query('BEGIN');
+      await client.query(
+        'DELETE FROM user_aliases WHERE tenant_id = $1 AND (alias_id = $2 OR user_id = $2)',
+        [tenantId, userId]
+      );
+      const result = await client.query(
+        'DELETE FROM users WHERE tenant_id = $1 AND user_id = $2',
+        [tenantId, userId]
+      );
+      await client.query('COMMIT');
+      return (result.rowCount ?? 0) > 0;
+    } catch {
+      await client?.query('ROLLBACK').catch(() => undefined);
+      return false;
+    } finally {
+      client?.release();
+    }
+  }
+
+  async getBatch(tenantId: string, userIds: string[]): Promise<UserRecord[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const { rows } = await this.pool.query(
+      'SELECT * FROM users WHERE tenant_id = $1 AND user_id = ANY($2)',
+      [tenantId, userIds]
+    );
+
+    // Preserve the requested order, like the flat-file adapter
+    const byId = new Map<string, UserRecord>(
+      rows.map((row) => [row.user_id, this.toUserRecord(row)])
+    );
+    return userIds
+      .map((userId) => byId.get(userId))
+      .filter((user): user is UserRecord => user !== undefined);
+  }
+
+  async query(filter: UserQueryFilter): Promise<UserQueryResult> {
+    const startTime = Date.now();
+
+    try {
+      const conditions: string[] = ['tenant_id = $1'];
+      const params: any[] = [filter.tenantId];
+
+      if (filter.userId) {
+        params.push(filter.userId);
+        conditions.push(`user_id = $${params.length}`);
+      }
+
+      if (filter.activeSince) {
+        params.push(filter.activeSince);
+        conditions.push(`last_seen >= $${params.length}`);
+      }
+
+      if (filter.activeUntil) {
+        params.push(filter.activeUntil);
+        conditions.push(`first_seen <= $${params.length}`);
+      }
+
+      // Property filters compare top-level JSON values for equality
+      if (filter.properties) {
+        for (const [key, value] of Object.entries(filter.properties)) {
+          params.push(key, JSON.stringify(value));
+          conditions.push(
+            `properties -> $${params.length - 1} = $${params.length}::jsonb`
+          );
+        }
+      }
+
+      const sortColumn = filter.sortBy
+        ? SORT_COLUMNS[filter.sortBy]
+        : undefined;
+      const sortDirection = filter.sortOrder === 'desc' ? 'DESC' : 'ASC';
+      const orderBy = sortColumn
+        ? `${sortColumn} ${sortDirection}, user_id ASC`
+        : 'user_id ASC';
+
+      // Ties are broken by user_id ascending whatever the sort direction
+      if (filter.after && sortColumn) {
+        const { value, id } = filter.after;
+        params.push(
+          sortColumn === 'first_seen' || sortColumn === 'last_seen'
+            ? new Date(value)
+            : value,
+          id
+        );
+        const valueParam = `$${params.length - 1}`;
+        conditions.push(
+          `(${sortColumn} ${sortDirection === 'ASC' ? '>' : '<'} ${valueParam} OR (${sortColumn} = ${valueParam} AND user_id > $${params.length}))`
+        );
+      } else if (filter.after) {
+        params.push(filter.after.id);
+        conditions.push(`user_id > $${params.length}`);
+      }
+
+      const where = conditions.join(' AND ');
+
+      const offset = filter.offset || 0;
+      const limit = filter.limit || 100;
+
+      let users: UserRecord[];
+      let totalCount: number;
+
+      if (filter.where) {
+        // Filter expressions run in-process with the shared evaluator, so
+        // every user matching the SQL conditions is read
+        const { rows } = await this.pool.query(
+          `SELECT * FROM users WHERE ${where} ORDER BY ${orderBy}`,
+          params
+        );
+        const matching = rows
+          .map((row) => this.toUserRecord(row))
+          .filter((user) =>
+            matchesPropertyFilter(user.properties, filter.where!)
+          );
+        totalCount = matching.length;
+        users = matching.slice(offset, offset + limit);
+      } else {
+        const countResult = await this.pool.query(
+          `SELECT COUNT(*) AS total FROM users WHERE ${where}`,
+          params
+        );
+        totalCount = Number(countResult.rows[0]?.total ?? 0);
+
+        const { rows } = await this.pool.query(
+          `SELECT * FROM users WHERE ${where}
+          ORDER BY ${orderBy}
+          LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+          [...params, limit, offset]
+        );
+        users = rows.map((row) => this.toUserRecord(row));
+      }
+
+      return {
+        users,
+        totalCount,
+        hasMore: offset + limit < totalCount,
+        pagination: {
+          limit,
+          offset,
+          ...(offset + limit < totalCount
+            ? { nextOffset: offset + limit }
+            : {}),
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to query users: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async alias(
+    tenantId: string,
+    aliasId: string,
+    userId: string
+  ): Promise<AliasResult> {
+    let client: PoolClient | undefined;
+
+    try {
+      client = await this.pool.connect();
+      await client.query('BEGIN');
+
+      const { rows: links } = await client.query(
+        'SELECT alias_id, user_id FROM user_aliases WHERE tenant_id = $1 AND alias_id = ANY($2)',
+        [tenantId, [userId, aliasId]]
+      );
+      const canonicalOf = (id: string): string | undefined =>
+        links.find((row) => row.alias_id === id)?.user_id;
+
+      const link = planAlias(
+        aliasId,
+        canonicalOf(userId) ?? userId,
+        canonicalOf(aliasId)
+      );
+      if (link.status !== 'linked') {
+        await client.query('COMMIT');
+        return toAliasResult(aliasId, link);
+      }
+
+      await client.query(
+        'UPDATE user_aliases SET user_id = $3 WHERE tenant_id = $1 AND user_id = $2',
+        [tenantId, aliasId, link.userId]
+      );
+      // A concurrent alias of the same id fails here on the primary key
+      await client.query(
+        `INSERT INTO user_aliases (tenant_id, alias_id, user_id, created_at)
+        VALUES ($1, $2, $3, $4)`,
+        [tenantId, aliasId, link.userId, new Date()]
+      );
+
+      // Lock both profiles so concurrent trait merges wait for this one
+      const { rows: profiles } = await client.query(
+        'SELECT * FROM users WHERE tenant_id = $1 AND user_id = ANY($2) FOR UPDATE',
+        [tenantId, [link.userId, aliasId]]
+      );
+      const aliasRow = profiles.find((row) => row.user_id === aliasId);
+      const userRow = profiles.find((row) => row.user_id === link.userId);
+
+      if (aliasRow) {
+        const merged = mergeAliasProfile(
+          userRow ? this.toUserRecord(userRow) : null,
+          this.toUserRecord(aliasRow),
+          link.userId
+        );
+        await client.query(
+          `INSERT INTO users
+            (tenant_id, user_id, properties, first_seen, last_seen, session_count, event_count)
+          VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)
+          ON CONFLICT (tenant_id, user_id) DO UPDATE SET
+            properties = EXCLUDED.properties,
+            first_seen = EXCLUDED.first_seen,
+            last_seen = EXCLUDED.last_seen,
+            session_count = EXCLUDED.session_count,
+            event_count = EXCLUDED.event_count`,
+          [
+            tenantId,
+            merged.userId,
+            JSON.stringify(merged.properties),
+            merged.firstSeen,
+            merged.lastSeen,
+            merged.sessionCount,
+            merged.eventCount,
+          ]
+        );
+        await client.query(
+          'DELETE FROM users WHERE tenant_id = $1 AND user_id = $2',
+          [tenantId, aliasId]
+        );
+      }
+
+      await client.query('COMMIT');
+      return toAliasResult(aliasId, link, aliasRow !== undefined);
+    } catch (error) {
+      await client?.query('ROLLBACK').catch(() => undefined);
+      return {
+        success: false,
+        linked: false,
+        profileMerged: false,
+        error: `Failed to alias user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      client?.release();
+    }
+  }
+
+  async resolveIdentities(
+    tenantId: string,
+    ids: string[]
+  ): Promise<Map<string, string>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const { rows } = await this.pool.query(
+      'SELECT alias_id, user_id FROM user_aliases WHERE tenant_id = $1 AND alias_id = ANY($2)',
+      [tenantId, ids]
+    );
+
+    return new Map(rows.map((row) => [row.alias_id, row.user_id]));
+  }
+
+  async getAliases(tenantId: string, userId: string): Promise<string[]> {
+    const { rows } = await this.pool.query(
+      'SELECT alias_id FROM user_aliases WHERE tenant_id = $1 AND user_id = $2',
+      [tenantId, userId]
+    );
+
+    // Sorted here, as the database collation may not order by code point
+    return rows.map((row) => row.alias_id as string).sort();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.pool.query('SELECT 1');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsPool) {
+      await this.pool.end();
+    }
+  }
+
+  private async selectForUpdate(
+    client: PoolClient,
+    user: UserRecord
+  ): Promise<{ properties: Record<string, any> } | undefined> {
+    const { rows } = await client.query(
+      'SELECT properties FROM users WHERE tenant_id = $1 AND user_id = $2 FOR UPDATE',
+      [user.tenantId, user.userId]
+    );
+    return rows[0];
+  }
+
+  private toUserRecord(row: any): UserRecord {
+    return {
+      userId: row.user_id,
+      tenantId: row.tenant_id,
+      properties: row.properties || {},
+      firstSeen: new Date(row.first_seen),
+      lastSeen: new Date(row.last_seen),
+      sessionCount: Number(row.session_count),
+      eventCount: Number(row.event_count),
+    };
+  }
+}
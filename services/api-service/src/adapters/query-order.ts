@@ -0,0 +1,131 @@
+import {
+  AnalyticsEvent,
+  PaginationInfo,
+  QueryFilter,
+  SortPosition,
+  UserQueryFilter,
+  UserRecord,
+} from '../types/core.js';
+
+/**
+ * The total order query results are paged in, shared by the in-process
+ * adapters and by the cursors the query service hands out. The SQL adapters
+ * order the same way: events by sort value then eventId, both in the sort
+ * direction, and users by sort value then userId ascending.
+ */
+export interface RecordOrdering<T> {
+  position(record: T): SortPosition;
+  compare(a: SortPosition, b: SortPosition): number;
+}
+
+export function eventOrdering(
+  filter: Pick<QueryFilter, 'sortBy' | 'sortOrder'>
+): RecordOrdering<AnalyticsEvent> {
+  // Default sort by timestamp descending
+  const direction = filter.sortBy && filter.sortOrder !== 'desc' ? 1 : -1;
+
+  return {
+    position: (event) => ({
+      value: eventSortValue(event, filter.sortBy),
+      id: event.eventId,
+    }),
+    compare: (a, b) =>
+      direction *
+      (compareValues(a.value, b.value) || compareValues(a.id, b.id)),
+  };
+}
+
+export function userOrdering(
+  filter: Pick<UserQueryFilter, 'sortBy' | 'sortOrder'>
+): RecordOrdering<UserRecord> {
+  // Default sort by userId ascending
+  const direction = filter.sortBy && filter.sortOrder === 'desc' ? -1 : 1;
+
+  return {
+    position: (user) => ({
+      value: userSortValue(user, filter.sortBy),
+      id: user.userId,
+    }),
+    compare: (a, b) =>
+      direction * compareValues(a.value, b.value) || compareValues(a.id, b.id),
+  };
+}
+
+/**
+ * Sort in-process matches, then take the page after filter.after and
+ * filter.offset
+ */
+export function pageRecords<T>(
+  records: T[],
+  ordering: RecordOrdering<T>,
+  filter: { after?: SortPosition; offset?: number; limit?: number }
+): {
+  records: T[];
+  totalCount: number;
+  hasMore: boolean;
+  pagination: PaginationInfo;
+} {
+  const positioned = records.map((record) => ({
+    record,
+    position: ordering.position(record),
+  }));
+  positioned.sort((a, b) => ordering.compare(a.position, b.position));
+
+  const { after } = filter;
+  const remaining = after
+    ? positioned.filter(({ position }) => ordering.compare(position, after) > 0)
+    : positioned;
+
+  const offset = filter.offset || 0;
+  const limit = filter.limit || 100;
+  const hasMore = offset + limit < remaining.length;
+
+  return {
+    records: remaining
+      .slice(offset, offset + limit)
+      .map(({ record }) => record),
+    totalCount: remaining.length,
+    hasMore,
+    pagination: {
+      limit,
+      offset,
+      ...(hasMore ? { nextOffset: offset + limit } : {}),
+    },
+  };
+}
+
+function eventSortValue(
+  event: AnalyticsEvent,
+  sortBy: string | undefined
+): string | number {
+  switch (sortBy) {
+    case 'eventName':
+      return event.eventName;
+    case 'userId':
+      return event.userId ?? '';
+    default:
+      return event.timestamp.getTime();
+  }
+}
+
+function userSortValue(
+  user: UserRecord,
+  sortBy: string | undefined
+): string | number {
+  switch (sortBy) {
+    case 'firstSeen':
+      return user.firstSeen.getTime();
+    case 'lastSeen':
+      return user.lastSeen.getTime();
+    case 'eventCount':
+      return user.eventCount;
+    case 'sessionCount':
+      return user.sessionCount;
+    default:
+      return user.userId;
+  }
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,94 @@
+import { Redis } from 'ioredis';
+import { DeduplicationAdapter } from '../interfaces/storage.js';
+
+// Keys removed per DEL command by forget()
+const FORGET_BATCH_SIZE = 500;
+
+export class RedisDeduplicationAdapter implements DeduplicationAdapter {
+  private redis: Redis;
+  private ownsClient: boolean;
+  private retentionSeconds: number;
+  private keyPrefix: string;
+
+  constructor(
+    connection: string | Redis,
+    retentionSeconds: number = 3600,
+    keyPrefix: string = 'dedup:'
+  ) {
+    if (typeof connection === 'string') {
+      this.redis = new Redis(connection, { lazyConnect: true });
+      this.ownsClient = true;
+    } else {
+      this.redis = connection;
+      this.ownsClient = false;
+    }
+    this.retentionSeconds = retentionSeconds;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async isDuplicate(tenantId: string, eventId: string): Promise<boolean> {
+    return (await this.redis.exists(this.getKey(tenantId, eventId))) === 1;
+  }
+
+  async claim(
+    tenantId: string,
+    eventId: string,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    // SET NX checks and records in one command, with no EXISTS round trip
+    return this.markProcessed(tenantId, eventId, ttlSeconds);
+  }
+
+  async markProcessed(
+    tenantId: string,
+    eventId: string,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    // Every record expires, so keys never accumulate without bound.
+    // NX keeps the original processing time when a record already exists,
+    // and its reply says whether this call was the one that set it.
+    const result = await this.redis.set(
+      this.getKey(tenantId, eventId),
+      Date.now(),
+      'EX',
+      ttlSeconds ?? this.retentionSeconds,
+      'NX'
+    );
+    return result === 'OK';
+  }
+
+  async forget(tenantId: string, eventIds: string[]): Promise<number> {
+    let removed = 0;
+    // Bounded DEL calls keep each command small for users with many events
+    for (let i = 0; i < eventIds.length; i += FORGET_BATCH_SIZE) {
+      const keys = eventIds
+        .slice(i, i + FORGET_BATCH_SIZE)
+        .map((eventId) => this.getKey(tenantId, eventId));
+      removed += await this.redis.del(...keys);
+    }
+    return removed;
+  }
+
+  async cleanup(_olderThanSeconds: number): Promise<number> {
+    // Records carry their own TTL and are expired by Redis
+    return 0;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      return (await this.redis.ping()) === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsClient) {
+      await this.redis.quit();
+    }
+  }
+
+  private getKey(tenantId: string, eventId: string): string {
+    return `${this.keyPrefix}${tenantId}:${eventId}`;
+  }
+}
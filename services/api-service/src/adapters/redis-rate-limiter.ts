@@ -0,0 +1,93 @@
+import { Redis } from 'ioredis';
+import { RateLimitAdapter } from '../interfaces/storage.js';
+import { RateLimitKey } from '../types/core.js';
+
+export class RedisRateLimitAdapter implements RateLimitAdapter {
+  private redis: Redis;
+  private ownsClient: boolean;
+  private keyPrefix: string;
+
+  constructor(connection: string | Redis, keyPrefix: string = 'ratelimit:') {
+    if (typeof connection === 'string') {
+      this.redis = new Redis(connection, { lazyConnect: true });
+      this.ownsClient = true;
+    } else {
+      this.redis = connection;
+      this.ownsClient = false;
+    }
+    this.keyPrefix = keyPrefix;
+  }
+
+  async checkLimit(
+    key: RateLimitKey,
+    limit: number,
+    windowSizeSeconds: number
+  ): Promise<{ allowed: boolean; remaining: number; resetTime: Date }> {
+    const bucketKey = this.getBucketKey(key);
+
+    const [count, ttl] = await Promise.all([
+      this.redis.get(bucketKey),
+      this.redis.pttl(bucketKey),
+    ]);
+
+    const current = count ? parseInt(count, 10) : 0;
+    // A missing key (-2) or one without expiry (-1) means a fresh window
+    const resetIn = ttl > 0 ? ttl : windowSizeSeconds * 1000;
+
+    return {
+      allowed: current < limit,
+      remaining: Math.max(0, limit - current),
+      resetTime: new Date(Date.now() + resetIn),
+    };
+  }
+
+  async increment(key: RateLimitKey, windowSizeSeconds: number): Promise<void> {
+    const bucketKey = this.getBucketKey(key);
+
+    // SET NX opens the window with its expiry; INCR keeps the existing TTL,
+    // so the window is fixed from the first request and never extended
+    const results = await this.redis
+      .multi()
+      .set(bucketKey, 0, 'EX', windowSizeSeconds, 'NX')
+      .incr(bucketKey)
+      .exec();
+
+    const failed = results?.find(([error]) => error);
+    if (!results || failed) {
+      throw new Error(
+        `Failed to increment rate limit: ${failed?.[0]?.message || 'transaction aborted'}`
+      );
+    }
+  }
+
+  async reset(key: RateLimitKey): Promise<void> {
+    await this.redis.del(this.getBucketKey(key));
+  }
+
+  async getCount(
+    key: RateLimitKey,
+    _windowSizeSeconds: number
+  ): Promise<number> {
+    // Expired windows are removed by Redis, so whatever is stored is current
+    const count = await this.redis.get(this.getBucketKey(key));
+    return count ? parseInt(count, 10) : 0;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      return (await this.redis.ping()) === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsClient) {
+      await this.redis.quit();
+    }
+  }
+
+  private getBucketKey(key: RateLimitKey): string {
+    return `${this.keyPrefix}${key.tenantId}:${key.sourceIp}:${key.userId || 'anonymous'}`;
+  }
+}
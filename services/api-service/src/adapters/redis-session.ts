@@ -0,0 +1,107 @@
+import { Redis } from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { SessionAdapter } from '../interfaces/storage.js';
+import { SessionAssignment } from '../types/core.js';
+
+// assignSession from session-window.ts, run inside Redis so concurrent
+// assignments for a user are atomic. KEYS[1] is the user's session hash;
+// ARGV is the timestamp, timeout, client sessionId ('' for none) and the
+// id to use when a session starts. Returns the sessionId and 1 if started.
+const ASSIGN_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'sessionId')
+local last = tonumber(redis.call('HGET', KEYS[1], 'lastActivityAt'))
+local timestamp = tonumber(ARGV[1])
+local timeout = tonumber(ARGV[2])
+
+local continues = false
+if current then
+  if ARGV[3] ~= '' then
+    continues = ARGV[3] == current
+  else
+    continues = math.abs(timestamp - last) <= timeout
+  end
+end
+
+if continues then
+  if timestamp > last then
+    redis.call('HSET', KEYS[1], 'lastActivityAt', ARGV[1])
+  end
+  redis.call('PEXPIRE', KEYS[1], timeout)
+  return {current, 0}
+end
+
+local started = ARGV[4]
+if ARGV[3] ~= '' then
+  started = ARGV[3]
+end
+if not current or timestamp >= last then
+  redis.call('HSET', KEYS[1], 'sessionId', started, 'lastActivityAt', ARGV[1])
+end
+redis.call('PEXPIRE', KEYS[1], timeout)
+return {started, 1}
+`;
+
+export class RedisSessionAdapter implements SessionAdapter {
+  private redis: Redis;
+  private ownsClient: boolean;
+  private keyPrefix: string;
+
+  constructor(connection: string | Redis, keyPrefix: string = 'session:') {
+    if (typeof connection === 'string') {
+      this.redis = new Redis(connection, { lazyConnect: true });
+      this.ownsClient = true;
+    } else {
+      this.redis = connection;
+      this.ownsClient = false;
+    }
+    this.keyPrefix = keyPrefix;
+  }
+
+  async assign(
+    tenantId: string,
+    userId: string,
+    timestamp: Date,
+    timeoutMs: number,
+    sessionId?: string
+  ): Promise<SessionAssignment> {
+    // The hash expires once the user has been inactive for the timeout
+    const [assigned, started] = (await this.redis.eval(
+      ASSIGN_SCRIPT,
+      1,
+      this.getKey(tenantId, userId),
+      timestamp.getTime(),
+      timeoutMs,
+      sessionId ?? '',
+      uuidv4()
+    )) as [string, number];
+
+    return { sessionId: assigned, started: started === 1 };
+  }
+
+  async forget(tenantId: string, userIds: string[]): Promise<number> {
+    if (userIds.length === 0) {
+      return 0;
+    }
+    return this.redis.del(
+      ...userIds.map((userId) => this.getKey(tenantId, userId))
+    );
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      return (await this.redis.ping()) === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsClient) {
+      await this.redis.quit();
+    }
+  }
+
+  private getKey(tenantId: string, userId: string): string {
+    return `${this.keyPrefix}${tenantId}:${userId}`;
+  }
+}
@@ -0,0 +1,49 @@
+import { SessionAssignment } from '../types/core.js';
+
+// A user's current session, as kept by the session stores
+export interface SessionState {
+  sessionId: string;
+  lastActivityAt: number; // Latest activity in the session, in ms since epoch
+}
+
+/**
+ * The rule behind SessionAdapter.assign, for stores that read and write the
+ * state in one step. The redis store runs the same rule as a script.
+ *
+ * An activity continues the current session when it carries the session's
+ * id or, lacking an id, falls within timeoutMs of its latest activity.
+ * Otherwise it starts a session, which becomes current unless the activity
+ * is older than the current session, so late events do not end it.
+ */
+export function assignSession(
+  state: SessionState | undefined,
+  timestamp: number,
+  timeoutMs: number,
+  sessionId: string | undefined,
+  newSessionId: () => string
+): { assignment: SessionAssignment; state: SessionState } {
+  const continues =
+    state !== undefined &&
+    (sessionId !== undefined
+      ? sessionId === state.sessionId
+      : Math.abs(timestamp - state.lastActivityAt) <= timeoutMs);
+
+  if (continues) {
+    return {
+      assignment: { sessionId: state!.sessionId, started: false },
+      state: {
+        sessionId: state!.sessionId,
+        lastActivityAt: Math.max(state!.lastActivityAt, timestamp),
+      },
+    };
+  }
+
+  const started = sessionId ?? newSessionId();
+  return {
+    assignment: { sessionId: started, started: true },
+    state:
+      !state || timestamp >= state.lastActivityAt
+        ? { sessionId: started, lastActivityAt: timestamp }
+        : state,
+  };
+}
@@ -0,0 +1,45 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import {
+  compilePropertyFilter,
+  PropertyPredicate,
+} from '../services/property-filter.js';
+
+// Distinct filters kept compiled per connection before the cache is reset
+const MAX_COMPILED_FILTERS = 100;
+
+/**
+ * Open a SQLite database file, creating its directory when needed
+ */
+export function openSqliteDatabase(path: string): Database.Database {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  // WAL lets readers proceed while the event and user adapters write
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  return db;
+}
+
+/**
+ * Register nodash_where(properties, filter), which evaluates a JSON-encoded
+ * PropertyFilter against a JSON properties column with the shared evaluator
+ */
+export function registerPropertyFilterFunction(db: Database.Database): void {
+  const predicates = new Map<string, PropertyPredicate>();
+
+  db.function('nodash_where', { deterministic: true }, (properties, filter) => {
+    let predicate = predicates.get(filter as string);
+    if (!predicate) {
+      if (predicates.size >= MAX_COMPILED_FILTERS) {
+        predicates.clear();
+      }
+      predicate = compilePropertyFilter(JSON.parse(filter as string));
+      predicates.set(filter as string, predicate);
+    }
+    return predicate(JSON.parse(properties as string)) ? 1 : 0;
+  });
+}
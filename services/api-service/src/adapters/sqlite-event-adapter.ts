@@ -0,0 +1,443 @@
+import type Database from 'better-sqlite3';
+import { EventAdapter } from '../interfaces/storage.js';
+import {
+  AnalyticsEvent,
+  InsertResult,
+  QueryFilter,
+  QueryResult,
+  ExportFilter,
+  ExportFormat,
+  ExportResult,
+  AggregationQuery,
+  AggregationResult,
+  AggregationInterval,
+} from '../types/core.js';
+import {
+  openSqliteDatabase,
+  registerPropertyFilterFunction,
+} from './sqlite-database.js';
+import { createExportResult } from './event-export.js';
+import { bucketStart } from './event-aggregation.js';
+
+interface EventRow {
+  tenant_id: string;
+  event_id: string;
+  user_id: string | null;
+  event_name: string;
+  properties: string;
+  timestamp: number;
+  received_at: number;
+  session_id: string | null;
+  device_id: string | null;
+}
+
+// Rows fetched per keyset page while exporting
+const EXPORT_PAGE_SIZE = 1000;
+
+// Maps QueryFilter.sortBy values to columns; anything else falls back to timestamp.
+// Missing user ids sort as '' so cursors can compare against them.
+const SORT_COLUMNS: Record<string, string> = {
+  timestamp: 'timestamp',
+  eventName: 'event_name',
+  userId: "COALESCE(user_id, '')",
+};
+
+export class SqliteEventAdapter implements EventAdapter {
+  private db: Database.Database;
+  private ownsDatabase: boolean;
+
+  constructor(connection: string | Database.Database) {
+    if (typeof connection === 'string') {
+      this.db = openSqliteDatabase(connection);
+      this.ownsDatabase = true;
+    } else {
+      this.db = connection;
+      this.ownsDatabase = false;
+    }
+
+    registerPropertyFilterFunction(this.db);
+
+    // SQLite has no timezone support, so time buckets are computed in JS
+    this.db.function(
+      'nodash_bucket_start',
+      { deterministic: true },
+      (ms, interval, timezone) =>
+        bucketStart(
+          ms as number,
+          interval as AggregationInterval,
+          timezone as string
+        )
+    );
+  }
+
+  /**
+   * Create the events table and indexes if they do not exist; call before first use
+   */
+  async initialize(): Promise<void> {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        tenant_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        user_id TEXT,
+        event_name TEXT NOT NULL,
+        properties TEXT NOT NULL DEFAULT '{}',
+        timestamp INTEGER NOT NULL,
+        received_at INTEGER NOT NULL,
+        session_id TEXT,
+        device_id TEXT
+      );
+      CREATE INDEX IF NOT EXISTS events_tenant_timestamp_idx
+        ON events (tenant_id, timestamp);
+      CREATE INDEX IF NOT EXISTS events_tenant_event_name_idx
+        ON events (tenant_id, event_name, timestamp);
+      CREATE INDEX IF NOT EXISTS events_tenant_user_idx
+        ON events (tenant_id, user_id, timestamp);
+    `);
+  }
+
+  async insert(event: AnalyticsEvent): Promise<InsertResult> {
+    const [result] = await this.insertBatch([event]);
+    return result!;
+  }
+
+  async insertBatch(events: AnalyticsEvent[]): Promise<InsertResult[]> {
+    if (events.length === 0) {
+      return [];
+    }
+
+    try {
+      const statement = this.db.prepare(
+        `INSERT INTO events
+          (tenant_id, event_id, user_id, event_name, properties,
+           timestamp, received_at, session_id, device_id)
+        VALUES
+          (@tenant_id, @event_id, @user_id, @event_name, @properties,
+           @timestamp, @received_at, @session_id, @device_id)`
+      );
+
+      // One transaction per batch; a failure rolls back every event in it
+      this.db.transaction((batch: AnalyticsEvent[]) => {
+        for (const event of batch) {
+          statement.run(this.toRow(event));
+        }
+      })(events);
+
+      return events.map((event) => ({
+        success: true,
+        eventId: event.eventId,
+      }));
+    } catch (error) {
+      return events.map((event) => ({
+        success: false,
+        eventId: event.eventId,
+        error: `Failed to insert event: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }
+
+  async query(filter: QueryFilter): Promise<QueryResult> {
+    const startTime = Date.now();
+
+    try {
+      const { where: filterWhere, params } = this.buildWhere(filter);
+
+      // Default sort by timestamp descending, like the flat-file adapter
+      const sortColumn =
+        (filter.sortBy && SORT_COLUMNS[filter.sortBy]) || 'timestamp';
+      const sortDirection =
+        filter.sortBy && filter.sortOrder !== 'desc' ? 'ASC' : 'DESC';
+
+      let where = filterWhere;
+      if (filter.after) {
+        // Row values compare column by column, matching the ORDER BY below
+        where += ` AND (${sortColumn}, event_id) ${sortDirection === 'ASC' ? '>' : '<'} (@afterValue, @afterId)`;
+        params.afterValue = filter.after.value;
+        params.afterId = filter.after.id;
+      }
+
+      const countRow = this.db
+        .prepare(`SELECT COUNT(*) AS total FROM events WHERE ${where}`)
+        .get(params) as { total: number };
+      const totalCount = countRow.total;
+
+      const offset = filter.offset || 0;
+      const limit = filter.limit || 100;
+
+      const rows = this.db
+        .prepare(
+          `SELECT * FROM events WHERE ${where}
+          ORDER BY ${sortColumn} ${sortDirection}, event_id ${sortDirection}
+          LIMIT @limit OFFSET @offset`
+        )
+        .all({ ...params, limit, offset }) as EventRow[];
+
+      return {
+        events: rows.map((row) => this.toEvent(row)),
+        totalCount,
+        hasMore: offset + limit < totalCount,
+        pagination: {
+          limit,
+          offset,
+          ...(offset + limit < totalCount
+            ? { nextOffset: offset + limit }
+            : {}),
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to query events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async export(
+    filter: ExportFilter,
+    format: ExportFormat
+  ): Promise<ExportResult> {
+    try {
+      const { where, params } = this.buildWhere(filter);
+      const statement = this.db.prepare(
+        `SELECT rowid AS row_id, * FROM events
+        WHERE ${where} AND (timestamp, rowid) > (@afterMs, @afterRowId)
+        ORDER BY timestamp, rowid
+        LIMIT ${EXPORT_PAGE_SIZE}`
+      );
+
+      return createExportResult(this.exportEvents(statement, params), format);
+    } catch (error) {
+      throw new Error(
+        `Failed to export events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async aggregate(query: AggregationQuery): Promise<AggregationResult> {
+    const startTime = Date.now();
+
+    try {
+      const { where, params } = this.buildWhere(query.filter);
+      const columns: string[] = [];
+      const groupColumns: string[] = [];
+
+      if (query.interval) {
+        columns.push(
+          'nodash_bucket_start(timestamp, @interval, @timezone) AS bucket_ms'
+        );
+        groupColumns.push('bucket_ms');
+        params.interval = query.interval;
+        params.timezone = query.timezone ?? 'UTC';
+      }
+
+      if (query.groupBy) {
+        if ('field' in query.groupBy) {
+          columns.push('event_name AS group_value');
+        } else {
+          // Strings as plain text, other values as JSON, missing as NULL
+          columns.push(
+            `CASE json_type(properties -> @groupPath)
+              WHEN 'text' THEN properties ->> @groupPath
+              ELSE properties -> @groupPath
+            END AS group_value`
+          );
+          params.groupPath = jsonKeyPath(query.groupBy.property);
+        }
+        groupColumns.push('group_value');
+      }
+
+      // Only JSON numbers take part in sum, avg, min and max
+      const numeric = `CASE WHEN json_type(properties -> @metricPath)
+        IN ('integer', 'real') THEN properties ->> @metricPath END`;
+      const metrics: Record<AggregationQuery['metric'], string> = {
+        count: 'COUNT(*)',
+        uniqueUsers: 'COUNT(DISTINCT user_id)',
+        sum: `COALESCE(SUM(${numeric}), 0)`,
+        avg: `AVG(${numeric})`,
+        min: `MIN(${numeric})`,
+        max: `MAX(${numeric})`,
+      };
+      columns.push(`${metrics[query.metric]} AS value`);
+      if (query.property) {
+        params.metricPath = jsonKeyPath(query.property);
+      }
+
+      const rows = this.db
+        .prepare(
+          `SELECT ${columns.join(', ')} FROM events WHERE ${where}
+          ${groupColumns.length > 0 ? `GROUP BY ${groupColumns.join(', ')}` : ''}`
+        )
+        .all(params) as Array<{
+        bucket_ms?: number;
+        group_value?: string | null;
+        value: number | null;
+      }>;
+
+      return {
+        buckets: rows.map((row) => ({
+          ...(query.interval && { time: new Date(row.bucket_ms!) }),
+          ...(query.groupBy && { group: row.group_value ?? null }),
+          value: row.value,
+        })),
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to aggregate events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async deleteUserEvents(tenantId: string, userId: string): Promise<string[]> {
+    try {
+      const rows = this.db
+        .prepare(
+          `DELETE FROM events
+          WHERE tenant_id = @tenantId AND user_id = @userId
+          RETURNING event_id`
+        )
+        .all({ tenantId, userId }) as Array<{ event_id: string }>;
+
+      return rows.map((row) => row.event_id);
+    } catch (error) {
+      throw new Error(
+        `Failed to delete user events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      this.db.prepare('SELECT 1').get();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsDatabase && this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Page through the matches by (timestamp, rowid) rather than holding one
+   * statement iterator open, which would block the shared connection for
+   * every other query until the export finished
+   */
+  private async *exportEvents(
+    statement: Database.Statement,
+    params: Record<string, unknown>
+  ): AsyncGenerator<AnalyticsEvent> {
+    let afterMs = Number.MIN_SAFE_INTEGER;
+    let afterRowId = 0;
+
+    for (;;) {
+      const rows = statement.all({ ...params, afterMs, afterRowId }) as Array<
+        EventRow & { row_id: number }
+      >;
+
+      for (const row of rows) {
+        yield this.toEvent(row);
+      }
+
+      if (rows.length < EXPORT_PAGE_SIZE) {
+        return;
+      }
+      afterMs = rows[rows.length - 1]!.timestamp;
+      afterRowId = rows[rows.length - 1]!.row_id;
+    }
+  }
+
+  private buildWhere(filter: QueryFilter): {
+    where: string;
+    params: Record<string, unknown>;
+  } {
+    const conditions: string[] = ['tenant_id = @tenantId'];
+    const params: Record<string, unknown> = { tenantId: filter.tenantId };
+
+    if (filter.startTime) {
+      conditions.push('timestamp >= @startMs');
+      params.startMs = filter.startTime.getTime();
+    }
+
+    if (filter.endTime) {
+      conditions.push('timestamp <= @endMs');
+      params.endMs = filter.endTime.getTime();
+    }
+
+    if (filter.eventName) {
+      conditions.push('event_name = @eventName');
+      params.eventName = filter.eventName;
+    }
+
+    if (filter.eventTypes && filter.eventTypes.length > 0) {
+      const placeholders = filter.eventTypes.map((eventType, index) => {
+        params[`eventType${index}`] = eventType;
+        return `@eventType${index}`;
+      });
+      conditions.push(`event_name IN (${placeholders.join(', ')})`);
+    }
+
+    if (filter.userId) {
+      conditions.push('user_id = @userId');
+      params.userId = filter.userId;
+    }
+
+    if (filter.userIds) {
+      conditions.push('user_id IN (SELECT value FROM json_each(@userIds))');
+      params.userIds = JSON.stringify(filter.userIds);
+    }
+
+    // Property filters compare the JSON of top-level keys for equality
+    if (filter.properties) {
+      Object.entries(filter.properties).forEach(([key, value], index) => {
+        conditions.push(`properties -> @propKey${index} = @propValue${index}`);
+        params[`propKey${index}`] = jsonKeyPath(key);
+        params[`propValue${index}`] = JSON.stringify(value);
+      });
+    }
+
+    if (filter.where) {
+      conditions.push('nodash_where(properties, @where)');
+      params.where = JSON.stringify(filter.where);
+    }
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  private toRow(event: AnalyticsEvent): EventRow {
+    return {
+      tenant_id: event.tenantId,
+      event_id: event.eventId,
+      user_id: event.userId ?? null,
+      event_name: event.eventName,
+      properties: JSON.stringify(event.properties || {}),
+      timestamp: event.timestamp.getTime(),
+      received_at: event.receivedAt.getTime(),
+      session_id: event.sessionId ?? null,
+      device_id: event.deviceId ?? null,
+    };
+  }
+
+  private toEvent(row: EventRow): AnalyticsEvent {
+    return {
+      eventId: row.event_id,
+      tenantId: row.tenant_id,
+      eventName: row.event_name,
+      properties: JSON.parse(row.properties || '{}'),
+      timestamp: new Date(row.timestamp),
+      receivedAt: new Date(row.received_at),
+      ...(row.user_id !== null && { userId: row.user_id }),
+      ...(row.session_id !== null && { sessionId: row.session_id }),
+      ...(row.device_id !== null && { deviceId: row.device_id }),
+    };
+  }
+}
+
+// Quoted JSON path for a top-level key, so keys containing "." or starting
+// with "$" are not parsed as paths themselves; quotes and backslashes in the
+// key are escaped as in a JSON string
+function jsonKeyPath(key: string): string {
+  return `$.${JSON.stringify(key)}`;
+}
@@ -0,0 +1,523 @@
+import type Database from 'better-sqlite3';
+import { UserAdapter } from '../interfaces/storage.js';
+import {
+  UserRecord,
+  UpsertResult,
+  AliasResult,
+  TraitOperations,
+  UserCounterIncrements,
+  UserQueryFilter,
+  UserQueryResult,
+} from '../types/core.js';
+import {
+  openSqliteDatabase,
+  registerPropertyFilterFunction,
+} from './sqlite-database.js';
+import {
+  mergeAliasProfile,
+  planAlias,
+  toAliasResult,
+} from './identity-graph.js';
+import { applyTraitOperations } from './trait-operations.js';
+
+interface UserRow {
+  tenant_id: string;
+  user_id: string;
+  properties: string;
+  first_seen: number;
+  last_seen: number;
+  session_count: number;
+  event_count: number;
+}
+
+// Maps UserQueryFilter.sortBy values to columns; anything else is rejected
+const SORT_COLUMNS: Record<string, string> = {
+  firstSeen: 'first_seen',
+  lastSeen: 'last_seen',
+  eventCount: 'event_count',
+  sessionCount: 'session_count',
+};
+
+export class SqliteUserAdapter implements UserAdapter {
+  private db: Database.Database;
+  private ownsDatabase: boolean;
+
+  constructor(connection: string | Database.Database) {
+    if (typeof connection === 'string') {
+      this.db = openSqliteDatabase(connection);
+      this.ownsDatabase = true;
+    } else {
+      this.db = connection;
+      this.ownsDatabase = false;
+    }
+
+    registerPropertyFilterFunction(this.db);
+  }
+
+  /**
+   * Create the users and aliases tables and indexes if they do not exist;
+   * call before first use
+   */
+  async initialize(): Promise<void> {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        tenant_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        properties TEXT NOT NULL DEFAULT '{}',
+        first_seen INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL,
+        session_count INTEGER NOT NULL DEFAULT 0,
+        event_count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (tenant_id, user_id)
+      );
+      CREATE INDEX IF NOT EXISTS users_tenant_first_seen_idx
+        ON users (tenant_id, first_seen);
+      CREATE INDEX IF NOT EXISTS users_tenant_last_seen_idx
+        ON users (tenant_id, last_seen);
+      CREATE TABLE IF NOT EXISTS user_aliases (
+        tenant_id TEXT NOT NULL,
+        alias_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (tenant_id, alias_id)
+      );
+      CREATE INDEX IF NOT EXISTS user_aliases_tenant_user_idx
+        ON user_aliases (tenant_id, user_id);
+    `);
+  }
+
+  async upsert(
+    user: UserRecord,
+    operations?: TraitOperations
+  ): Promise<UpsertResult> {
+    try {
+      // The read-merge-write runs in one transaction so concurrent
+      // connections to the same file cannot interleave
+      const created = this.db
+        .transaction((record: UserRecord): boolean => {
+          const existing = this.db
+            .prepare(
+              'SELECT properties FROM users WHERE tenant_id = ? AND user_id = ?'
+            )
+            .get(record.tenantId, record.userId) as
+            | Pick<UserRow, 'properties'>
+            | undefined;
+
+          if (!existing) {
+            this.db
+              .prepare(
+                `INSERT INTO users
+                  (tenant_id, user_id, properties, first_seen, last_seen, session_count, event_count)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`
+              )
+              .run(
+                record.tenantId,
+                record.userId,
+                JSON.stringify(
+                  applyTraitOperations({}, record.properties || {}, operations)
+                ),
+                record.firstSeen.getTime(),
+                record.lastSeen.getTime(),
+                record.sessionCount,
+                record.eventCount
+              );
+            return true;
+          }
+
+          const properties = applyTraitOperations(
+            JSON.parse(existing.properties || '{}'),
+            record.properties,
+            operations
+          );
+
+          this.db
+            .prepare(
+              `UPDATE users SET properties = ?, last_seen = ?
+              WHERE tenant_id = ? AND user_id = ?`
+            )
+            .run(
+              JSON.stringify(properties),
+              record.lastSeen.getTime(),
+              record.tenantId,
+              record.userId
+            );
+          return false;
+        })
+        .immediate(user);
+
+      return {
+        success: true,
+        userId: user.userId,
+        created,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        created: false,
+        error: `Failed to upsert user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async incrementCounters(
+    tenantId: string,
+    userId: string,
+    increments: UserCounterIncrements,
+    seenAt: Date
+  ): Promise<UpsertResult> {
+    try {
+      const created = this.db
+        .transaction((): boolean => {
+          const existing = this.db
+            .prepare('SELECT 1 FROM users WHERE tenant_id = ? AND user_id = ?')
+            .get(tenantId, userId);
+
+          if (!existing) {
+            this.db
+              .prepare(
+                `INSERT INTO users
+                  (tenant_id, user_id, properties, first_seen, last_seen, session_count, event_count)
+                VALUES (?, ?, '{}', ?, ?, ?, ?)`
+              )
+              .run(
+                tenantId,
+                userId,
+                seenAt.getTime(),
+                seenAt.getTime(),
+                increments.sessionCount ?? 0,
+                increments.eventCount ?? 0
+              );
+            return true;
+          }
+
+          this.db
+            .prepare(
+              `UPDATE users SET
+                session_count = session_count + ?,
+                event_count = event_count + ?,
+                first_seen = MIN(first_seen, ?),
+                last_seen = MAX(last_seen, ?)
+              WHERE tenant_id = ? AND user_id = ?`
+            )
+            .run(
+              increments.sessionCount ?? 0,
+              increments.eventCount ?? 0,
+              seenAt.getTime(),
+              seenAt.getTime(),
+              tenantId,
+              userId
+            );
+          return false;
+        })
+        .immediate();
+
+      return { success: true, userId, created };
+    } catch (error) {
+      return {
+        success: false,
+        created: false,
+        error: `Failed to increment user counters: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async get(tenantId: string, userId: string): Promise<UserRecord | null> {
+    try {
+      const row = this.db
+        .prepare('SELECT * FROM users WHERE tenant_id = ? AND user_id = ?')
+        .get(tenantId, userId) as UserRow | undefined;
+      return row ? this.toUserRecord(row) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(tenantId: string, userId: string): Promise<boolean> {
+    try {
+      return this.db
+        .transaction((): boolean => {
+          this.db
+            .prepare(
+              `DELETE FROM user_aliases
+              WHERE tenant_id = ? AND (alias_id = ? OR user_id = ?)`
+            )
+            .run(tenantId, userId, userId);
+          const result = this.db
+            .prepare('DELETE FROM users WHERE tenant_id = ? AND user_id = ?')
+            .run(tenantId, userId);
+          return result.changes > 0;
+        })
+        .immediate();
+    } catch {
+      return false;
+    }
+  }
+
+  async getBatch(tenantId: string, userIds: string[]): Promise<UserRecord[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM users WHERE tenant_id = ?
+        AND user_id IN (SELECT value FROM json_each(?))`
+      )
+      .all(tenantId, JSON.stringify(userIds)) as UserRow[];
+
+    // Preserve the requested order, like the flat-file adapter
+    const byId = new Map<string, UserRecord>(
+      rows.map((row) => [row.user_id, this.toUserRecord(row)])
+    );
+    return userIds
+      .map((userId) => byId.get(userId))
+      .filter((user): user is UserRecord => user !== undefined);
+  }
+
+  async query(filter: UserQueryFilter): Promise<UserQueryResult> {
+    const startTime = Date.now();
+
+    try {
+      const conditions: string[] = ['tenant_id = @tenantId'];
+      const params: Record<string, unknown> = { tenantId: filter.tenantId };
+
+      if (filter.userId) {
+        conditions.push('user_id = @userId');
+        params.userId = filter.userId;
+      }
+
+      if (filter.activeSince) {
+        conditions.push('last_seen >= @activeSince');
+        params.activeSince = filter.activeSince.getTime();
+      }
+
+      if (filter.activeUntil) {
+        conditions.push('first_seen <= @activeUntil');
+        params.activeUntil = filter.activeUntil.getTime();
+      }
+
+      // Property filters compare the JSON of top-level keys for equality
+      if (filter.properties) {
+        Object.entries(filter.properties).forEach(([key, value], index) => {
+          conditions.push(
+            `properties -> @propKey${index} = @propValue${index}`
+          );
+          params[`propKey${index}`] = key;
+          params[`propValue${index}`] = JSON.stringify(value);
+        });
+      }
+
+      if (filter.where) {
+        conditions.push('nodash_where(properties, @where)');
+        params.where = JSON.stringify(filter.where);
+      }
+
+      const sortColumn = filter.sortBy
+        ? SORT_COLUMNS[filter.sortBy]
+        : undefined;
+      const sortDirection = filter.sortOrder === 'desc' ? 'DESC' : 'ASC';
+      const orderBy = sortColumn
+        ? `${sortColumn} ${sortDirection}, user_id ASC`
+        : 'user_id ASC';
+
+      // Ties are broken by user_id ascending whatever the sort direction
+      if (filter.after && sortColumn) {
+        conditions.push(
+          `(${sortColumn} ${sortDirection === 'ASC' ? '>' : '<'} @afterValue OR (${sortColumn} = @afterValue AND user_id > @afterId))`
+        );
+        params.afterValue = filter.after.value;
+        params.afterId = filter.after.id;
+      } else if (filter.after) {
+        conditions.push('user_id > @afterId');
+        params.afterId = filter.after.id;
+      }
+
+      const where = conditions.join(' AND ');
+
+      const countRow = this.db
+        .prepare(`SELECT COUNT(*) AS total FROM users WHERE ${where}`)
+        .get(params) as { total: number };
+      const totalCount = countRow.total;
+
+      const offset = filter.offset || 0;
+      const limit = filter.limit || 100;
+
+      const rows = this.db
+        .prepare(
+          `SELECT * FROM users WHERE ${where}
+          ORDER BY ${orderBy}
+          LIMIT @limit OFFSET @offset`
+        )
+        .all({ ...params, limit, offset }) as UserRow[];
+
+      return {
+        users: rows.map((row) => this.toUserRecord(row)),
+        totalCount,
+        hasMore: offset + limit < totalCount,
+        pagination: {
+          limit,
+          offset,
+          ...(offset + limit < totalCount
+            ? { nextOffset: offset + limit }
+            : {}),
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to query users: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async alias(
+    tenantId: string,
+    aliasId: string,
+    userId: string
+  ): Promise<AliasResult> {
+    try {
+      // Resolving, relinking and merging run in one transaction so
+      // concurrent aliases always see a consistent graph
+      return this.db
+        .transaction((): AliasResult => {
+          const canonicalOf = this.db.prepare(
+            'SELECT user_id FROM user_aliases WHERE tenant_id = ? AND alias_id = ?'
+          );
+          const canonical =
+            (
+              canonicalOf.get(tenantId, userId) as
+                | { user_id: string }
+                | undefined
+            )?.user_id ?? userId;
+          const current = (
+            canonicalOf.get(tenantId, aliasId) as
+              | { user_id: string }
+              | undefined
+          )?.user_id;
+
+          const link = planAlias(aliasId, canonical, current);
+          if (link.status !== 'linked') {
+            return toAliasResult(aliasId, link);
+          }
+
+          this.db
+            .prepare(
+              'UPDATE user_aliases SET user_id = ? WHERE tenant_id = ? AND user_id = ?'
+            )
+            .run(link.userId, tenantId, aliasId);
+          this.db
+            .prepare(
+              `INSERT INTO user_aliases (tenant_id, alias_id, user_id, created_at)
+              VALUES (?, ?, ?, ?)`
+            )
+            .run(tenantId, aliasId, link.userId, Date.now());
+
+          const selectUser = this.db.prepare(
+            'SELECT * FROM users WHERE tenant_id = ? AND user_id = ?'
+          );
+          const aliasRow = selectUser.get(tenantId, aliasId) as
+            | UserRow
+            | undefined;
+          if (!aliasRow) {
+            return toAliasResult(aliasId, link);
+          }
+
+          const userRow = selectUser.get(tenantId, link.userId) as
+            | UserRow
+            | undefined;
+          const merged = mergeAliasProfile(
+            userRow ? this.toUserRecord(userRow) : null,
+            this.toUserRecord(aliasRow),
+            link.userId
+          );
+          this.db
+            .prepare(
+              `INSERT OR REPLACE INTO users
+                (tenant_id, user_id, properties, first_seen, last_seen, session_count, event_count)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+              tenantId,
+              merged.userId,
+              JSON.stringify(merged.properties),
+              merged.firstSeen.getTime(),
+              merged.lastSeen.getTime(),
+              merged.sessionCount,
+              merged.eventCount
+            );
+          this.db
+            .prepare('DELETE FROM users WHERE tenant_id = ? AND user_id = ?')
+            .run(tenantId, aliasId);
+
+          return toAliasResult(aliasId, link, true);
+        })
+        .immediate();
+    } catch (error) {
+      return {
+        success: false,
+        linked: false,
+        profileMerged: false,
+        error: `Failed to alias user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  async resolveIdentities(
+    tenantId: string,
+    ids: string[]
+  ): Promise<Map<string, string>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT alias_id, user_id FROM user_aliases WHERE tenant_id = ?
+        AND alias_id IN (SELECT value FROM json_each(?))`
+      )
+      .all(tenantId, JSON.stringify(ids)) as Array<{
+      alias_id: string;
+      user_id: string;
+    }>;
+
+    return new Map(rows.map((row) => [row.alias_id, row.user_id]));
+  }
+
+  async getAliases(tenantId: string, userId: string): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT alias_id FROM user_aliases WHERE tenant_id = ? AND user_id = ?
+        ORDER BY alias_id`
+      )
+      .all(tenantId, userId) as Array<{ alias_id: string }>;
+
+    return rows.map((row) => row.alias_id);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      this.db.prepare('SELECT 1').get();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsDatabase && this.db.open) {
+      this.db.close();
+    }
+  }
+
+  private toUserRecord(row: UserRow): UserRecord {
+    return {
+      userId: row.user_id,
+      tenantId: row.tenant_id,
+      properties: JSON.parse(row.properties || '{}'),
+      firstSeen: new Date(row.first_seen),
+      lastSeen: new Date(row.last_seen),
+      sessionCount: row.session_count,
+      eventCount: row.event_count,
+    };
+  }
+}
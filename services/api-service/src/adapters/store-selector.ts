@@ -2,21 +2,37 @@ import {
   StoreSelector,
   EventAdapter,
   UserAdapter,
+  GroupAdapter,
   RateLimitAdapter,
   DeduplicationAdapter,
+  SessionAdapter,
 } from '../interfaces/storage.js';
 import { Config } from '../types/core.js';
 import { FlatFileEventAdapter } from './flatfile-event-adapter.js';
 import { FlatFileUserAdapter } from './flatfile-user-adapter.js';
+import { MemoryEventAdapter } from './memory-event-adapter.js';
+import { MemoryUserAdapter } from './memory-user-adapter.js';
+import { FlatFileGroupAdapter } from './flatfile-group-adapter.js';
+import { MemoryGroupAdapter } from './memory-group-adapter.js';
+import { ClickHouseEventAdapter } from './clickhouse-event-adapter.js';
+import { PostgresUserAdapter } from './postgres-user-adapter.js';
+import { SqliteEventAdapter } from './sqlite-event-adapter.js';
+import { SqliteUserAdapter } from './sqlite-user-adapter.js';
 import { MemoryRateLimitAdapter } from './memory-rate-limiter.js';
 import { MemoryDeduplicationAdapter } from './memory-deduplication.js';
+import { RedisRateLimitAdapter } from './redis-rate-limiter.js';
+import { RedisDeduplicationAdapter } from './redis-deduplication.js';
+import { MemorySessionAdapter } from './memory-session.js';
+import { RedisSessionAdapter } from './redis-session.js';
 
 export class AdapterStoreSelector implements StoreSelector {
   private config: Config;
   private eventAdapter?: EventAdapter;
   private userAdapter?: UserAdapter;
+  private groupAdapter?: GroupAdapter;
   private rateLimitAdapter?: RateLimitAdapter;
   private deduplicationAdapter?: DeduplicationAdapter;
+  private sessionAdapter?: SessionAdapter;
   private initialized = false;
 
   constructor(config: Config) {
@@ -34,14 +50,24 @@ export class AdapterStoreSelector implements StoreSelector {
     console.log(`👥 Users storage: ${this.config.stores.users}`);
     this.userAdapter = await this.createUserAdapter();
 
+    // Initialize group adapter
+    console.log(`🏢 Groups storage: ${this.config.stores.groups}`);
+    this.groupAdapter = await this.createGroupAdapter();
+
     // Initialize rate limit adapter
     console.log(`🚦 Rate limiting storage: ${this.config.stores.rateLimits}`);
     this.rateLimitAdapter = await this.createRateLimitAdapter();
 
-    // Initialize deduplication adapter (always memory for Phase 0)
-    console.log(`🔄 Deduplication storage: memory`);
+    // Initialize deduplication adapter
+    console.log(
+      `🔄 Deduplication storage: ${this.config.stores.deduplication}`
+    );
     this.deduplicationAdapter = await this.createDeduplicationAdapter();
 
+    // Initialize session adapter
+    console.log(`🕒 Session storage: ${this.config.stores.sessions}`);
+    this.sessionAdapter = await this.createSessionAdapter();
+
     this.initialized = true;
     console.log('✅ All storage adapters initialized successfully');
   }
@@ -56,6 +82,11 @@ export class AdapterStoreSelector implements StoreSelector {
     return this.userAdapter!;
   }
 
+  getGroupAdapter(): GroupAdapter {
+    this.ensureInitialized();
+    return this.groupAdapter!;
+  }
+
   getRateLimitAdapter(): RateLimitAdapter {
     this.ensureInitialized();
     return this.rateLimitAdapter!;
@@ -66,27 +97,44 @@ export class AdapterStoreSelector implements StoreSelector {
     return this.deduplicationAdapter!;
   }
 
+  getSessionAdapter(): SessionAdapter {
+    this.ensureInitialized();
+    return this.sessionAdapter!;
+  }
+
   async healthCheck(): Promise<{
     eventStore: boolean;
     userStore: boolean;
+    groupStore: boolean;
     rateLimiter: boolean;
     deduplication: boolean;
+    sessions: boolean;
   }> {
     this.ensureInitialized();
 
-    const [eventStore, userStore, rateLimiter, deduplication] =
-      await Promise.all([
-        this.eventAdapter!.healthCheck(),
-        this.userAdapter!.healthCheck(),
-        this.rateLimitAdapter!.healthCheck(),
-        this.deduplicationAdapter!.healthCheck(),
-      ]);
+    const [
+      eventStore,
+      userStore,
+      groupStore,
+      rateLimiter,
+      deduplication,
+      sessions,
+    ] = await Promise.all([
+      this.eventAdapter!.healthCheck(),
+      this.userAdapter!.healthCheck(),
+      this.groupAdapter!.healthCheck(),
+      this.rateLimitAdapter!.healthCheck(),
+      this.deduplicationAdapter!.healthCheck(),
+      this.sessionAdapter!.healthCheck(),
+    ]);
 
     return {
       eventStore,
       userStore,
+      groupStore,
       rateLimiter,
       deduplication,
+      sessions,
     };
   }
 
@@ -105,6 +153,10 @@ export class AdapterStoreSelector implements StoreSelector {
       closePromises.push(this.userAdapter.close());
     }
 
+    if (this.groupAdapter) {
+      closePromises.push(this.groupAdapter.close());
+    }
+
     if (this.rateLimitAdapter) {
       closePromises.push(this.rateLimitAdapter.close());
     }
@@ -113,6 +165,10 @@ export class AdapterStoreSelector implements StoreSelector {
       closePromises.push(this.deduplicationAdapter.close());
     }
 
+    if (this.sessionAdapter) {
+      closePromises.push(this.sessionAdapter.close());
+    }
+
     await Promise.all(closePromises);
 
     this.initialized = false;
@@ -122,13 +178,27 @@ export class AdapterStoreSelector implements StoreSelector {
   private async createEventAdapter(): Promise<EventAdapter> {
     switch (this.config.stores.events) {
       case 'flatfile':
-        return new FlatFileEventAdapter(this.config.paths.events, 'daily');
+        return new FlatFileEventAdapter(
+          this.config.paths.events,
+          this.config.eventsPartition
+        );
 
-      case 'clickhouse':
-        // TODO: Implement ClickHouse adapter in Phase 1
-        throw new Error(
-          'ClickHouse event adapter not yet implemented. Use STORE_EVENTS=flatfile for Phase 0'
+      case 'memory':
+        return new MemoryEventAdapter();
+
+      case 'clickhouse': {
+        const adapter = new ClickHouseEventAdapter(
+          this.config.urls.clickhouse!
         );
+        await adapter.initialize();
+        return adapter;
+      }
+
+      case 'sqlite': {
+        const adapter = new SqliteEventAdapter(this.config.paths.sqlite);
+        await adapter.initialize();
+        return adapter;
+      }
 
       case 'bigquery':
         // TODO: Implement BigQuery adapter in Phase 1
@@ -148,11 +218,20 @@ export class AdapterStoreSelector implements StoreSelector {
       case 'flatfile':
         return new FlatFileUserAdapter(this.config.paths.users, true);
 
-      case 'postgres':
-        // TODO: Implement PostgreSQL adapter in Phase 1
-        throw new Error(
-          'PostgreSQL user adapter not yet implemented. Use STORE_USERS=flatfile for Phase 0'
-        );
+      case 'memory':
+        return new MemoryUserAdapter();
+
+      case 'postgres': {
+        const adapter = new PostgresUserAdapter(this.config.urls.postgres!);
+        await adapter.initialize();
+        return adapter;
+      }
+
+      case 'sqlite': {
+        const adapter = new SqliteUserAdapter(this.config.paths.sqlite);
+        await adapter.initialize();
+        return adapter;
+      }
 
       case 'dynamodb':
         // TODO: Implement DynamoDB adapter in Phase 1
@@ -167,16 +246,28 @@ export class AdapterStoreSelector implements StoreSelector {
     }
   }
 
+  private async createGroupAdapter(): Promise<GroupAdapter> {
+    switch (this.config.stores.groups) {
+      case 'flatfile':
+        return new FlatFileGroupAdapter(this.config.paths.groups);
+
+      case 'memory':
+        return new MemoryGroupAdapter();
+
+      default:
+        throw new Error(
+          `Unsupported group storage type: ${this.config.stores.groups}`
+        );
+    }
+  }
+
   private async createRateLimitAdapter(): Promise<RateLimitAdapter> {
     switch (this.config.stores.rateLimits) {
       case 'memory':
         return new MemoryRateLimitAdapter();
 
       case 'redis':
-        // TODO: Implement Redis adapter in Phase 1
-        throw new Error(
-          'Redis rate limit adapter not yet implemented. Use STORE_RATELIMIT=memory for Phase 0'
-        );
+        return new RedisRateLimitAdapter(this.config.urls.redis!);
 
       default:
         throw new Error(
@@ -186,8 +277,39 @@ export class AdapterStoreSelector implements StoreSelector {
   }
 
   private async createDeduplicationAdapter(): Promise<DeduplicationAdapter> {
-    // For Phase 0, always use memory-based deduplication
-    return new MemoryDeduplicationAdapter();
+    switch (this.config.stores.deduplication) {
+      case 'memory':
+        return new MemoryDeduplicationAdapter(
+          50000,
+          this.config.deduplication.ttlSeconds
+        );
+
+      case 'redis':
+        return new RedisDeduplicationAdapter(
+          this.config.urls.redis!,
+          this.config.deduplication.ttlSeconds
+        );
+
+      default:
+        throw new Error(
+          `Unsupported deduplication storage type: ${this.config.stores.deduplication}`
+        );
+    }
+  }
+
+  private async createSessionAdapter(): Promise<SessionAdapter> {
+    switch (this.config.stores.sessions) {
+      case 'memory':
+        return new MemorySessionAdapter();
+
+      case 'redis':
+        return new RedisSessionAdapter(this.config.urls.redis!);
+
+      default:
+        throw new Error(
+          `Unsupported session storage type: ${this.config.stores.sessions}`
+        );
+    }
   }
 
   private ensureInitialized(): void {
@@ -0,0 +1,69 @@
+import { TraitOperations } from '../types/core.js';
+
+/**
+ * Trait update rules shared by the user adapters, which apply them inside
+ * the same transaction or lock as the rest of an upsert so concurrent
+ * updates to one user never lose each other's changes.
+ */
+
+export const TRAIT_OPERATORS = [
+  '$set',
+  '$setOnce',
+  '$increment',
+  '$unset',
+  '$append',
+  '$union',
+] as const;
+
+/**
+ * The traits stored after an upsert: the stored traits overwritten by the
+ * upserted ones, then each operator in turn. $append and $union treat a
+ * stored value that is not a list as a one-item list, and add each item of
+ * a list value separately.
+ */
+export function applyTraitOperations(
+  stored: Record<string, any>,
+  traits: Record<string, any>,
+  operations: TraitOperations = {}
+): Record<string, any> {
+  const properties = { ...stored, ...traits, ...operations.$set };
+
+  for (const [name, value] of Object.entries(operations.$setOnce ?? {})) {
+    if (properties[name] === undefined) {
+      properties[name] = value;
+    }
+  }
+
+  for (const [name, amount] of Object.entries(operations.$increment ?? {})) {
+    const current = properties[name];
+    properties[name] = (typeof current === 'number' ? current : 0) + amount;
+  }
+
+  for (const [name, value] of Object.entries(operations.$append ?? {})) {
+    properties[name] = [...toList(properties[name]), ...toList(value)];
+  }
+
+  for (const [name, value] of Object.entries(operations.$union ?? {})) {
+    const list = toList(properties[name]);
+    const seen = new Set(list.map((item) => JSON.stringify(item)));
+    for (const item of toList(value)) {
+      const key = JSON.stringify(item);
+      if (!seen.has(key)) {
+        seen.add(key);
+        list.push(item);
+      }
+    }
+    properties[name] = list;
+  }
+
+  for (const name of operations.$unset ?? []) {
+    delete properties[name];
+  }
+
+  return properties;
+}
+
+function toList(value: unknown): unknown[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? [...value] : [value];
+}
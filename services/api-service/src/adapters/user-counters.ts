@@ -0,0 +1,36 @@
+import { UserCounterIncrements, UserRecord } from '../types/core.js';
+
+/**
+ * The record stored after UserAdapter.incrementCounters, for adapters that
+ * read, modify and write the whole record under a lock
+ */
+export function incrementUserCounters(
+  stored: UserRecord | null,
+  tenantId: string,
+  userId: string,
+  increments: UserCounterIncrements,
+  seenAt: Date
+): UserRecord {
+  const sessionCount = increments.sessionCount ?? 0;
+  const eventCount = increments.eventCount ?? 0;
+
+  if (!stored) {
+    return {
+      userId,
+      tenantId,
+      properties: {},
+      firstSeen: seenAt,
+      lastSeen: seenAt,
+      sessionCount,
+      eventCount,
+    };
+  }
+
+  return {
+    ...stored,
+    firstSeen: stored.firstSeen < seenAt ? stored.firstSeen : seenAt,
+    lastSeen: stored.lastSeen > seenAt ? stored.lastSeen : seenAt,
+    sessionCount: stored.sessionCount + sessionCount,
+    eventCount: stored.eventCount + eventCount,
+  };
+}
@@ -12,6 +12,9 @@ export class ConfigLoader {
 
       // Security
       ...(process.env.JWT_SECRET && { jwtSecret: process.env.JWT_SECRET }),
+      ...(process.env.CURSOR_SECRET && {
+        cursorSecret: process.env.CURSOR_SECRET,
+      }),
       apiKeyHeader: process.env.API_KEY_HEADER || 'x-api-key',
       corsOrigins: process.env.CORS_ORIGINS?.split(',') || ['*'],
 
@@ -21,15 +24,26 @@ export class ConfigLoader {
       stores: {
         events: (process.env.STORE_EVENTS as StorageType) || 'flatfile',
         users: (process.env.STORE_USERS as StorageType) || 'flatfile',
+        groups: (process.env.STORE_GROUPS as StorageType) || 'flatfile',
         rateLimits: (process.env.STORE_RATELIMIT as StorageType) || 'memory',
+        deduplication:
+          (process.env.STORE_DEDUPLICATION as StorageType) || 'memory',
+        sessions: (process.env.STORE_SESSIONS as StorageType) || 'memory',
       },
 
       // File storage paths
       paths: {
         events: process.env.EVENTS_PATH || './data/events',
         users: process.env.USERS_PATH || './data/users',
+        groups: process.env.GROUPS_PATH || './data/groups',
+        sqlite: process.env.SQLITE_PATH || './data/nodash.db',
+        deletions: process.env.DELETIONS_PATH || './data/deletions',
       },
 
+      // Flat-file event partitioning
+      eventsPartition:
+        (process.env.EVENTS_PARTITION as 'daily' | 'hourly') || 'daily',
+
       // Database URLs
       urls: {
         ...(process.env.CLICKHOUSE_URL && {
@@ -45,6 +59,22 @@ export class ConfigLoader {
         maxRequests: parseInt(process.env.RATE_LIMIT_MAX || '1000', 10),
       },
 
+      // Deduplication
+      deduplication: {
+        ttlSeconds: parseInt(process.env.DEDUPLICATION_TTL || '3600', 10),
+      },
+
+      // Sessionization
+      sessions: {
+        timeoutMinutes: parseInt(
+          process.env.SESSION_TIMEOUT_MINUTES || '30',
+          10
+        ),
+        tenantTimeoutMinutes: ConfigLoader.parseTenantTimeouts(
+          process.env.TENANT_SESSION_TIMEOUTS
+        ),
+      },
+
       // Observability
       observability: {
         enableTracing: process.env.OTEL_ENABLE_TRACING === 'true',
@@ -81,6 +111,7 @@ export class ConfigLoader {
       'dynamodb',
       'memory',
       'redis',
+      'sqlite',
     ];
 
     if (!validStorageTypes.includes(config.stores.events)) {
@@ -91,12 +122,32 @@ export class ConfigLoader {
       errors.push(`Invalid users storage type: ${config.stores.users}`);
     }
 
+    // Groups are only implemented by these adapters
+    const validGroupStorageTypes: StorageType[] = ['flatfile', 'memory'];
+    if (!validGroupStorageTypes.includes(config.stores.groups)) {
+      errors.push(
+        `Invalid groups storage type: ${config.stores.groups}. Must be one of: ${validGroupStorageTypes.join(', ')}`
+      );
+    }
+
     if (!validStorageTypes.includes(config.stores.rateLimits)) {
       errors.push(
         `Invalid rate limit storage type: ${config.stores.rateLimits}`
       );
     }
 
+    if (!validStorageTypes.includes(config.stores.deduplication)) {
+      errors.push(
+        `Invalid deduplication storage type: ${config.stores.deduplication}`
+      );
+    }
+
+    if (!['daily', 'hourly'].includes(config.eventsPartition)) {
+      errors.push(
+        `Invalid events partition: ${config.eventsPartition}. Must be one of: daily, hourly`
+      );
+    }
+
     // Validate required URLs based on storage types
     if (config.stores.events === 'clickhouse' && !config.urls.clickhouse) {
       errors.push('CLICKHOUSE_URL is required when STORE_EVENTS=clickhouse');
@@ -114,6 +165,22 @@ export class ConfigLoader {
       errors.push('REDIS_URL is required when STORE_RATELIMIT=redis');
     }
 
+    // Current sessions are only kept in these stores
+    const validSessionStorageTypes: StorageType[] = ['memory', 'redis'];
+    if (!validSessionStorageTypes.includes(config.stores.sessions)) {
+      errors.push(
+        `Invalid session storage type: ${config.stores.sessions}. Must be one of: ${validSessionStorageTypes.join(', ')}`
+      );
+    }
+
+    if (config.stores.deduplication === 'redis' && !config.urls.redis) {
+      errors.push('REDIS_URL is required when STORE_DEDUPLICATION=redis');
+    }
+
+    if (config.stores.sessions === 'redis' && !config.urls.redis) {
+      errors.push('REDIS_URL is required when STORE_SESSIONS=redis');
+    }
+
     // Validate rate limit configuration
     if (config.rateLimits.windowSize < 1) {
       errors.push('Rate limit window size must be positive');
@@ -123,6 +190,30 @@ export class ConfigLoader {
       errors.push('Rate limit max requests must be positive');
     }
 
+    // Validate deduplication configuration
+    if (
+      isNaN(config.deduplication.ttlSeconds) ||
+      config.deduplication.ttlSeconds < 1
+    ) {
+      errors.push('Deduplication TTL must be positive');
+    }
+
+    // Validate session timeouts
+    if (
+      isNaN(config.sessions.timeoutMinutes) ||
+      config.sessions.timeoutMinutes < 1
+    ) {
+      errors.push('Session timeout must be positive');
+    }
+
+    for (const [tenantId, minutes] of Object.entries(
+      config.sessions.tenantTimeoutMinutes
+    )) {
+      if (isNaN(minutes) || minutes < 1) {
+        errors.push(`Session timeout for tenant ${tenantId} must be positive`);
+      }
+    }
+
     // Validate environment
     const validEnvironments = ['development', 'staging', 'production', 'test'];
     if (!validEnvironments.includes(config.environment)) {
@@ -133,7 +224,9 @@ export class ConfigLoader {
 
     // Simple JWT authentication - just warn if JWT_SECRET not provided
     if (!config.jwtSecret) {
-      console.warn('⚠️  JWT_SECRET not provided - authentication will be disabled');
+      console.warn(
+        '⚠️  JWT_SECRET not provided - authentication will be disabled'
+      );
     }
 
     if (errors.length > 0) {
@@ -141,15 +234,36 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * Parse TENANT_SESSION_TIMEOUTS, a comma-separated list of
+   * tenantId=minutes pairs
+   */
+  static parseTenantTimeouts(
+    value: string | undefined
+  ): Record<string, number> {
+    const timeouts: Record<string, number> = {};
+    for (const entry of value?.split(',') ?? []) {
+      if (!entry.trim()) continue;
+
+      const [tenantId, minutes] = entry.split('=');
+      timeouts[tenantId!.trim()] = parseInt(minutes ?? '', 10);
+    }
+    return timeouts;
+  }
+
   static getEnvironmentDefaults(): Record<string, string> {
     return {
       // Development defaults
       development: JSON.stringify({
         STORE_EVENTS: 'flatfile',
         STORE_USERS: 'flatfile',
+        STORE_GROUPS: 'flatfile',
         STORE_RATELIMIT: 'memory',
+        STORE_DEDUPLICATION: 'memory',
         EVENTS_PATH: './data/dev/events',
         USERS_PATH: './data/dev/users',
+        GROUPS_PATH: './data/dev/groups',
+        DELETIONS_PATH: './data/dev/deletions',
         RATE_LIMIT_MAX: '10000',
         CORS_ORIGINS: '*',
       }),
@@ -158,15 +272,20 @@ export class ConfigLoader {
       staging: JSON.stringify({
         STORE_EVENTS: 'flatfile',
         STORE_USERS: 'flatfile',
+        STORE_GROUPS: 'flatfile',
         STORE_RATELIMIT: 'memory',
+        STORE_DEDUPLICATION: 'memory',
         EVENTS_PATH: './data/staging/events',
         USERS_PATH: './data/staging/users',
+        GROUPS_PATH: './data/staging/groups',
+        DELETIONS_PATH: './data/staging/deletions',
         RATE_LIMIT_MAX: '5000',
       }),
 
       // Production defaults (most settings should be explicitly configured)
       production: JSON.stringify({
         STORE_RATELIMIT: 'redis',
+        STORE_DEDUPLICATION: 'redis',
         RATE_LIMIT_MAX: '1000',
         CORS_ORIGINS: '', // Must be explicitly set in production
       }),
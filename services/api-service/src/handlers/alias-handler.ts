@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { StoreSelector } from '../interfaces/storage.js';
+import { AliasRequest, AliasResult } from '../types/core.js';
+
+export class AliasHandler {
+  private storeSelector: StoreSelector;
+
+  constructor(storeSelector: StoreSelector) {
+    this.storeSelector = storeSelector;
+  }
+
+  async handle(req: Request, res: Response): Promise<void> {
+    try {
+      const aliasRequest = req.validatedBody as AliasRequest;
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+
+      const result = await this.alias(tenantId, aliasRequest);
+
+      if (result.conflict) {
+        res.status(409).json({
+          error: 'Alias conflict',
+          message: result.error,
+          statusCode: 409,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Failed to store alias',
+          message: result.error || 'Unknown storage error',
+          statusCode: 500,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        userId: result.userId,
+        previousId: aliasRequest.previousId,
+        linked: result.linked,
+        profileMerged: result.profileMerged,
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('Alias handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process alias request',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * Link previousId to the user in the tenant's identity graph
+   */
+  async alias(
+    tenantId: string,
+    aliasRequest: AliasRequest
+  ): Promise<AliasResult> {
+    return this.storeSelector
+      .getUserAdapter()
+      .alias(tenantId, aliasRequest.previousId, aliasRequest.userId);
+  }
+}
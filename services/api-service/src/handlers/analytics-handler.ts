@@ -0,0 +1,247 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { QueryService } from '../services/query-service.js';
+import {
+  FunnelRequest,
+  RetentionRequest,
+  SessionStats,
+} from '../types/core.js';
+import { assertValidTimezone } from '../adapters/event-aggregation.js';
+
+// Conversion window used when a funnel request does not specify one
+const DEFAULT_CONVERSION_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+const SessionsQuerySchema = z
+  .object({
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime(),
+    interval: z.enum(['day', 'week', 'month']).optional(),
+    timezone: z
+      .string()
+      .refine(
+        (value) => {
+          try {
+            assertValidTimezone(value);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: 'must be an IANA timezone name such as "Europe/Berlin"' }
+      )
+      .optional(),
+  })
+  .refine((query) => new Date(query.startDate) <= new Date(query.endDate), {
+    message: 'must be before endDate',
+    path: ['startDate'],
+  });
+
+export class AnalyticsHandler {
+  private queryService: QueryService;
+  private sessionTimeoutMs: (tenantId: string) => number;
+
+  constructor(
+    queryService: QueryService,
+    sessionTimeoutMs: (tenantId: string) => number
+  ) {
+    this.queryService = queryService;
+    this.sessionTimeoutMs = sessionTimeoutMs;
+  }
+
+  async handleFunnel(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const body = req.validatedBody as FunnelRequest;
+      const conversionWindowSeconds =
+        body.conversionWindowSeconds ?? DEFAULT_CONVERSION_WINDOW_SECONDS;
+
+      const result = await this.queryService.analyzeFunnel({
+        tenantId,
+        steps: body.steps.map((step) => ({
+          eventName: step.event,
+          ...(step.properties && { properties: step.properties }),
+        })),
+        conversionWindowMs: conversionWindowSeconds * 1000,
+        startTime: new Date(body.startDate),
+        endTime: new Date(body.endDate),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          steps: result.steps.map((step) => ({
+            event: step.eventName,
+            count: step.count,
+            conversionRate: step.conversionRate,
+            stepConversionRate: step.stepConversionRate,
+            medianSecondsToConvert:
+              step.medianTimeToConvert === null
+                ? null
+                : step.medianTimeToConvert / 1000,
+          })),
+          conversionWindowSeconds,
+          startDate: body.startDate,
+          endDate: body.endDate,
+          executionTime: result.executionTime,
+        },
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('Funnel handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process funnel query',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  async handleRetention(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const body = req.validatedBody as RetentionRequest;
+      const timezone = body.timezone ?? 'UTC';
+
+      const result = await this.queryService.analyzeRetention({
+        tenantId,
+        ...(body.startEvent && {
+          startEvent: {
+            eventName: body.startEvent.event,
+            ...(body.startEvent.properties && {
+              properties: body.startEvent.properties,
+            }),
+          },
+        }),
+        returnEvent: {
+          eventName: body.returnEvent.event,
+          ...(body.returnEvent.properties && {
+            properties: body.returnEvent.properties,
+          }),
+        },
+        interval: body.interval,
+        timezone,
+        startTime: new Date(body.startDate),
+        endTime: new Date(body.endDate),
+        ...(body.breakdownBy && {
+          breakdownBy: body.breakdownBy.slice('properties.'.length),
+        }),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          interval: body.interval,
+          timezone,
+          startDate: body.startDate,
+          endDate: body.endDate,
+          ...(body.breakdownBy && { breakdownBy: body.breakdownBy }),
+          cohorts: result.cohorts.map((cohort) => ({
+            ...cohort,
+            rates: cohort.retained.map((count) => count / cohort.size),
+          })),
+          executionTime: result.executionTime,
+        },
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('Retention handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process retention query',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * Session counts, durations, bounce rate and events per session over a
+   * date range, optionally broken down by the period sessions started in
+   */
+  async handleSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+
+      const validation = SessionsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        const errorMessages = validation.error.errors
+          .map((err) => `${err.path.join('.')}: ${err.message}`)
+          .join(', ');
+
+        res.status(400).json({
+          error: 'Invalid sessions request',
+          message: `Validation failed: ${errorMessages}`,
+          statusCode: 400,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+      const query = validation.data;
+      const timeoutMs = this.sessionTimeoutMs(tenantId);
+      const timezone = query.timezone ?? 'UTC';
+
+      const result = await this.queryService.analyzeSessions({
+        tenantId,
+        startTime: new Date(query.startDate),
+        endTime: new Date(query.endDate),
+        timeoutMs,
+        ...(query.interval && { interval: query.interval, timezone }),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          startDate: query.startDate,
+          endDate: query.endDate,
+          sessionTimeoutMinutes: timeoutMs / 60000,
+          ...(query.interval && { interval: query.interval, timezone }),
+          ...this.formatSessionStats(result.totals),
+          ...(result.periods && {
+            periods: result.periods.map((period) => ({
+              periodStart: period.periodStart,
+              ...this.formatSessionStats(period),
+            })),
+          }),
+          executionTime: result.executionTime,
+        },
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('Sessions handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process sessions query',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  // Durations are reported in seconds, like funnel conversion times
+  private formatSessionStats(stats: SessionStats) {
+    return {
+      sessions: stats.sessions,
+      users: stats.users,
+      bounces: stats.bounces,
+      bounceRate: stats.bounceRate,
+      averageDurationSeconds: stats.averageDurationMs / 1000,
+      medianDurationSeconds:
+        stats.medianDurationMs === null ? null : stats.medianDurationMs / 1000,
+      averageEventsPerSession: stats.averageEventsPerSession,
+    };
+  }
+}
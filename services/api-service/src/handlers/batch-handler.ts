@@ -0,0 +1,263 @@
+import { Request, Response } from 'express';
+import { StoreSelector } from '../interfaces/storage.js';
+import {
+  AliasRequest,
+  AnalyticsEvent,
+  BatchItemResult,
+  BatchRequest,
+  GroupRequest,
+  IdentifyRequest,
+  InsertResult,
+  TrackRequest,
+} from '../types/core.js';
+import { TrackHandler } from './track-handler.js';
+import { IdentifyHandler } from './identify-handler.js';
+import { AliasHandler } from './alias-handler.js';
+import { GroupHandler } from './group-handler.js';
+
+// A replayed track message is acknowledged as stored, with its original eventId
+function duplicateResult(
+  index: number,
+  event: AnalyticsEvent
+): BatchItemResult {
+  return {
+    index,
+    type: 'track',
+    success: true,
+    eventId: event.eventId,
+    duplicate: true,
+  };
+}
+
+export class BatchHandler {
+  private storeSelector: StoreSelector;
+  private trackHandler: TrackHandler;
+  private identifyHandler: IdentifyHandler;
+  private aliasHandler: AliasHandler;
+  private groupHandler: GroupHandler;
+
+  constructor(
+    storeSelector: StoreSelector,
+    trackHandler: TrackHandler,
+    identifyHandler: IdentifyHandler,
+    aliasHandler: AliasHandler,
+    groupHandler: GroupHandler
+  ) {
+    this.storeSelector = storeSelector;
+    this.trackHandler = trackHandler;
+    this.identifyHandler = identifyHandler;
+    this.aliasHandler = aliasHandler;
+    this.groupHandler = groupHandler;
+  }
+
+  async handle(req: Request, res: Response): Promise<void> {
+    try {
+      const batchRequest = req.validatedBody as BatchRequest;
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const receivedAt = new Date();
+
+      const results: BatchItemResult[] = new Array(batchRequest.items.length);
+
+      // Collect valid track messages so they can be written in one batch
+      const events: AnalyticsEvent[] = [];
+      const eventIndexes: number[] = [];
+      const eventsByIndex = new Map<number, AnalyticsEvent>();
+
+      const seenEventIds = new Set<string>();
+      const candidates: [number, AnalyticsEvent][] = [];
+
+      for (const item of batchRequest.items) {
+        if (!item.request) {
+          results[item.index] = {
+            index: item.index,
+            type: item.type,
+            success: false,
+            error: item.error || 'Invalid message',
+          };
+          continue;
+        }
+
+        if (item.type === 'track') {
+          const event = this.trackHandler.createEvent(
+            tenantId,
+            item.request as TrackRequest,
+            receivedAt
+          );
+
+          // Replays earlier in this batch are acknowledged with the original
+          // eventId and not stored again
+          if (seenEventIds.has(event.eventId)) {
+            results[item.index] = duplicateResult(item.index, event);
+            continue;
+          }
+
+          seenEventIds.add(event.eventId);
+          candidates.push([item.index, event]);
+        }
+      }
+
+      const startedSessions = new Set<AnalyticsEvent>();
+      let userIds = new Map<string, string>();
+      let insertResults: InsertResult[] = [];
+      try {
+        // Replays from earlier requests are acknowledged the same way. The
+        // claim is atomic, so a concurrent request stores the id only once.
+        for (const [index, event] of candidates) {
+          if (!(await this.trackHandler.claim(tenantId, event.eventId))) {
+            results[index] = duplicateResult(index, event);
+            continue;
+          }
+
+          events.push(event);
+          eventIndexes.push(index);
+          eventsByIndex.set(index, event);
+        }
+
+        // The batch's user ids are resolved together, then sessions are
+        // assigned in submission order before the events are stored with
+        // their sessionIds
+        userIds = await this.trackHandler.resolveUserIds(tenantId, [
+          ...new Set(events.flatMap((event) => event.userId ?? [])),
+        ]);
+        for (const event of events) {
+          const session = await this.trackHandler.assignSession(
+            tenantId,
+            event,
+            event.userId && userIds.get(event.userId)
+          );
+          if (session?.started) {
+            startedSessions.add(event);
+          }
+        }
+
+        // Store all track events in a single adapter call
+        if (events.length > 0) {
+          const eventAdapter = this.storeSelector.getEventAdapter();
+          insertResults = await eventAdapter.insertBatch(events);
+        }
+      } catch (error) {
+        for (const event of events) {
+          await this.trackHandler.release(tenantId, event.eventId);
+        }
+        throw error;
+      }
+
+      for (let i = 0; i < events.length; i++) {
+        const event = events[i];
+        const index = eventIndexes[i];
+        const insertResult = insertResults[i];
+
+        if (!insertResult?.success) {
+          await this.trackHandler.release(tenantId, event.eventId);
+          results[index] = {
+            index,
+            type: 'track',
+            success: false,
+            error: insertResult?.error || 'Unknown storage error',
+          };
+          continue;
+        }
+
+        results[index] = {
+          index,
+          type: 'track',
+          success: true,
+          eventId: event.eventId,
+        };
+      }
+
+      // Apply user and group updates in submission order. An alias can change
+      // what the ids resolve to, so they are resolved again after one.
+      let aliased = false;
+      for (const item of batchRequest.items) {
+        if (!item.request) continue;
+
+        if (item.type === 'track') {
+          const event = eventsByIndex.get(item.index);
+
+          if (event && results[item.index].success && event.userId) {
+            if (aliased) {
+              userIds = await this.trackHandler.resolveUserIds(tenantId, [
+                ...userIds.keys(),
+              ]);
+              aliased = false;
+            }
+            await this.trackHandler.updateUserRecord(
+              tenantId,
+              userIds.get(event.userId)!,
+              event.timestamp,
+              startedSessions.has(event)
+            );
+          }
+        } else if (item.type === 'alias') {
+          const aliasRequest = item.request as AliasRequest;
+          const aliasResult = await this.aliasHandler.alias(
+            tenantId,
+            aliasRequest
+          );
+          aliased ||= aliasResult.success;
+
+          results[item.index] = {
+            index: item.index,
+            type: 'alias',
+            success: aliasResult.success,
+            userId: aliasResult.userId ?? aliasRequest.userId,
+            ...(aliasResult.error && { error: aliasResult.error }),
+          };
+        } else if (item.type === 'group') {
+          const groupRequest = item.request as GroupRequest;
+          const groupResult = await this.groupHandler.group(
+            tenantId,
+            groupRequest
+          );
+
+          results[item.index] = {
+            index: item.index,
+            type: 'group',
+            success: groupResult.success,
+            groupId: groupRequest.groupId,
+            ...(groupResult.userId && { userId: groupResult.userId }),
+            ...(groupResult.error && { error: groupResult.error }),
+          };
+        } else {
+          const identifyRequest = item.request as IdentifyRequest;
+          const upsertResult = await this.identifyHandler.identify(
+            tenantId,
+            identifyRequest
+          );
+
+          results[item.index] = {
+            index: item.index,
+            type: 'identify',
+            success: upsertResult.success,
+            userId: identifyRequest.userId,
+            ...(upsertResult.error && { error: upsertResult.error }),
+          };
+        }
+      }
+
+      const failed = results.filter((result) => !result.success).length;
+
+      // Return per-item results; partial failures do not fail the request
+      res.status(200).json({
+        success: failed === 0,
+        processed: results.length - failed,
+        failed,
+        results,
+        timestamp: receivedAt,
+        requestId,
+      });
+    } catch (error) {
+      console.error('Batch handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process batch request',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+}
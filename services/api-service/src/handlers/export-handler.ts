@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { z } from 'zod';
+import { StoreSelector } from '../interfaces/storage.js';
+import { ExportFilter } from '../types/core.js';
+
+const ExportQuerySchema = z
+  .object({
+    format: z.enum(['json', 'ndjson', 'csv']).default('json'),
+    eventTypes: z.string().min(1).optional(),
+    eventType: z.string().min(1).optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+  })
+  .refine(
+    (query) =>
+      !query.startDate ||
+      !query.endDate ||
+      new Date(query.startDate) <= new Date(query.endDate),
+    { message: 'startDate must be before endDate', path: ['startDate'] }
+  );
+
+export class ExportHandler {
+  private storeSelector: StoreSelector;
+
+  constructor(storeSelector: StoreSelector) {
+    this.storeSelector = storeSelector;
+  }
+
+  async handle(req: Request, res: Response): Promise<void> {
+    const tenantId = req.tenantInfo!.tenantId;
+    const requestId = req.requestId!;
+
+    try {
+      const validation = ExportQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        const errorMessages = validation.error.errors
+          .map((err) => `${err.path.join('.')}: ${err.message}`)
+          .join(', ');
+
+        res.status(400).json({
+          error: 'Invalid export request',
+          message: `Validation failed: ${errorMessages}`,
+          statusCode: 400,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+      const query = validation.data;
+
+      const filter: ExportFilter = {
+        tenantId,
+        ...(query.startDate && { startTime: new Date(query.startDate) }),
+        ...(query.endDate && { endTime: new Date(query.endDate) }),
+      };
+      if (query.eventTypes) {
+        filter.eventTypes = query.eventTypes.split(',').map((t) => t.trim());
+      }
+      if (query.eventType) {
+        filter.eventTypes = [query.eventType];
+      }
+
+      const eventAdapter = this.storeSelector.getEventAdapter();
+      const result = await eventAdapter.export(filter, query.format);
+
+      res.status(200);
+      res.setHeader('Content-Type', result.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="events-${tenantId}.${result.format}"`
+      );
+
+      // Chunks are pulled only as fast as the client reads them
+      await pipeline(Readable.from(result.chunks), res);
+    } catch (error) {
+      // The client went away mid-download; nothing left to report to
+      if (
+        (error as NodeJS.ErrnoException).code === 'ERR_STREAM_PREMATURE_CLOSE'
+      ) {
+        return;
+      }
+
+      console.error('Export handler error:', error);
+
+      // Once streaming has started the status is sent; cutting the
+      // connection is the only way to tell the client the body is incomplete
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to export events',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId,
+      });
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { StoreSelector } from '../interfaces/storage.js';
+import { GroupRequest, GroupUpdate, GroupUpsertResult } from '../types/core.js';
+
+export class GroupHandler {
+  private storeSelector: StoreSelector;
+
+  constructor(storeSelector: StoreSelector) {
+    this.storeSelector = storeSelector;
+  }
+
+  async handle(req: Request, res: Response): Promise<void> {
+    try {
+      const groupRequest = req.validatedBody as GroupRequest;
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+
+      const result = await this.group(tenantId, groupRequest);
+
+      if (!result.success) {
+        res.status(500).json({
+          error: 'Failed to store group',
+          message: result.error || 'Unknown storage error',
+          statusCode: 500,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        groupId: groupRequest.groupId,
+        groupType: result.groupType,
+        ...(result.userId && { userId: result.userId }),
+        created: result.created,
+        memberAdded: result.memberAdded,
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('Group handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process group request',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * Merge the traits into the group and add the user the userId (or
+   * anonymousId) resolves to as a member
+   */
+  async group(
+    tenantId: string,
+    groupRequest: GroupRequest
+  ): Promise<GroupUpsertResult> {
+    const timestamp = groupRequest.timestamp
+      ? new Date(groupRequest.timestamp)
+      : new Date();
+
+    // Members are stored by the userId their id resolves to at the time
+    let userId = groupRequest.userId ?? groupRequest.anonymousId;
+    if (userId) {
+      const resolved = await this.storeSelector
+        .getUserAdapter()
+        .resolveIdentities(tenantId, [userId]);
+      userId = resolved.get(userId) ?? userId;
+    }
+
+    const group: GroupUpdate = {
+      groupId: groupRequest.groupId,
+      tenantId,
+      groupType: groupRequest.groupType,
+      properties: groupRequest.traits || {},
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    const result = await this.storeSelector
+      .getGroupAdapter()
+      .upsert(group, userId);
+
+    return userId ? { ...result, userId } : result;
+  }
+}
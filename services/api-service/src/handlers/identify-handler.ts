@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { StoreSelector } from '../interfaces/storage.js';
-import { UserRecord, IdentifyRequest } from '../types/core.js';
+import { UserRecord, IdentifyRequest, UpsertResult } from '../types/core.js';
 
 export class IdentifyHandler {
   private storeSelector: StoreSelector;
@@ -15,47 +15,8 @@ export class IdentifyHandler {
       const tenantId = req.tenantInfo!.tenantId;
       const requestId = req.requestId!;
 
-      // Parse timestamp or use current time
-      const timestamp = identifyRequest.timestamp
-        ? new Date(identifyRequest.timestamp)
-        : new Date();
-
-      const userAdapter = this.storeSelector.getUserAdapter();
-
-      // Get existing user or create new one
-      const existingUser = await userAdapter.get(
-        tenantId,
-        identifyRequest.userId
-      );
-
-      let sessionCount = 0;
-      if (existingUser) {
-        const timeSinceLastSeen =
-          timestamp.getTime() - existingUser.lastSeen.getTime();
-        const thirtyMinutesInMs = 30 * 60 * 1000;
-
-        sessionCount =
-          timeSinceLastSeen > thirtyMinutesInMs
-            ? existingUser.sessionCount + 1
-            : existingUser.sessionCount;
-      } else {
-        sessionCount = 1;
-      }
-
-      const userRecord: UserRecord = {
-        userId: identifyRequest.userId,
-        tenantId,
-        properties: existingUser
-          ? { ...existingUser.properties, ...(identifyRequest.traits || {}) }
-          : identifyRequest.traits || {},
-        firstSeen: existingUser?.firstSeen || timestamp,
-        lastSeen: timestamp,
-        sessionCount,
-        eventCount: existingUser?.eventCount || 0,
-      };
-
       // Store the user record
-      const result = await userAdapter.upsert(userRecord);
+      const result = await this.identify(tenantId, identifyRequest);
 
       if (!result.success) {
         res.status(500).json({
@@ -88,4 +49,70 @@ export class IdentifyHandler {
       });
     }
   }
+
+  /**
+   * Merge identify traits into the record of the user the userId resolves
+   * to, then link the anonymousId to that user
+   */
+  async identify(
+    tenantId: string,
+    identifyRequest: IdentifyRequest
+  ): Promise<UpsertResult> {
+    // Parse timestamp or use current time
+    const timestamp = identifyRequest.timestamp
+      ? new Date(identifyRequest.timestamp)
+      : new Date();
+
+    const userAdapter = this.storeSelector.getUserAdapter();
+    const userId =
+      (
+        await userAdapter.resolveIdentities(tenantId, [identifyRequest.userId])
+      ).get(identifyRequest.userId) ?? identifyRequest.userId;
+
+    // Get existing user or create new one
+    const existingUser = await userAdapter.get(tenantId, userId);
+
+    // Only the new traits are sent; the adapter merges them and applies the
+    // operators over the stored traits, so concurrent updates are kept
+    const userRecord: UserRecord = {
+      userId,
+      tenantId,
+      properties: identifyRequest.traits || {},
+      firstSeen: existingUser?.firstSeen || timestamp,
+      lastSeen: timestamp,
+      // Sessions and events are counted as events are tracked
+      sessionCount: existingUser?.sessionCount || 0,
+      eventCount: existingUser?.eventCount || 0,
+    };
+
+    const { $set, $setOnce, $increment, $unset, $append, $union } =
+      identifyRequest;
+    const result = await userAdapter.upsert(userRecord, {
+      $set,
+      $setOnce,
+      $increment,
+      $unset,
+      $append,
+      $union,
+    });
+    if (!result.success || !identifyRequest.anonymousId) {
+      return result;
+    }
+
+    // An anonymousId that already belongs to another user, such as on a
+    // shared device, is left linked to that user
+    const aliasResult = await userAdapter.alias(
+      tenantId,
+      identifyRequest.anonymousId,
+      userId
+    );
+    if (!aliasResult.success && !aliasResult.conflict) {
+      return {
+        success: false,
+        created: result.created,
+        error: aliasResult.error,
+      };
+    }
+    return result;
+  }
 }
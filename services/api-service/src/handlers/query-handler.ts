@@ -1,6 +1,23 @@
 import { Request, Response } from 'express';
 import { QueryService } from '../services/query-service.js';
-import { QueryOptions, UserQueryOptions } from '../types/core.js';
+import {
+  QueryOptions,
+  UserQueryOptions,
+  PaginationInfo,
+  AggregateRequest,
+  AggregationQuery,
+  PropertyFilter,
+} from '../types/core.js';
+import { PropertyFilterSchema } from '../services/property-filter.js';
+import { validateGroupId } from '../security/identifier-policy.js';
+import {
+  TextFormat,
+  TEXT_CONTENT_TYPES,
+  eventsToCsv,
+  eventsToTable,
+  usersToCsv,
+  usersToTable,
+} from '../services/result-formatter.js';
 
 export class QueryHandler {
   private queryService: QueryService;
@@ -32,6 +49,22 @@ export class QueryHandler {
         options.userId = req.query.userId as string;
       }
 
+      // Group filtering
+      if (req.query.groupId !== undefined) {
+        const validation = validateGroupId(req.query.groupId);
+        if (!validation.success) {
+          res.status(400).json({
+            error: 'Invalid groupId',
+            message: validation.error,
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        options.groupId = validation.data as string;
+      }
+
       // Date filtering
       if (req.query.startDate) {
         try {
@@ -101,6 +134,22 @@ export class QueryHandler {
         }
       }
 
+      // Filter expressions
+      if (req.query.where) {
+        const parsed = this.parseWhere(req.query.where as string);
+        if ('message' in parsed) {
+          res.status(400).json({
+            error: 'Invalid where',
+            message: parsed.message,
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        options.where = parsed.where;
+      }
+
       // Sorting
       if (req.query.sortBy) {
         const sortBy = req.query.sortBy as string;
@@ -163,6 +212,38 @@ export class QueryHandler {
         options.offset = offset;
       }
 
+      // Cursors resume after the last record of an earlier page
+      if (req.query.cursor) {
+        if (options.offset !== undefined) {
+          res.status(400).json({
+            error: 'Invalid pagination',
+            message: 'cursor cannot be combined with offset',
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        const after = this.queryService.decodeCursor(
+          'events',
+          tenantId,
+          req.query.cursor as string,
+          options
+        );
+        if (!after) {
+          res.status(400).json({
+            error: 'Invalid cursor',
+            message:
+              'cursor is malformed or was issued for a different tenant or sort order',
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        options.after = after;
+      }
+
       // Output formatting
       if (req.query.format) {
         const format = req.query.format as string;
@@ -182,6 +263,15 @@ export class QueryHandler {
       // Execute query
       const result = await this.queryService.queryEvents(tenantId, options);
 
+      if (options.format === 'csv' || options.format === 'table') {
+        const body =
+          options.format === 'csv'
+            ? eventsToCsv(result.events)
+            : eventsToTable(result.events);
+        this.sendText(res, options.format, body, result);
+        return;
+      }
+
       res.status(200).json({
         success: true,
         data: result,
@@ -283,6 +373,22 @@ export class QueryHandler {
         }
       }
 
+      // Filter expressions
+      if (req.query.where) {
+        const parsed = this.parseWhere(req.query.where as string);
+        if ('message' in parsed) {
+          res.status(400).json({
+            error: 'Invalid where',
+            message: parsed.message,
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        options.where = parsed.where;
+      }
+
       // Sorting
       if (req.query.sortBy) {
         const sortBy = req.query.sortBy as string;
@@ -354,6 +460,38 @@ export class QueryHandler {
         options.offset = offset;
       }
 
+      // Cursors resume after the last record of an earlier page
+      if (req.query.cursor) {
+        if (options.offset !== undefined) {
+          res.status(400).json({
+            error: 'Invalid pagination',
+            message: 'cursor cannot be combined with offset',
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        const after = this.queryService.decodeCursor(
+          'users',
+          tenantId,
+          req.query.cursor as string,
+          options
+        );
+        if (!after) {
+          res.status(400).json({
+            error: 'Invalid cursor',
+            message:
+              'cursor is malformed or was issued for a different tenant or sort order',
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        options.after = after;
+      }
+
       // Output formatting
       if (req.query.format) {
         const format = req.query.format as string;
@@ -373,6 +511,15 @@ export class QueryHandler {
       // Execute query
       const result = await this.queryService.queryUsers(tenantId, options);
 
+      if (options.format === 'csv' || options.format === 'table') {
+        const body =
+          options.format === 'csv'
+            ? usersToCsv(result.users)
+            : usersToTable(result.users);
+        this.sendText(res, options.format, body, result);
+        return;
+      }
+
       res.status(200).json({
         success: true,
         data: result,
@@ -391,4 +538,120 @@ export class QueryHandler {
       });
     }
   }
+
+  async handleAggregate(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const body = req.validatedBody as AggregateRequest;
+      const filter = body.filter ?? {};
+
+      const query: AggregationQuery = {
+        filter: {
+          tenantId,
+          ...(filter.eventTypes && { eventTypes: filter.eventTypes }),
+          ...(filter.userId && { userId: filter.userId }),
+          ...(filter.groupId && { groupId: filter.groupId }),
+          ...(filter.startDate && { startTime: new Date(filter.startDate) }),
+          ...(filter.endDate && { endTime: new Date(filter.endDate) }),
+          ...(filter.properties && { properties: filter.properties }),
+        },
+        metric: body.metric,
+        ...(body.property && { property: body.property }),
+        ...(body.interval && { interval: body.interval }),
+        timezone: body.timezone ?? 'UTC',
+      };
+
+      // groups.<groupType> breaks down by the groups of the event's user
+      let groupType: string | undefined;
+      if (body.groupBy?.startsWith('groups.')) {
+        groupType = body.groupBy.slice('groups.'.length);
+      } else if (body.groupBy) {
+        query.groupBy =
+          body.groupBy === 'eventName'
+            ? { field: 'eventName' }
+            : { property: body.groupBy.slice('properties.'.length) };
+      }
+
+      const result = await this.queryService.aggregateEvents(query, groupType);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          metric: body.metric,
+          ...(body.property && { property: body.property }),
+          ...(body.groupBy && { groupBy: body.groupBy }),
+          ...(body.interval && { interval: body.interval }),
+          timezone: query.timezone,
+          buckets: result.buckets,
+          executionTime: result.executionTime,
+        },
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('Aggregate handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to process aggregate query',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * Parse and validate the JSON-encoded `where` query parameter
+   */
+  private parseWhere(
+    raw: string
+  ): { where: PropertyFilter } | { message: string } {
+    let candidate: unknown;
+    try {
+      candidate = JSON.parse(raw);
+    } catch {
+      return { message: 'where must be valid JSON' };
+    }
+
+    const validation = PropertyFilterSchema.safeParse(candidate);
+    if (!validation.success) {
+      const errorMessages = validation.error.errors
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join(', ');
+      return { message: `Validation failed: ${errorMessages}` };
+    }
+    return { where: validation.data };
+  }
+
+  /**
+   * Send a csv or table rendering; pagination metadata that would otherwise
+   * be in the JSON envelope travels in response headers
+   */
+  private sendText(
+    res: Response,
+    format: TextFormat,
+    body: string,
+    result: {
+      totalCount: number;
+      totalCountIsLowerBound?: boolean;
+      pagination: PaginationInfo;
+      nextCursor?: string;
+    }
+  ): void {
+    res.status(200);
+    res.setHeader('Content-Type', TEXT_CONTENT_TYPES[format]);
+    res.setHeader('X-Total-Count', String(result.totalCount));
+    if (result.totalCountIsLowerBound) {
+      res.setHeader('X-Total-Count-Lower-Bound', 'true');
+    }
+    if (result.pagination.nextOffset !== undefined) {
+      res.setHeader('X-Next-Offset', String(result.pagination.nextOffset));
+    }
+    if (result.nextCursor) {
+      res.setHeader('X-Next-Cursor', result.nextCursor);
+    }
+    res.send(body);
+  }
 }
@@ -1,13 +1,30 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { StoreSelector } from '../interfaces/storage.js';
-import { AnalyticsEvent, TrackRequest } from '../types/core.js';
+import {
+  AnalyticsEvent,
+  InsertResult,
+  SessionAssignment,
+  TrackRequest,
+} from '../types/core.js';
+
+// Inactivity that ends a session when no per-tenant timeout is supplied
+const DEFAULT_SESSION_TIMEOUT_MS = 30 * 60 * 1000;
 
 export class TrackHandler {
   private storeSelector: StoreSelector;
-
-  constructor(storeSelector: StoreSelector) {
+  private dedupTtlSeconds: number;
+  private sessionTimeoutMs: (tenantId: string) => number;
+
+  constructor(
+    storeSelector: StoreSelector,
+    dedupTtlSeconds: number = 3600,
+    sessionTimeoutMs: (tenantId: string) => number = () =>
+      DEFAULT_SESSION_TIMEOUT_MS
+  ) {
     this.storeSelector = storeSelector;
+    this.dedupTtlSeconds = dedupTtlSeconds;
+    this.sessionTimeoutMs = sessionTimeoutMs;
   }
 
   async handle(req: Request, res: Response): Promise<void> {
@@ -16,34 +33,17 @@ export class TrackHandler {
       const tenantId = req.tenantInfo!.tenantId;
       const requestId = req.requestId!;
 
-      // Parse timestamp or use current time
-      const timestamp = trackRequest.timestamp
-        ? new Date(trackRequest.timestamp)
-        : new Date();
       const receivedAt = new Date();
 
       // Create analytics event
-      const event: AnalyticsEvent = {
-        eventId: uuidv4(),
-        tenantId,
-        eventName: trackRequest.event,
-        properties: trackRequest.properties || {},
-        timestamp,
-        receivedAt,
-        ...(trackRequest.userId && { userId: trackRequest.userId }),
-        ...(trackRequest.sessionId && { sessionId: trackRequest.sessionId }),
-        ...(trackRequest.deviceId && { deviceId: trackRequest.deviceId }),
-      };
-
-      // Check for duplicates
-      const deduplicationAdapter = this.storeSelector.getDeduplicationAdapter();
-      const isDuplicate = await deduplicationAdapter.isDuplicate(
-        tenantId,
-        event.eventId
-      );
+      const event = this.createEvent(tenantId, trackRequest, receivedAt);
+
+      // Claim the id before storing, so concurrent requests with the same
+      // messageId store it once (only client-supplied messageIds can repeat)
+      const claimed = await this.claim(tenantId, event.eventId);
 
-      if (isDuplicate) {
-        // Return success for duplicate events (idempotent behavior)
+      if (!claimed) {
+        // Return the original eventId for replays (idempotent behavior)
         res.status(200).json({
           success: true,
           eventId: event.eventId,
@@ -54,11 +54,27 @@ export class TrackHandler {
         return;
       }
 
-      // Store the event
-      const eventAdapter = this.storeSelector.getEventAdapter();
-      const result = await eventAdapter.insert(event);
+      let session: SessionAssignment | undefined;
+      let result: InsertResult;
+      let userId: string | undefined;
+      try {
+        if (event.userId) {
+          const resolved = await this.resolveUserIds(tenantId, [event.userId]);
+          userId = resolved.get(event.userId);
+        }
+        session = await this.assignSession(tenantId, event, userId);
+
+        // Store the event
+        const eventAdapter = this.storeSelector.getEventAdapter();
+        result = await eventAdapter.insert(event);
+      } catch (error) {
+        await this.release(tenantId, event.eventId);
+        throw error;
+      }
 
       if (!result.success) {
+        // A retry of the message should be stored, not acknowledged
+        await this.release(tenantId, event.eventId);
         res.status(500).json({
           error: 'Failed to store event',
           message: result.error || 'Unknown storage error',
@@ -69,12 +85,14 @@ export class TrackHandler {
         return;
       }
 
-      // Mark as processed for deduplication
-      await deduplicationAdapter.markProcessed(tenantId, event.eventId, 3600); // 1 hour TTL
-
-      // Update user record if userId is provided
-      if (trackRequest.userId) {
-        await this.updateUserRecord(tenantId, trackRequest.userId, timestamp);
+      // Update the user record when the event carries a user
+      if (userId) {
+        await this.updateUserRecord(
+          tenantId,
+          userId,
+          event.timestamp,
+          session?.started
+        );
       }
 
       // Return success response
@@ -97,28 +115,121 @@ export class TrackHandler {
     }
   }
 
-  private async updateUserRecord(
+  /**
+   * Build an analytics event from a validated track request. Events without
+   * a userId are stored under their anonymousId, which resolves to the user
+   * once it is aliased.
+   */
+  createEvent(
+    tenantId: string,
+    trackRequest: TrackRequest,
+    receivedAt: Date
+  ): AnalyticsEvent {
+    // Parse timestamp or use current time
+    const timestamp = trackRequest.timestamp
+      ? new Date(trackRequest.timestamp)
+      : receivedAt;
+
+    return {
+      // A client-supplied messageId doubles as the stored eventId so retries
+      // of the same message resolve to the same event
+      eventId: trackRequest.messageId || uuidv4(),
+      tenantId,
+      eventName: trackRequest.event,
+      properties: trackRequest.properties || {},
+      timestamp,
+      receivedAt,
+      ...((trackRequest.userId || trackRequest.anonymousId) && {
+        userId: trackRequest.userId || trackRequest.anonymousId,
+      }),
+      ...(trackRequest.sessionId && { sessionId: trackRequest.sessionId }),
+      ...(trackRequest.deviceId && { deviceId: trackRequest.deviceId }),
+    };
+  }
+
+  /**
+   * Claim an event id for the configured deduplication window, returning
+   * false when the event was already claimed for the tenant
+   */
+  async claim(tenantId: string, eventId: string): Promise<boolean> {
+    const deduplicationAdapter = this.storeSelector.getDeduplicationAdapter();
+    return deduplicationAdapter.claim(tenantId, eventId, this.dedupTtlSeconds);
+  }
+
+  /**
+   * Give up the claim on an event id that could not be stored, so a retry
+   * of the message is stored rather than acknowledged as a duplicate
+   */
+  async release(tenantId: string, eventId: string): Promise<void> {
+    const deduplicationAdapter = this.storeSelector.getDeduplicationAdapter();
+    await deduplicationAdapter.forget(tenantId, [eventId]);
+  }
+
+  /**
+   * Map each id to the userId it resolves to, itself when not an alias, in
+   * one lookup so a request resolves its ids only once
+   */
+  async resolveUserIds(
+    tenantId: string,
+    ids: string[]
+  ): Promise<Map<string, string>> {
+    const aliases = await this.storeSelector
+      .getUserAdapter()
+      .resolveIdentities(tenantId, ids);
+    return new Map(ids.map((id) => [id, aliases.get(id) ?? id]));
+  }
+
+  /**
+   * Place an event in the current session of its resolved userId, setting
+   * its sessionId when the client did not send one. Events without a user
+   * are left as they are.
+   */
+  async assignSession(
+    tenantId: string,
+    event: AnalyticsEvent,
+    userId: string | undefined
+  ): Promise<SessionAssignment | undefined> {
+    if (!userId) {
+      return undefined;
+    }
+
+    const session = await this.storeSelector
+      .getSessionAdapter()
+      .assign(
+        tenantId,
+        userId,
+        event.timestamp,
+        this.sessionTimeoutMs(tenantId),
+        event.sessionId
+      );
+    event.sessionId = session.sessionId;
+    return session;
+  }
+
+  /**
+   * Record user activity for a stored event on the profile of its resolved
+   * userId, counting a session when the event started one
+   */
+  async updateUserRecord(
     tenantId: string,
     userId: string,
-    timestamp: Date
+    timestamp: Date,
+    sessionStarted: boolean = false
   ): Promise<void> {
     try {
       const userAdapter = this.storeSelector.getUserAdapter();
 
-      // Get existing user or create new one
-      const existingUser = await userAdapter.get(tenantId, userId);
-
-      const userRecord = {
-        userId,
+      // Counted in the store rather than read and written back, so
+      // concurrent events for the same user are never lost
+      const result = await userAdapter.incrementCounters(
         tenantId,
-        properties: existingUser?.properties || {},
-        firstSeen: existingUser?.firstSeen || timestamp,
-        lastSeen: timestamp,
-        sessionCount: existingUser?.sessionCount || 0,
-        eventCount: (existingUser?.eventCount || 0) + 1,
-      };
-
-      await userAdapter.upsert(userRecord);
+        userId,
+        { eventCount: 1, ...(sessionStarted && { sessionCount: 1 }) },
+        timestamp
+      );
+      if (!result.success) {
+        console.error('Failed to update user record:', result.error);
+      }
     } catch (error) {
       // Log error but don't fail the track request
       console.error('Failed to update user record:', error);
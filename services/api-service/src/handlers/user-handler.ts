@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { QueryService } from '../services/query-service.js';
+import { DeletionService } from '../services/deletion-service.js';
+import { UserExportService } from '../services/user-export-service.js';
+import { QueryOptions } from '../types/core.js';
+import { validateUserId } from '../security/identifier-policy.js';
+
+const TimelineQuerySchema = z
+  .object({
+    eventTypes: z.string().min(1).optional(),
+    eventType: z.string().min(1).optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+    sortOrder: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.coerce.number().int().min(1).max(1000).optional(),
+    offset: z.coerce.number().int().min(0).optional(),
+    cursor: z.string().min(1).optional(),
+  })
+  .refine(
+    (query) =>
+      !query.startDate ||
+      !query.endDate ||
+      new Date(query.startDate) <= new Date(query.endDate),
+    { message: 'startDate must be before endDate', path: ['startDate'] }
+  )
+  .refine((query) => !(query.cursor && query.offset !== undefined), {
+    message: 'cursor cannot be combined with offset',
+    path: ['cursor'],
+  });
+
+const ExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+/**
+ * Per-user endpoints under /v1/users/:userId, for looking up one customer
+ * rather than searching the whole tenant
+ */
+export class UserHandler {
+  private queryService: QueryService;
+  private deletionService: DeletionService;
+  private userExportService: UserExportService;
+
+  constructor(
+    queryService: QueryService,
+    deletionService: DeletionService,
+    userExportService: UserExportService
+  ) {
+    this.queryService = queryService;
+    this.deletionService = deletionService;
+    this.userExportService = userExportService;
+  }
+
+  async handleProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const userId = this.readUserId(req, res);
+      if (userId === undefined) return;
+
+      const user = await this.queryService.getUser(tenantId, userId);
+      if (!user) {
+        res.status(404).json({
+          error: 'User not found',
+          message: 'No user with this userId exists for the tenant',
+          statusCode: 404,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: user,
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('User profile handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to load user',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * A user's events in time order, newest first unless sortOrder=asc. Events
+   * tracked before the user was identified are included, so a missing
+   * profile is not an error.
+   */
+  async handleTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const userId = this.readUserId(req, res);
+      if (userId === undefined) return;
+
+      const validation = TimelineQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        const errorMessages = validation.error.errors
+          .map((err) => `${err.path.join('.')}: ${err.message}`)
+          .join(', ');
+
+        res.status(400).json({
+          error: 'Invalid timeline request',
+          message: `Validation failed: ${errorMessages}`,
+          statusCode: 400,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+      const query = validation.data;
+
+      const options: QueryOptions = {
+        userId,
+        sortBy: 'timestamp',
+        sortOrder: query.sortOrder,
+        ...(query.limit !== undefined && { limit: query.limit }),
+        ...(query.offset !== undefined && { offset: query.offset }),
+        ...(query.startDate && { startDate: new Date(query.startDate) }),
+        ...(query.endDate && { endDate: new Date(query.endDate) }),
+      };
+
+      if (query.eventTypes) {
+        options.eventTypes = query.eventTypes.split(',').map((t) => t.trim());
+      }
+      if (query.eventType) {
+        options.eventTypes = [query.eventType];
+      }
+
+      if (query.cursor) {
+        const after = this.queryService.decodeCursor(
+          'events',
+          tenantId,
+          query.cursor,
+          options
+        );
+        if (!after) {
+          res.status(400).json({
+            error: 'Invalid cursor',
+            message:
+              'cursor is malformed or was issued for a different tenant or sort order',
+            statusCode: 400,
+            timestamp: new Date(),
+            requestId,
+          });
+          return;
+        }
+        options.after = after;
+      }
+
+      const result = await this.queryService.queryEvents(tenantId, options);
+
+      res.status(200).json({
+        success: true,
+        data: { userId, ...result },
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('User timeline handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to load user timeline',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * Data subject access export: the user's profile, events and aliases as a
+   * tar archive download
+   */
+  async handleExport(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const userId = this.readUserId(req, res);
+      if (userId === undefined) return;
+
+      const validation = ExportQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        const errorMessages = validation.error.errors
+          .map((err) => `${err.path.join('.')}: ${err.message}`)
+          .join(', ');
+
+        res.status(400).json({
+          error: 'Invalid export request',
+          message: `Validation failed: ${errorMessages}`,
+          statusCode: 400,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+
+      const result = await this.userExportService.exportUser(
+        tenantId,
+        userId,
+        validation.data.format
+      );
+
+      res.status(200);
+      res.setHeader('Content-Type', result.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${result.filename}"`
+      );
+      res.send(result.archive);
+    } catch (error) {
+      console.error('User export handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to export user data',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * Erase a user and all of their events. The erasure runs in the
+   * background; the response carries a receipt to poll for its status.
+   * Unknown users are accepted too, since their events may still exist.
+   */
+  async handleDelete(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+      const userId = this.readUserId(req, res);
+      if (userId === undefined) return;
+
+      const receipt = await this.deletionService.requestDeletion(
+        tenantId,
+        userId
+      );
+
+      res.setHeader('Location', `/v1/deletions/${receipt.receiptId}`);
+      res.status(202).json({
+        success: true,
+        data: receipt,
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('User deletion handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to schedule user deletion',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  async handleDeletionReceipt(req: Request, res: Response): Promise<void> {
+    try {
+      const tenantId = req.tenantInfo!.tenantId;
+      const requestId = req.requestId!;
+
+      const receipt = await this.deletionService.getReceipt(
+        tenantId,
+        req.params.receiptId!
+      );
+      if (!receipt) {
+        res.status(404).json({
+          error: 'Deletion receipt not found',
+          message: 'No deletion receipt with this id exists for the tenant',
+          statusCode: 404,
+          timestamp: new Date(),
+          requestId,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: receipt,
+        timestamp: new Date(),
+        requestId,
+      });
+    } catch (error) {
+      console.error('Deletion receipt handler error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to load deletion receipt',
+        statusCode: 500,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+    }
+  }
+
+  /**
+   * Validate the userId path parameter, responding with 400 when it breaks
+   * the identifier policy
+   */
+  private readUserId(req: Request, res: Response): string | undefined {
+    const validation = validateUserId(req.params.userId);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid userId',
+        message: validation.error,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: req.requestId,
+      });
+      return undefined;
+    }
+    return validation.data as string;
+  }
+}
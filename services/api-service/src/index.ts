@@ -9,9 +9,17 @@ import { ExpressRequestRouter } from './middleware/request-router.js';
 import { JwtAuthRateLimiter } from './middleware/auth-rate-limiter.js';
 import { TrackHandler } from './handlers/track-handler.js';
 import { IdentifyHandler } from './handlers/identify-handler.js';
+import { AliasHandler } from './handlers/alias-handler.js';
+import { GroupHandler } from './handlers/group-handler.js';
+import { BatchHandler } from './handlers/batch-handler.js';
 import { HealthHandler } from './handlers/health-handler.js';
 import { QueryHandler } from './handlers/query-handler.js';
+import { ExportHandler } from './handlers/export-handler.js';
+import { AnalyticsHandler } from './handlers/analytics-handler.js';
+import { UserHandler } from './handlers/user-handler.js';
 import { QueryService } from './services/query-service.js';
+import { DeletionService } from './services/deletion-service.js';
+import { UserExportService } from './services/user-export-service.js';
 import { createDefaultSwaggerConfig } from './swagger/swagger-config.js';
 import { requireAuth } from './auth/simple-jwt-middleware.js';
 import { exchangeApiKeyForJWT } from './auth/token-exchange.js';
@@ -20,14 +28,18 @@ class NodashBackend {
   private app: express.Application;
   private config: any;
   private storeSelector: AdapterStoreSelector;
+  private deletionService: DeletionService;
   private server: any;
   private swaggerConfig: any;
 
-
   constructor() {
     this.app = express();
     this.config = ConfigLoader.load();
     this.storeSelector = new AdapterStoreSelector(this.config);
+    this.deletionService = new DeletionService(
+      this.storeSelector,
+      this.config.paths.deletions
+    );
 
     // Initialize Swagger configuration
     this.swaggerConfig = createDefaultSwaggerConfig(this.config.environment);
@@ -41,6 +53,12 @@ class NodashBackend {
     // Initialize storage adapters
     await this.storeSelector.initialize();
 
+    // Finish user deletions interrupted by a restart
+    const resumedDeletions = await this.deletionService.resumePending();
+    if (resumedDeletions > 0) {
+      console.log(`🗑️  Resuming ${resumedDeletions} user deletion(s)`);
+    }
+
     // Authentication is now handled by simple middleware - no initialization needed
 
     // Setup middleware
@@ -55,8 +73,6 @@ class NodashBackend {
     console.log('✅ Backend initialization complete');
   }
 
-
-
   private setupMiddleware(): void {
     // Security middleware
     this.app.use(
@@ -104,15 +120,50 @@ class NodashBackend {
       this.config.rateLimits
     );
 
+    // Inactivity that ends a session, per tenant
+    const sessionTimeoutMs = (tenantId: string) =>
+      (this.config.sessions.tenantTimeoutMinutes[tenantId] ??
+        this.config.sessions.timeoutMinutes) *
+      60 *
+      1000;
+
     // Handlers
-    const trackHandler = new TrackHandler(this.storeSelector);
+    const trackHandler = new TrackHandler(
+      this.storeSelector,
+      this.config.deduplication.ttlSeconds,
+      sessionTimeoutMs
+    );
     const identifyHandler = new IdentifyHandler(this.storeSelector);
+    const aliasHandler = new AliasHandler(this.storeSelector);
+    const groupHandler = new GroupHandler(this.storeSelector);
+    const batchHandler = new BatchHandler(
+      this.storeSelector,
+      trackHandler,
+      identifyHandler,
+      aliasHandler,
+      groupHandler
+    );
     const healthHandler = new HealthHandler(this.storeSelector);
-    const queryService = new QueryService(this.storeSelector);
+    const queryService = new QueryService(
+      this.storeSelector,
+      this.config.cursorSecret
+    );
     const queryHandler = new QueryHandler(queryService);
+    const exportHandler = new ExportHandler(this.storeSelector);
+    const analyticsHandler = new AnalyticsHandler(
+      queryService,
+      sessionTimeoutMs
+    );
+    const userHandler = new UserHandler(
+      queryService,
+      this.deletionService,
+      new UserExportService(this.storeSelector)
+    );
 
     // Middleware pipeline
-    const authMiddleware = process.env.JWT_SECRET ? requireAuth : authRateLimiter.createAuthMiddleware();
+    const authMiddleware = process.env.JWT_SECRET
+      ? requireAuth
+      : authRateLimiter.createAuthMiddleware();
     const rateLimitMiddleware = authRateLimiter.createRateLimitMiddleware();
 
     // Health endpoint (no auth required)
@@ -144,6 +195,39 @@ class NodashBackend {
       (req, res) => identifyHandler.handle(req, res)
     );
 
+    // Alias endpoint
+    this.app.post(
+      '/v1/alias',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      router.validateAliasRequest.bind(router),
+      (req, res) => aliasHandler.handle(req, res)
+    );
+
+    // Group endpoint
+    this.app.post(
+      '/v1/group',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      router.validateGroupRequest.bind(router),
+      (req, res) => groupHandler.handle(req, res)
+    );
+
+    // Batch endpoint
+    this.app.post(
+      '/v1/batch',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      router.validateBatchRequest.bind(router),
+      (req, res) => batchHandler.handle(req, res)
+    );
+
     // Query endpoints
     this.app.get(
       '/v1/events/query',
@@ -154,6 +238,54 @@ class NodashBackend {
       (req, res) => queryHandler.handleEventQuery(req, res)
     );
 
+    this.app.get(
+      '/v1/events/export',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      (req, res) => exportHandler.handle(req, res)
+    );
+
+    this.app.post(
+      '/v1/events/aggregate',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      router.validateAggregateRequest.bind(router),
+      (req, res) => queryHandler.handleAggregate(req, res)
+    );
+
+    this.app.post(
+      '/v1/analytics/funnel',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      router.validateFunnelRequest.bind(router),
+      (req, res) => analyticsHandler.handleFunnel(req, res)
+    );
+
+    this.app.post(
+      '/v1/analytics/retention',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      router.validateRetentionRequest.bind(router),
+      (req, res) => analyticsHandler.handleRetention(req, res)
+    );
+
+    this.app.get(
+      '/v1/analytics/sessions',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      (req, res) => analyticsHandler.handleSessions(req, res)
+    );
+
     this.app.get(
       '/v1/users/query',
       router.attachRequestId.bind(router),
@@ -163,6 +295,53 @@ class NodashBackend {
       (req, res) => queryHandler.handleUserQuery(req, res)
     );
 
+    // Single-user endpoints; registered after /v1/users/query so "query" is
+    // never taken for a userId
+    this.app.get(
+      '/v1/users/:userId',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      (req, res) => userHandler.handleProfile(req, res)
+    );
+
+    this.app.get(
+      '/v1/users/:userId/events',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      (req, res) => userHandler.handleTimeline(req, res)
+    );
+
+    this.app.get(
+      '/v1/users/:userId/export',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      (req, res) => userHandler.handleExport(req, res)
+    );
+
+    this.app.delete(
+      '/v1/users/:userId',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      (req, res) => userHandler.handleDelete(req, res)
+    );
+
+    this.app.get(
+      '/v1/deletions/:receiptId',
+      router.attachRequestId.bind(router),
+      router.enforceTenantHeader.bind(router),
+      authMiddleware,
+      rateLimitMiddleware,
+      (req, res) => userHandler.handleDeletionReceipt(req, res)
+    );
+
     // SDK compatibility routes (without /v1 prefix)
     this.app.get('/health', (req, res) => healthHandler.handle(req, res));
 
@@ -186,6 +365,36 @@ class NodashBackend {
       (req, res) => identifyHandler.handle(req, res)
     );
 
+    this.app.post(
+      '/alias',
+      router.attachRequestId.bind(router),
+      authMiddleware,
+      router.enforceTenantHeader.bind(router),
+      rateLimitMiddleware,
+      router.validateAliasRequest.bind(router),
+      (req, res) => aliasHandler.handle(req, res)
+    );
+
+    this.app.post(
+      '/group',
+      router.attachRequestId.bind(router),
+      authMiddleware,
+      router.enforceTenantHeader.bind(router),
+      rateLimitMiddleware,
+      router.validateGroupRequest.bind(router),
+      (req, res) => groupHandler.handle(req, res)
+    );
+
+    this.app.post(
+      '/batch',
+      router.attachRequestId.bind(router),
+      authMiddleware,
+      router.enforceTenantHeader.bind(router),
+      rateLimitMiddleware,
+      router.validateBatchRequest.bind(router),
+      (req, res) => batchHandler.handle(req, res)
+    );
+
     // Swagger documentation endpoints
     const swaggerMiddleware = this.swaggerConfig.createSwaggerMiddleware();
 
@@ -208,14 +417,27 @@ class NodashBackend {
         health: '/v1/health',
         track: 'POST /v1/track',
         identify: 'POST /v1/identify',
+        alias: 'POST /v1/alias',
+        group: 'POST /v1/group',
+        batch: 'POST /v1/batch',
         queryEvents: 'GET /v1/events/query',
+        exportEvents: 'GET /v1/events/export',
+        aggregateEvents: 'POST /v1/events/aggregate',
         queryUsers: 'GET /v1/users/query',
+        userProfile: 'GET /v1/users/:userId',
+        userTimeline: 'GET /v1/users/:userId/events',
+        userExport: 'GET /v1/users/:userId/export',
+        deleteUser: 'DELETE /v1/users/:userId',
+        deletionReceipt: 'GET /v1/deletions/:receiptId',
+        funnel: 'POST /v1/analytics/funnel',
+        retention: 'POST /v1/analytics/retention',
+        sessions: 'GET /v1/analytics/sessions',
       };
 
       // Add auth endpoints if JWT is enabled
       if (process.env.JWT_SECRET) {
         endpoints.auth = {
-          token: 'POST /auth/token - Exchange API key for JWT token'
+          token: 'POST /auth/token - Exchange API key for JWT token',
         };
       }
 
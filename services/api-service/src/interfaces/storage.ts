@@ -1,14 +1,26 @@
 import {
   AnalyticsEvent,
   UserRecord,
+  GroupRecord,
+  GroupUpdate,
+  GroupMembership,
+  GroupUpsertResult,
   RateLimitKey,
   InsertResult,
   UpsertResult,
+  AliasResult,
+  TraitOperations,
+  UserCounterIncrements,
+  SessionAssignment,
   QueryFilter,
   QueryResult,
   UserQueryFilter,
   UserQueryResult,
+  ExportFilter,
+  ExportFormat,
   ExportResult,
+  AggregationQuery,
+  AggregationResult,
 } from '../types/core.js';
 
 export interface EventAdapter {
@@ -18,23 +30,34 @@ export interface EventAdapter {
   insert(event: AnalyticsEvent): Promise<InsertResult>;
 
   /**
-   * Insert multiple analytics events in a batch
+   * Insert multiple analytics events in a batch; results follow input order
    */
   insertBatch(events: AnalyticsEvent[]): Promise<InsertResult[]>;
 
   /**
-   * Query events based on filters
+   * Query events based on filters, ordered by the sort value then eventId,
+   * both in the sort direction (timestamp descending by default). With
+   * filter.after, totalCount counts the matches after that position; a
+   * store that stops reading early sets totalCountIsLowerBound.
    */
   query(filter: QueryFilter): Promise<QueryResult>;
 
   /**
-   * Export events for a time range
+   * Export a tenant's events in ascending time order, streamed in chunks
    */
-  export(
-    startTime: Date,
-    endTime: Date,
-    format: 'json' | 'csv'
-  ): Promise<ExportResult>;
+  export(filter: ExportFilter, format: ExportFormat): Promise<ExportResult>;
+
+  /**
+   * Compute metrics over matching events inside the store. Optional: when
+   * absent, callers aggregate the events returned by query() themselves.
+   */
+  aggregate?(query: AggregationQuery): Promise<AggregationResult>;
+
+  /**
+   * Permanently remove every event of a user (GDPR erasure), returning the
+   * ids of the removed events
+   */
+  deleteUserEvents(tenantId: string, userId: string): Promise<string[]>;
 
   /**
    * Check if the event store is healthy
@@ -49,9 +72,23 @@ export interface EventAdapter {
 
 export interface UserAdapter {
   /**
-   * Create or update a user record
+   * Create or update a user record. The record's properties are merged over
+   * the stored traits and the operations applied after them, atomically
+   * with respect to other updates of the same user.
    */
-  upsert(user: UserRecord): Promise<UpsertResult>;
+  upsert(user: UserRecord, operations?: TraitOperations): Promise<UpsertResult>;
+
+  /**
+   * Add to a user's session and event counts and widen firstSeen and
+   * lastSeen to include seenAt, as one atomic step, creating the user with
+   * no traits when missing. Concurrent increments are never lost.
+   */
+  incrementCounters(
+    tenantId: string,
+    userId: string,
+    increments: UserCounterIncrements,
+    seenAt: Date
+  ): Promise<UpsertResult>;
 
   /**
    * Get a user record by ID
@@ -59,7 +96,7 @@ export interface UserAdapter {
   get(tenantId: string, userId: string): Promise<UserRecord | null>;
 
   /**
-   * Delete a user record (GDPR compliance)
+   * Delete a user record and the aliases linked to it (GDPR compliance)
    */
   delete(tenantId: string, userId: string): Promise<boolean>;
 
@@ -69,10 +106,38 @@ export interface UserAdapter {
   getBatch(tenantId: string, userIds: string[]): Promise<UserRecord[]>;
 
   /**
-   * Query users based on filters
+   * Query users based on filters, ordered by the sort value then userId
+   * ascending (userId alone by default). With filter.after, totalCount
+   * counts the matches after that position.
    */
   query(filter: UserQueryFilter): Promise<UserQueryResult>;
 
+  /**
+   * Link an alias (an anonymous, device or earlier userId) to a user in the
+   * tenant's identity graph. The alias's profile and its own aliases are
+   * merged into the user's canonical id; aliasing to an alias joins the
+   * user it resolves to.
+   */
+  alias(
+    tenantId: string,
+    aliasId: string,
+    userId: string
+  ): Promise<AliasResult>;
+
+  /**
+   * Canonical userIds of the given ids that are aliases; ids missing from
+   * the map are canonical themselves
+   */
+  resolveIdentities(
+    tenantId: string,
+    ids: string[]
+  ): Promise<Map<string, string>>;
+
+  /**
+   * Every alias that resolves to a canonical userId
+   */
+  getAliases(tenantId: string, userId: string): Promise<string[]>;
+
   /**
    * Check if the user store is healthy
    */
@@ -84,6 +149,49 @@ export interface UserAdapter {
   close(): Promise<void>;
 }
 
+export interface GroupAdapter {
+  /**
+   * Create or update a group, merging the record's properties over the
+   * stored traits, and add memberId to its members when given, as one
+   * atomic step
+   */
+  upsert(group: GroupUpdate, memberId?: string): Promise<GroupUpsertResult>;
+
+  /**
+   * Get a group record by ID
+   */
+  get(tenantId: string, groupId: string): Promise<GroupRecord | null>;
+
+  /**
+   * The userIds that joined a group, sorted
+   */
+  getMembers(tenantId: string, groupId: string): Promise<string[]>;
+
+  /**
+   * Every membership of the tenant's groups, or of its groups of one type
+   */
+  getMemberships(
+    tenantId: string,
+    groupType?: string
+  ): Promise<GroupMembership[]>;
+
+  /**
+   * Remove a user from every group (GDPR erasure), returning how many
+   * memberships existed
+   */
+  removeMember(tenantId: string, userId: string): Promise<number>;
+
+  /**
+   * Check if the group store is healthy
+   */
+  healthCheck(): Promise<boolean>;
+
+  /**
+   * Close connections and cleanup resources
+   */
+  close(): Promise<void>;
+}
+
 export interface RateLimitAdapter {
   /**
    * Check if a request is within rate limits
@@ -131,13 +239,29 @@ export interface DeduplicationAdapter {
   isDuplicate(tenantId: string, eventId: string): Promise<boolean>;
 
   /**
-   * Mark an event as processed
+   * Record an event id unless it is already recorded, in one atomic step,
+   * returning false when it was. Concurrent claims of the same id succeed
+   * at most once.
+   */
+  claim(
+    tenantId: string,
+    eventId: string,
+    ttlSeconds?: number
+  ): Promise<boolean>;
+
+  /**
+   * Mark an event as processed, returning false when it already was
    */
   markProcessed(
     tenantId: string,
     eventId: string,
     ttlSeconds?: number
-  ): Promise<void>;
+  ): Promise<boolean>;
+
+  /**
+   * Remove the records of specific events, returning how many existed
+   */
+  forget(tenantId: string, eventIds: string[]): Promise<number>;
 
   /**
    * Remove old deduplication records
@@ -155,6 +279,38 @@ export interface DeduplicationAdapter {
   close(): Promise<void>;
 }
 
+export interface SessionAdapter {
+  /**
+   * Place a user's activity in their current session, or start a new one
+   * when the activity is more than timeoutMs from the session's latest
+   * activity. A client-supplied sessionId continues the current session
+   * only when it matches. Atomic per user, so concurrent activities agree
+   * on the session.
+   */
+  assign(
+    tenantId: string,
+    userId: string,
+    timestamp: Date,
+    timeoutMs: number,
+    sessionId?: string
+  ): Promise<SessionAssignment>;
+
+  /**
+   * Drop the current sessions of these users, returning how many existed
+   */
+  forget(tenantId: string, userIds: string[]): Promise<number>;
+
+  /**
+   * Check if the session store is healthy
+   */
+  healthCheck(): Promise<boolean>;
+
+  /**
+   * Close connections and cleanup resources
+   */
+  close(): Promise<void>;
+}
+
 export interface StoreSelector {
   /**
    * Get the configured event adapter
@@ -166,6 +322,11 @@ export interface StoreSelector {
    */
   getUserAdapter(): UserAdapter;
 
+  /**
+   * Get the configured group adapter
+   */
+  getGroupAdapter(): GroupAdapter;
+
   /**
    * Get the configured rate limit adapter
    */
@@ -176,6 +337,11 @@ export interface StoreSelector {
    */
   getDeduplicationAdapter(): DeduplicationAdapter;
 
+  /**
+   * Get the configured session adapter
+   */
+  getSessionAdapter(): SessionAdapter;
+
   /**
    * Initialize all adapters with current configuration
    */
@@ -187,8 +353,10 @@ export interface StoreSelector {
   healthCheck(): Promise<{
     eventStore: boolean;
     userStore: boolean;
+    groupStore: boolean;
     rateLimiter: boolean;
     deduplication: boolean;
+    sessions: boolean;
   }>;
 
   /**
@@ -194,6 +194,10 @@ export class JwtAuthRateLimiter implements AuthRateLimiter {
       const rateLimitResult = await this.checkRateLimit(rateLimitKey);
 
       if (!rateLimitResult.allowed) {
+        if (rateLimitResult.retryAfter) {
+          res.setHeader('Retry-After', rateLimitResult.retryAfter.toString());
+        }
+
         res.status(429).json({
           error: 'Rate limit exceeded',
           message: 'Too many requests',
@@ -202,11 +206,6 @@ export class JwtAuthRateLimiter implements AuthRateLimiter {
           requestId: req.requestId,
           retryAfter: rateLimitResult.retryAfter,
         });
-
-        if (rateLimitResult.retryAfter) {
-          res.setHeader('Retry-After', rateLimitResult.retryAfter.toString());
-        }
-
         return;
       }
 
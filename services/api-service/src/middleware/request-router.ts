@@ -4,30 +4,274 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   TrackRequest,
   IdentifyRequest,
+  AliasRequest,
+  GroupRequest,
+  BatchItem,
+  BatchRequest,
+  BatchMessageType,
+  AggregateRequest,
+  FunnelRequest,
+  RetentionRequest,
   ValidationResult,
   TenantInfo,
   TrackingEventSchema,
   IdentifyDataSchema,
 } from '../types/core.js';
+import {
+  validateTenantId,
+  validateUserId,
+  validateGroupId,
+} from '../security/identifier-policy.js';
+import {
+  assertValidTimezone,
+  bucketsBetween,
+} from '../adapters/event-aggregation.js';
+import { TRAIT_OPERATORS } from '../adapters/trait-operations.js';
+
+// Apply the shared identifier policy; empty strings are left to min() checks
+function checkUserId(value: string, ctx: z.RefinementCtx): void {
+  if (value === '') return;
+  const validation = validateUserId(value);
+  if (!validation.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: validation.error! });
+  }
+}
+
+function checkGroupId(value: string, ctx: z.RefinementCtx): void {
+  if (value === '') return;
+  const validation = validateGroupId(value);
+  if (!validation.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: validation.error! });
+  }
+}
+
+// A trait may be updated by one operator per call; traits and $set both
+// overwrite, so they may share names
+function checkTraitOperators(
+  request: Pick<IdentifyRequest, 'traits' | (typeof TRAIT_OPERATORS)[number]>,
+  ctx: z.RefinementCtx
+): void {
+  const claimedBy = new Map<string, { group: string; operator: string }>();
+  for (const operator of ['traits', ...TRAIT_OPERATORS] as const) {
+    const block = request[operator];
+    const group = operator === 'traits' ? '$set' : operator;
+    const names = Array.isArray(block) ? block : Object.keys(block ?? {});
+
+    for (const name of names) {
+      const owner = claimedBy.get(name);
+      if (owner !== undefined && owner.group !== group) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `trait "${name}" is already updated by ${owner.operator}`,
+          path: [operator],
+        });
+      }
+      claimedBy.set(name, { group, operator });
+    }
+  }
+}
 
 // Request validation schemas
 const TrackRequestSchema = z.object({
+  messageId: z.string().min(1).max(255).optional(),
   event: z.string().min(1),
   properties: z.record(z.any()).optional(),
   timestamp: z.string().datetime().optional(),
-  userId: z.string().optional(),
+  userId: z.string().superRefine(checkUserId).optional(),
+  anonymousId: z.string().superRefine(checkUserId).optional(),
   sessionId: z.string().optional(),
   deviceId: z.string().optional(),
 });
 
-const IdentifyRequestSchema = z.object({
-  userId: z.string().min(1),
+const IdentifyRequestSchema = z
+  .object({
+    userId: z.string().min(1).superRefine(checkUserId),
+    anonymousId: z.string().min(1).superRefine(checkUserId).optional(),
+    traits: z.record(z.any()).optional(),
+    timestamp: z.string().datetime().optional(),
+    $set: z.record(z.any()).optional(),
+    $setOnce: z.record(z.any()).optional(),
+    $increment: z.record(z.number().finite()).optional(),
+    $unset: z.array(z.string().min(1)).optional(),
+    $append: z.record(z.any()).optional(),
+    $union: z.record(z.any()).optional(),
+  })
+  .superRefine(checkTraitOperators);
+
+const AliasRequestSchema = z
+  .object({
+    userId: z.string().min(1).superRefine(checkUserId),
+    previousId: z.string().min(1).superRefine(checkUserId),
+  })
+  .refine((request) => request.userId !== request.previousId, {
+    message: 'must differ from userId',
+    path: ['previousId'],
+  });
+
+const GroupRequestSchema = z.object({
+  groupId: z.string().min(1).superRefine(checkGroupId),
+  groupType: z.string().min(1).max(64).optional(),
   traits: z.record(z.any()).optional(),
+  userId: z.string().min(1).superRefine(checkUserId).optional(),
+  anonymousId: z.string().min(1).superRefine(checkUserId).optional(),
   timestamp: z.string().datetime().optional(),
 });
 
+// Maximum number of messages accepted in a single batch request
+const MAX_BATCH_SIZE = 500;
+
+const BATCH_MESSAGE_TYPES: BatchMessageType[] = [
+  'track',
+  'identify',
+  'alias',
+  'group',
+];
+
+const BatchRequestSchema = z.object({
+  batch: z.array(z.record(z.any())).min(1).max(MAX_BATCH_SIZE),
+});
+
+const TimezoneSchema = z.string().superRefine((value, ctx) => {
+  try {
+    assertValidTimezone(value);
+  } catch {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'must be an IANA timezone name such as "Europe/Berlin"',
+    });
+  }
+});
+
+// An event name plus property values, as used by funnel and retention steps
+const EventStepSchema = z.object({
+  event: z.string().min(1),
+  properties: z.record(z.any()).optional(),
+});
+
+// Metrics computed from a numeric event property
+const PROPERTY_METRICS = ['sum', 'avg', 'min', 'max'];
+
+const AggregateRequestSchema = z
+  .object({
+    metric: z.enum(['count', 'uniqueUsers', 'sum', 'avg', 'min', 'max']),
+    property: z.string().min(1).optional(),
+    groupBy: z
+      .string()
+      .regex(
+        /^(eventName|properties\..+|groups\..+)$/,
+        'must be "eventName", "properties.<key>" or "groups.<groupType>"'
+      )
+      .optional(),
+    interval: z.enum(['minute', 'hour', 'day', 'week', 'month']).optional(),
+    timezone: TimezoneSchema.optional(),
+    filter: z
+      .object({
+        eventTypes: z.array(z.string().min(1)).optional(),
+        userId: z.string().superRefine(checkUserId).optional(),
+        groupId: z.string().min(1).superRefine(checkGroupId).optional(),
+        startDate: z.string().datetime().optional(),
+        endDate: z.string().datetime().optional(),
+        properties: z.record(z.any()).optional(),
+      })
+      .optional(),
+  })
+  .superRefine((request, ctx) => {
+    if (PROPERTY_METRICS.includes(request.metric) && !request.property) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['property'],
+        message: `Required for metric "${request.metric}"`,
+      });
+    }
+
+    const { startDate, endDate } = request.filter ?? {};
+    if (startDate && endDate && new Date(startDate) > new Date(endDate)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['filter', 'startDate'],
+        message: 'must be before endDate',
+      });
+    }
+  });
+
+// Bounds on funnel size and on the time allowed to complete one
+const MAX_FUNNEL_STEPS = 20;
+const MAX_CONVERSION_WINDOW_SECONDS = 90 * 24 * 60 * 60;
+
+const FunnelRequestSchema = z
+  .object({
+    steps: z.array(EventStepSchema).min(2).max(MAX_FUNNEL_STEPS),
+    conversionWindowSeconds: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_CONVERSION_WINDOW_SECONDS)
+      .optional(),
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime(),
+  })
+  .superRefine((request, ctx) => {
+    if (new Date(request.startDate) > new Date(request.endDate)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['startDate'],
+        message: 'must be before endDate',
+      });
+    }
+  });
+
+// Longest retention row, in periods, that a date range may produce
+const MAX_RETENTION_PERIODS = 366;
+
+const RetentionRequestSchema = z
+  .object({
+    startEvent: EventStepSchema.optional(),
+    returnEvent: EventStepSchema,
+    interval: z.enum(['day', 'week', 'month']),
+    timezone: TimezoneSchema.optional(),
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime(),
+    breakdownBy: z
+      .string()
+      .regex(/^properties\..+$/, 'must be "properties.<trait>"')
+      .optional(),
+  })
+  .superRefine((request, ctx) => {
+    const startMs = new Date(request.startDate).getTime();
+    const endMs = new Date(request.endDate).getTime();
+    if (startMs > endMs) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['startDate'],
+        message: 'must be before endDate',
+      });
+      return;
+    }
+
+    // An invalid timezone has already been reported on its own field
+    let periods: number;
+    try {
+      periods =
+        bucketsBetween(
+          startMs,
+          endMs,
+          request.interval,
+          request.timezone ?? 'UTC'
+        ) + 1;
+    } catch {
+      return;
+    }
+    if (periods > MAX_RETENTION_PERIODS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['endDate'],
+        message: `range spans ${periods} periods; at most ${MAX_RETENTION_PERIODS} are allowed`,
+      });
+    }
+  });
+
 export interface RequestRouter {
-  validateSchema(request: any, schema: 'track' | 'identify'): ValidationResult;
+  validateSchema(request: any, schema: BatchMessageType): ValidationResult;
   attachRequestId(req: Request, res: Response, next: NextFunction): void;
   enforceTenantHeader(req: Request, res: Response, next: NextFunction): void;
   validateTrackRequest(req: Request, res: Response, next: NextFunction): void;
@@ -36,6 +280,20 @@ export interface RequestRouter {
     res: Response,
     next: NextFunction
   ): void;
+  validateAliasRequest(req: Request, res: Response, next: NextFunction): void;
+  validateGroupRequest(req: Request, res: Response, next: NextFunction): void;
+  validateBatchRequest(req: Request, res: Response, next: NextFunction): void;
+  validateAggregateRequest(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void;
+  validateFunnelRequest(req: Request, res: Response, next: NextFunction): void;
+  validateRetentionRequest(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void;
 }
 
 export class ExpressRequestRouter implements RequestRouter {
@@ -45,7 +303,7 @@ export class ExpressRequestRouter implements RequestRouter {
     this.tenantHeaderName = tenantHeaderName;
   }
 
-  validateSchema(request: any, schema: 'track' | 'identify'): ValidationResult {
+  validateSchema(request: any, schema: BatchMessageType): ValidationResult {
     try {
       let validatedData: any;
 
@@ -53,6 +311,10 @@ export class ExpressRequestRouter implements RequestRouter {
         validatedData = TrackRequestSchema.parse(request);
       } else if (schema === 'identify') {
         validatedData = IdentifyRequestSchema.parse(request);
+      } else if (schema === 'alias') {
+        validatedData = AliasRequestSchema.parse(request);
+      } else if (schema === 'group') {
+        validatedData = GroupRequestSchema.parse(request);
       } else {
         return {
           success: false,
@@ -121,6 +383,19 @@ export class ExpressRequestRouter implements RequestRouter {
       return;
     }
 
+    // Tenant IDs name storage directories, so they must pass the identifier policy
+    const tenantValidation = validateTenantId(tenantId.trim());
+    if (!tenantValidation.success) {
+      res.status(400).json({
+        error: 'Invalid tenant ID',
+        message: `Header '${this.tenantHeaderName}' is invalid: ${tenantValidation.error}`,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: (req as any).requestId,
+      });
+      return;
+    }
+
     // Store tenant info in request for later use
     (req as any).tenantInfo = {
       tenantId: tenantId.trim(),
@@ -130,16 +405,10 @@ export class ExpressRequestRouter implements RequestRouter {
   }
 
   validateTrackRequest(req: Request, res: Response, next: NextFunction): void {
-    // Extract userId from properties if not provided at top level (for backward compatibility)
-    let requestBody = { ...req.body };
-    if (!requestBody.userId && requestBody.properties?.userId) {
-      requestBody.userId = requestBody.properties.userId;
-      // Remove userId from properties to avoid duplication
-      const { userId, ...otherProperties } = requestBody.properties;
-      requestBody.properties = otherProperties;
-    }
-
-    const validation = this.validateSchema(requestBody, 'track');
+    const validation = this.validateSchema(
+      this.normalizeTrackBody(req.body),
+      'track'
+    );
 
     if (!validation.success) {
       res.status(400).json({
@@ -179,6 +448,178 @@ export class ExpressRequestRouter implements RequestRouter {
     (req as any).validatedBody = validation.data as IdentifyRequest;
     next();
   }
+
+  validateAliasRequest(req: Request, res: Response, next: NextFunction): void {
+    const validation = this.validateSchema(req.body, 'alias');
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid alias request',
+        message: validation.error,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: (req as any).requestId,
+      });
+      return;
+    }
+
+    // Store validated data
+    (req as any).validatedBody = validation.data as AliasRequest;
+    next();
+  }
+
+  validateGroupRequest(req: Request, res: Response, next: NextFunction): void {
+    const validation = this.validateSchema(req.body, 'group');
+
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid group request',
+        message: validation.error,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: (req as any).requestId,
+      });
+      return;
+    }
+
+    // Store validated data
+    (req as any).validatedBody = validation.data as GroupRequest;
+    next();
+  }
+
+  validateBatchRequest(req: Request, res: Response, next: NextFunction): void {
+    const envelope = BatchRequestSchema.safeParse(req.body);
+
+    if (!envelope.success) {
+      const errorMessages = envelope.error.errors
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join(', ');
+
+      res.status(400).json({
+        error: 'Invalid batch request',
+        message: `Validation failed: ${errorMessages}`,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: (req as any).requestId,
+      });
+      return;
+    }
+
+    // Validate each message on its own so one bad item does not reject the batch
+    const items: BatchItem[] = envelope.data.batch.map((message, index) => {
+      const { type, ...body } = message;
+
+      if (!BATCH_MESSAGE_TYPES.includes(type)) {
+        return {
+          index,
+          type: String(type),
+          error: `Validation failed: type: must be one of: ${BATCH_MESSAGE_TYPES.join(', ')}`,
+        };
+      }
+
+      const validation = this.validateSchema(
+        type === 'track' ? this.normalizeTrackBody(body) : body,
+        type as BatchMessageType
+      );
+
+      return validation.success
+        ? { index, type, request: validation.data }
+        : { index, type, error: validation.error };
+    });
+
+    // Store validated data
+    (req as any).validatedBody = { items } as BatchRequest;
+    next();
+  }
+
+  validateAggregateRequest(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void {
+    const validation = AggregateRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const errorMessages = validation.error.errors
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join(', ');
+
+      res.status(400).json({
+        error: 'Invalid aggregate request',
+        message: `Validation failed: ${errorMessages}`,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: (req as any).requestId,
+      });
+      return;
+    }
+
+    // Store validated data
+    (req as any).validatedBody = validation.data as AggregateRequest;
+    next();
+  }
+
+  validateFunnelRequest(req: Request, res: Response, next: NextFunction): void {
+    const validation = FunnelRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const errorMessages = validation.error.errors
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join(', ');
+
+      res.status(400).json({
+        error: 'Invalid funnel request',
+        message: `Validation failed: ${errorMessages}`,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: (req as any).requestId,
+      });
+      return;
+    }
+
+    // Store validated data
+    (req as any).validatedBody = validation.data as FunnelRequest;
+    next();
+  }
+
+  validateRetentionRequest(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void {
+    const validation = RetentionRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const errorMessages = validation.error.errors
+        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .join(', ');
+
+      res.status(400).json({
+        error: 'Invalid retention request',
+        message: `Validation failed: ${errorMessages}`,
+        statusCode: 400,
+        timestamp: new Date(),
+        requestId: (req as any).requestId,
+      });
+      return;
+    }
+
+    // Store validated data
+    (req as any).validatedBody = validation.data as RetentionRequest;
+    next();
+  }
+
+  private normalizeTrackBody(body: any): any {
+    // Extract userId from properties if not provided at top level (for backward compatibility)
+    const requestBody = { ...body };
+    if (!requestBody.userId && requestBody.properties?.userId) {
+      requestBody.userId = requestBody.properties.userId;
+      // Remove userId from properties to avoid duplication
+      const { userId, ...otherProperties } = requestBody.properties;
+      requestBody.properties = otherProperties;
+    }
+    return requestBody;
+  }
 }
 
 // Extend Express Request interface to include our custom properties
@@ -187,7 +628,15 @@ declare global {
     interface Request {
       requestId?: string;
       tenantInfo?: TenantInfo;
-      validatedBody?: TrackRequest | IdentifyRequest;
+      validatedBody?:
+        | TrackRequest
+        | IdentifyRequest
+        | AliasRequest
+        | GroupRequest
+        | BatchRequest
+        | AggregateRequest
+        | FunnelRequest
+        | RetentionRequest;
     }
   }
 }
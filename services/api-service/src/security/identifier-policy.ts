@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+import { ValidationResult } from '../types/core.js';
+
+/**
+ * Rules for tenant, user and group identifiers that end up in storage keys
+ * and file paths. Tenant IDs are restricted to a safe character set and
+ * used verbatim; user and group IDs may contain almost anything and are
+ * encoded before they become a path segment.
+ */
+
+export const MAX_TENANT_ID_LENGTH = 64;
+export const MAX_USER_ID_LENGTH = 255;
+export const MAX_GROUP_ID_LENGTH = 255;
+
+// Letters, digits, dot, underscore and hyphen; must not start with a dot
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+// C0 controls (including the null byte), DEL and C1 controls
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]/;
+
+// Characters that are separators or reserved in common filesystems
+const UNSAFE_PATH_CHARACTERS = /[/\\:*?"<>|%]/g;
+
+// Leaves room for file extensions within the usual 255-byte name limit
+const MAX_PATH_SEGMENT_BYTES = 200;
+
+export function validateTenantId(tenantId: unknown): ValidationResult {
+  if (typeof tenantId !== 'string' || tenantId.length === 0) {
+    return { success: false, error: 'Tenant ID must be a non-empty string' };
+  }
+
+  if (tenantId.length > MAX_TENANT_ID_LENGTH) {
+    return {
+      success: false,
+      error: `Tenant ID must be at most ${MAX_TENANT_ID_LENGTH} characters`,
+    };
+  }
+
+  if (!TENANT_ID_PATTERN.test(tenantId)) {
+    return {
+      success: false,
+      error:
+        'Tenant ID may only contain letters, digits, ".", "_" and "-", and must not start with "."',
+    };
+  }
+
+  return { success: true, data: tenantId };
+}
+
+export function validateUserId(userId: unknown): ValidationResult {
+  return validateOpaqueId(userId, 'User ID', MAX_USER_ID_LENGTH);
+}
+
+export function validateGroupId(groupId: unknown): ValidationResult {
+  return validateOpaqueId(groupId, 'Group ID', MAX_GROUP_ID_LENGTH);
+}
+
+function validateOpaqueId(
+  id: unknown,
+  label: string,
+  maxLength: number
+): ValidationResult {
+  if (typeof id !== 'string' || id.length === 0) {
+    return { success: false, error: `${label} must be a non-empty string` };
+  }
+
+  if (id.length > maxLength) {
+    return {
+      success: false,
+      error: `${label} must be at most ${maxLength} characters`,
+    };
+  }
+
+  if (CONTROL_CHARACTERS.test(id)) {
+    return {
+      success: false,
+      error: `${label} must not contain control characters`,
+    };
+  }
+
+  return { success: true, data: id };
+}
+
+/**
+ * Throw unless the tenant ID is safe to use as a directory name
+ */
+export function assertValidTenantId(tenantId: string): void {
+  const validation = validateTenantId(tenantId);
+  if (!validation.success) {
+    throw new Error(`Invalid tenant ID: ${validation.error}`);
+  }
+}
+
+/**
+ * Encode a user ID as a single file name segment. IDs made only of safe
+ * characters are returned unchanged, so existing files keep their names.
+ * Segments that would be too long are replaced by a hash, marked with a
+ * "%h" prefix that percent-encoding can never produce.
+ */
+export function userIdToPathSegment(userId: string): string {
+  const validation = validateUserId(userId);
+  if (!validation.success) {
+    throw new Error(`Invalid user ID: ${validation.error}`);
+  }
+
+  return toPathSegment(userId);
+}
+
+/**
+ * Encode a group ID as a single file name segment, as for user IDs
+ */
+export function groupIdToPathSegment(groupId: string): string {
+  const validation = validateGroupId(groupId);
+  if (!validation.success) {
+    throw new Error(`Invalid group ID: ${validation.error}`);
+  }
+
+  return toPathSegment(groupId);
+}
+
+function toPathSegment(id: string): string {
+  const encoded = id.replace(
+    UNSAFE_PATH_CHARACTERS,
+    (char) =>
+      `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`
+  );
+
+  // A leading dot would make "." / ".." or a hidden file
+  const segment = encoded.startsWith('.') ? `%2E${encoded.slice(1)}` : encoded;
+
+  if (Buffer.byteLength(segment, 'utf8') > MAX_PATH_SEGMENT_BYTES) {
+    return `%h${createHash('sha256').update(id).digest('hex')}`;
+  }
+
+  return segment;
+}
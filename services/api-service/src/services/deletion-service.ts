@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { StoreSelector } from '../interfaces/storage.js';
+import { DeletionReceipt } from '../types/core.js';
+import { assertValidTenantId } from '../security/identifier-policy.js';
+
+// Receipt ids are generated UUIDs; anything else is never a stored receipt
+const RECEIPT_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Suffix for a receipt being written; renamed over the receipt when complete
+const RECEIPT_WRITE_SUFFIX = '.tmp';
+
+/**
+ * GDPR erasure of a user across every store: their events and those of
+ * their aliases, the deduplication records of those events, their group
+ * memberships and current session, and their profile and identity graph
+ * links. An alias erases the user it resolves to. Erasures run one at a
+ * time in the background, since rewriting a large tenant's event files can
+ * take minutes, and each step is recorded in a receipt stored as JSON under
+ * <receiptsPath>/<tenantId>/<receiptId>.json.
+ *
+ * Every step is idempotent, so receipts left pending or running by a
+ * restart are picked up again by resumePending().
+ */
+export class DeletionService {
+  private storeSelector: StoreSelector;
+  private receiptsPath: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(storeSelector: StoreSelector, receiptsPath: string) {
+    this.storeSelector = storeSelector;
+    this.receiptsPath = receiptsPath;
+  }
+
+  /**
+   * Record a pending erasure and schedule it, returning the receipt
+   * without waiting for the erasure to run
+   */
+  async requestDeletion(
+    tenantId: string,
+    userId: string
+  ): Promise<DeletionReceipt> {
+    const receipt: DeletionReceipt = {
+      receiptId: uuidv4(),
+      tenantId,
+      userId,
+      userIdHash: createHash('sha256').update(userId, 'utf8').digest('hex'),
+      status: 'pending',
+      requestedAt: new Date(),
+    };
+
+    await this.saveReceipt(receipt);
+    this.enqueue(receipt);
+
+    return receipt;
+  }
+
+  async getReceipt(
+    tenantId: string,
+    receiptId: string
+  ): Promise<DeletionReceipt | null> {
+    if (!RECEIPT_ID_PATTERN.test(receiptId)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(
+        this.getReceiptPath(tenantId, receiptId),
+        'utf8'
+      );
+      return this.parseReceipt(content);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Schedule every erasure that had not finished when the process stopped;
+   * call once after the stores are initialized
+   */
+  async resumePending(): Promise<number> {
+    let resumed = 0;
+
+    let tenantIds: string[];
+    try {
+      tenantIds = await fs.readdir(this.receiptsPath);
+    } catch {
+      return 0; // No receipts written yet
+    }
+
+    for (const tenantId of tenantIds) {
+      let files: string[];
+      try {
+        files = await fs.readdir(join(this.receiptsPath, tenantId));
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+
+        const receipt = await this.getReceipt(tenantId, file.slice(0, -5));
+        if (
+          receipt &&
+          (receipt.status === 'pending' || receipt.status === 'running')
+        ) {
+          this.enqueue(receipt);
+          resumed++;
+        }
+      }
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Resolve once every scheduled erasure has finished
+   */
+  async whenIdle(): Promise<void> {
+    await this.queue;
+  }
+
+  private enqueue(receipt: DeletionReceipt): void {
+    // The job updates its own copy; callers keep the receipt as requested
+    const job = { ...receipt };
+    this.queue = this.queue.then(() => this.run(job));
+  }
+
+  private async run(receipt: DeletionReceipt): Promise<void> {
+    const { tenantId, userId } = receipt;
+
+    try {
+      receipt.status = 'running';
+      receipt.startedAt = new Date();
+      delete receipt.error;
+      await this.saveReceipt(receipt);
+
+      const userAdapter = this.storeSelector.getUserAdapter();
+      const resolved = await userAdapter.resolveIdentities(tenantId, [userId!]);
+      const canonical = resolved.get(userId!) ?? userId!;
+      const aliases = await userAdapter.getAliases(tenantId, canonical);
+
+      // Profile and links last, so an interrupted erasure never leaves
+      // events behind for a user who already looks deleted
+      const eventIds: string[] = [];
+      for (const id of [canonical, ...aliases]) {
+        eventIds.push(
+          ...(await this.storeSelector
+            .getEventAdapter()
+            .deleteUserEvents(tenantId, id))
+        );
+      }
+      receipt.eventsDeleted = eventIds.length;
+
+      receipt.deduplicationRecordsPurged = await this.storeSelector
+        .getDeduplicationAdapter()
+        .forget(tenantId, eventIds);
+
+      receipt.groupMembershipsDeleted = 0;
+      for (const id of [canonical, ...aliases]) {
+        receipt.groupMembershipsDeleted += await this.storeSelector
+          .getGroupAdapter()
+          .removeMember(tenantId, id);
+      }
+
+      receipt.sessionsDeleted = await this.storeSelector
+        .getSessionAdapter()
+        .forget(tenantId, [canonical, ...aliases]);
+
+      receipt.aliasesDeleted = aliases.length;
+      receipt.profileDeleted = await userAdapter.delete(tenantId, canonical);
+
+      receipt.status = 'completed';
+      receipt.completedAt = new Date();
+      delete receipt.userId;
+      await this.saveReceipt(receipt);
+    } catch (error) {
+      console.error(`User deletion ${receipt.receiptId} failed:`, error);
+
+      receipt.status = 'failed';
+      receipt.completedAt = new Date();
+      receipt.error = error instanceof Error ? error.message : 'Unknown error';
+      try {
+        await this.saveReceipt(receipt);
+      } catch (saveError) {
+        console.error(
+          `Failed to record deletion receipt ${receipt.receiptId}:`,
+          saveError
+        );
+      }
+    }
+  }
+
+  private async saveReceipt(receipt: DeletionReceipt): Promise<void> {
+    const filePath = this.getReceiptPath(receipt.tenantId, receipt.receiptId);
+    await fs.mkdir(join(this.receiptsPath, receipt.tenantId), {
+      recursive: true,
+    });
+
+    // Write then rename, so a crash never leaves a truncated receipt
+    await fs.writeFile(
+      filePath + RECEIPT_WRITE_SUFFIX,
+      JSON.stringify(receipt, null, 2),
+      'utf8'
+    );
+    await fs.rename(filePath + RECEIPT_WRITE_SUFFIX, filePath);
+  }
+
+  private getReceiptPath(tenantId: string, receiptId: string): string {
+    assertValidTenantId(tenantId);
+    return join(this.receiptsPath, tenantId, `${receiptId}.json`);
+  }
+
+  private parseReceipt(content: string): DeletionReceipt {
+    const data = JSON.parse(content);
+    return {
+      ...data,
+      requestedAt: new Date(data.requestedAt),
+      ...(data.startedAt && { startedAt: new Date(data.startedAt) }),
+      ...(data.completedAt && { completedAt: new Date(data.completedAt) }),
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { AnalyticsEvent, EventMatcher } from '../types/core.js';
+
+/**
+ * Whether an event has the matcher's name and every listed property value
+ */
+export function matchesEvent(
+  event: AnalyticsEvent,
+  matcher: EventMatcher
+): boolean {
+  if (event.eventName !== matcher.eventName) {
+    return false;
+  }
+  for (const [key, value] of Object.entries(matcher.properties ?? {})) {
+    if (event.properties?.[key] !== value) {
+      return false;
+    }
+  }
+  return true;
+}
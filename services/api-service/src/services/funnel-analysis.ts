@@ -0,0 +1,110 @@
+import {
+  AnalyticsEvent,
+  FunnelQuery,
+  FunnelStepResult,
+} from '../types/core.js';
+import { matchesEvent } from './event-matcher.js';
+import { median, ratio } from './statistics.js';
+
+/**
+ * Conversion funnels computed from a tenant's events. Events are grouped by
+ * user and replayed in time order; anonymous events are ignored. A user
+ * reaches step N when steps 1..N occur in order, each within the conversion
+ * window of the step-one event that started the sequence.
+ */
+
+interface StepHit {
+  time: number;
+  steps: number[]; // Indexes of the funnel steps this event matches
+}
+
+// Most recent sequence reaching a step: when it started and when it got there
+interface Sequence {
+  start: number;
+  time: number;
+}
+
+export async function computeFunnel(
+  events: AsyncIterable<AnalyticsEvent> | Iterable<AnalyticsEvent>,
+  query: FunnelQuery
+): Promise<FunnelStepResult[]> {
+  const hitsByUser = new Map<string, StepHit[]>();
+
+  for await (const event of events) {
+    if (!event.userId) {
+      continue;
+    }
+    const steps = query.steps.flatMap((step, index) =>
+      matchesEvent(event, step) ? [index] : []
+    );
+    if (steps.length === 0) {
+      continue;
+    }
+
+    let hits = hitsByUser.get(event.userId);
+    if (!hits) {
+      hits = [];
+      hitsByUser.set(event.userId, hits);
+    }
+    hits.push({ time: event.timestamp.getTime(), steps });
+  }
+
+  const counts = query.steps.map(() => 0);
+  const durations: number[][] = query.steps.map(() => []);
+
+  for (const hits of hitsByUser.values()) {
+    const reached = replayUser(hits, query);
+    reached.forEach((duration, index) => {
+      counts[index]!++;
+      if (index > 0) {
+        durations[index]!.push(duration);
+      }
+    });
+  }
+
+  return query.steps.map((step, index) => ({
+    eventName: step.eventName,
+    count: counts[index]!,
+    conversionRate: ratio(counts[index]!, counts[0]!),
+    stepConversionRate: ratio(
+      counts[index]!,
+      index === 0 ? counts[0]! : counts[index - 1]!
+    ),
+    medianTimeToConvert: index === 0 ? null : median(durations[index]!),
+  }));
+}
+
+/**
+ * Time taken to first reach each step, in ms since the previous step of the
+ * same sequence; the array is as long as the furthest step reached
+ */
+function replayUser(hits: StepHit[], query: FunnelQuery): number[] {
+  const sequences: Array<Sequence | undefined> = [];
+  const reached: number[] = [];
+
+  // Stable, so events with equal timestamps keep their stored order
+  hits.sort((a, b) => a.time - b.time);
+
+  for (const hit of hits) {
+    // Highest step first so one event cannot advance a sequence twice
+    for (let i = hit.steps.length - 1; i >= 0; i--) {
+      const index = hit.steps[i]!;
+
+      if (index === 0) {
+        // A later start leaves more of the window for the remaining steps
+        sequences[0] = { start: hit.time, time: hit.time };
+        reached[0] ??= 0;
+        continue;
+      }
+
+      const previous = sequences[index - 1];
+      if (!previous || hit.time - previous.start > query.conversionWindowMs) {
+        continue;
+      }
+      sequences[index] = { start: previous.start, time: hit.time };
+      reached[index] ??= hit.time - previous.time;
+    }
+  }
+
+  return reached;
+}
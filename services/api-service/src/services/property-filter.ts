@@ -0,0 +1,391 @@
+import { isDeepStrictEqual } from 'util';
+import { z } from 'zod';
+import { OpenAPIV3 } from 'openapi-types';
+import {
+  PropertyCondition,
+  PropertyFilter,
+  PropertyOperator,
+} from '../types/core.js';
+
+/**
+ * The property filter language shared by every event and user adapter.
+ * A filter is a condition on one property, addressed by a dotted path into
+ * nested objects, or an `and`/`or` group of filters. The zod schema below is
+ * what requests are validated against, the compiled predicate is what the
+ * adapters evaluate, and the OpenAPI schema documents both.
+ *
+ * Comparisons never coerce: gt/gte/lt/lte need both sides to be numbers or
+ * both strings (ISO timestamps compare correctly as strings), and eq, neq
+ * and in compare JSON values structurally. A missing property only matches
+ * neq and notExists.
+ */
+
+export const PROPERTY_OPERATORS: readonly PropertyOperator[] = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'contains',
+  'startsWith',
+  'exists',
+  'notExists',
+  'regex',
+];
+
+// Bounds that keep evaluation cheap for every stored record
+const MAX_FILTER_DEPTH = 5;
+const MAX_FILTER_CONDITIONS = 50;
+const MAX_IN_VALUES = 100;
+const MAX_REGEX_LENGTH = 200;
+
+export type PropertyPredicate = (properties: Record<string, any>) => boolean;
+
+const PropertyConditionSchema = z
+  .object({
+    property: z.string().min(1),
+    operator: z.enum(
+      PROPERTY_OPERATORS as [PropertyOperator, ...PropertyOperator[]]
+    ),
+    value: z.any().optional(),
+  })
+  .strict()
+  .superRefine((condition, ctx) => {
+    const problem = checkConditionValue(condition);
+    if (problem) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: problem,
+      });
+    }
+  });
+
+const PropertyFilterNodeSchema: z.ZodType<PropertyFilter> = z.lazy(() =>
+  z.union([
+    PropertyConditionSchema,
+    z.object({ and: z.array(PropertyFilterNodeSchema).min(1) }).strict(),
+    z.object({ or: z.array(PropertyFilterNodeSchema).min(1) }).strict(),
+  ])
+);
+
+// Depth is checked on the raw input first, so a deeply nested body is
+// rejected before the recursive schema walks it
+export const PropertyFilterSchema = z
+  .unknown()
+  .superRefine((raw, ctx) => {
+    if (groupDepth(raw) > MAX_FILTER_DEPTH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `groups may be nested at most ${MAX_FILTER_DEPTH} deep`,
+      });
+    }
+  })
+  .pipe(
+    PropertyFilterNodeSchema.superRefine((filter, ctx) => {
+      if (countConditions(filter) > MAX_FILTER_CONDITIONS) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `at most ${MAX_FILTER_CONDITIONS} conditions are allowed`,
+        });
+      }
+    })
+  );
+
+/**
+ * Build a predicate over a record's properties; regular expressions are
+ * compiled once here rather than per record
+ */
+export function compilePropertyFilter(
+  filter: PropertyFilter
+): PropertyPredicate {
+  if ('and' in filter) {
+    const predicates = filter.and.map(compilePropertyFilter);
+    return (properties) =>
+      predicates.every((predicate) => predicate(properties));
+  }
+  if ('or' in filter) {
+    const predicates = filter.or.map(compilePropertyFilter);
+    return (properties) =>
+      predicates.some((predicate) => predicate(properties));
+  }
+
+  const path = filter.property.split('.');
+  const test = compileCondition(filter);
+  return (properties) => test(resolvePath(properties, path));
+}
+
+const compiledFilters = new WeakMap<PropertyFilter, PropertyPredicate>();
+
+/**
+ * Evaluate a filter against a record's properties, compiling each filter
+ * object once however many records it is applied to
+ */
+export function matchesPropertyFilter(
+  properties: Record<string, any>,
+  filter: PropertyFilter
+): boolean {
+  let predicate = compiledFilters.get(filter);
+  if (!predicate) {
+    predicate = compilePropertyFilter(filter);
+    compiledFilters.set(filter, predicate);
+  }
+  return predicate(properties);
+}
+
+// Component name under which the OpenAPI schema is registered
+export const PROPERTY_FILTER_SCHEMA_NAME = 'PropertyFilter';
+
+/**
+ * OpenAPI schema for the filter language; groups refer back to the
+ * registered component, so it must be added under PROPERTY_FILTER_SCHEMA_NAME
+ */
+export function propertyFilterOpenApiSchema(): OpenAPIV3.SchemaObject {
+  const filterRef: OpenAPIV3.ReferenceObject = {
+    $ref: `#/components/schemas/${PROPERTY_FILTER_SCHEMA_NAME}`,
+  };
+  const condition: OpenAPIV3.SchemaObject = {
+    type: 'object',
+    required: ['property', 'operator'],
+    properties: {
+      property: {
+        type: 'string',
+        description: 'Dotted path into properties, e.g. "utm.source"',
+      },
+      operator: { type: 'string', enum: [...PROPERTY_OPERATORS] },
+      value: {
+        description:
+          'Comparison value: an array for in, a pattern for regex, omitted for exists and notExists',
+      },
+    },
+  };
+  const group = (key: 'and' | 'or'): OpenAPIV3.SchemaObject => ({
+    type: 'object',
+    required: [key],
+    properties: {
+      [key]: { type: 'array', minItems: 1, items: filterRef },
+    },
+  });
+
+  return {
+    description: `A condition or an and/or group of filters, nested at most ${MAX_FILTER_DEPTH} deep with at most ${MAX_FILTER_CONDITIONS} conditions`,
+    oneOf: [condition, group('and'), group('or')],
+  };
+}
+
+function checkConditionValue(condition: {
+  operator: PropertyOperator;
+  value?: unknown;
+}): string | undefined {
+  const { operator, value } = condition;
+
+  switch (operator) {
+    case 'exists':
+    case 'notExists':
+      return value === undefined ? undefined : `not allowed for ${operator}`;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return typeof value === 'number' || typeof value === 'string'
+        ? undefined
+        : `must be a number or string for ${operator}`;
+    case 'in':
+      return Array.isArray(value) && value.length <= MAX_IN_VALUES
+        ? undefined
+        : `must be an array of at most ${MAX_IN_VALUES} values for in`;
+    case 'startsWith':
+      return typeof value === 'string'
+        ? undefined
+        : 'must be a string for startsWith';
+    case 'regex':
+      if (typeof value !== 'string' || value.length > MAX_REGEX_LENGTH) {
+        return `must be a pattern of at most ${MAX_REGEX_LENGTH} characters for regex`;
+      }
+      try {
+        new RegExp(value);
+      } catch {
+        return 'must be a valid regular expression';
+      }
+      return backtrackingProblem(value);
+    default:
+      return value === undefined ? `required for ${operator}` : undefined;
+  }
+}
+
+/**
+ * Patterns run against every scanned record on a backtracking engine, so
+ * those that can backtrack exponentially are rejected: backreferences, and
+ * repeated groups that themselves contain a quantifier or an alternation,
+ * such as (a+)+ or (a|ab)*
+ */
+function backtrackingProblem(pattern: string): string | undefined {
+  // One entry per open group: whether it contains a quantifier or `|`
+  const groups = [{ quantified: false, alternation: false }];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1]!;
+
+    if (char === '\\') {
+      // \1 to \9 and \k<name> refer back to a group
+      if (/[1-9k]/.test(pattern[++i] ?? '')) {
+        return 'must not contain backreferences for regex';
+      }
+    } else if (char === '[') {
+      // Skip the character class; quantifiers and `|` are literal inside it
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ quantified: false, alternation: false });
+      // Skip the group prefix, e.g. ?: ?= ?<= ?<name>, so its `?` is not read
+      // as a quantifier
+      if (pattern[i + 1] === '?') {
+        const name = /^\?<[A-Za-z_$][\w$]*>/.exec(pattern.slice(i + 1));
+        i += name ? name[0].length : pattern[i + 2] === '<' ? 3 : 2;
+      }
+    } else if (char === ')') {
+      const closed = groups.pop()!;
+      const parent = groups[groups.length - 1]!;
+      // An optional group (x)? is tried at most once, so only repeats count
+      if (
+        isRepeat(pattern, i + 1) &&
+        (closed.quantified || closed.alternation)
+      ) {
+        return 'must not repeat a group containing a quantifier or alternation for regex';
+      }
+      parent.quantified ||= closed.quantified;
+      parent.alternation ||= closed.alternation;
+    } else if (char === '|') {
+      group.alternation = true;
+    } else if (isQuantifier(pattern, i)) {
+      group.quantified = true;
+    }
+  }
+
+  return undefined;
+}
+
+function isRepeat(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  if (char === '*' || char === '+') {
+    return true;
+  }
+  const bounds = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+  return (
+    bounds !== null &&
+    (bounds[2] === undefined
+      ? Number(bounds[1]) > 1
+      : bounds[3] === '' || Number(bounds[3]) > 1)
+  );
+}
+
+function isQuantifier(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  return (
+    char === '*' ||
+    char === '+' ||
+    char === '?' ||
+    (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(index)))
+  );
+}
+
+function compileCondition(
+  condition: PropertyCondition
+): (actual: unknown) => boolean {
+  const { value } = condition;
+
+  switch (condition.operator) {
+    case 'eq':
+      return (actual) =>
+        actual !== undefined && isDeepStrictEqual(actual, value);
+    case 'neq':
+      return (actual) => !isDeepStrictEqual(actual, value);
+    case 'gt':
+      return (actual) => comparable(actual, value) && actual > value;
+    case 'gte':
+      return (actual) => comparable(actual, value) && actual >= value;
+    case 'lt':
+      return (actual) => comparable(actual, value) && actual < value;
+    case 'lte':
+      return (actual) => comparable(actual, value) && actual <= value;
+    case 'in':
+      return (actual) =>
+        actual !== undefined &&
+        (value as unknown[]).some((candidate) =>
+          isDeepStrictEqual(actual, candidate)
+        );
+    case 'contains':
+      return (actual) => {
+        if (typeof actual === 'string') {
+          return typeof value === 'string' && actual.includes(value);
+        }
+        return (
+          Array.isArray(actual) &&
+          actual.some((element) => isDeepStrictEqual(element, value))
+        );
+      };
+    case 'startsWith':
+      return (actual) => typeof actual === 'string' && actual.startsWith(value);
+    case 'exists':
+      return (actual) => actual !== undefined;
+    case 'notExists':
+      return (actual) => actual === undefined;
+    case 'regex': {
+      const pattern = new RegExp(value);
+      return (actual) => typeof actual === 'string' && pattern.test(actual);
+    }
+  }
+}
+
+function comparable(actual: unknown, value: unknown): actual is any {
+  return (
+    (typeof actual === 'number' || typeof actual === 'string') &&
+    typeof actual === typeof value
+  );
+}
+
+function resolvePath(properties: Record<string, any>, path: string[]): unknown {
+  let current: unknown = properties;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function countConditions(filter: PropertyFilter): number {
+  if ('and' in filter || 'or' in filter) {
+    const children = 'and' in filter ? filter.and : filter.or;
+    return children.reduce((total, child) => total + countConditions(child), 0);
+  }
+  return 1;
+}
+
+// Nesting depth of the and/or groups in unvalidated input, walking no more
+// than one level past the limit however deep the input goes
+function groupDepth(value: unknown, depth: number = 0): number {
+  if (depth > MAX_FILTER_DEPTH || value === null || typeof value !== 'object') {
+    return depth;
+  }
+  const group = value as { and?: unknown; or?: unknown };
+  const children = group.and ?? group.or;
+  if (!Array.isArray(children)) {
+    return depth;
+  }
+
+  let deepest = depth + 1;
+  for (const child of children) {
+    deepest = Math.max(deepest, groupDepth(child, depth + 1));
+    if (deepest > MAX_FILTER_DEPTH) break;
+  }
+  return deepest;
+}
@@ -9,97 +9,471 @@ import {
   AnalyticsEvent,
   UserRecord,
   PaginationInfo,
+  AggregationQuery,
+  AggregationResult,
+  AggregationBucket,
+  FunnelQuery,
+  FunnelResult,
+  RetentionQuery,
+  RetentionResult,
+  SessionQuery,
+  SessionResult,
+  SortPosition,
 } from '../types/core.js';
+import { aggregateEvents } from '../adapters/event-aggregation.js';
+import { eventOrdering, userOrdering } from '../adapters/query-order.js';
+import { computeFunnel } from './funnel-analysis.js';
+import { computeRetention, RetentionMember } from './retention-analysis.js';
+import { computeSessions } from './session-analysis.js';
+import { matchesEvent } from './event-matcher.js';
+import { CursorScope, QueryCursorCodec } from './query-cursor.js';
+
+// Page size used when reading every matching event or user in-process
+const SCAN_PAGE_SIZE = 1000;
 
 export class QueryService {
   private storeSelector: StoreSelector;
+  private cursorCodec: QueryCursorCodec;
 
-  constructor(storeSelector: StoreSelector) {
+  constructor(storeSelector: StoreSelector, cursorSecret?: string) {
     this.storeSelector = storeSelector;
+    this.cursorCodec = new QueryCursorCodec(cursorSecret);
   }
 
+  /**
+   * A userId filter matches the events of the user it resolves to and of
+   * every alias of that user; a groupId filter matches the events of the
+   * group's members
+   */
   async queryEvents(
     tenantId: string,
     options: QueryOptions
   ): Promise<QueryResult> {
-    const startTime = Date.now();
+    const filter = await this.withGroupMembers(
+      await this.withIdentities(this.buildEventFilter(tenantId, options))
+    );
+    const result = await this.storeSelector.getEventAdapter().query(filter);
 
-    // Build filter from options
-    const filter = this.buildEventFilter(tenantId, options);
+    const last = result.events[result.events.length - 1];
+    if (result.hasMore && last) {
+      result.nextCursor = this.cursorCodec.encode(
+        this.cursorScope('events', tenantId, options),
+        eventOrdering(filter).position(last)
+      );
+    }
 
-    // Get events from storage
-    const eventAdapter = this.storeSelector.getEventAdapter();
-    const result = await eventAdapter.query(filter);
+    return this.withCursorPagination(result, filter.after);
+  }
 
-    // Apply client-side sorting and pagination if needed
-    let events = result.events;
+  async queryUsers(
+    tenantId: string,
+    options: UserQueryOptions
+  ): Promise<UserQueryResult> {
+    const filter = this.buildUserFilter(tenantId, options);
+    const result = await this.storeSelector.getUserAdapter().query(filter);
 
-    // Apply sorting if specified
-    if (options.sortBy) {
-      events = this.sortEvents(
-        events,
-        options.sortBy,
-        options.sortOrder || 'asc'
+    const last = result.users[result.users.length - 1];
+    if (result.hasMore && last) {
+      result.nextCursor = this.cursorCodec.encode(
+        this.cursorScope('users', tenantId, options),
+        userOrdering(filter).position(last)
       );
     }
 
-    // Apply pagination
-    const paginatedResult = this.paginateResults(
-      events,
-      options.limit,
-      options.offset
+    return this.withCursorPagination(result, filter.after);
+  }
+
+  /**
+   * The profile of the user an id resolves to, so aliases find their user
+   */
+  async getUser(tenantId: string, userId: string): Promise<UserRecord | null> {
+    const userAdapter = this.storeSelector.getUserAdapter();
+    const resolved = await userAdapter.resolveIdentities(tenantId, [userId]);
+    return userAdapter.get(tenantId, resolved.get(userId) ?? userId);
+  }
+
+  /**
+   * Decode a cursor returned with an earlier page of the same query;
+   * undefined when it is malformed, tampered with, or was issued for
+   * another tenant or sort order
+   */
+  decodeCursor(
+    resource: CursorScope['resource'],
+    tenantId: string,
+    cursor: string,
+    options: Pick<QueryOptions | UserQueryOptions, 'sortBy' | 'sortOrder'>
+  ): SortPosition | undefined {
+    return this.cursorCodec.decode(
+      cursor,
+      this.cursorScope(resource, tenantId, options)
     );
+  }
+
+  /**
+   * With groupType, events are broken down by the groups of that type
+   * their user belongs to, in place of query.groupBy. An event counts
+   * towards each of those groups, and towards null when there are none.
+   */
+  async aggregateEvents(
+    query: AggregationQuery,
+    groupType?: string
+  ): Promise<AggregationResult> {
+    const startTime = Date.now();
+    const eventAdapter = this.storeSelector.getEventAdapter();
+    const resolved = {
+      ...query,
+      filter: await this.withGroupMembers(
+        await this.withIdentities(query.filter)
+      ),
+    };
 
-    const executionTime = Date.now() - startTime;
+    let buckets: AggregationBucket[];
+    if (groupType !== undefined) {
+      // Memberships live outside the event store, so group breakdowns are
+      // computed here, over events resolved to their users
+      const groupsByUser = await this.groupsByUser(
+        query.filter.tenantId,
+        groupType
+      );
+      buckets = await aggregateEvents(
+        this.readAllEvents(resolved.filter, true),
+        resolved,
+        (event) => (event.userId && groupsByUser.get(event.userId)) || []
+      );
+    } else {
+      // Unique users are counted by the ids the events were stored with, as
+      // stores that aggregate themselves cannot resolve aliases
+      buckets = eventAdapter.aggregate
+        ? (await eventAdapter.aggregate(resolved)).buckets
+        : await aggregateEvents(this.readAllEvents(resolved.filter), resolved);
+    }
 
     return {
-      events: paginatedResult.data,
-      totalCount: events.length,
-      hasMore: paginatedResult.hasMore,
-      pagination: paginatedResult.pagination,
-      executionTime,
+      buckets: this.sortBuckets(buckets),
+      executionTime: Date.now() - startTime,
     };
   }
 
-  async queryUsers(
-    tenantId: string,
-    options: UserQueryOptions
-  ): Promise<UserQueryResult> {
+  async analyzeFunnel(query: FunnelQuery): Promise<FunnelResult> {
     const startTime = Date.now();
 
-    // Build filter from options
-    const filter = this.buildUserFilter(tenantId, options);
+    const steps = await computeFunnel(
+      this.readAllEvents(
+        {
+          tenantId: query.tenantId,
+          eventTypes: [...new Set(query.steps.map((step) => step.eventName))],
+          startTime: query.startTime,
+          endTime: query.endTime,
+        },
+        true
+      ),
+      query
+    );
 
-    // Get users from storage
-    const userAdapter = this.storeSelector.getUserAdapter();
-    const result = await userAdapter.query(filter);
+    return { steps, executionTime: Date.now() - startTime };
+  }
 
-    // Apply client-side sorting and pagination if needed
-    let users = result.users;
+  async analyzeRetention(query: RetentionQuery): Promise<RetentionResult> {
+    const startTime = Date.now();
+    const members = await this.findCohortMembers(query);
+
+    const cohorts = await computeRetention(
+      members,
+      this.readAllEvents(
+        {
+          tenantId: query.tenantId,
+          eventTypes: [query.returnEvent.eventName],
+          startTime: query.startTime,
+          endTime: query.endTime,
+        },
+        true
+      ),
+      query
+    );
 
-    // Apply sorting if specified
-    if (options.sortBy) {
-      users = this.sortUsers(users, options.sortBy, options.sortOrder || 'asc');
-    }
+    return { cohorts, executionTime: Date.now() - startTime };
+  }
 
-    // Apply pagination
-    const paginatedResult = this.paginateResults(
-      users,
-      options.limit,
-      options.offset
+  async analyzeSessions(query: SessionQuery): Promise<SessionResult> {
+    const startTime = Date.now();
+
+    // Aliases resolve, so a user's sessions from before and after they were
+    // identified count as one user's
+    const result = await computeSessions(
+      this.readAllEvents(
+        {
+          tenantId: query.tenantId,
+          startTime: query.startTime,
+          endTime: query.endTime,
+        },
+        true
+      ),
+      query
     );
 
-    const executionTime = Date.now() - startTime;
+    return { ...result, executionTime: Date.now() - startTime };
+  }
+
+  /**
+   * Users entering a retention cohort within the range: at their first start
+   * event, or at firstSeen when the query has no start event
+   */
+  private async findCohortMembers(
+    query: RetentionQuery
+  ): Promise<Map<string, RetentionMember>> {
+    const members = new Map<string, RetentionMember>();
+
+    if (!query.startEvent) {
+      // activeSince prunes users last seen before the range
+      for await (const user of this.readAllUsers({
+        tenantId: query.tenantId,
+        activeSince: query.startTime,
+        activeUntil: query.endTime,
+      })) {
+        if (user.firstSeen >= query.startTime) {
+          members.set(user.userId, {
+            time: user.firstSeen.getTime(),
+            traits: user.properties,
+          });
+        }
+      }
+      return members;
+    }
+
+    for await (const event of this.readAllEvents(
+      {
+        tenantId: query.tenantId,
+        eventTypes: [query.startEvent.eventName],
+        startTime: query.startTime,
+        endTime: query.endTime,
+      },
+      true
+    )) {
+      if (
+        event.userId &&
+        !members.has(event.userId) &&
+        matchesEvent(event, query.startEvent)
+      ) {
+        members.set(event.userId, { time: event.timestamp.getTime() });
+      }
+    }
+
+    if (query.breakdownBy && members.size > 0) {
+      const users = await this.storeSelector
+        .getUserAdapter()
+        .getBatch(query.tenantId, [...members.keys()]);
+      for (const user of users) {
+        members.get(user.userId)!.traits = user.properties;
+      }
+    }
+    return members;
+  }
+
+  /**
+   * Replace a userId filter with the ids of the user it resolves to and
+   * their aliases, when there are any
+   */
+  private async withIdentities<T extends QueryFilter>(filter: T): Promise<T> {
+    if (!filter.userId) {
+      return filter;
+    }
+
+    const userAdapter = this.storeSelector.getUserAdapter();
+    const userId =
+      (
+        await userAdapter.resolveIdentities(filter.tenantId, [filter.userId])
+      ).get(filter.userId) ?? filter.userId;
+    const aliases = await userAdapter.getAliases(filter.tenantId, userId);
+
+    return aliases.length === 0
+      ? { ...filter, userId }
+      : { ...filter, userId: undefined, userIds: [userId, ...aliases] };
+  }
+
+  /**
+   * Replace a groupId filter with the ids of the group's members, keeping
+   * only those of the user when the filter has one too. Apply after
+   * withIdentities.
+   */
+  private async withGroupMembers<T extends QueryFilter>(filter: T): Promise<T> {
+    if (filter.groupId === undefined) {
+      return filter;
+    }
+
+    // Events are attributed to the groups their user belongs to now, so
+    // joining a group brings along the user's earlier events
+    const memberIds = await this.groupMemberIds(
+      filter.tenantId,
+      filter.groupId
+    );
+    const userIds =
+      filter.userIds ?? (filter.userId ? [filter.userId] : undefined);
 
     return {
-      users: paginatedResult.data,
-      totalCount: users.length,
-      hasMore: paginatedResult.hasMore,
-      pagination: paginatedResult.pagination,
-      executionTime,
+      ...filter,
+      groupId: undefined,
+      userId: undefined,
+      userIds: userIds
+        ? userIds.filter((id) => memberIds.has(id))
+        : [...memberIds],
     };
   }
 
+  /**
+   * Every id a group's members may have tracked events under: the userId
+   * each member resolves to and that user's aliases
+   */
+  private async groupMemberIds(
+    tenantId: string,
+    groupId: string
+  ): Promise<Set<string>> {
+    const userAdapter = this.storeSelector.getUserAdapter();
+    const members = await this.storeSelector
+      .getGroupAdapter()
+      .getMembers(tenantId, groupId);
+    const canonical = await userAdapter.resolveIdentities(tenantId, members);
+
+    const users = new Set(
+      members.map((member) => canonical.get(member) ?? member)
+    );
+
+    const ids = new Set<string>();
+    for (const userId of users) {
+      ids.add(userId);
+      for (const alias of await userAdapter.getAliases(tenantId, userId)) {
+        ids.add(alias);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * The groups of one type each user belongs to, keyed by the userId their
+   * memberships resolve to
+   */
+  private async groupsByUser(
+    tenantId: string,
+    groupType: string
+  ): Promise<Map<string, string[]>> {
+    const memberships = await this.storeSelector
+      .getGroupAdapter()
+      .getMemberships(tenantId, groupType);
+    const canonical = await this.storeSelector
+      .getUserAdapter()
+      .resolveIdentities(tenantId, [
+        ...new Set(memberships.map((membership) => membership.userId)),
+      ]);
+
+    const groups = new Map<string, string[]>();
+    for (const { groupId, userId } of memberships) {
+      const user = canonical.get(userId) ?? userId;
+      const userGroups = groups.get(user) ?? [];
+      // An alias and its user may both have joined
+      if (!userGroups.includes(groupId)) {
+        userGroups.push(groupId);
+      }
+      groups.set(user, userGroups);
+    }
+    return groups;
+  }
+
+  /**
+   * Page through query() oldest first, for analyses computed in-process.
+   * Each page starts after the last event of the previous one, so events
+   * inserted during the scan never shift the pages. With resolveAliases,
+   * each event's userId is replaced by the user it resolves to, so events
+   * sent before and after identifying count as one user's.
+   */
+  private async *readAllEvents(
+    filter: QueryFilter,
+    resolveAliases: boolean = false
+  ): AsyncGenerator<AnalyticsEvent> {
+    const eventAdapter = this.storeSelector.getEventAdapter();
+    const userAdapter = this.storeSelector.getUserAdapter();
+    const order = { sortBy: 'timestamp', sortOrder: 'asc' as const };
+    const ordering = eventOrdering(order);
+    let after: SortPosition | undefined;
+
+    for (;;) {
+      const page = await eventAdapter.query({
+        ...filter,
+        ...order,
+        limit: SCAN_PAGE_SIZE,
+        offset: 0,
+        after,
+      });
+
+      if (!resolveAliases) {
+        yield* page.events;
+      } else {
+        const canonical = await userAdapter.resolveIdentities(filter.tenantId, [
+          ...new Set(page.events.flatMap((event) => event.userId ?? [])),
+        ]);
+        for (const event of page.events) {
+          const userId = event.userId && canonical.get(event.userId);
+          yield userId ? { ...event, userId } : event;
+        }
+      }
+
+      const last = page.events[page.events.length - 1];
+      if (!page.hasMore || !last) {
+        return;
+      }
+      after = ordering.position(last);
+    }
+  }
+
+  /**
+   * Page through query() by first-seen time, each page starting after the
+   * last user of the previous one
+   */
+  private async *readAllUsers(
+    filter: UserQueryFilter
+  ): AsyncGenerator<UserRecord> {
+    const userAdapter = this.storeSelector.getUserAdapter();
+    const order = { sortBy: 'firstSeen', sortOrder: 'asc' as const };
+    const ordering = userOrdering(order);
+    let after: SortPosition | undefined;
+
+    for (;;) {
+      const page = await userAdapter.query({
+        ...filter,
+        ...order,
+        limit: SCAN_PAGE_SIZE,
+        offset: 0,
+        after,
+      });
+      yield* page.users;
+
+      const last = page.users[page.users.length - 1];
+      if (!page.hasMore || !last) {
+        return;
+      }
+      after = ordering.position(last);
+    }
+  }
+
+  // Oldest bucket first, then by group with the null group last
+  private sortBuckets(buckets: AggregationBucket[]): AggregationBucket[] {
+    return [...buckets].sort((a, b) => {
+      const timeDifference =
+        (a.time?.getTime() ?? 0) - (b.time?.getTime() ?? 0);
+      if (timeDifference !== 0) {
+        return timeDifference;
+      }
+      if (a.group === b.group) {
+        return 0;
+      }
+      if (a.group === null || a.group === undefined) {
+        return 1;
+      }
+      if (b.group === null || b.group === undefined) {
+        return -1;
+      }
+      return a.group < b.group ? -1 : 1;
+    });
+  }
+
   private buildEventFilter(
     tenantId: string,
     options: QueryOptions
@@ -116,6 +490,10 @@ export class QueryService {
       filter.userId = options.userId;
     }
 
+    if (options.groupId) {
+      filter.groupId = options.groupId;
+    }
+
     if (options.startDate) {
       filter.startTime = options.startDate;
     }
@@ -128,10 +506,18 @@ export class QueryService {
       filter.properties = options.properties;
     }
 
+    if (options.where) {
+      filter.where = options.where;
+    }
+
     // Set default limit if not specified
     filter.limit = options.limit || 100;
     filter.offset = options.offset || 0;
 
+    if (options.after) {
+      filter.after = options.after;
+    }
+
     if (options.sortBy) {
       filter.sortBy = options.sortBy;
       filter.sortOrder = options.sortOrder || 'asc';
@@ -164,10 +550,18 @@ export class QueryService {
       filter.properties = options.properties;
     }
 
+    if (options.where) {
+      filter.where = options.where;
+    }
+
     // Set default limit if not specified
     filter.limit = options.limit || 100;
     filter.offset = options.offset || 0;
 
+    if (options.after) {
+      filter.after = options.after;
+    }
+
     if (options.sortBy) {
       filter.sortBy = options.sortBy;
       filter.sortOrder = options.sortOrder || 'asc';
@@ -176,113 +570,32 @@ export class QueryService {
     return filter;
   }
 
-  private sortEvents(
-    events: AnalyticsEvent[],
-    sortBy: string,
-    sortOrder: 'asc' | 'desc'
-  ): AnalyticsEvent[] {
-    return events.sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
-
-      switch (sortBy) {
-        case 'timestamp':
-          aValue = a.timestamp;
-          bValue = b.timestamp;
-          break;
-        case 'eventName':
-          aValue = a.eventName;
-          bValue = b.eventName;
-          break;
-        case 'userId':
-          aValue = a.userId || '';
-          bValue = b.userId || '';
-          break;
-        default:
-          return 0;
-      }
-
-      if (aValue < bValue) {
-        return sortOrder === 'asc' ? -1 : 1;
-      }
-      if (aValue > bValue) {
-        return sortOrder === 'asc' ? 1 : -1;
-      }
-      return 0;
-    });
-  }
-
-  private sortUsers(
-    users: UserRecord[],
-    sortBy: string,
-    sortOrder: 'asc' | 'desc'
-  ): UserRecord[] {
-    return users.sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
-
-      switch (sortBy) {
-        case 'firstSeen':
-          aValue = a.firstSeen;
-          bValue = b.firstSeen;
-          break;
-        case 'lastSeen':
-          aValue = a.lastSeen;
-          bValue = b.lastSeen;
-          break;
-        case 'eventCount':
-          aValue = a.eventCount;
-          bValue = b.eventCount;
-          break;
-        case 'sessionCount':
-          aValue = a.sessionCount;
-          bValue = b.sessionCount;
-          break;
-        default:
-          return 0;
-      }
-
-      if (aValue < bValue) {
-        return sortOrder === 'asc' ? -1 : 1;
-      }
-      if (aValue > bValue) {
-        return sortOrder === 'asc' ? 1 : -1;
-      }
-      return 0;
-    });
-  }
-
-  private paginateResults<T>(
-    data: T[],
-    limit?: number,
-    offset?: number
-  ): {
-    data: T[];
-    hasMore: boolean;
-    pagination: PaginationInfo;
-  } {
-    const actualLimit = limit || 100;
-    const actualOffset = offset || 0;
-
-    const startIndex = actualOffset;
-    const endIndex = startIndex + actualLimit;
-
-    const paginatedData = data.slice(startIndex, endIndex);
-    const hasMore = endIndex < data.length;
-
-    const pagination: PaginationInfo = {
-      limit: actualLimit,
-      offset: actualOffset,
+  // Scope cursors to the sort the adapters apply (see buildEventFilter)
+  private cursorScope(
+    resource: CursorScope['resource'],
+    tenantId: string,
+    options: Pick<QueryOptions | UserQueryOptions, 'sortBy' | 'sortOrder'>
+  ): CursorScope {
+    return {
+      resource,
+      tenantId,
+      ...(options.sortBy && {
+        sortBy: options.sortBy,
+        sortOrder: options.sortOrder || 'asc',
+      }),
     };
+  }
 
-    if (hasMore) {
-      pagination.nextOffset = endIndex;
+  /**
+   * A page resumed from a cursor has no meaningful offset to continue from
+   */
+  private withCursorPagination<T extends { pagination: PaginationInfo }>(
+    result: T,
+    after: SortPosition | undefined
+  ): T {
+    if (after) {
+      delete result.pagination.nextOffset;
     }
-
-    return {
-      data: paginatedData,
-      hasMore,
-      pagination,
-    };
+    return result;
   }
 }
@@ -0,0 +1,192 @@
+import { AnalyticsEvent, UserRecord } from '../types/core.js';
+
+/**
+ * Text renderings of query results for the csv and table output formats.
+ * CSV follows RFC 4180 and spreads properties over one column per key;
+ * table is a fixed-width layout meant for reading in a terminal.
+ */
+
+export type TextFormat = 'csv' | 'table';
+
+export const TEXT_CONTENT_TYPES: Record<TextFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  table: 'text/plain; charset=utf-8',
+};
+
+// Widest a table cell may grow before it is truncated
+const MAX_TABLE_CELL_WIDTH = 40;
+
+interface Column<T> {
+  header: string;
+  value: (row: T) => unknown;
+  alignRight?: boolean;
+}
+
+const EVENT_COLUMNS: Column<AnalyticsEvent>[] = [
+  { header: 'eventId', value: (event) => event.eventId },
+  { header: 'tenantId', value: (event) => event.tenantId },
+  { header: 'userId', value: (event) => event.userId },
+  { header: 'eventName', value: (event) => event.eventName },
+  { header: 'timestamp', value: (event) => event.timestamp },
+  { header: 'receivedAt', value: (event) => event.receivedAt },
+  { header: 'sessionId', value: (event) => event.sessionId },
+  { header: 'deviceId', value: (event) => event.deviceId },
+];
+
+const USER_COLUMNS: Column<UserRecord>[] = [
+  { header: 'userId', value: (user) => user.userId },
+  { header: 'tenantId', value: (user) => user.tenantId },
+  { header: 'firstSeen', value: (user) => user.firstSeen },
+  { header: 'lastSeen', value: (user) => user.lastSeen },
+  {
+    header: 'sessionCount',
+    value: (user) => user.sessionCount,
+    alignRight: true,
+  },
+  { header: 'eventCount', value: (user) => user.eventCount, alignRight: true },
+];
+
+// Terminal tables drop IDs that are the same on every row or rarely useful
+const EVENT_TABLE_COLUMNS: Column<AnalyticsEvent>[] = [
+  { header: 'timestamp', value: (event) => event.timestamp },
+  { header: 'eventName', value: (event) => event.eventName },
+  { header: 'userId', value: (event) => event.userId },
+  { header: 'eventId', value: (event) => event.eventId },
+  { header: 'properties', value: (event) => event.properties },
+];
+
+const USER_TABLE_COLUMNS: Column<UserRecord>[] = [
+  ...USER_COLUMNS.filter((column) => column.header !== 'tenantId'),
+  { header: 'properties', value: (user) => user.properties },
+];
+
+export function eventsToCsv(events: AnalyticsEvent[]): string {
+  return toCsv(events, EVENT_COLUMNS, (event) => event.properties);
+}
+
+export function usersToCsv(users: UserRecord[]): string {
+  return toCsv(users, USER_COLUMNS, (user) => user.properties);
+}
+
+export function eventsToTable(events: AnalyticsEvent[]): string {
+  return toTable(events, EVENT_TABLE_COLUMNS);
+}
+
+export function usersToTable(users: UserRecord[]): string {
+  return toTable(users, USER_TABLE_COLUMNS);
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break. Text
+ * a spreadsheet would run as a formula is prefixed with ' so it stays text.
+ */
+export function escapeCsvField(value: string): string {
+  const text =
+    /^[=+\-@\t\r]/.test(value) && !Number.isFinite(Number(value))
+      ? `'${value}`
+      : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv<T>(
+  rows: T[],
+  columns: Column<T>[],
+  properties: (row: T) => Record<string, any>
+): string {
+  const flattened = rows.map((row) => flattenProperties(properties(row)));
+  const propertyColumns = [
+    ...new Set(flattened.flatMap((props) => Object.keys(props))),
+  ].sort();
+
+  const header = [...columns.map((column) => column.header), ...propertyColumns];
+
+  const lines = [header.map(escapeCsvField).join(',')];
+  rows.forEach((row, index) => {
+    const fields = [
+      ...columns.map((column) => formatCell(column.value(row))),
+      ...propertyColumns.map((key) => formatCell(flattened[index]![key])),
+    ];
+    lines.push(fields.map(escapeCsvField).join(','));
+  });
+
+  // RFC 4180 records end in CRLF
+  return lines.map((line) => line + '\r\n').join('');
+}
+
+function toTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = rows.map((row) =>
+    columns.map((column) => truncate(formatCell(column.value(row))))
+  );
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((row) => row[index]!.length))
+  );
+
+  const renderRow = (values: string[]) =>
+    values
+      .map((value, index) =>
+        columns[index]!.alignRight
+          ? value.padStart(widths[index]!)
+          : value.padEnd(widths[index]!)
+      )
+      .join(' | ')
+      .trimEnd();
+
+  const lines = [
+    renderRow(columns.map((column) => column.header)),
+    widths.map((width) => '-'.repeat(width)).join('-+-'),
+    ...cells.map(renderRow),
+  ];
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Flatten nested objects into dotted column names, e.g. { utm: { source:
+ * 'x' } } becomes { 'properties.utm.source': 'x' }. Arrays are kept whole.
+ * Keys containing ".", "[" or '"' are written as ["key"], so { 'a.b': 1 }
+ * and { a: { b: 1 } } never share a column.
+ */
+function flattenProperties(
+  properties: Record<string, any>,
+  prefix: string = 'properties',
+  result: Record<string, unknown> = {}
+): Record<string, unknown> {
+  for (const [key, value] of Object.entries(properties ?? {})) {
+    const path = /[.["]/.test(key)
+      ? `${prefix}[${JSON.stringify(key)}]`
+      : `${prefix}.${key}`;
+    if (
+      value !== null &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      !(value instanceof Date) &&
+      Object.keys(value).length > 0
+    ) {
+      flattenProperties(value, path, result);
+    } else {
+      result[path] = value;
+    }
+  }
+  return result;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function truncate(value: string): string {
+  // Line breaks would split a row across several terminal lines
+  const singleLine = value.replace(/[\r\n\t]+/g, ' ');
+  return singleLine.length > MAX_TABLE_CELL_WIDTH
+    ? singleLine.slice(0, MAX_TABLE_CELL_WIDTH - 1) + '…'
+    : singleLine;
+}
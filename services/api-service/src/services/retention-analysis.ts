@@ -0,0 +1,108 @@
+import {
+  AnalyticsEvent,
+  RetentionCohort,
+  RetentionQuery,
+} from '../types/core.js';
+import {
+  bucketStart,
+  bucketsBetween,
+  groupLabel,
+} from '../adapters/event-aggregation.js';
+import { matchesEvent } from './event-matcher.js';
+
+/**
+ * Retention matrices: users are placed in the cohort of the period they
+ * entered in, then counted in every later period in which they performed the
+ * return event. Period 0 is the cohort's own period and only counts returns
+ * at or after the user entered. Rows stop at the period containing the end of
+ * the range, so later cohorts have fewer periods.
+ */
+
+export interface RetentionMember {
+  time: number; // When the user entered the cohort, in ms since epoch
+  traits?: Record<string, any>; // Needed only with breakdownBy
+}
+
+interface CohortAccumulator {
+  cohortStart: number;
+  group?: string | null;
+  size: number;
+  returned: Array<Set<string>>;
+}
+
+export async function computeRetention(
+  members: Map<string, RetentionMember>,
+  returnEvents: AsyncIterable<AnalyticsEvent> | Iterable<AnalyticsEvent>,
+  query: RetentionQuery
+): Promise<RetentionCohort[]> {
+  const timezone = query.timezone ?? 'UTC';
+  const endMs = query.endTime.getTime();
+  const cohorts = new Map<string, CohortAccumulator>();
+  const cohortOfUser = new Map<string, CohortAccumulator>();
+
+  for (const [userId, member] of members) {
+    const cohortStart = bucketStart(member.time, query.interval, timezone);
+    const group = query.breakdownBy
+      ? groupLabel(member.traits?.[query.breakdownBy])
+      : undefined;
+
+    const key = `${cohortStart}\u0000${group === null ? '\u0001' : (group ?? '')}`;
+    let cohort = cohorts.get(key);
+    if (!cohort) {
+      const periods =
+        bucketsBetween(cohortStart, endMs, query.interval, timezone) + 1;
+      cohort = {
+        cohortStart,
+        ...(group !== undefined && { group }),
+        size: 0,
+        returned: Array.from({ length: periods }, () => new Set<string>()),
+      };
+      cohorts.set(key, cohort);
+    }
+    cohort.size++;
+    cohortOfUser.set(userId, cohort);
+  }
+
+  for await (const event of returnEvents) {
+    const member = event.userId ? members.get(event.userId) : undefined;
+    const time = event.timestamp.getTime();
+    if (
+      !member ||
+      time < member.time ||
+      !matchesEvent(event, query.returnEvent)
+    ) {
+      continue;
+    }
+
+    const cohort = cohortOfUser.get(event.userId!)!;
+    const period = bucketsBetween(
+      cohort.cohortStart,
+      time,
+      query.interval,
+      timezone
+    );
+    cohort.returned[period]?.add(event.userId!);
+  }
+
+  return [...cohorts.values()]
+    .sort(
+      (a, b) => a.cohortStart - b.cohortStart || compareGroups(a.group, b.group)
+    )
+    .map((cohort) => ({
+      cohortStart: new Date(cohort.cohortStart),
+      ...(cohort.group !== undefined && { group: cohort.group }),
+      size: cohort.size,
+      retained: cohort.returned.map((users) => users.size),
+    }));
+}
+
+// Null groups sort last, like aggregation buckets
+function compareGroups(
+  a: string | null | undefined,
+  b: string | null | undefined
+): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+}
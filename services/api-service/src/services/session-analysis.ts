@@ -0,0 +1,125 @@
+import {
+  AnalyticsEvent,
+  SessionPeriodStats,
+  SessionQuery,
+  SessionStats,
+} from '../types/core.js';
+import { bucketStart } from '../adapters/event-aggregation.js';
+import { median, ratio } from './statistics.js';
+
+/**
+ * Session metrics computed from a tenant's events in time order. Events are
+ * grouped by the sessionId they were tracked with; events stored without
+ * one, such as those tracked before sessionization, are split per user
+ * wherever the gap between them exceeds the timeout. Events with neither a
+ * user nor a sessionId are ignored. Only events inside the range count, so
+ * sessions crossing its edges are cut short.
+ */
+
+interface SessionAccumulator {
+  userId?: string;
+  start: number;
+  end: number;
+  events: number;
+}
+
+// A user's latest session rebuilt from events stored without a sessionId
+interface RebuiltSession {
+  key: string;
+  lastActivityAt: number;
+}
+
+export async function computeSessions(
+  events: AsyncIterable<AnalyticsEvent> | Iterable<AnalyticsEvent>,
+  query: SessionQuery
+): Promise<{ totals: SessionStats; periods?: SessionPeriodStats[] }> {
+  const sessions = new Map<string, SessionAccumulator>();
+  const rebuilt = new Map<string, RebuiltSession>();
+  let rebuiltCount = 0;
+
+  for await (const event of events) {
+    if (!event.userId && !event.sessionId) {
+      continue;
+    }
+    const time = event.timestamp.getTime();
+    const owner = event.userId ?? '';
+
+    let key: string;
+    if (event.sessionId) {
+      // Client-supplied ids need only be unique per user
+      key = `${owner}\u0000${event.sessionId}`;
+    } else {
+      const latest = rebuilt.get(owner);
+      if (latest && time - latest.lastActivityAt <= query.timeoutMs) {
+        key = latest.key;
+        latest.lastActivityAt = time;
+      } else {
+        key = `${owner}\u0001${rebuiltCount++}`;
+        rebuilt.set(owner, { key, lastActivityAt: time });
+      }
+    }
+
+    const session = sessions.get(key);
+    if (session) {
+      session.start = Math.min(session.start, time);
+      session.end = Math.max(session.end, time);
+      session.events++;
+    } else {
+      sessions.set(key, {
+        ...(event.userId && { userId: event.userId }),
+        start: time,
+        end: time,
+        events: 1,
+      });
+    }
+  }
+
+  const all = [...sessions.values()];
+  if (!query.interval) {
+    return { totals: summarize(all) };
+  }
+
+  const byPeriod = new Map<number, SessionAccumulator[]>();
+  for (const session of all) {
+    const periodStart = bucketStart(
+      session.start,
+      query.interval,
+      query.timezone ?? 'UTC'
+    );
+    let period = byPeriod.get(periodStart);
+    if (!period) {
+      period = [];
+      byPeriod.set(periodStart, period);
+    }
+    period.push(session);
+  }
+
+  return {
+    totals: summarize(all),
+    periods: [...byPeriod.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([periodStart, period]) => ({
+        periodStart: new Date(periodStart),
+        ...summarize(period),
+      })),
+  };
+}
+
+function summarize(sessions: SessionAccumulator[]): SessionStats {
+  const durations = sessions.map((session) => session.end - session.start);
+  const bounces = sessions.filter((session) => session.events === 1).length;
+  const events = sessions.reduce((sum, session) => sum + session.events, 0);
+
+  return {
+    sessions: sessions.length,
+    users: new Set(sessions.flatMap((session) => session.userId ?? [])).size,
+    bounces,
+    bounceRate: ratio(bounces, sessions.length),
+    averageDurationMs: ratio(
+      durations.reduce((sum, duration) => sum + duration, 0),
+      sessions.length
+    ),
+    medianDurationMs: median(durations),
+    averageEventsPerSession: ratio(events, sessions.length),
+  };
+}
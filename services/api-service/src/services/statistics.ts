@@ -0,0 +1,21 @@
+/**
+ * count / total, or 0 when there is nothing to divide by
+ */
+export function ratio(count: number, total: number): number {
+  return total === 0 ? 0 : count / total;
+}
+
+/**
+ * The middle value, averaging the two middle values of an even count, or
+ * null when there are none
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
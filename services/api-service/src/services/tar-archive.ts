@@ -0,0 +1,89 @@
+/**
+ * Minimal POSIX ustar writer for the small, fully buffered archives the API
+ * hands out as downloads. Every entry is a regular file at the archive root.
+ */
+
+export interface TarEntry {
+  name: string;
+  content: string | Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+// ustar stores names of up to 100 bytes without the prefix field
+const MAX_NAME_LENGTH = 100;
+
+export function createTarArchive(
+  entries: TarEntry[],
+  modifiedAt: Date = new Date()
+): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const content =
+      typeof entry.content === 'string'
+        ? Buffer.from(entry.content, 'utf8')
+        : entry.content;
+
+    blocks.push(createHeader(entry.name, content.length, modifiedAt));
+    blocks.push(content);
+
+    const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  // Two empty blocks mark the end of the archive
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return Buffer.concat(blocks);
+}
+
+function createHeader(name: string, size: number, modifiedAt: Date): Buffer {
+  if (Buffer.byteLength(name, 'utf8') > MAX_NAME_LENGTH) {
+    throw new Error(`Tar entry name is too long: ${name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(name, 0, MAX_NAME_LENGTH, 'utf8');
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(modifiedAt.getTime() / 1000), 136, 12);
+  header.write('0', 156, 1, 'ascii'); // regular file
+  header.write('ustar\u000000', 257, 8, 'ascii');
+
+  // The checksum is computed with its own field read as spaces
+  header.fill(' ', 148, 156);
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(
+    checksum.toString(8).padStart(6, '0') + '\u0000 ',
+    148,
+    8,
+    'ascii'
+  );
+
+  return header;
+}
+
+/**
+ * Zero-padded octal terminated by NUL, filling the field
+ */
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number
+): void {
+  header.write(
+    value.toString(8).padStart(length - 1, '0') + '\u0000',
+    offset,
+    length,
+    'ascii'
+  );
+}
@@ -0,0 +1,117 @@
+import { StoreSelector } from '../interfaces/storage.js';
+import { createTarArchive } from './tar-archive.js';
+import { escapeCsvField, usersToCsv } from './result-formatter.js';
+
+export type UserExportFormat = 'json' | 'csv';
+
+export interface UserExport {
+  contentType: string;
+  filename: string;
+  archive: Buffer;
+}
+
+/**
+ * Data subject access export: everything stored about one user, bundled as
+ * a tar archive of manifest.json plus user, events and aliases files in the
+ * requested format. Events use the same layout as the bulk event export.
+ *
+ * The archive is assembled in memory, since tar headers need each file's
+ * size up front; a single user's history is small next to a tenant export.
+ */
+export class UserExportService {
+  private storeSelector: StoreSelector;
+
+  constructor(storeSelector: StoreSelector) {
+    this.storeSelector = storeSelector;
+  }
+
+  /**
+   * An alias exports the user it resolves to. Users who were never
+   * identified still get an archive, with a null profile, as their events
+   * may have been tracked anyway.
+   */
+  async exportUser(
+    tenantId: string,
+    requestedId: string,
+    format: UserExportFormat
+  ): Promise<UserExport> {
+    const exportedAt = new Date();
+    const userAdapter = this.storeSelector.getUserAdapter();
+
+    const userId =
+      (await userAdapter.resolveIdentities(tenantId, [requestedId])).get(
+        requestedId
+      ) ?? requestedId;
+    const user = await userAdapter.get(tenantId, userId);
+    const aliases = await userAdapter.getAliases(tenantId, userId);
+    const events = await this.readEvents(
+      tenantId,
+      [userId, ...aliases],
+      format
+    );
+
+    const files = [
+      {
+        name: `user.${format}`,
+        content:
+          format === 'json'
+            ? JSON.stringify(user, null, 2) + '\n'
+            : usersToCsv(user ? [user] : []),
+      },
+      { name: `events.${format}`, content: events },
+      {
+        name: `aliases.${format}`,
+        content:
+          format === 'json'
+            ? JSON.stringify(aliases, null, 2) + '\n'
+            : aliasesToCsv(aliases),
+      },
+    ];
+
+    const manifest = {
+      tenantId,
+      userId,
+      exportedAt,
+      format,
+      profileFound: user !== null,
+      files: files.map((file) => file.name),
+    };
+
+    return {
+      contentType: 'application/x-tar',
+      filename: `user-export-${tenantId}.tar`,
+      archive: createTarArchive(
+        [
+          {
+            name: 'manifest.json',
+            content: JSON.stringify(manifest, null, 2) + '\n',
+          },
+          ...files,
+        ],
+        exportedAt
+      ),
+    };
+  }
+
+  private async readEvents(
+    tenantId: string,
+    userIds: string[],
+    format: UserExportFormat
+  ): Promise<string> {
+    const result = await this.storeSelector
+      .getEventAdapter()
+      .export({ tenantId, userIds }, format);
+
+    let content = '';
+    for await (const chunk of result.chunks) {
+      content += chunk;
+    }
+    return content;
+  }
+}
+
+function aliasesToCsv(aliases: string[]): string {
+  return ['alias', ...aliases.map(escapeCsvField)]
+    .map((line) => line + '\r\n')
+    .join('');
+}
@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+// Zod schema for aggregate request (matching the one in request-router.ts)
+export const AggregateRequestSchema = z.object({
+  metric: z
+    .enum(['count', 'uniqueUsers', 'sum', 'avg', 'min', 'max'])
+    .describe('Value computed for each bucket'),
+  property: z
+    .string()
+    .optional()
+    .describe(
+      'Numeric event property for sum, avg, min and max; non-numeric values are ignored'
+    ),
+  groupBy: z
+    .string()
+    .optional()
+    .describe(
+      '"eventName", "properties.<key>" or "groups.<groupType>" to split buckets by group'
+    ),
+  interval: z
+    .enum(['minute', 'hour', 'day', 'week', 'month'])
+    .optional()
+    .describe('Time bucket size; omit for a single total'),
+  timezone: z
+    .string()
+    .optional()
+    .describe('IANA timezone used to align buckets (default: UTC)'),
+  filter: z
+    .object({
+      eventTypes: z
+        .array(z.string())
+        .optional()
+        .describe('Only include these event types'),
+      userId: z
+        .string()
+        .optional()
+        .describe('Only include events from this user'),
+      groupId: z
+        .string()
+        .optional()
+        .describe('Only include events from members of this group'),
+      startDate: z
+        .string()
+        .datetime()
+        .optional()
+        .describe('Include events at or after this time (ISO 8601 format)'),
+      endDate: z
+        .string()
+        .datetime()
+        .optional()
+        .describe('Include events at or before this time (ISO 8601 format)'),
+      properties: z
+        .record(z.any())
+        .optional()
+        .describe('Only include events whose properties equal these values'),
+    })
+    .optional()
+    .describe('Event predicates, as in the event query endpoint'),
+});
+
+// Zod schema for a single result bucket
+export const AggregationBucketSchema = z.object({
+  time: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Bucket start; present when an interval is requested'),
+  group: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('Group value; null for events without the property'),
+  value: z
+    .number()
+    .nullable()
+    .describe('Metric value; null for avg, min and max without numeric values'),
+});
+
+// Zod schema for aggregate response
+export const AggregateResponseSchema = z.object({
+  success: z.boolean().describe('Whether the aggregation succeeded'),
+  data: z.object({
+    metric: z.string().describe('Requested metric'),
+    property: z.string().optional().describe('Requested property'),
+    groupBy: z.string().optional().describe('Requested grouping'),
+    interval: z.string().optional().describe('Requested interval'),
+    timezone: z.string().describe('Timezone used for bucketing'),
+    buckets: z
+      .array(AggregationBucketSchema)
+      .describe('Buckets ordered by time, then group'),
+    executionTime: z.number().describe('Aggregation time in milliseconds'),
+  }),
+  timestamp: z.string().datetime().describe('Server timestamp'),
+  requestId: z.string().describe('Unique identifier for this API request'),
+});
+
+export type AggregateRequestBody = z.infer<typeof AggregateRequestSchema>;
+export type AggregateResponse = z.infer<typeof AggregateResponseSchema>;
+
+/**
+ * Create OpenAPI documentation for the events aggregate endpoint
+ */
+export function createEventAggregateEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const aggregateRequestSchema = converter.convertSchema(
+    AggregateRequestSchema
+  ).schema;
+  const aggregateResponseSchema = converter.convertSchema(
+    AggregateResponseSchema
+  ).schema;
+
+  const aggregateRequestExample = {
+    metric: 'sum',
+    property: 'amount',
+    groupBy: 'properties.plan',
+    interval: 'day',
+    timezone: 'America/New_York',
+    filter: {
+      eventTypes: ['purchase'],
+      startDate: '2024-01-01T00:00:00.000Z',
+      endDate: '2024-01-31T23:59:59.999Z',
+    },
+  };
+
+  const aggregateResponseExample = {
+    success: true,
+    data: {
+      metric: 'sum',
+      property: 'amount',
+      groupBy: 'properties.plan',
+      interval: 'day',
+      timezone: 'America/New_York',
+      buckets: [
+        { time: '2024-01-15T05:00:00.000Z', group: 'pro', value: 1250 },
+        { time: '2024-01-15T05:00:00.000Z', group: 'starter', value: 180 },
+        { time: '2024-01-16T05:00:00.000Z', group: 'pro', value: 990 },
+      ],
+      executionTime: 12,
+    },
+    timestamp: '2024-02-01T09:00:00.000Z',
+    requestId: 'req_abcdef123456',
+  };
+
+  return {
+    path: '/v1/events/aggregate',
+    method: 'POST',
+    summary: 'Aggregate Events',
+    description: `
+Compute a metric over the calling tenant's events, optionally split into time buckets and groups.
+
+## Metrics
+
+- **count**: Number of events
+- **uniqueUsers**: Number of distinct user IDs
+- **sum**, **avg**, **min**, **max**: Computed over a numeric event \`property\`; events where it is missing or not a number are skipped
+
+## Buckets
+
+With an \`interval\`, each bucket starts at the beginning of the minute, hour, day, week (Monday) or month in \`timezone\`. Only buckets containing events are returned. Without \`interval\` or \`groupBy\` the result is a single bucket.
+
+## Grouping
+
+\`groupBy\` is \`eventName\`, \`properties.<key>\` or \`groups.<groupType>\`. String property values are used as-is and other values are JSON-encoded; events without the property form a \`null\` group.
+
+\`groups.<groupType>\` groups events by the groups of that type their user belongs to, as recorded by \`POST /v1/group\`. An event whose user belongs to several such groups counts towards each of them; events from users in none form a \`null\` group.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+    ],
+    requestBody: {
+      description: 'Metric, grouping and event predicates',
+      required: true,
+      content: {
+        'application/json': {
+          schema: aggregateRequestSchema,
+          example: aggregateRequestExample,
+        },
+      },
+    },
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Aggregation result',
+        content: {
+          'application/json': {
+            schema: aggregateResponseSchema,
+            example: aggregateResponseExample,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid metric, grouping, timezone or date range',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                error: { type: 'string' },
+                message: { type: 'string' },
+                statusCode: { type: 'number' },
+                timestamp: { type: 'string', format: 'date-time' },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { OpenAPIV3 } from 'openapi-types';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+// Zod schema for alias request (matching the one in request-router.ts)
+export const AliasRequestSchema = z.object({
+  userId: z
+    .string()
+    .min(1)
+    .describe('Known user the previous identifier belongs to'),
+  previousId: z
+    .string()
+    .min(1)
+    .describe(
+      'Identifier to link to the user, usually an anonymousId; must differ from userId'
+    ),
+});
+
+// Zod schema for alias response
+export const AliasResponseSchema = z.object({
+  success: z.boolean().describe('Whether the alias was stored'),
+  userId: z
+    .string()
+    .describe('Canonical user the previous identifier now resolves to'),
+  previousId: z.string().describe('The identifier that was linked'),
+  linked: z
+    .boolean()
+    .describe('Whether a new link was added (false when it already existed)'),
+  profileMerged: z
+    .boolean()
+    .describe(
+      'Whether a profile stored under previousId was merged into the user'
+    ),
+  timestamp: z
+    .string()
+    .datetime()
+    .describe('Server timestamp when the alias was processed'),
+  requestId: z
+    .string()
+    .uuid()
+    .describe('Unique identifier for this API request'),
+});
+
+export type AliasRequest = z.infer<typeof AliasRequestSchema>;
+export type AliasResponse = z.infer<typeof AliasResponseSchema>;
+
+const errorResponseSchema: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    statusCode: { type: 'number' },
+    timestamp: { type: 'string', format: 'date-time' },
+    requestId: { type: 'string', format: 'uuid' },
+  },
+  required: ['error', 'message', 'statusCode', 'timestamp'],
+};
+
+/**
+ * Create OpenAPI documentation for the alias endpoint
+ */
+export function createAliasEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const aliasRequestSchema = converter.convertSchema(AliasRequestSchema).schema;
+  const aliasResponseSchema =
+    converter.convertSchema(AliasResponseSchema).schema;
+
+  const aliasRequestExample = {
+    userId: 'user_12345',
+    previousId: 'anon_8f2c41d7',
+  };
+
+  const aliasResponseExample = {
+    success: true,
+    userId: 'user_12345',
+    previousId: 'anon_8f2c41d7',
+    linked: true,
+    profileMerged: true,
+    timestamp: new Date().toISOString(),
+    requestId: 'req_alias_123',
+  };
+
+  return {
+    path: '/v1/alias',
+    method: 'POST',
+    summary: 'Alias User',
+    description: `
+Link a previous identifier, such as the \`anonymousId\` a visitor was tracked under before signing up, to a known user.
+
+Each tenant keeps an identity graph mapping aliases to the user they belong to. Once linked:
+- **Events** tracked under the alias are returned by user timelines and \`userId\` event queries and aggregations for the user, and count as the user's in funnels and retention. \`uniqueUsers\` aggregations count ids as they were stored
+- **Profiles** stored under the alias are merged into the user's: the user's traits win, \`firstSeen\` and \`lastSeen\` span both, and session and event counts are summed
+- **Later calls** using the alias as a \`userId\` update and return the user it resolves to
+
+If \`userId\` is itself an alias, \`previousId\` is linked to the user it resolves to. Aliasing the same pair again is a no-op. An identifier already linked to a different user is never re-assigned and returns 409.
+
+Sending \`anonymousId\` together with \`userId\` on \`POST /v1/identify\` links the two in the same way.
+    `.trim(),
+    tags: ['Users'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+    ],
+    requestBody: {
+      description: 'Identifiers to link',
+      required: true,
+      content: {
+        'application/json': {
+          schema: aliasRequestSchema,
+          example: aliasRequestExample,
+        },
+      },
+    },
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Alias stored, or already present',
+        content: {
+          'application/json': {
+            schema: aliasResponseSchema,
+            example: aliasResponseExample,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid request data',
+        content: {
+          'application/json': {
+            schema: errorResponseSchema,
+            example: {
+              error: 'Invalid alias request',
+              message: 'Validation failed: previousId: must differ from userId',
+              statusCode: 400,
+              timestamp: new Date().toISOString(),
+              requestId: 'req_alias_invalid',
+            },
+          },
+        },
+      },
+      {
+        statusCode: 401,
+        description: 'Authentication required',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 403,
+        description: 'Insufficient permissions or invalid tenant',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 409,
+        description: 'previousId is already linked to a different user',
+        content: {
+          'application/json': {
+            schema: errorResponseSchema,
+            example: {
+              error: 'Alias conflict',
+              message: 'Alias anon_8f2c41d7 already belongs to user user_67890',
+              statusCode: 409,
+              timestamp: new Date().toISOString(),
+              requestId: 'req_alias_conflict',
+            },
+          },
+        },
+      },
+      {
+        statusCode: 429,
+        description: 'Rate limit exceeded',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 500,
+        description: 'Internal server error',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
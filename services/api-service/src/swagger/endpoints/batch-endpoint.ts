@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+import { TrackRequestSchema } from './track-endpoint.js';
+import { IdentifyRequestSchema } from './identify-endpoint.js';
+import { AliasRequestSchema } from './alias-endpoint.js';
+import { GroupRequestSchema } from './group-endpoint.js';
+
+// Zod schema for batch request (matching the one in request-router.ts)
+export const BatchRequestSchema = z.object({
+  batch: z
+    .array(
+      z.union([
+        TrackRequestSchema.extend({
+          type: z.literal('track').describe('Message type'),
+        }),
+        IdentifyRequestSchema.extend({
+          type: z.literal('identify').describe('Message type'),
+        }),
+        AliasRequestSchema.extend({
+          type: z.literal('alias').describe('Message type'),
+        }),
+        GroupRequestSchema.extend({
+          type: z.literal('group').describe('Message type'),
+        }),
+      ])
+    )
+    .min(1)
+    .max(500)
+    .describe(
+      'Track, identify, alias and group messages to process (1-500 items)'
+    ),
+});
+
+// Zod schema for batch response
+export const BatchResponseSchema = z.object({
+  success: z.boolean().describe('Whether every message in the batch succeeded'),
+  processed: z.number().describe('Number of messages processed successfully'),
+  failed: z.number().describe('Number of messages that failed'),
+  results: z
+    .array(
+      z.object({
+        index: z
+          .number()
+          .describe('Position of the message in the submitted batch'),
+        type: z.string().describe('Message type as submitted'),
+        success: z.boolean().describe('Whether this message was processed'),
+        eventId: z
+          .string()
+          .optional()
+          .describe('Event identifier for track messages'),
+        userId: z
+          .string()
+          .optional()
+          .describe('User identifier for identify, alias and group messages'),
+        groupId: z
+          .string()
+          .optional()
+          .describe('Group identifier for group messages'),
+        duplicate: z
+          .boolean()
+          .optional()
+          .describe('True when a track messageId was already processed'),
+        error: z.string().optional().describe('Reason the message failed'),
+      })
+    )
+    .describe('Per-message results in submission order'),
+  timestamp: z
+    .string()
+    .datetime()
+    .describe('Server timestamp when the batch was processed'),
+  requestId: z
+    .string()
+    .uuid()
+    .describe('Unique identifier for this API request'),
+});
+
+export type BatchRequest = z.infer<typeof BatchRequestSchema>;
+export type BatchResponse = z.infer<typeof BatchResponseSchema>;
+
+/**
+ * Create OpenAPI documentation for the batch endpoint
+ */
+export function createBatchEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const batchRequestSchema = converter.convertSchema(BatchRequestSchema).schema;
+  const batchResponseSchema =
+    converter.convertSchema(BatchResponseSchema).schema;
+
+  // Create realistic examples
+  const batchRequestExample = {
+    batch: [
+      {
+        type: 'identify',
+        userId: 'user_12345',
+        traits: { email: 'john.doe@example.com', plan: 'premium' },
+      },
+      {
+        type: 'track',
+        event: 'page_view',
+        userId: 'user_12345',
+        properties: { page: '/dashboard' },
+        timestamp: new Date().toISOString(),
+      },
+      {
+        type: 'track',
+        properties: { button_id: 'signup-btn' },
+      },
+    ],
+  };
+
+  const batchResponseExample = {
+    success: false,
+    processed: 2,
+    failed: 1,
+    results: [
+      { index: 0, type: 'identify', success: true, userId: 'user_12345' },
+      {
+        index: 1,
+        type: 'track',
+        success: true,
+        eventId: 'evt_1234567890abcdef',
+      },
+      {
+        index: 2,
+        type: 'track',
+        success: false,
+        error: 'Validation failed: event: Required',
+      },
+    ],
+    timestamp: new Date().toISOString(),
+    requestId: 'req_abcdef123456',
+  };
+
+  return {
+    path: '/v1/batch',
+    method: 'POST',
+    summary: 'Batch Track and Identify',
+    description: `
+Submit multiple track, identify, alias and group messages in a single request.
+
+SDKs queue events locally and flush them together; this endpoint lets a flush cost one HTTP round trip instead of one per message.
+
+## Message Format
+
+Each item in \`batch\` carries a \`type\` of \`track\`, \`identify\`, \`alias\` or \`group\` plus the same fields accepted by \`POST /v1/track\`, \`POST /v1/identify\`, \`POST /v1/alias\` and \`POST /v1/group\`. Identify, alias and group messages are applied in submission order, after the batch's events are stored.
+
+## Partial Failures
+
+Every message is validated on its own. A message that fails validation or storage is reported in \`results\` without affecting the others, so the response status is 200 whenever the batch envelope itself is valid. Check \`success\` and \`failed\` to detect partial failures.
+
+## Limits
+
+- 1 to 500 messages per batch
+- A batch counts as a single request for rate limiting
+    `.trim(),
+    tags: ['Events'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+    ],
+    requestBody: {
+      description: 'Messages to process',
+      required: true,
+      content: {
+        'application/json': {
+          schema: batchRequestSchema,
+          example: batchRequestExample,
+        },
+      },
+    },
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Batch processed; see per-message results',
+        content: {
+          'application/json': {
+            schema: batchResponseSchema,
+            example: batchResponseExample,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid batch envelope',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                error: { type: 'string' },
+                message: { type: 'string' },
+                statusCode: { type: 'number' },
+                timestamp: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+        },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
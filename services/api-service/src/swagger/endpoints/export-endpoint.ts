@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+// Zod schema for export query parameters (matching export-handler.ts)
+export const EventExportParamsSchema = z.object({
+  format: z
+    .enum(['json', 'ndjson', 'csv'])
+    .optional()
+    .describe('Output format (default: json)'),
+  eventTypes: z
+    .string()
+    .optional()
+    .describe('Comma-separated list of event types to export'),
+  eventType: z
+    .string()
+    .optional()
+    .describe('Single event type to export (alternative to eventTypes)'),
+  startDate: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Export events at or after this time (ISO 8601 format)'),
+  endDate: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Export events at or before this time (ISO 8601 format)'),
+});
+
+// Zod schema for a single exported event
+export const ExportedEventSchema = z.object({
+  eventId: z.string().describe('Unique event identifier'),
+  tenantId: z.string().describe('Tenant identifier'),
+  eventName: z.string().describe('Event type/name'),
+  userId: z.string().optional().describe('User who triggered the event'),
+  properties: z.record(z.any()).describe('Event properties and metadata'),
+  timestamp: z.string().datetime().describe('When the event occurred'),
+  receivedAt: z
+    .string()
+    .datetime()
+    .describe('When the event was received by the server'),
+  sessionId: z.string().optional().describe('Session identifier'),
+  deviceId: z.string().optional().describe('Device identifier'),
+});
+
+export type EventExportParams = z.infer<typeof EventExportParamsSchema>;
+export type ExportedEvent = z.infer<typeof ExportedEventSchema>;
+
+/**
+ * Create OpenAPI documentation for the events export endpoint
+ */
+export function createEventExportEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const eventSchema = converter.convertSchema(ExportedEventSchema).schema;
+
+  const exampleEvent = {
+    eventId: 'evt_1234567890abcdef',
+    tenantId: 'tenant_abc123',
+    eventName: 'page_view',
+    userId: 'user_12345',
+    properties: { page: '/dashboard' },
+    timestamp: '2024-01-15T10:30:00.000Z',
+    receivedAt: '2024-01-15T10:30:00.123Z',
+  };
+
+  return {
+    path: '/v1/events/export',
+    method: 'GET',
+    summary: 'Export Events',
+    description: `
+Download every event for the calling tenant, optionally limited to a date range and set of event types.
+
+Unlike \`GET /v1/events/query\`, this endpoint is not paginated. The response is streamed in chunks as events are read from storage, so large exports start immediately and do not need to fit in server memory.
+
+## Formats
+
+- **json**: A single JSON array of events (default)
+- **ndjson**: One JSON event per line, suited to line-by-line processing
+- **csv**: A header row followed by one row per event; \`properties\` is a JSON-encoded column
+
+## Ordering
+
+Events are returned in ascending timestamp order.
+
+## Errors
+
+Invalid parameters are rejected with a 400 before streaming starts. If storage fails after the first chunk has been sent, the connection is closed early; clients should treat a truncated body as a failed export.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+      {
+        name: 'format',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', enum: ['json', 'ndjson', 'csv'] },
+        description: 'Output format',
+        example: 'ndjson',
+      },
+      {
+        name: 'eventType',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description: 'Single event type to export',
+        example: 'page_view',
+      },
+      {
+        name: 'eventTypes',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description: 'Comma-separated list of event types',
+        example: 'page_view,purchase',
+      },
+      {
+        name: 'startDate',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', format: 'date-time' },
+        description: 'Start of the export range (ISO 8601, inclusive)',
+        example: '2024-01-01T00:00:00.000Z',
+      },
+      {
+        name: 'endDate',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', format: 'date-time' },
+        description: 'End of the export range (ISO 8601, inclusive)',
+        example: '2024-01-31T23:59:59.999Z',
+      },
+    ],
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Events streamed in the requested format',
+        content: {
+          'application/json': {
+            schema: { type: 'array', items: eventSchema },
+            example: [exampleEvent],
+          },
+          'application/x-ndjson': {
+            schema: { type: 'string' },
+            example: JSON.stringify(exampleEvent) + '\n',
+          },
+          'text/csv': {
+            schema: { type: 'string' },
+            example:
+              'eventId,tenantId,userId,eventName,timestamp,receivedAt,sessionId,deviceId,properties\n' +
+              'evt_1234567890abcdef,tenant_abc123,user_12345,page_view,2024-01-15T10:30:00.000Z,2024-01-15T10:30:00.123Z,,,"{""page"":""/dashboard""}"\n',
+          },
+        },
+        headers: {
+          'Content-Disposition': {
+            description:
+              'Suggested file name, e.g. attachment; filename="events-tenant_abc123.csv"',
+            schema: { type: 'string' },
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid query parameters',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                error: { type: 'string' },
+                message: { type: 'string' },
+                statusCode: { type: 'number' },
+                timestamp: { type: 'string', format: 'date-time' },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+// Zod schema for funnel request (matching the one in request-router.ts)
+export const FunnelRequestSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        event: z.string().min(1).describe('Event name for this step'),
+        properties: z
+          .record(z.any())
+          .optional()
+          .describe(
+            'Property values the event must have to count for this step'
+          ),
+      })
+    )
+    .min(2)
+    .max(20)
+    .describe('Ordered funnel steps'),
+  conversionWindowSeconds: z
+    .number()
+    .int()
+    .positive()
+    .max(7776000)
+    .optional()
+    .describe(
+      'Time allowed from step one to each later step (default: 604800, 7 days)'
+    ),
+  startDate: z
+    .string()
+    .datetime()
+    .describe('Only consider events at or after this time (ISO 8601 format)'),
+  endDate: z
+    .string()
+    .datetime()
+    .describe('Only consider events at or before this time (ISO 8601 format)'),
+});
+
+// Zod schema for a single step result
+export const FunnelStepResultSchema = z.object({
+  event: z.string().describe('Event name for this step'),
+  count: z.number().describe('Users who reached this step'),
+  conversionRate: z
+    .number()
+    .describe('Fraction of step-one users who reached this step'),
+  stepConversionRate: z
+    .number()
+    .describe('Fraction of previous-step users who reached this step'),
+  medianSecondsToConvert: z
+    .number()
+    .nullable()
+    .describe(
+      'Median seconds from the previous step; null for step one or when nobody converted'
+    ),
+});
+
+// Zod schema for funnel response
+export const FunnelResponseSchema = z.object({
+  success: z.boolean().describe('Whether the funnel was computed'),
+  data: z.object({
+    steps: z
+      .array(FunnelStepResultSchema)
+      .describe('One result per requested step, in order'),
+    conversionWindowSeconds: z.number().describe('Conversion window applied'),
+    startDate: z.string().datetime().describe('Start of the analyzed range'),
+    endDate: z.string().datetime().describe('End of the analyzed range'),
+    executionTime: z.number().describe('Analysis time in milliseconds'),
+  }),
+  timestamp: z.string().datetime().describe('Server timestamp'),
+  requestId: z.string().describe('Unique identifier for this API request'),
+});
+
+export type FunnelRequestBody = z.infer<typeof FunnelRequestSchema>;
+export type FunnelResponse = z.infer<typeof FunnelResponseSchema>;
+
+/**
+ * Create OpenAPI documentation for the funnel analysis endpoint
+ */
+export function createFunnelEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const funnelRequestSchema =
+    converter.convertSchema(FunnelRequestSchema).schema;
+  const funnelResponseSchema =
+    converter.convertSchema(FunnelResponseSchema).schema;
+
+  const funnelRequestExample = {
+    steps: [
+      { event: 'signup' },
+      { event: 'activate' },
+      { event: 'purchase', properties: { plan: 'pro' } },
+    ],
+    conversionWindowSeconds: 1209600,
+    startDate: '2024-01-01T00:00:00.000Z',
+    endDate: '2024-01-31T23:59:59.999Z',
+  };
+
+  const funnelResponseExample = {
+    success: true,
+    data: {
+      steps: [
+        {
+          event: 'signup',
+          count: 1000,
+          conversionRate: 1,
+          stepConversionRate: 1,
+          medianSecondsToConvert: null,
+        },
+        {
+          event: 'activate',
+          count: 620,
+          conversionRate: 0.62,
+          stepConversionRate: 0.62,
+          medianSecondsToConvert: 5400,
+        },
+        {
+          event: 'purchase',
+          count: 93,
+          conversionRate: 0.093,
+          stepConversionRate: 0.15,
+          medianSecondsToConvert: 259200,
+        },
+      ],
+      conversionWindowSeconds: 1209600,
+      startDate: '2024-01-01T00:00:00.000Z',
+      endDate: '2024-01-31T23:59:59.999Z',
+      executionTime: 85,
+    },
+    timestamp: '2024-02-01T09:00:00.000Z',
+    requestId: 'req_abcdef123456',
+  };
+
+  return {
+    path: '/v1/analytics/funnel',
+    method: 'POST',
+    summary: 'Funnel Analysis',
+    description: `
+Measure how many users complete an ordered sequence of events.
+
+A user reaches step N when they performed steps 1 through N in order, with every later step occurring within \`conversionWindowSeconds\` of the step-one event that started the sequence. Only events inside the date range are considered, and events without a user ID are ignored.
+
+## Results
+
+Each step reports the number of users who reached it, the conversion rate from step one and from the previous step, and the median time users took to get there from the previous step.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+    ],
+    requestBody: {
+      description: 'Funnel steps, conversion window and date range',
+      required: true,
+      content: {
+        'application/json': {
+          schema: funnelRequestSchema,
+          example: funnelRequestExample,
+        },
+      },
+    },
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Funnel computed',
+        content: {
+          'application/json': {
+            schema: funnelResponseSchema,
+            example: funnelResponseExample,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid steps, window or date range',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                error: { type: 'string' },
+                message: { type: 'string' },
+                statusCode: { type: 'number' },
+                timestamp: { type: 'string', format: 'date-time' },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
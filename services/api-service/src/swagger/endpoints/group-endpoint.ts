@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import { OpenAPIV3 } from 'openapi-types';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+// Zod schema for group request (matching the one in request-router.ts)
+export const GroupRequestSchema = z.object({
+  groupId: z
+    .string()
+    .min(1)
+    .describe('Group identifier, unique within the tenant'),
+  groupType: z
+    .string()
+    .min(1)
+    .max(64)
+    .optional()
+    .describe(
+      'Kind of group, such as "company" or "team"; kept when omitted, and "company" for a new group'
+    ),
+  traits: z
+    .record(z.any())
+    .optional()
+    .describe('Group attributes, merged over the stored traits'),
+  userId: z.string().min(1).optional().describe('User joining the group'),
+  anonymousId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Pre-login identity joining the group when userId is absent'),
+  timestamp: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('When the group call happened (ISO 8601); defaults to now'),
+});
+
+// Zod schema for group response
+export const GroupResponseSchema = z.object({
+  success: z.boolean().describe('Whether the group was stored'),
+  groupId: z.string().describe('The group that was updated'),
+  groupType: z.string().describe('Kind of group, as stored after the call'),
+  userId: z
+    .string()
+    .optional()
+    .describe(
+      'Canonical user that joined, when userId or anonymousId was sent'
+    ),
+  created: z.boolean().describe('Whether this call created the group'),
+  memberAdded: z
+    .boolean()
+    .describe(
+      'Whether the user joined with this call (false when already a member)'
+    ),
+  timestamp: z
+    .string()
+    .datetime()
+    .describe('Server timestamp when the group was processed'),
+  requestId: z
+    .string()
+    .uuid()
+    .describe('Unique identifier for this API request'),
+});
+
+export type GroupRequest = z.infer<typeof GroupRequestSchema>;
+export type GroupResponse = z.infer<typeof GroupResponseSchema>;
+
+const errorResponseSchema: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    statusCode: { type: 'number' },
+    timestamp: { type: 'string', format: 'date-time' },
+    requestId: { type: 'string', format: 'uuid' },
+  },
+  required: ['error', 'message', 'statusCode', 'timestamp'],
+};
+
+/**
+ * Create OpenAPI documentation for the group endpoint
+ */
+export function createGroupEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const groupRequestSchema = converter.convertSchema(GroupRequestSchema).schema;
+  const groupResponseSchema =
+    converter.convertSchema(GroupResponseSchema).schema;
+
+  const groupRequestExample = {
+    groupId: 'acme-inc',
+    groupType: 'company',
+    traits: {
+      name: 'Acme Inc.',
+      plan: 'enterprise',
+      employees: 250,
+    },
+    userId: 'user_12345',
+  };
+
+  const groupResponseExample = {
+    success: true,
+    groupId: 'acme-inc',
+    groupType: 'company',
+    userId: 'user_12345',
+    created: true,
+    memberAdded: true,
+    timestamp: new Date().toISOString(),
+    requestId: 'req_group_123',
+  };
+
+  return {
+    path: '/v1/group',
+    method: 'POST',
+    summary: 'Group User',
+    description: `
+Create or update a group, such as the company a user works for, and add the user to it.
+
+Groups are identified by \`groupId\` within the tenant and carry a \`groupType\` and traits. Traits are merged over the ones already stored, and a given \`groupType\` replaces the stored one; without one the stored type is kept, and a new group is a \`company\`. Without \`userId\` or \`anonymousId\` only the group is updated; a user may belong to any number of groups.
+
+Events are attributed to the groups their user belongs to:
+- **Event queries and aggregations** accept a \`groupId\` filter matching the events of the group's members, including events tracked under their aliases
+- **Aggregations** accept \`groupBy: "groups.<groupType>"\` to break metrics down by group
+
+Attribution follows current membership, so a user's earlier events count towards a group they join later.
+    `.trim(),
+    tags: ['Users'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+    ],
+    requestBody: {
+      description: 'Group traits and the user joining it',
+      required: true,
+      content: {
+        'application/json': {
+          schema: groupRequestSchema,
+          example: groupRequestExample,
+        },
+      },
+    },
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Group stored',
+        content: {
+          'application/json': {
+            schema: groupResponseSchema,
+            example: groupResponseExample,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid request data',
+        content: {
+          'application/json': {
+            schema: errorResponseSchema,
+            example: {
+              error: 'Invalid group request',
+              message: 'Validation failed: groupId: Required',
+              statusCode: 400,
+              timestamp: new Date().toISOString(),
+              requestId: 'req_group_invalid',
+            },
+          },
+        },
+      },
+      {
+        statusCode: 401,
+        description: 'Authentication required',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 403,
+        description: 'Insufficient permissions or invalid tenant',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 429,
+        description: 'Rate limit exceeded',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 500,
+        description: 'Internal server error',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
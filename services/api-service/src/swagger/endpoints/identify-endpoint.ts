@@ -5,17 +5,69 @@ import { ZodToOpenAPIConverter } from '../zod-converter.js';
 // Zod schema for identify request (matching the one in request-router.ts)
 export const IdentifyRequestSchema = z.object({
   userId: z.string().min(1).describe('Unique identifier for the user'),
-  traits: z.record(z.any()).optional().describe('User attributes and properties to store or update'),
-  timestamp: z.string().datetime().optional().describe('Timestamp when the identification occurred (defaults to current time)'),
+  anonymousId: z
+    .string()
+    .optional()
+    .describe(
+      'Anonymous identifier the user was tracked under before; linked to the user as an alias'
+    ),
+  traits: z
+    .record(z.any())
+    .optional()
+    .describe('User attributes and properties to store or update'),
+  timestamp: z
+    .string()
+    .datetime()
+    .optional()
+    .describe(
+      'Timestamp when the identification occurred (defaults to current time)'
+    ),
+  $set: z
+    .record(z.any())
+    .optional()
+    .describe('Traits to overwrite, like traits'),
+  $setOnce: z
+    .record(z.any())
+    .optional()
+    .describe('Traits to set only if the user does not have them yet'),
+  $increment: z
+    .record(z.number())
+    .optional()
+    .describe(
+      'Numbers to add to numeric traits; a missing or non-numeric trait counts from 0'
+    ),
+  $unset: z.array(z.string()).optional().describe('Names of traits to remove'),
+  $append: z
+    .record(z.any())
+    .optional()
+    .describe(
+      'Values to add to the end of list traits; list values add each item'
+    ),
+  $union: z
+    .record(z.any())
+    .optional()
+    .describe(
+      'Values to add to list traits unless already present; list values add each item'
+    ),
 });
 
 // Zod schema for identify response
 export const IdentifyResponseSchema = z.object({
   success: z.boolean().describe('Whether the user was successfully identified'),
   userId: z.string().describe('The user identifier that was processed'),
-  created: z.boolean().describe('Whether this was a new user (true) or existing user update (false)'),
-  timestamp: z.string().datetime().describe('Server timestamp when the identification was processed'),
-  requestId: z.string().uuid().describe('Unique identifier for this API request'),
+  created: z
+    .boolean()
+    .describe(
+      'Whether this was a new user (true) or existing user update (false)'
+    ),
+  timestamp: z
+    .string()
+    .datetime()
+    .describe('Server timestamp when the identification was processed'),
+  requestId: z
+    .string()
+    .uuid()
+    .describe('Unique identifier for this API request'),
 });
 
 export type IdentifyRequest = z.infer<typeof IdentifyRequestSchema>;
@@ -26,8 +78,12 @@ export type IdentifyResponse = z.infer<typeof IdentifyResponseSchema>;
  */
 export function createIdentifyEndpointDocumentation(): EndpointDocumentation {
   const converter = new ZodToOpenAPIConverter();
-  const identifyRequestSchema = converter.convertSchema(IdentifyRequestSchema).schema;
-  const identifyResponseSchema = converter.convertSchema(IdentifyResponseSchema).schema;
+  const identifyRequestSchema = converter.convertSchema(
+    IdentifyRequestSchema
+  ).schema;
+  const identifyResponseSchema = converter.convertSchema(
+    IdentifyResponseSchema
+  ).schema;
 
   // Create realistic examples
   const identifyRequestExample = {
@@ -80,6 +136,9 @@ The identify endpoint:
 - **Updates existing users** by merging new traits with existing ones
 - **Tracks user activity** by updating last seen timestamps
 - **Manages sessions** by detecting session boundaries (30+ minutes of inactivity)
+- **Links anonymous activity** when an \`anonymousId\` is sent, aliasing it to the user as \`POST /v1/alias\` does. An \`anonymousId\` already linked to another user, such as on a shared device, is left as it is
+
+A \`userId\` that is an alias updates the profile of the user it resolves to.
 
 ## Traits and Properties
 
@@ -91,6 +150,30 @@ Traits are key-value pairs that describe user attributes:
 
 Traits are merged with existing user data, so you can update specific attributes without affecting others.
 
+## Trait Operators
+
+Operator blocks update traits relative to their stored values:
+- **$set**: Overwrite traits, like \`traits\`
+- **$setOnce**: Set traits only if the user does not have them yet, such as a first referrer
+- **$increment**: Add to numeric traits, such as lifetime purchases; a missing or non-numeric trait counts from 0
+- **$unset**: Remove traits by name
+- **$append**: Add values to the end of list traits
+- **$union**: Add values to list traits unless already present
+
+\`\`\`json
+{
+  "userId": "user_12345",
+  "$setOnce": { "firstReferrer": "newsletter" },
+  "$increment": { "lifetimePurchases": 1 },
+  "$unset": ["trialEndsAt"],
+  "$union": { "visitedSections": ["pricing", "docs"] }
+}
+\`\`\`
+
+Each trait may appear in only one operator per call, other than in both \`traits\` and \`$set\` (where \`$set\` wins). For \`$append\` and \`$union\`, a list value adds each of its items and a stored value that is not a list becomes the first item.
+
+Operators are applied atomically with the rest of the update, so concurrent calls for the same user never lose each other's changes.
+
 ## Session Management
 
 The system automatically manages user sessions:
@@ -183,7 +266,11 @@ Track changes in user status, plan upgrades, etc.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Invalid identify request' },
-                message: { type: 'string', example: 'Validation failed: userId: String must contain at least 1 character(s)' },
+                message: {
+                  type: 'string',
+                  example:
+                    'Validation failed: userId: String must contain at least 1 character(s)',
+                },
                 statusCode: { type: 'number', example: 400 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -192,7 +279,8 @@ Track changes in user status, plan upgrades, etc.
             },
             example: {
               error: 'Invalid identify request',
-              message: 'Validation failed: userId: String must contain at least 1 character(s)',
+              message:
+                'Validation failed: userId: String must contain at least 1 character(s)',
               statusCode: 400,
               timestamp: new Date().toISOString(),
               requestId: 'req_error123',
@@ -235,7 +323,10 @@ Track changes in user status, plan upgrades, etc.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Forbidden' },
-                message: { type: 'string', example: 'Invalid tenant or insufficient permissions' },
+                message: {
+                  type: 'string',
+                  example: 'Invalid tenant or insufficient permissions',
+                },
                 statusCode: { type: 'number', example: 403 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -307,7 +398,10 @@ Track changes in user status, plan upgrades, etc.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Internal Server Error' },
-                message: { type: 'string', example: 'Failed to process identify request' },
+                message: {
+                  type: 'string',
+                  example: 'Failed to process identify request',
+                },
                 statusCode: { type: 'number', example: 500 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -328,4 +422,3 @@ Track changes in user status, plan upgrades, etc.
     security: [{ bearerAuth: [] }, { apiKey: [] }],
   };
 }
-
@@ -4,80 +4,241 @@ import { ZodToOpenAPIConverter } from '../zod-converter.js';
 
 // Zod schemas for query parameters
 export const EventQueryParamsSchema = z.object({
-  eventTypes: z.string().optional().describe('Comma-separated list of event types to filter by'),
-  eventType: z.string().optional().describe('Single event type to filter by (alternative to eventTypes)'),
+  eventTypes: z
+    .string()
+    .optional()
+    .describe('Comma-separated list of event types to filter by'),
+  eventType: z
+    .string()
+    .optional()
+    .describe('Single event type to filter by (alternative to eventTypes)'),
   userId: z.string().optional().describe('Filter events for a specific user'),
-  startDate: z.string().datetime().optional().describe('Start date for event filtering (ISO 8601 format)'),
-  endDate: z.string().datetime().optional().describe('End date for event filtering (ISO 8601 format)'),
-  properties: z.string().optional().describe('JSON string of event properties to filter by'),
-  sortBy: z.enum(['timestamp', 'eventName', 'userId']).optional().describe('Field to sort results by'),
-  sortOrder: z.enum(['asc', 'desc']).optional().describe('Sort order (ascending or descending)'),
-  limit: z.coerce.number().int().min(1).max(1000).optional().describe('Maximum number of results to return (1-1000)'),
-  offset: z.coerce.number().int().min(0).optional().describe('Number of results to skip for pagination'),
-  format: z.enum(['json', 'table', 'csv']).optional().describe('Output format for results'),
+  groupId: z
+    .string()
+    .optional()
+    .describe('Filter events for the members of a group'),
+  startDate: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Start date for event filtering (ISO 8601 format)'),
+  endDate: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('End date for event filtering (ISO 8601 format)'),
+  properties: z
+    .string()
+    .optional()
+    .describe('JSON string of event properties to filter by'),
+  where: z
+    .string()
+    .optional()
+    .describe('JSON-encoded property filter expression'),
+  sortBy: z
+    .enum(['timestamp', 'eventName', 'userId'])
+    .optional()
+    .describe('Field to sort results by'),
+  sortOrder: z
+    .enum(['asc', 'desc'])
+    .optional()
+    .describe('Sort order (ascending or descending)'),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Maximum number of results to return (1-1000)'),
+  offset: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Number of results to skip for pagination'),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'nextCursor from the previous page; cannot be combined with offset'
+    ),
+  format: z
+    .enum(['json', 'table', 'csv'])
+    .optional()
+    .describe('Output format for results'),
 });
 
 export const UserQueryParamsSchema = z.object({
   userId: z.string().optional().describe('Filter for a specific user'),
-  activeSince: z.string().datetime().optional().describe('Filter users active since this date (ISO 8601 format)'),
-  activeUntil: z.string().datetime().optional().describe('Filter users active until this date (ISO 8601 format)'),
-  properties: z.string().optional().describe('JSON string of user properties to filter by'),
-  sortBy: z.enum(['firstSeen', 'lastSeen', 'eventCount', 'sessionCount']).optional().describe('Field to sort results by'),
-  sortOrder: z.enum(['asc', 'desc']).optional().describe('Sort order (ascending or descending)'),
-  limit: z.coerce.number().int().min(1).max(1000).optional().describe('Maximum number of results to return (1-1000)'),
-  offset: z.coerce.number().int().min(0).optional().describe('Number of results to skip for pagination'),
-  format: z.enum(['json', 'table', 'csv']).optional().describe('Output format for results'),
+  activeSince: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Filter users active since this date (ISO 8601 format)'),
+  activeUntil: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Filter users active until this date (ISO 8601 format)'),
+  properties: z
+    .string()
+    .optional()
+    .describe('JSON string of user properties to filter by'),
+  where: z
+    .string()
+    .optional()
+    .describe('JSON-encoded property filter expression'),
+  sortBy: z
+    .enum(['firstSeen', 'lastSeen', 'eventCount', 'sessionCount'])
+    .optional()
+    .describe('Field to sort results by'),
+  sortOrder: z
+    .enum(['asc', 'desc'])
+    .optional()
+    .describe('Sort order (ascending or descending)'),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Maximum number of results to return (1-1000)'),
+  offset: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Number of results to skip for pagination'),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'nextCursor from the previous page; cannot be combined with offset'
+    ),
+  format: z
+    .enum(['json', 'table', 'csv'])
+    .optional()
+    .describe('Output format for results'),
 });
 
 // Response schemas
 export const EventQueryResponseSchema = z.object({
   success: z.boolean().describe('Whether the query was successful'),
-  data: z.object({
-    events: z.array(z.object({
-      eventId: z.string().describe('Unique event identifier'),
-      tenantId: z.string().describe('Tenant identifier'),
-      eventName: z.string().describe('Event type/name'),
-      userId: z.string().optional().describe('User who triggered the event'),
-      properties: z.record(z.any()).describe('Event properties and metadata'),
-      timestamp: z.string().datetime().describe('When the event occurred'),
-      receivedAt: z.string().datetime().describe('When the event was received by the server'),
-      sessionId: z.string().optional().describe('Session identifier'),
-      deviceId: z.string().optional().describe('Device identifier'),
-    })).describe('Array of matching events'),
-    totalCount: z.number().describe('Total number of events matching the query'),
-    hasMore: z.boolean().describe('Whether there are more results available'),
-    pagination: z.object({
-      limit: z.number().describe('Current page size limit'),
-      offset: z.number().describe('Current offset'),
-      nextOffset: z.number().optional().describe('Offset for next page (if hasMore is true)'),
-    }).describe('Pagination information'),
-    executionTime: z.number().describe('Query execution time in milliseconds'),
-  }).describe('Query results and metadata'),
+  data: z
+    .object({
+      events: z
+        .array(
+          z.object({
+            eventId: z.string().describe('Unique event identifier'),
+            tenantId: z.string().describe('Tenant identifier'),
+            eventName: z.string().describe('Event type/name'),
+            userId: z
+              .string()
+              .optional()
+              .describe('User who triggered the event'),
+            properties: z
+              .record(z.any())
+              .describe('Event properties and metadata'),
+            timestamp: z
+              .string()
+              .datetime()
+              .describe('When the event occurred'),
+            receivedAt: z
+              .string()
+              .datetime()
+              .describe('When the event was received by the server'),
+            sessionId: z.string().optional().describe('Session identifier'),
+            deviceId: z.string().optional().describe('Device identifier'),
+          })
+        )
+        .describe('Array of matching events'),
+      totalCount: z
+        .number()
+        .describe('Total number of events matching the query'),
+      totalCountIsLowerBound: z
+        .boolean()
+        .optional()
+        .describe(
+          'Set when the store stopped reading once the page was full, so totalCount is a lower bound'
+        ),
+      hasMore: z.boolean().describe('Whether there are more results available'),
+      pagination: z
+        .object({
+          limit: z.number().describe('Current page size limit'),
+          offset: z.number().describe('Current offset'),
+          nextOffset: z
+            .number()
+            .optional()
+            .describe(
+              'Offset for next page (if hasMore is true and no cursor was given)'
+            ),
+        })
+        .describe('Pagination information'),
+      nextCursor: z
+        .string()
+        .optional()
+        .describe('Signed cursor for the next page (if hasMore is true)'),
+      executionTime: z
+        .number()
+        .describe('Query execution time in milliseconds'),
+    })
+    .describe('Query results and metadata'),
   timestamp: z.string().datetime().describe('Response timestamp'),
   requestId: z.string().uuid().describe('Unique request identifier'),
 });
 
 export const UserQueryResponseSchema = z.object({
   success: z.boolean().describe('Whether the query was successful'),
-  data: z.object({
-    users: z.array(z.object({
-      userId: z.string().describe('Unique user identifier'),
-      tenantId: z.string().describe('Tenant identifier'),
-      properties: z.record(z.any()).describe('User traits and attributes'),
-      firstSeen: z.string().datetime().describe('When the user was first identified'),
-      lastSeen: z.string().datetime().describe('Most recent user activity'),
-      sessionCount: z.number().describe('Total number of user sessions'),
-      eventCount: z.number().describe('Total number of events for this user'),
-    })).describe('Array of matching users'),
-    totalCount: z.number().describe('Total number of users matching the query'),
-    hasMore: z.boolean().describe('Whether there are more results available'),
-    pagination: z.object({
-      limit: z.number().describe('Current page size limit'),
-      offset: z.number().describe('Current offset'),
-      nextOffset: z.number().optional().describe('Offset for next page (if hasMore is true)'),
-    }).describe('Pagination information'),
-    executionTime: z.number().describe('Query execution time in milliseconds'),
-  }).describe('Query results and metadata'),
+  data: z
+    .object({
+      users: z
+        .array(
+          z.object({
+            userId: z.string().describe('Unique user identifier'),
+            tenantId: z.string().describe('Tenant identifier'),
+            properties: z
+              .record(z.any())
+              .describe('User traits and attributes'),
+            firstSeen: z
+              .string()
+              .datetime()
+              .describe('When the user was first identified'),
+            lastSeen: z
+              .string()
+              .datetime()
+              .describe('Most recent user activity'),
+            sessionCount: z.number().describe('Total number of user sessions'),
+            eventCount: z
+              .number()
+              .describe('Total number of events for this user'),
+          })
+        )
+        .describe('Array of matching users'),
+      totalCount: z
+        .number()
+        .describe('Total number of users matching the query'),
+      hasMore: z.boolean().describe('Whether there are more results available'),
+      pagination: z
+        .object({
+          limit: z.number().describe('Current page size limit'),
+          offset: z.number().describe('Current offset'),
+          nextOffset: z
+            .number()
+            .optional()
+            .describe(
+              'Offset for next page (if hasMore is true and no cursor was given)'
+            ),
+        })
+        .describe('Pagination information'),
+      nextCursor: z
+        .string()
+        .optional()
+        .describe('Signed cursor for the next page (if hasMore is true)'),
+      executionTime: z
+        .number()
+        .describe('Query execution time in milliseconds'),
+    })
+    .describe('Query results and metadata'),
   timestamp: z.string().datetime().describe('Response timestamp'),
   requestId: z.string().uuid().describe('Unique request identifier'),
 });
@@ -142,6 +303,8 @@ export function createEventQueryEndpointDocumentation(): EndpointDocumentation {
         offset: 0,
         nextOffset: 100,
       },
+      nextCursor:
+        'WyJldmVudHMiLCJ0ZW5hbnRfYWJjMTIzIixudWxsLG51bGwsMTcwNTMxNDMwMDAwMCwiZXZ0X2FiY2RlZjEyMzQ1Njc4OTAiXQ.yR5fh2PiLDXY-zZM6ggKxld-0CEW3BS6O7L5T2TeB-g',
       executionTime: 45,
     },
     timestamp: new Date().toISOString(),
@@ -165,6 +328,7 @@ This endpoint allows you to search through tracked events using various filters
 
 ### User Filtering
 - **userId**: Get events for a specific user
+- **groupId**: Get events for every member of a group recorded by \`POST /v1/group\`, including events tracked under their aliases
 
 ### Date Range Filtering
 - **startDate**: Events after this timestamp (ISO 8601 format)
@@ -174,7 +338,15 @@ This endpoint allows you to search through tracked events using various filters
 ### Property Filtering
 - **properties**: JSON object to filter events by specific property values
 - Example: \`{"page": "/dashboard", "utm_source": "google"}\`
-- Supports nested property matching
+- Matches top-level keys by equality
+
+### Filter Expressions
+- **where**: JSON-encoded \`PropertyFilter\`; a condition \`{"property", "operator", "value"}\` or an \`{"and": [...]}\` / \`{"or": [...]}\` group
+- Operators: \`eq\`, \`neq\`, \`gt\`, \`gte\`, \`lt\`, \`lte\`, \`in\`, \`contains\`, \`startsWith\`, \`exists\`, \`notExists\`, \`regex\`
+- \`property\` is a dotted path into nested properties, e.g. \`utm.source\`
+- \`regex\` patterns may not use backreferences or repeat a group containing a quantifier or \`|\`, e.g. \`(a+)+\`
+- Example: \`{"or": [{"property": "utm.source", "operator": "eq", "value": "google"}, {"property": "amount", "operator": "gte", "value": 100}]}\`
+- Can be combined with **properties**; both must match
 
 ## Sorting and Pagination
 
@@ -185,13 +357,19 @@ This endpoint allows you to search through tracked events using various filters
 ### Pagination
 - **limit**: Number of results per page (1-1000, default: 100)
 - **offset**: Number of results to skip (for pagination)
-- Use \`hasMore\` and \`nextOffset\` in response for pagination
+- **cursor**: \`nextCursor\` from the previous page, sent with the same sort parameters
+- Use \`hasMore\` and \`nextCursor\` (or \`nextOffset\`) in response for pagination
+- Cursors are signed and stay stable while new data arrives; they cannot be combined with \`offset\`, and a cursor issued for another tenant or sort order is rejected
+- On a page requested with a cursor, \`totalCount\` counts the results from the cursor onwards
+- Time-ordered queries on the flat-file store stop reading partitions once the page is full; \`totalCount\` then only counts the partitions read and \`totalCountIsLowerBound\` is true
 
 ## Output Formats
 
 - **json**: Structured JSON response (default)
-- **table**: Tabular format for display
-- **csv**: CSV format for export
+- **csv**: RFC 4180 CSV (\`text/csv\`) with one row per event. Each property gets its own \`properties.<key>\` column; nested objects are flattened to dotted keys (\`properties.utm.source\`), keys containing \`.\`, \`[\` or \`"\` are bracketed (\`properties["a.b"]\`) and arrays are JSON-encoded. Text starting with \`=\`, \`+\`, \`-\` or \`@\` is prefixed with \`'\` so spreadsheets do not run it as a formula
+- **table**: Fixed-width plain text (\`text/plain\`) for terminals, with long values truncated
+
+For csv and table, pagination metadata is returned in the \`X-Total-Count\`, \`X-Next-Offset\` and \`X-Next-Cursor\` response headers instead of the JSON envelope.
 
 ## Performance Considerations
 
@@ -212,7 +390,7 @@ Track user behavior by filtering events for specific users.
 Query events in sequence to analyze conversion funnels.
 
 ### Export and Reporting
-Export event data in CSV format for external analysis.
+Download a page of events as CSV for spreadsheets; use \`GET /v1/events/export\` for complete exports.
     `.trim(),
     tags: ['Analytics'],
     parameters: [
@@ -248,6 +426,14 @@ Export event data in CSV format for external analysis.
         description: 'Filter events for a specific user',
         example: 'user_12345',
       },
+      {
+        name: 'groupId',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description: 'Filter events for the members of a group',
+        example: 'acme-inc',
+      },
       {
         name: 'startDate',
         in: 'query',
@@ -272,6 +458,20 @@ Export event data in CSV format for external analysis.
         description: 'JSON string of properties to filter by',
         example: '{"page": "/dashboard", "utm_source": "google"}',
       },
+      {
+        name: 'where',
+        in: 'query',
+        required: false,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PropertyFilter' },
+          },
+        },
+        description:
+          'Property filter expression with comparison operators, dotted paths and and/or groups',
+        example:
+          '{"property": "utm.source", "operator": "in", "value": ["google", "bing"]}',
+      },
       {
         name: 'sortBy',
         in: 'query',
@@ -304,6 +504,14 @@ Export event data in CSV format for external analysis.
         description: 'Number of results to skip',
         example: 0,
       },
+      {
+        name: 'cursor',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description:
+          'nextCursor from the previous page; cannot be combined with offset',
+      },
       {
         name: 'format',
         in: 'query',
@@ -322,12 +530,44 @@ Export event data in CSV format for external analysis.
             schema: responseSchema,
             example: exampleResponse,
           },
+          'text/csv': {
+            schema: { type: 'string' },
+            example:
+              'eventId,tenantId,userId,eventName,timestamp,receivedAt,sessionId,deviceId,properties.page,properties.utm.source\r\n' +
+              'evt_1234567890abcdef,tenant_abc123,user_12345,page_view,2024-01-15T10:30:00.000Z,2024-01-15T10:30:00.123Z,session_67890,,/dashboard,google\r\n',
+          },
+          'text/plain': {
+            schema: { type: 'string' },
+            example:
+              'timestamp                | eventName | userId     | eventId              | properties\n' +
+              '-------------------------+-----------+------------+----------------------+----------------------\n' +
+              '2024-01-15T10:30:00.000Z | page_view | user_12345 | evt_1234567890abcdef | {"page":"/dashboard"}\n',
+          },
         },
         headers: {
           'x-request-id': {
             description: 'Unique request identifier',
             schema: { type: 'string', format: 'uuid' },
           },
+          'X-Total-Count': {
+            description: 'Total matching records (csv and table formats only)',
+            schema: { type: 'integer' },
+          },
+          'X-Total-Count-Lower-Bound': {
+            description:
+              'Set to true when X-Total-Count is a lower bound (csv and table formats only)',
+            schema: { type: 'string', enum: ['true'] },
+          },
+          'X-Next-Offset': {
+            description:
+              'Offset of the next page when more results exist (csv and table formats only)',
+            schema: { type: 'integer' },
+          },
+          'X-Next-Cursor': {
+            description:
+              'Cursor for the next page when more results exist (csv and table formats only)',
+            schema: { type: 'string' },
+          },
         },
       },
       {
@@ -339,7 +579,10 @@ Export event data in CSV format for external analysis.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Invalid startDate' },
-                message: { type: 'string', example: 'startDate must be a valid ISO 8601 date string' },
+                message: {
+                  type: 'string',
+                  example: 'startDate must be a valid ISO 8601 date string',
+                },
                 statusCode: { type: 'number', example: 400 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -384,7 +627,10 @@ Export event data in CSV format for external analysis.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Forbidden' },
-                message: { type: 'string', example: 'Invalid tenant or insufficient permissions' },
+                message: {
+                  type: 'string',
+                  example: 'Invalid tenant or insufficient permissions',
+                },
                 statusCode: { type: 'number', example: 403 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -423,7 +669,10 @@ Export event data in CSV format for external analysis.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Internal Server Error' },
-                message: { type: 'string', example: 'Failed to process event query' },
+                message: {
+                  type: 'string',
+                  example: 'Failed to process event query',
+                },
                 statusCode: { type: 'number', example: 500 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -494,6 +743,8 @@ export function createUserQueryEndpointDocumentation(): EndpointDocumentation {
         offset: 0,
         nextOffset: 100,
       },
+      nextCursor:
+        'WyJ1c2VycyIsInRlbmFudF9hYmMxMjMiLG51bGwsbnVsbCwidXNlcl82Nzg5MCIsInVzZXJfNjc4OTAiXQ.Bxn9I6NGS7pfkdlBmc5REJX-e_bCbFllzXEHkN4XRR8',
       executionTime: 28,
     },
     timestamp: new Date().toISOString(),
@@ -522,7 +773,11 @@ This endpoint allows you to search through identified users and their profiles u
 ### Property Filtering
 - **properties**: JSON object to filter users by specific traits
 - Example: \`{"plan": "premium", "company": "Acme Corp"}\`
-- Supports nested property matching
+- Matches top-level keys by equality
+
+### Filter Expressions
+- **where**: JSON-encoded \`PropertyFilter\` over user traits, with the same operators, dotted paths and and/or groups as event queries
+- Example: \`{"and": [{"property": "plan", "operator": "in", "value": ["pro", "enterprise"]}, {"property": "address.country", "operator": "eq", "value": "DE"}]}\`
 
 ## Sorting and Pagination
 
@@ -533,13 +788,18 @@ This endpoint allows you to search through identified users and their profiles u
 ### Pagination
 - **limit**: Number of results per page (1-1000, default: 100)
 - **offset**: Number of results to skip (for pagination)
-- Use \`hasMore\` and \`nextOffset\` in response for pagination
+- **cursor**: \`nextCursor\` from the previous page, sent with the same sort parameters
+- Use \`hasMore\` and \`nextCursor\` (or \`nextOffset\`) in response for pagination
+- Cursors are signed and stay stable while new data arrives; they cannot be combined with \`offset\`, and a cursor issued for another tenant or sort order is rejected
+- On a page requested with a cursor, \`totalCount\` counts the results from the cursor onwards
 
 ## Output Formats
 
 - **json**: Structured JSON response (default)
-- **table**: Tabular format for display
-- **csv**: CSV format for export
+- **csv**: RFC 4180 CSV (\`text/csv\`) with one row per user. Each trait gets its own \`properties.<key>\` column; nested objects are flattened to dotted keys, keys containing \`.\`, \`[\` or \`"\` are bracketed and arrays are JSON-encoded. Text starting with \`=\`, \`+\`, \`-\` or \`@\` is prefixed with \`'\`
+- **table**: Fixed-width plain text (\`text/plain\`) for terminals, with long values truncated
+
+For csv and table, pagination metadata is returned in the \`X-Total-Count\`, \`X-Next-Offset\` and \`X-Next-Cursor\` response headers instead of the JSON envelope.
 
 ## User Data Structure
 
@@ -568,7 +828,7 @@ Analyze user engagement through session and event counts.
 Query users by signup date or first activity.
 
 ### User Export
-Export user data in CSV format for external analysis.
+Download a page of users as CSV for spreadsheets and CRM imports.
 
 ### Active User Analysis
 Find users active within specific time periods.
@@ -615,11 +875,26 @@ Find users active within specific time periods.
         description: 'JSON string of user properties to filter by',
         example: '{"plan": "premium", "company": "Acme Corp"}',
       },
+      {
+        name: 'where',
+        in: 'query',
+        required: false,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PropertyFilter' },
+          },
+        },
+        description: 'Property filter expression over user traits',
+        example: '{"property": "plan", "operator": "neq", "value": "free"}',
+      },
       {
         name: 'sortBy',
         in: 'query',
         required: false,
-        schema: { type: 'string', enum: ['firstSeen', 'lastSeen', 'eventCount', 'sessionCount'] },
+        schema: {
+          type: 'string',
+          enum: ['firstSeen', 'lastSeen', 'eventCount', 'sessionCount'],
+        },
         description: 'Field to sort results by',
         example: 'lastSeen',
       },
@@ -647,6 +922,14 @@ Find users active within specific time periods.
         description: 'Number of results to skip',
         example: 0,
       },
+      {
+        name: 'cursor',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description:
+          'nextCursor from the previous page; cannot be combined with offset',
+      },
       {
         name: 'format',
         in: 'query',
@@ -665,12 +948,39 @@ Find users active within specific time periods.
             schema: responseSchema,
             example: exampleResponse,
           },
+          'text/csv': {
+            schema: { type: 'string' },
+            example:
+              'userId,tenantId,firstSeen,lastSeen,sessionCount,eventCount,properties.plan\r\n' +
+              'user_12345,tenant_abc123,2024-01-01T08:00:00.000Z,2024-01-15T10:30:00.000Z,12,245,premium\r\n',
+          },
+          'text/plain': {
+            schema: { type: 'string' },
+            example:
+              'userId     | firstSeen                | lastSeen                 | sessionCount | eventCount | properties\n' +
+              '-----------+--------------------------+--------------------------+--------------+------------+-------------------\n' +
+              'user_12345 | 2024-01-01T08:00:00.000Z | 2024-01-15T10:30:00.000Z |           12 |        245 | {"plan":"premium"}\n',
+          },
         },
         headers: {
           'x-request-id': {
             description: 'Unique request identifier',
             schema: { type: 'string', format: 'uuid' },
           },
+          'X-Total-Count': {
+            description: 'Total matching records (csv and table formats only)',
+            schema: { type: 'integer' },
+          },
+          'X-Next-Offset': {
+            description:
+              'Offset of the next page when more results exist (csv and table formats only)',
+            schema: { type: 'integer' },
+          },
+          'X-Next-Cursor': {
+            description:
+              'Cursor for the next page when more results exist (csv and table formats only)',
+            schema: { type: 'string' },
+          },
         },
       },
       {
@@ -682,7 +992,10 @@ Find users active within specific time periods.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Invalid activeSince' },
-                message: { type: 'string', example: 'activeSince must be a valid ISO 8601 date string' },
+                message: {
+                  type: 'string',
+                  example: 'activeSince must be a valid ISO 8601 date string',
+                },
                 statusCode: { type: 'number', example: 400 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -720,7 +1033,10 @@ Find users active within specific time periods.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Forbidden' },
-                message: { type: 'string', example: 'Invalid tenant or insufficient permissions' },
+                message: {
+                  type: 'string',
+                  example: 'Invalid tenant or insufficient permissions',
+                },
                 statusCode: { type: 'number', example: 403 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -759,7 +1075,10 @@ Find users active within specific time periods.
               type: 'object',
               properties: {
                 error: { type: 'string', example: 'Internal Server Error' },
-                message: { type: 'string', example: 'Failed to process user query' },
+                message: {
+                  type: 'string',
+                  example: 'Failed to process user query',
+                },
                 statusCode: { type: 'number', example: 500 },
                 timestamp: { type: 'string', format: 'date-time' },
                 requestId: { type: 'string', format: 'uuid' },
@@ -773,4 +1092,3 @@ Find users active within specific time periods.
     security: [{ bearerAuth: [] }, { apiKey: [] }],
   };
 }
-
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+const RetentionEventSchema = z.object({
+  event: z.string().min(1).describe('Event name'),
+  properties: z
+    .record(z.any())
+    .optional()
+    .describe('Property values the event must have'),
+});
+
+// Zod schema for retention request (matching the one in request-router.ts)
+export const RetentionRequestSchema = z.object({
+  startEvent: RetentionEventSchema.optional().describe(
+    'Users enter a cohort at their first occurrence of this event; omit to use the time the user was first seen'
+  ),
+  returnEvent: RetentionEventSchema.describe(
+    'Event that counts a user as retained in a period'
+  ),
+  interval: z
+    .enum(['day', 'week', 'month'])
+    .describe('Length of cohorts and retention periods'),
+  timezone: z
+    .string()
+    .optional()
+    .describe('IANA timezone used to align periods (default: UTC)'),
+  startDate: z
+    .string()
+    .datetime()
+    .describe('Start of the analyzed range (ISO 8601 format)'),
+  endDate: z
+    .string()
+    .datetime()
+    .describe(
+      'End of the analyzed range (ISO 8601 format); at most 366 periods after startDate'
+    ),
+  breakdownBy: z
+    .string()
+    .optional()
+    .describe('"properties.<trait>" to split cohorts by a user trait'),
+});
+
+// Zod schema for a single cohort row
+export const RetentionCohortSchema = z.object({
+  cohortStart: z
+    .string()
+    .datetime()
+    .describe('Start of the period in which the cohort entered'),
+  group: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('Trait value; null for users without the trait'),
+  size: z.number().describe('Users in the cohort'),
+  retained: z
+    .array(z.number())
+    .describe(
+      'Users who performed the return event in each period; index 0 is the cohort period'
+    ),
+  rates: z.array(z.number()).describe('retained divided by size'),
+});
+
+// Zod schema for retention response
+export const RetentionResponseSchema = z.object({
+  success: z.boolean().describe('Whether the retention matrix was computed'),
+  data: z.object({
+    interval: z.string().describe('Requested interval'),
+    timezone: z.string().describe('Timezone used for periods'),
+    startDate: z.string().datetime().describe('Start of the analyzed range'),
+    endDate: z.string().datetime().describe('End of the analyzed range'),
+    breakdownBy: z.string().optional().describe('Requested breakdown'),
+    cohorts: z
+      .array(RetentionCohortSchema)
+      .describe('Cohorts ordered by start, then group'),
+    executionTime: z.number().describe('Analysis time in milliseconds'),
+  }),
+  timestamp: z.string().datetime().describe('Server timestamp'),
+  requestId: z.string().describe('Unique identifier for this API request'),
+});
+
+export type RetentionRequestBody = z.infer<typeof RetentionRequestSchema>;
+export type RetentionResponse = z.infer<typeof RetentionResponseSchema>;
+
+/**
+ * Create OpenAPI documentation for the retention analysis endpoint
+ */
+export function createRetentionEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const retentionRequestSchema = converter.convertSchema(
+    RetentionRequestSchema
+  ).schema;
+  const retentionResponseSchema = converter.convertSchema(
+    RetentionResponseSchema
+  ).schema;
+
+  const retentionRequestExample = {
+    startEvent: { event: 'signup' },
+    returnEvent: { event: 'session_start' },
+    interval: 'week',
+    timezone: 'UTC',
+    startDate: '2024-01-01T00:00:00.000Z',
+    endDate: '2024-01-21T23:59:59.999Z',
+    breakdownBy: 'properties.plan',
+  };
+
+  const retentionResponseExample = {
+    success: true,
+    data: {
+      interval: 'week',
+      timezone: 'UTC',
+      startDate: '2024-01-01T00:00:00.000Z',
+      endDate: '2024-01-21T23:59:59.999Z',
+      breakdownBy: 'properties.plan',
+      cohorts: [
+        {
+          cohortStart: '2024-01-01T00:00:00.000Z',
+          group: 'pro',
+          size: 40,
+          retained: [32, 24, 20],
+          rates: [0.8, 0.6, 0.5],
+        },
+        {
+          cohortStart: '2024-01-08T00:00:00.000Z',
+          group: 'pro',
+          size: 25,
+          retained: [20, 15],
+          rates: [0.8, 0.6],
+        },
+        {
+          cohortStart: '2024-01-15T00:00:00.000Z',
+          group: 'pro',
+          size: 30,
+          retained: [21],
+          rates: [0.7],
+        },
+      ],
+      executionTime: 140,
+    },
+    timestamp: '2024-01-22T09:00:00.000Z',
+    requestId: 'req_abcdef123456',
+  };
+
+  return {
+    path: '/v1/analytics/retention',
+    method: 'POST',
+    summary: 'Retention Analysis',
+    description: `
+Build a cohort retention matrix over a date range.
+
+Users enter a cohort at their first \`startEvent\` in the range, or, without a start event, when they were first seen. Each cohort row counts the users who performed \`returnEvent\` in each following day, week (starting Monday) or month. Period 0 is the cohort's own period and only counts returns after the user entered.
+
+Rows end at the period containing \`endDate\`, so later cohorts have fewer periods. With \`breakdownBy\`, each cohort is split by the value of a user trait.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+    ],
+    requestBody: {
+      description: 'Cohort definition, return event and date range',
+      required: true,
+      content: {
+        'application/json': {
+          schema: retentionRequestSchema,
+          example: retentionRequestExample,
+        },
+      },
+    },
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Retention matrix computed',
+        content: {
+          'application/json': {
+            schema: retentionResponseSchema,
+            example: retentionResponseExample,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid events, interval, timezone or date range',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                error: { type: 'string' },
+                message: { type: 'string' },
+                statusCode: { type: 'number' },
+                timestamp: { type: 'string', format: 'date-time' },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import { EndpointDocumentation } from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+// Zod schema for session metrics, shared by the totals and each period
+const SessionStatsSchema = z.object({
+  sessions: z
+    .number()
+    .describe('Sessions with at least one event in the range'),
+  users: z.number().describe('Distinct users with a session'),
+  bounces: z.number().describe('Sessions with a single event'),
+  bounceRate: z
+    .number()
+    .describe('bounces divided by sessions; 0 without sessions'),
+  averageDurationSeconds: z
+    .number()
+    .describe('Mean time from the first to the last event of a session'),
+  medianDurationSeconds: z
+    .number()
+    .nullable()
+    .describe('Median session duration; null without sessions'),
+  averageEventsPerSession: z.number().describe('Mean events per session'),
+});
+
+// Zod schema for sessions response
+export const SessionsResponseSchema = z.object({
+  success: z.boolean().describe('Whether the session metrics were computed'),
+  data: SessionStatsSchema.extend({
+    startDate: z.string().datetime().describe('Start of the analyzed range'),
+    endDate: z.string().datetime().describe('End of the analyzed range'),
+    sessionTimeoutMinutes: z
+      .number()
+      .describe("The tenant's inactivity timeout"),
+    interval: z.string().optional().describe('Requested interval'),
+    timezone: z
+      .string()
+      .optional()
+      .describe('Timezone used for periods, present with interval'),
+    periods: z
+      .array(
+        SessionStatsSchema.extend({
+          periodStart: z
+            .string()
+            .datetime()
+            .describe('Start of the period the sessions started in'),
+        })
+      )
+      .optional()
+      .describe('Metrics per period with sessions, present with interval'),
+    executionTime: z.number().describe('Analysis time in milliseconds'),
+  }),
+  timestamp: z.string().datetime().describe('Server timestamp'),
+  requestId: z.string().describe('Unique identifier for this API request'),
+});
+
+export type SessionsResponse = z.infer<typeof SessionsResponseSchema>;
+
+/**
+ * Create OpenAPI documentation for the session analytics endpoint
+ */
+export function createSessionsEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter();
+  const sessionsResponseSchema = converter.convertSchema(
+    SessionsResponseSchema
+  ).schema;
+
+  const sessionsResponseExample = {
+    success: true,
+    data: {
+      startDate: '2024-01-01T00:00:00.000Z',
+      endDate: '2024-01-02T23:59:59.999Z',
+      sessionTimeoutMinutes: 30,
+      interval: 'day',
+      timezone: 'UTC',
+      sessions: 420,
+      users: 310,
+      bounces: 126,
+      bounceRate: 0.3,
+      averageDurationSeconds: 312.5,
+      medianDurationSeconds: 184,
+      averageEventsPerSession: 6.2,
+      periods: [
+        {
+          periodStart: '2024-01-01T00:00:00.000Z',
+          sessions: 230,
+          users: 180,
+          bounces: 74,
+          bounceRate: 0.32,
+          averageDurationSeconds: 298,
+          medianDurationSeconds: 176,
+          averageEventsPerSession: 5.9,
+        },
+        {
+          periodStart: '2024-01-02T00:00:00.000Z',
+          sessions: 190,
+          users: 150,
+          bounces: 52,
+          bounceRate: 0.27,
+          averageDurationSeconds: 330,
+          medianDurationSeconds: 195,
+          averageEventsPerSession: 6.6,
+        },
+      ],
+      executionTime: 95,
+    },
+    timestamp: '2024-01-03T09:00:00.000Z',
+    requestId: 'req_abcdef123456',
+  };
+
+  return {
+    path: '/v1/analytics/sessions',
+    method: 'GET',
+    summary: 'Session Analytics',
+    description: `
+Session counts, durations, bounce rate and events per session over a date range.
+
+Tracked events are placed in sessions as they arrive: an event continues its user's current session unless it comes more than the tenant's inactivity timeout (30 minutes by default) after the session's latest event. Events tracked with a \`sessionId\` keep it. Events stored without a sessionId, such as older data, are split into sessions by the same timeout when analyzed.
+
+Only events inside the range count, so sessions crossing its edges are cut short. A bounce is a session with a single event. With \`interval\`, sessions are also broken down by the day, week (starting Monday) or month they started in.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      {
+        name: 'x-tenant-id',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description: 'Tenant identifier for multi-tenant isolation',
+        example: 'tenant_abc123',
+      },
+      {
+        name: 'startDate',
+        in: 'query',
+        required: true,
+        schema: { type: 'string', format: 'date-time' },
+        description: 'Start of the analyzed range (ISO 8601)',
+        example: '2024-01-01T00:00:00.000Z',
+      },
+      {
+        name: 'endDate',
+        in: 'query',
+        required: true,
+        schema: { type: 'string', format: 'date-time' },
+        description: 'End of the analyzed range (ISO 8601)',
+        example: '2024-01-02T23:59:59.999Z',
+      },
+      {
+        name: 'interval',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', enum: ['day', 'week', 'month'] },
+        description: 'Also break sessions down by the period they started in',
+        example: 'day',
+      },
+      {
+        name: 'timezone',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description: 'IANA timezone used to align periods (default: UTC)',
+        example: 'UTC',
+      },
+    ],
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Session metrics computed',
+        content: {
+          'application/json': {
+            schema: sessionsResponseSchema,
+            example: sessionsResponseExample,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid date range, interval or timezone',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                error: { type: 'string' },
+                message: { type: 'string' },
+                statusCode: { type: 'number' },
+                timestamp: { type: 'string', format: 'date-time' },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
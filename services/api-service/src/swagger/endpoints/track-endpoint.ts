@@ -4,21 +4,67 @@ import { ZodToOpenAPIConverter } from '../zod-converter.js';
 
 // Zod schema for track request (matching the one in request-router.ts)
 export const TrackRequestSchema = z.object({
-  event: z.string().min(1).describe('Event name or type (e.g., "page_view", "button_click")'),
-  properties: z.record(z.any()).optional().describe('Additional event properties and metadata'),
-  timestamp: z.string().datetime().optional().describe('Event timestamp in ISO 8601 format (defaults to current time)'),
-  userId: z.string().optional().describe('User identifier associated with this event'),
-  sessionId: z.string().optional().describe('Session identifier for grouping related events'),
-  deviceId: z.string().optional().describe('Device identifier for cross-session tracking'),
+  messageId: z
+    .string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe(
+      'Client-generated idempotency key; retries with the same messageId are stored once and return the same eventId'
+    ),
+  event: z
+    .string()
+    .min(1)
+    .describe('Event name or type (e.g., "page_view", "button_click")'),
+  properties: z
+    .record(z.any())
+    .optional()
+    .describe('Additional event properties and metadata'),
+  timestamp: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Event timestamp in ISO 8601 format (defaults to current time)'),
+  userId: z
+    .string()
+    .optional()
+    .describe('User identifier associated with this event'),
+  anonymousId: z
+    .string()
+    .optional()
+    .describe(
+      'Identifier for a visitor not yet known as a user; the event is stored under it when userId is absent and resolves to the user once aliased'
+    ),
+  sessionId: z
+    .string()
+    .optional()
+    .describe('Session identifier for grouping related events'),
+  deviceId: z
+    .string()
+    .optional()
+    .describe('Device identifier for cross-session tracking'),
 });
 
 // Zod schema for track response
 export const TrackResponseSchema = z.object({
   success: z.boolean().describe('Whether the event was successfully tracked'),
-  eventId: z.string().uuid().describe('Unique identifier for the tracked event'),
-  timestamp: z.string().datetime().describe('Server timestamp when the event was processed'),
-  requestId: z.string().uuid().describe('Unique identifier for this API request'),
-  message: z.string().optional().describe('Additional message (e.g., for duplicate events)'),
+  eventId: z
+    .string()
+    .describe(
+      'Unique identifier for the tracked event (the messageId when one was supplied)'
+    ),
+  timestamp: z
+    .string()
+    .datetime()
+    .describe('Server timestamp when the event was processed'),
+  requestId: z
+    .string()
+    .uuid()
+    .describe('Unique identifier for this API request'),
+  message: z
+    .string()
+    .optional()
+    .describe('Additional message (e.g., for duplicate events)'),
 });
 
 export type TrackRequest = z.infer<typeof TrackRequestSchema>;
@@ -30,10 +76,12 @@ export type TrackResponse = z.infer<typeof TrackResponseSchema>;
 export function createTrackEndpointDocumentation(): EndpointDocumentation {
   const converter = new ZodToOpenAPIConverter();
   const trackRequestSchema = converter.convertSchema(TrackRequestSchema).schema;
-  const trackResponseSchema = converter.convertSchema(TrackResponseSchema).schema;
+  const trackResponseSchema =
+    converter.convertSchema(TrackResponseSchema).schema;
 
   // Create realistic examples
   const trackRequestExample = {
+    messageId: 'msg_7f3c9a2e-1b4d-4c8e-9f0a-2d6b5e8c1a3f',
     event: 'page_view',
     properties: {
       page: '/dashboard',
@@ -57,13 +105,12 @@ export function createTrackEndpointDocumentation(): EndpointDocumentation {
     requestId: 'req_abcdef123456',
   };
 
-
-
   return {
     path: '/v1/track',
     method: 'POST',
     summary: 'Track Event',
-    description: 'Track user events and interactions for analytics processing. Events are processed asynchronously and made available for querying and analysis.',
+    description:
+      'Track user events and interactions for analytics processing. Events are processed asynchronously and made available for querying and analysis.',
     tags: ['Events'],
     parameters: [
       {
@@ -117,4 +164,3 @@ export function createTrackEndpointDocumentation(): EndpointDocumentation {
     security: [{ bearerAuth: [] }, { apiKey: [] }],
   };
 }
-
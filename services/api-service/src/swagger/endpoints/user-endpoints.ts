@@ -0,0 +1,702 @@
+import { z } from 'zod';
+import { OpenAPIV3 } from 'openapi-types';
+import {
+  EndpointDocumentation,
+  ParameterDocumentation,
+} from '../openapi-generator.js';
+import { ZodToOpenAPIConverter } from '../zod-converter.js';
+
+// Zod schemas for timeline query parameters (matching the one in user-handler.ts)
+export const UserTimelineParamsSchema = z.object({
+  eventTypes: z
+    .string()
+    .optional()
+    .describe('Comma-separated list of event types to filter by'),
+  eventType: z
+    .string()
+    .optional()
+    .describe('Single event type to filter by (alternative to eventTypes)'),
+  startDate: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('Start date for event filtering (ISO 8601 format)'),
+  endDate: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('End date for event filtering (ISO 8601 format)'),
+  sortOrder: z
+    .enum(['asc', 'desc'])
+    .optional()
+    .describe('Time order of the timeline (default: desc, newest first)'),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe('Maximum number of events to return (1-1000)'),
+  offset: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Number of events to skip for pagination'),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'nextCursor from the previous page; cannot be combined with offset'
+    ),
+});
+
+// Zod schema for export query parameters (matching the one in user-handler.ts)
+export const UserExportParamsSchema = z.object({
+  format: z
+    .enum(['json', 'csv'])
+    .optional()
+    .describe('Format of the files inside the archive (default: json)'),
+});
+
+const UserRecordSchema = z.object({
+  userId: z.string().describe('Unique user identifier'),
+  tenantId: z.string().describe('Tenant identifier'),
+  properties: z.record(z.any()).describe('User traits and attributes'),
+  firstSeen: z
+    .string()
+    .datetime()
+    .describe('When the user was first identified'),
+  lastSeen: z.string().datetime().describe('Most recent user activity'),
+  sessionCount: z.number().describe('Total number of user sessions'),
+  eventCount: z.number().describe('Total number of events for this user'),
+});
+
+// Response schemas
+export const UserProfileResponseSchema = z.object({
+  success: z.boolean().describe('Whether the user was found'),
+  data: UserRecordSchema.describe('The user record'),
+  timestamp: z.string().datetime().describe('Response timestamp'),
+  requestId: z.string().uuid().describe('Unique request identifier'),
+});
+
+export const UserTimelineResponseSchema = z.object({
+  success: z.boolean().describe('Whether the timeline was loaded'),
+  data: z
+    .object({
+      userId: z.string().describe('User the timeline belongs to'),
+      events: z
+        .array(
+          z.object({
+            eventId: z.string().describe('Unique event identifier'),
+            tenantId: z.string().describe('Tenant identifier'),
+            eventName: z.string().describe('Event type/name'),
+            userId: z
+              .string()
+              .optional()
+              .describe('User who triggered the event'),
+            properties: z
+              .record(z.any())
+              .describe('Event properties and metadata'),
+            timestamp: z
+              .string()
+              .datetime()
+              .describe('When the event occurred'),
+            receivedAt: z
+              .string()
+              .datetime()
+              .describe('When the event was received by the server'),
+            sessionId: z.string().optional().describe('Session identifier'),
+            deviceId: z.string().optional().describe('Device identifier'),
+          })
+        )
+        .describe("The user's events in time order"),
+      totalCount: z
+        .number()
+        .describe("Total number of the user's events matching the filters"),
+      hasMore: z.boolean().describe('Whether there are more events available'),
+      pagination: z
+        .object({
+          limit: z.number().describe('Current page size limit'),
+          offset: z.number().describe('Current offset'),
+          nextOffset: z
+            .number()
+            .optional()
+            .describe(
+              'Offset for next page (if hasMore is true and no cursor was given)'
+            ),
+        })
+        .describe('Pagination information'),
+      nextCursor: z
+        .string()
+        .optional()
+        .describe('Signed cursor for the next page (if hasMore is true)'),
+      executionTime: z
+        .number()
+        .describe('Query execution time in milliseconds'),
+    })
+    .describe('Timeline page and metadata'),
+  timestamp: z.string().datetime().describe('Response timestamp'),
+  requestId: z.string().uuid().describe('Unique request identifier'),
+});
+
+export const DeletionReceiptSchema = z.object({
+  receiptId: z.string().uuid().describe('Receipt identifier'),
+  tenantId: z.string().describe('Tenant identifier'),
+  userId: z
+    .string()
+    .optional()
+    .describe(
+      'User being erased; removed from the receipt once the erasure completes'
+    ),
+  userIdHash: z.string().describe('SHA-256 hex digest of the userId'),
+  status: z
+    .enum(['pending', 'running', 'completed', 'failed'])
+    .describe('Erasure status'),
+  requestedAt: z.string().datetime().describe('When the erasure was requested'),
+  startedAt: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('When the erasure last started'),
+  completedAt: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('When the erasure completed or failed'),
+  profileDeleted: z
+    .boolean()
+    .optional()
+    .describe('Whether a user profile existed and was deleted'),
+  aliasesDeleted: z
+    .number()
+    .optional()
+    .describe('Aliases unlinked from the user in the identity graph'),
+  eventsDeleted: z
+    .number()
+    .optional()
+    .describe(
+      'Events removed from the event store, including those of aliases'
+    ),
+  deduplicationRecordsPurged: z
+    .number()
+    .optional()
+    .describe('Deduplication records removed for those events'),
+  groupMembershipsDeleted: z
+    .number()
+    .optional()
+    .describe('Group memberships removed for the user and their aliases'),
+  sessionsDeleted: z
+    .number()
+    .optional()
+    .describe('Current sessions dropped from the session store'),
+  error: z.string().optional().describe('Why the erasure failed'),
+});
+
+export const DeletionReceiptResponseSchema = z.object({
+  success: z.boolean().describe('Whether the request succeeded'),
+  data: DeletionReceiptSchema.describe('The deletion receipt'),
+  timestamp: z.string().datetime().describe('Response timestamp'),
+  requestId: z.string().uuid().describe('Unique request identifier'),
+});
+
+export type UserTimelineParams = z.infer<typeof UserTimelineParamsSchema>;
+export type UserExportParams = z.infer<typeof UserExportParamsSchema>;
+export type UserProfileResponse = z.infer<typeof UserProfileResponseSchema>;
+export type UserTimelineResponse = z.infer<typeof UserTimelineResponseSchema>;
+export type DeletionReceiptResponse = z.infer<
+  typeof DeletionReceiptResponseSchema
+>;
+
+const errorResponseSchema: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    statusCode: { type: 'number' },
+    timestamp: { type: 'string', format: 'date-time' },
+    requestId: { type: 'string', format: 'uuid' },
+  },
+  required: ['error', 'message', 'statusCode', 'timestamp'],
+};
+
+const userIdParameter: ParameterDocumentation = {
+  name: 'userId',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+  description: 'Identifier the user was identified or tracked with',
+  example: 'user_12345',
+};
+
+const tenantHeaderParameter: ParameterDocumentation = {
+  name: 'x-tenant-id',
+  in: 'header',
+  required: true,
+  schema: { type: 'string' },
+  description: 'Tenant identifier for multi-tenant isolation',
+  example: 'tenant_abc123',
+};
+
+/**
+ * Create OpenAPI documentation for the single-user profile endpoint
+ */
+export function createUserProfileEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter({
+    includeExamples: true,
+    includeDescriptions: true,
+  });
+
+  const responseSchema = converter.convertSchema(
+    UserProfileResponseSchema
+  ).schema;
+
+  const exampleResponse = {
+    success: true,
+    data: {
+      userId: 'user_12345',
+      tenantId: 'tenant_abc123',
+      properties: {
+        name: 'John Doe',
+        email: 'john@example.com',
+        plan: 'premium',
+      },
+      firstSeen: '2024-01-01T08:00:00.000Z',
+      lastSeen: '2024-01-15T10:30:00.000Z',
+      sessionCount: 12,
+      eventCount: 245,
+    },
+    timestamp: '2024-01-15T10:31:00.000Z',
+    requestId: 'req_user_profile_123',
+  };
+
+  return {
+    path: '/v1/users/{userId}',
+    method: 'GET',
+    summary: 'Get User',
+    description: `
+Look up a single user by \`userId\`. An alias returns the profile of the user it resolves to.
+
+Returns the stored user record: the traits set through \`POST /v1/identify\`, when the user was first and last seen, and their session and event counts. Users that have only been tracked and never identified have no record and return 404; their events are still available from \`GET /v1/users/{userId}/events\`.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [tenantHeaderParameter, userIdParameter],
+    responses: [
+      {
+        statusCode: 200,
+        description: 'User found',
+        content: {
+          'application/json': {
+            schema: responseSchema,
+            example: exampleResponse,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid userId',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 404,
+        description: 'No user with this userId exists for the tenant',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 500,
+        description: 'Internal server error',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
+
+/**
+ * Create OpenAPI documentation for the single-user activity timeline endpoint
+ */
+export function createUserTimelineEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter({
+    includeExamples: true,
+    includeDescriptions: true,
+  });
+
+  const responseSchema = converter.convertSchema(
+    UserTimelineResponseSchema
+  ).schema;
+
+  const exampleResponse = {
+    success: true,
+    data: {
+      userId: 'user_12345',
+      events: [
+        {
+          eventId: 'evt_1234567890abcdef',
+          tenantId: 'tenant_abc123',
+          eventName: 'purchase',
+          userId: 'user_12345',
+          properties: { amount: 49, currency: 'USD' },
+          timestamp: '2024-01-15T10:30:00.000Z',
+          receivedAt: '2024-01-15T10:30:00.123Z',
+          sessionId: 'session_67890',
+        },
+        {
+          eventId: 'evt_abcdef1234567890',
+          tenantId: 'tenant_abc123',
+          eventName: 'page_view',
+          userId: 'user_12345',
+          properties: { page: '/pricing' },
+          timestamp: '2024-01-15T10:25:00.000Z',
+          receivedAt: '2024-01-15T10:25:00.456Z',
+          sessionId: 'session_67890',
+        },
+      ],
+      totalCount: 245,
+      hasMore: true,
+      pagination: {
+        limit: 2,
+        offset: 0,
+        nextOffset: 2,
+      },
+      nextCursor:
+        'WyJldmVudHMiLCJ0ZW5hbnRfYWJjMTIzIiwidGltZXN0YW1wIiwiZGVzYyIsMTcwNTMxNDMwMDAwMCwiZXZ0X2FiY2RlZjEyMzQ1Njc4OTAiXQ.T7cY1Kyi9dIwUapYx1I6gUYeDTsqnc54zh418y2F-zc',
+      executionTime: 12,
+    },
+    timestamp: '2024-01-15T10:31:00.000Z',
+    requestId: 'req_user_timeline_123',
+  };
+
+  return {
+    path: '/v1/users/{userId}/events',
+    method: 'GET',
+    summary: 'Get User Timeline',
+    description: `
+A user's activity timeline: their events in time order, newest first unless \`sortOrder=asc\`.
+
+Events tracked for the user are returned whether or not the user has been identified, so an unknown \`userId\` returns an empty timeline rather than 404. Events tracked under the user's aliases, such as an \`anonymousId\` from before signup, are included.
+
+## Filtering
+- **eventType** / **eventTypes**: Only include one or several (comma-separated) event types
+- **startDate** / **endDate**: Inclusive time range (ISO 8601)
+
+## Pagination
+- **limit**: Number of events per page (1-1000, default: 100)
+- **offset**: Number of events to skip
+- **cursor**: \`nextCursor\` from the previous page, sent with the same \`sortOrder\`; cannot be combined with \`offset\`
+- Cursor pages stay stable while the user keeps sending events
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      tenantHeaderParameter,
+      userIdParameter,
+      {
+        name: 'eventType',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description: 'Single event type to filter by',
+        example: 'purchase',
+      },
+      {
+        name: 'eventTypes',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description: 'Comma-separated list of event types',
+        example: 'page_view,purchase',
+      },
+      {
+        name: 'startDate',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', format: 'date-time' },
+        description: 'Start date for filtering (ISO 8601)',
+        example: '2024-01-01T00:00:00.000Z',
+      },
+      {
+        name: 'endDate',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', format: 'date-time' },
+        description: 'End date for filtering (ISO 8601)',
+        example: '2024-01-31T23:59:59.999Z',
+      },
+      {
+        name: 'sortOrder',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', enum: ['asc', 'desc'] },
+        description: 'Time order (default: desc)',
+        example: 'desc',
+      },
+      {
+        name: 'limit',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 1, maximum: 1000 },
+        description: 'Maximum number of events (1-1000)',
+        example: 100,
+      },
+      {
+        name: 'offset',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 0 },
+        description: 'Number of events to skip',
+        example: 0,
+      },
+      {
+        name: 'cursor',
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description:
+          'nextCursor from the previous page; cannot be combined with offset',
+      },
+    ],
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Timeline page retrieved',
+        content: {
+          'application/json': {
+            schema: responseSchema,
+            example: exampleResponse,
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid userId, filters, dates or cursor',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 500,
+        description: 'Internal server error',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
+
+/**
+ * Create OpenAPI documentation for the data subject access export endpoint
+ */
+export function createUserExportEndpointDocumentation(): EndpointDocumentation {
+  return {
+    path: '/v1/users/{userId}/export',
+    method: 'GET',
+    summary: 'Export User Data',
+    description: `
+Download everything stored about one user, for GDPR data subject access and similar requests.
+
+The response is a tar archive (\`application/x-tar\`) containing:
+- **manifest.json**: Tenant, canonical \`userId\`, export time, format, whether a profile was found, and the list of files
+- **user.json** / **user.csv**: The user profile, or \`null\` / a header row only if the user was never identified
+- **events.json** / **events.csv**: Every event tracked with the \`userId\` or one of its aliases, oldest first, in the same layout as \`GET /v1/events/export\`
+- **aliases.json** / **aliases.csv**: Other identifiers linked to the user
+
+An alias exports the user it belongs to. An unknown \`userId\` still returns an archive, since events may have been tracked for a user who was never identified.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      tenantHeaderParameter,
+      userIdParameter,
+      {
+        name: 'format',
+        in: 'query',
+        required: false,
+        schema: { type: 'string', enum: ['json', 'csv'] },
+        description: 'Format of the files inside the archive (default: json)',
+        example: 'json',
+      },
+    ],
+    responses: [
+      {
+        statusCode: 200,
+        description: "Tar archive of the user's data",
+        content: {
+          'application/x-tar': {
+            schema: { type: 'string', format: 'binary' },
+          },
+        },
+        headers: {
+          'Content-Disposition': {
+            description:
+              'Suggested file name, e.g. attachment; filename="user-export-tenant_abc123.tar"',
+            schema: { type: 'string' },
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid userId or format',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 500,
+        description: 'Internal server error',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
+
+/**
+ * Create OpenAPI documentation for the user erasure endpoint
+ */
+export function createUserDeletionEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter({
+    includeExamples: true,
+    includeDescriptions: true,
+  });
+
+  const responseSchema = converter.convertSchema(
+    DeletionReceiptResponseSchema
+  ).schema;
+
+  const exampleResponse = {
+    success: true,
+    data: {
+      receiptId: '3f1c2a9e-6b7d-4e2f-9a1b-5c8d7e6f4a3b',
+      tenantId: 'tenant_abc123',
+      userId: 'user_12345',
+      userIdHash:
+        'd04c992200c84b4447b20287ca92e4f1d70fe5c263df53ed36b56b47f24aa542',
+      status: 'pending',
+      requestedAt: '2024-01-15T10:31:00.000Z',
+    },
+    timestamp: '2024-01-15T10:31:00.000Z',
+    requestId: 'req_user_delete_123',
+  };
+
+  return {
+    path: '/v1/users/{userId}',
+    method: 'DELETE',
+    summary: 'Delete User',
+    description: `
+Erase a user for GDPR and similar requests: their profile, every event tracked with their \`userId\` or one of their aliases, the deduplication records of those events, and the aliases themselves. An alias erases the user it belongs to.
+
+The erasure runs in the background and can take minutes for large tenants. The response is \`202 Accepted\` with a deletion receipt; poll \`GET /v1/deletions/{receiptId}\` (also returned in the \`Location\` header) until its status is \`completed\` or \`failed\`. Erasures interrupted by a restart resume automatically, and a failed erasure can be retried by sending the request again.
+
+Receipts are kept as an audit trail. Once the erasure completes, the receipt keeps only a SHA-256 hash of the \`userId\`.
+
+Stop sending events for the user before requesting the erasure; events tracked while it runs may be kept.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [tenantHeaderParameter, userIdParameter],
+    responses: [
+      {
+        statusCode: 202,
+        description: 'Erasure scheduled',
+        content: {
+          'application/json': {
+            schema: responseSchema,
+            example: exampleResponse,
+          },
+        },
+        headers: {
+          Location: {
+            description: 'URL of the deletion receipt',
+            schema: { type: 'string' },
+          },
+        },
+      },
+      {
+        statusCode: 400,
+        description: 'Invalid userId',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 500,
+        description: 'Internal server error',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
+
+/**
+ * Create OpenAPI documentation for the deletion receipt endpoint
+ */
+export function createDeletionReceiptEndpointDocumentation(): EndpointDocumentation {
+  const converter = new ZodToOpenAPIConverter({
+    includeExamples: true,
+    includeDescriptions: true,
+  });
+
+  const responseSchema = converter.convertSchema(
+    DeletionReceiptResponseSchema
+  ).schema;
+
+  const exampleResponse = {
+    success: true,
+    data: {
+      receiptId: '3f1c2a9e-6b7d-4e2f-9a1b-5c8d7e6f4a3b',
+      tenantId: 'tenant_abc123',
+      userIdHash:
+        'd04c992200c84b4447b20287ca92e4f1d70fe5c263df53ed36b56b47f24aa542',
+      status: 'completed',
+      requestedAt: '2024-01-15T10:31:00.000Z',
+      startedAt: '2024-01-15T10:31:00.050Z',
+      completedAt: '2024-01-15T10:31:04.200Z',
+      profileDeleted: true,
+      aliasesDeleted: 1,
+      eventsDeleted: 245,
+      deduplicationRecordsPurged: 12,
+      groupMembershipsDeleted: 1,
+      sessionsDeleted: 1,
+    },
+    timestamp: '2024-01-15T10:35:00.000Z',
+    requestId: 'req_deletion_receipt_123',
+  };
+
+  return {
+    path: '/v1/deletions/{receiptId}',
+    method: 'GET',
+    summary: 'Get Deletion Receipt',
+    description: `
+Status and outcome of a user erasure requested with \`DELETE /v1/users/{userId}\`.
+
+A receipt moves from \`pending\` to \`running\` to \`completed\` (or \`failed\`, with an \`error\`). Completed receipts report how many events and deduplication records were removed and whether a profile existed.
+    `.trim(),
+    tags: ['Analytics'],
+    parameters: [
+      tenantHeaderParameter,
+      {
+        name: 'receiptId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string', format: 'uuid' },
+        description: 'receiptId returned when the erasure was requested',
+        example: '3f1c2a9e-6b7d-4e2f-9a1b-5c8d7e6f4a3b',
+      },
+    ],
+    responses: [
+      {
+        statusCode: 200,
+        description: 'Receipt found',
+        content: {
+          'application/json': {
+            schema: responseSchema,
+            example: exampleResponse,
+          },
+        },
+      },
+      {
+        statusCode: 404,
+        description: 'No deletion receipt with this id exists for the tenant',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+      {
+        statusCode: 500,
+        description: 'Internal server error',
+        content: { 'application/json': { schema: errorResponseSchema } },
+      },
+    ],
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+  };
+}
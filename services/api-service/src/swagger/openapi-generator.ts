@@ -1,6 +1,5 @@
 import { OpenAPIV3 } from 'openapi-types';
 
-
 export interface EndpointDocumentation {
   path: string;
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
@@ -17,7 +16,13 @@ export interface ParameterDocumentation {
   name: string;
   in: 'query' | 'header' | 'path' | 'cookie';
   required: boolean;
-  schema: OpenAPIV3.SchemaObject;
+  schema?: OpenAPIV3.SchemaObject;
+  // Used instead of schema for values serialized as a whole, e.g. JSON
+  content?: {
+    [mediaType: string]: {
+      schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+    };
+  };
   description?: string;
   example?: any;
 }
@@ -130,14 +135,17 @@ export class OpenAPIGenerator {
     // Add all registered endpoints to paths
     this.endpoints.forEach((endpoint) => {
       const pathKey = endpoint.path;
-      const method = endpoint.method.toLowerCase() as keyof OpenAPIV3.PathItemObject;
+      const method =
+        endpoint.method.toLowerCase() as keyof OpenAPIV3.PathItemObject;
 
       if (!this.specification.paths[pathKey]) {
         this.specification.paths[pathKey] = {};
       }
 
-      const pathItem = this.specification.paths[pathKey] as OpenAPIV3.PathItemObject;
-      
+      const pathItem = this.specification.paths[
+        pathKey
+      ] as OpenAPIV3.PathItemObject;
+
       const operation: OpenAPIV3.OperationObject = {
         summary: endpoint.summary,
         description: endpoint.description,
@@ -264,7 +272,7 @@ export class OpenAPIGenerator {
     const methodPrefix = method.toLowerCase();
     const pathCamelCase = cleanPath
       .split('_')
-      .map((part, index) => 
+      .map((part, index) =>
         index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)
       )
       .join('');
@@ -272,16 +280,20 @@ export class OpenAPIGenerator {
     return `${methodPrefix}${pathCamelCase.charAt(0).toUpperCase()}${pathCamelCase.slice(1)}`;
   }
 
-  private convertParameter = (param: ParameterDocumentation): OpenAPIV3.ParameterObject => ({
+  private convertParameter = (
+    param: ParameterDocumentation
+  ): OpenAPIV3.ParameterObject => ({
     name: param.name,
     in: param.in,
     required: param.required,
-    schema: param.schema,
+    ...(param.content ? { content: param.content } : { schema: param.schema }),
     description: param.description,
     example: param.example,
   });
 
-  private convertRequestBody(requestBody: RequestBodyDocumentation): OpenAPIV3.RequestBodyObject {
+  private convertRequestBody(
+    requestBody: RequestBodyDocumentation
+  ): OpenAPIV3.RequestBodyObject {
     return {
       description: requestBody.description,
       required: requestBody.required,
@@ -289,7 +301,9 @@ export class OpenAPIGenerator {
     };
   }
 
-  private convertResponses(responses: ResponseDocumentation[]): OpenAPIV3.ResponsesObject {
+  private convertResponses(
+    responses: ResponseDocumentation[]
+  ): OpenAPIV3.ResponsesObject {
     const convertedResponses: OpenAPIV3.ResponsesObject = {};
 
     responses.forEach((response) => {
@@ -310,4 +324,4 @@ export class OpenAPIGenerator {
 
     return convertedResponses;
   }
-}
\ No newline at end of file
+}
@@ -3,7 +3,29 @@ import { OpenAPIGenerator } from './openapi-generator.js';
 import { createHealthEndpointDocumentation } from './endpoints/health-endpoint.js';
 import { createTrackEndpointDocumentation } from './endpoints/track-endpoint.js';
 import { createIdentifyEndpointDocumentation } from './endpoints/identify-endpoint.js';
-import { createEventQueryEndpointDocumentation, createUserQueryEndpointDocumentation } from './endpoints/query-endpoints.js';
+import { createBatchEndpointDocumentation } from './endpoints/batch-endpoint.js';
+import { createAliasEndpointDocumentation } from './endpoints/alias-endpoint.js';
+import { createGroupEndpointDocumentation } from './endpoints/group-endpoint.js';
+import {
+  createEventQueryEndpointDocumentation,
+  createUserQueryEndpointDocumentation,
+} from './endpoints/query-endpoints.js';
+import { createEventExportEndpointDocumentation } from './endpoints/export-endpoint.js';
+import { createEventAggregateEndpointDocumentation } from './endpoints/aggregate-endpoint.js';
+import { createFunnelEndpointDocumentation } from './endpoints/funnel-endpoint.js';
+import { createRetentionEndpointDocumentation } from './endpoints/retention-endpoint.js';
+import { createSessionsEndpointDocumentation } from './endpoints/sessions-endpoint.js';
+import {
+  createDeletionReceiptEndpointDocumentation,
+  createUserDeletionEndpointDocumentation,
+  createUserExportEndpointDocumentation,
+  createUserProfileEndpointDocumentation,
+  createUserTimelineEndpointDocumentation,
+} from './endpoints/user-endpoints.js';
+import {
+  PROPERTY_FILTER_SCHEMA_NAME,
+  propertyFilterOpenApiSchema,
+} from '../services/property-filter.js';
 
 export class SwaggerConfiguration {
   private generator: OpenAPIGenerator;
@@ -16,21 +38,40 @@ export class SwaggerConfiguration {
     );
 
     // Set server configuration
-    this.generator.updateServers([{
-      url: '',
-      description: `Current server (${environment})`,
-    }]);
+    this.generator.updateServers([
+      {
+        url: '',
+        description: `Current server (${environment})`,
+      },
+    ]);
 
     // Add all endpoint documentation
     this.addEndpoints();
   }
 
   private addEndpoints(): void {
+    this.generator.addSchema(
+      PROPERTY_FILTER_SCHEMA_NAME,
+      propertyFilterOpenApiSchema()
+    );
     this.generator.addEndpoint(createHealthEndpointDocumentation());
     this.generator.addEndpoint(createTrackEndpointDocumentation());
     this.generator.addEndpoint(createIdentifyEndpointDocumentation());
+    this.generator.addEndpoint(createAliasEndpointDocumentation());
+    this.generator.addEndpoint(createGroupEndpointDocumentation());
+    this.generator.addEndpoint(createBatchEndpointDocumentation());
     this.generator.addEndpoint(createEventQueryEndpointDocumentation());
+    this.generator.addEndpoint(createEventExportEndpointDocumentation());
+    this.generator.addEndpoint(createEventAggregateEndpointDocumentation());
     this.generator.addEndpoint(createUserQueryEndpointDocumentation());
+    this.generator.addEndpoint(createUserProfileEndpointDocumentation());
+    this.generator.addEndpoint(createUserTimelineEndpointDocumentation());
+    this.generator.addEndpoint(createUserExportEndpointDocumentation());
+    this.generator.addEndpoint(createUserDeletionEndpointDocumentation());
+    this.generator.addEndpoint(createDeletionReceiptEndpointDocumentation());
+    this.generator.addEndpoint(createFunnelEndpointDocumentation());
+    this.generator.addEndpoint(createRetentionEndpointDocumentation());
+    this.generator.addEndpoint(createSessionsEndpointDocumentation());
   }
 
   generateSpecification() {
@@ -39,7 +80,7 @@ export class SwaggerConfiguration {
 
   createSwaggerMiddleware() {
     const spec = this.generateSpecification();
-    
+
     return {
       serve: swaggerUi.serve,
       setup: swaggerUi.setup(spec, {
@@ -83,6 +124,8 @@ components:
   }
 }
 
-export function createDefaultSwaggerConfig(environment: string = 'development') {
+export function createDefaultSwaggerConfig(
+  environment: string = 'development'
+) {
   return new SwaggerConfiguration(environment);
-}
\ No newline at end of file
+}
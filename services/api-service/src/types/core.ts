@@ -37,6 +37,51 @@ export interface UserRecord {
   eventCount: number; // Total events
 }
 
+// An account a user belongs to, such as their company
+export interface GroupRecord {
+  groupId: string; // Unique within the tenant
+  tenantId: string; // Multi-tenancy namespace
+  groupType: string; // Kind of group, e.g. "company" or "team"
+  properties: Record<string, any>; // Group traits
+  createdAt: Date; // First group call
+  updatedAt: Date; // Most recent group call
+}
+
+// Type of a group created without one
+export const DEFAULT_GROUP_TYPE = 'company';
+
+// A group call's changes to a group
+export interface GroupUpdate extends Omit<GroupRecord, 'groupType'> {
+  groupType?: string; // Kept when absent; DEFAULT_GROUP_TYPE for new groups
+}
+
+export interface GroupMembership {
+  groupId: string;
+  groupType: string;
+  userId: string; // As stored; may since have become an alias
+}
+
+export type DeletionStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Audit record of a user erasure, kept after the user's data is gone
+export interface DeletionReceipt {
+  receiptId: string;
+  tenantId: string;
+  userId?: string; // Dropped once the erasure completes
+  userIdHash: string; // SHA-256 of the userId, for matching later requests
+  status: DeletionStatus;
+  requestedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  profileDeleted?: boolean;
+  aliasesDeleted?: number; // Identity graph links removed with the profile
+  eventsDeleted?: number;
+  deduplicationRecordsPurged?: number;
+  groupMembershipsDeleted?: number;
+  sessionsDeleted?: number; // Current sessions dropped from the session store
+  error?: string; // Present when the erasure failed
+}
+
 export interface TenantInfo {
   tenantId: string;
   name?: string;
@@ -93,14 +138,47 @@ export interface UpsertResult {
   error?: string;
 }
 
+export interface GroupUpsertResult {
+  success: boolean;
+  groupId?: string;
+  created: boolean;
+  memberAdded: boolean; // The user joined the group with this call
+  groupType?: string; // As stored after the call
+  userId?: string; // Canonical userId of the member, when one was given
+  error?: string;
+}
+
+// Amounts added to a user's counters by UserAdapter.incrementCounters
+export interface UserCounterIncrements {
+  sessionCount?: number;
+  eventCount?: number;
+}
+
+// The session an activity was placed in by SessionAdapter.assign
+export interface SessionAssignment {
+  sessionId: string;
+  started: boolean; // The activity opened this session
+}
+
+export interface AliasResult {
+  success: boolean;
+  userId?: string; // Canonical userId the alias resolves to
+  linked: boolean; // False when the alias already resolved to the user
+  profileMerged: boolean; // A profile stored under the alias was merged in
+  conflict?: boolean; // The alias already belongs to another user
+  error?: string;
+}
+
 // Query interfaces
 export interface QueryOptions {
   // Filtering
   eventTypes?: string[];
   userId?: string;
+  groupId?: string;
   startDate?: Date;
   endDate?: Date;
   properties?: Record<string, any>;
+  where?: PropertyFilter;
 
   // Sorting
   sortBy?: 'timestamp' | 'eventName' | 'userId';
@@ -109,6 +187,7 @@ export interface QueryOptions {
   // Pagination
   limit?: number;
   offset?: number;
+  after?: SortPosition; // decoded from a cursor
 
   // Output formatting
   format?: 'json' | 'table' | 'csv';
@@ -120,6 +199,7 @@ export interface UserQueryOptions {
   activeSince?: Date;
   activeUntil?: Date;
   properties?: Record<string, any>;
+  where?: PropertyFilter;
 
   // Sorting
   sortBy?: 'firstSeen' | 'lastSeen' | 'eventCount' | 'sessionCount';
@@ -128,11 +208,37 @@ export interface UserQueryOptions {
   // Pagination
   limit?: number;
   offset?: number;
+  after?: SortPosition; // decoded from a cursor
 
   // Output formatting
   format?: 'json' | 'table' | 'csv';
 }
 
+export type PropertyOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'contains'
+  | 'startsWith'
+  | 'exists'
+  | 'notExists'
+  | 'regex';
+
+export interface PropertyCondition {
+  property: string; // Dotted path into properties, e.g. "utm.source"
+  operator: PropertyOperator;
+  value?: any; // Omitted for exists and notExists
+}
+
+export type PropertyFilter =
+  | PropertyCondition
+  | { and: PropertyFilter[] }
+  | { or: PropertyFilter[] };
+
 export interface QueryFilter {
   tenantId: string;
   startTime?: Date;
@@ -140,9 +246,13 @@ export interface QueryFilter {
   eventName?: string;
   eventTypes?: string[];
   userId?: string;
-  properties?: Record<string, any>;
+  userIds?: string[]; // Any of these users, e.g. a user and their aliases
+  groupId?: string; // Members of this group; QueryService turns it into userIds
+  properties?: Record<string, any>; // Top-level equality on every key
+  where?: PropertyFilter;
   limit?: number;
   offset?: number;
+  after?: SortPosition; // Only records ordered after this position
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
@@ -152,13 +262,22 @@ export interface UserQueryFilter {
   userId?: string;
   activeSince?: Date;
   activeUntil?: Date;
-  properties?: Record<string, any>;
+  properties?: Record<string, any>; // Top-level equality on every key
+  where?: PropertyFilter;
   limit?: number;
   offset?: number;
+  after?: SortPosition; // Only records ordered after this position
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
 
+// Keyset position of a record in query order: its sort value (timestamps as
+// epoch milliseconds) and its id, which breaks ties
+export interface SortPosition {
+  value: string | number;
+  id: string;
+}
+
 export interface PaginationInfo {
   limit: number;
   offset: number;
@@ -168,8 +287,10 @@ export interface PaginationInfo {
 export interface QueryResult {
   events: AnalyticsEvent[];
   totalCount: number;
+  totalCountIsLowerBound?: boolean; // Reading stopped early; more may match
   hasMore: boolean;
   pagination: PaginationInfo;
+  nextCursor?: string;
   executionTime: number;
 }
 
@@ -178,6 +299,121 @@ export interface UserQueryResult {
   totalCount: number;
   hasMore: boolean;
   pagination: PaginationInfo;
+  nextCursor?: string;
+  executionTime: number;
+}
+
+export type AggregationMetric =
+  | 'count'
+  | 'uniqueUsers'
+  | 'sum'
+  | 'avg'
+  | 'min'
+  | 'max';
+
+export type AggregationInterval = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+export type AggregationGroupBy = { field: 'eventName' } | { property: string };
+
+export interface AggregationQuery {
+  filter: QueryFilter; // Pagination and sorting fields are ignored
+  metric: AggregationMetric;
+  property?: string; // Numeric property for sum, avg, min and max
+  groupBy?: AggregationGroupBy;
+  interval?: AggregationInterval;
+  timezone?: string; // IANA zone for bucket boundaries, defaults to UTC
+}
+
+export interface AggregationBucket {
+  time?: Date; // Bucket start, present when an interval is requested
+  group?: string | null; // Group value, present when groupBy is requested
+  value: number | null;
+}
+
+export interface AggregationResult {
+  buckets: AggregationBucket[];
+  executionTime: number;
+}
+
+export interface EventMatcher {
+  eventName: string;
+  properties?: Record<string, any>; // Top-level property values the event must have
+}
+
+export type FunnelStep = EventMatcher;
+
+export interface FunnelQuery {
+  tenantId: string;
+  steps: FunnelStep[];
+  conversionWindowMs: number; // Later steps must follow step one within this
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface FunnelStepResult {
+  eventName: string;
+  count: number; // Users who reached this step
+  conversionRate: number; // Fraction of users who reached step one
+  stepConversionRate: number; // Fraction of users who reached the previous step
+  medianTimeToConvert: number | null; // Ms since the previous step; null for step one
+}
+
+export interface FunnelResult {
+  steps: FunnelStepResult[];
+  executionTime: number;
+}
+
+export type RetentionInterval = 'day' | 'week' | 'month';
+
+export interface RetentionQuery {
+  tenantId: string;
+  startEvent?: EventMatcher; // Cohort by first occurrence; by UserRecord.firstSeen when absent
+  returnEvent: EventMatcher;
+  interval: RetentionInterval;
+  timezone?: string; // IANA zone for period boundaries, defaults to UTC
+  startTime: Date;
+  endTime: Date;
+  breakdownBy?: string; // UserRecord.properties key to split cohorts by
+}
+
+export interface RetentionCohort {
+  cohortStart: Date; // Start of the period the cohort entered in
+  group?: string | null; // Trait value, present when breakdownBy is requested
+  size: number;
+  retained: number[]; // Returning users per period; index 0 is the cohort's own period
+}
+
+export interface RetentionResult {
+  cohorts: RetentionCohort[];
+  executionTime: number;
+}
+
+export interface SessionQuery {
+  tenantId: string;
+  startTime: Date;
+  endTime: Date;
+  timeoutMs: number; // Inactivity gap that splits events lacking a sessionId
+  interval?: RetentionInterval; // Also break sessions down by start period
+  timezone?: string; // IANA zone for period boundaries, defaults to UTC
+}
+
+export interface SessionStats {
+  sessions: number;
+  users: number; // Distinct users with a session
+  bounces: number; // Sessions with a single event
+  bounceRate: number; // Fraction of sessions that bounced; 0 without sessions
+  averageDurationMs: number; // First to last event of a session
+  medianDurationMs: number | null; // null without sessions
+  averageEventsPerSession: number;
+}
+
+export interface SessionPeriodStats extends SessionStats {
+  periodStart: Date; // Start of the period the sessions started in
+}
+
+export interface SessionResult {
+  totals: SessionStats;
+  periods?: SessionPeriodStats[]; // Present when an interval is requested
   executionTime: number;
 }
 
@@ -190,28 +426,124 @@ export interface QueryError {
   requestId?: string;
 }
 
+export type ExportFormat = 'json' | 'ndjson' | 'csv';
+
+export interface ExportFilter {
+  tenantId: string;
+  userIds?: string[];
+  startTime?: Date;
+  endTime?: Date;
+  eventTypes?: string[];
+}
+
 export interface ExportResult {
-  format: 'json' | 'csv';
-  data: string;
-  recordCount: number;
+  format: ExportFormat;
+  contentType: string;
+  // Serialized output, produced lazily so large exports are never buffered
+  chunks: AsyncIterable<string>;
 }
 
 // HTTP API types
 export interface TrackRequest {
+  messageId?: string; // Client-supplied idempotency key
   event: string;
   properties?: Record<string, any>;
   timestamp?: string;
   userId?: string;
+  anonymousId?: string; // Pre-login identity, used when userId is absent
   sessionId?: string;
   deviceId?: string;
 }
 
-export interface IdentifyRequest {
+// Trait updates applied to the stored user atomically with the upsert. A
+// trait may appear in only one operator.
+export interface TraitOperations {
+  $set?: Record<string, any>; // Overwrite, like traits
+  $setOnce?: Record<string, any>; // Only when the trait is not set yet
+  $increment?: Record<string, number>; // Add to a number; missing counts as 0
+  $unset?: string[]; // Remove traits
+  $append?: Record<string, any>; // Add to the end of a list
+  $union?: Record<string, any>; // Add to a list unless already present
+}
+
+export interface GroupRequest {
+  groupId: string;
+  groupType?: string;
+  traits?: Record<string, any>;
+  userId?: string; // Joins the group
+  anonymousId?: string; // Joins the group when userId is absent
+  timestamp?: string;
+}
+
+export interface IdentifyRequest extends TraitOperations {
   userId: string;
+  anonymousId?: string; // Linked to userId as an alias
   traits?: Record<string, any>;
   timestamp?: string;
 }
 
+export interface AliasRequest {
+  userId: string; // Canonical user the alias joins
+  previousId: string; // Anonymous, device or earlier userId
+}
+
+export type BatchMessageType = 'track' | 'identify' | 'alias' | 'group';
+
+export interface BatchItem {
+  index: number; // Position in the submitted batch
+  type: string; // Message type as submitted
+  request?: TrackRequest | IdentifyRequest | AliasRequest | GroupRequest; // Present when the item validated
+  error?: string; // Present when the item failed validation
+}
+
+export interface BatchRequest {
+  items: BatchItem[];
+}
+
+export interface AggregateRequest {
+  metric: AggregationMetric;
+  property?: string;
+  groupBy?: string; // "eventName", "properties.<key>" or "groups.<groupType>"
+  interval?: AggregationInterval;
+  timezone?: string;
+  filter?: {
+    eventTypes?: string[];
+    userId?: string;
+    groupId?: string;
+    startDate?: string;
+    endDate?: string;
+    properties?: Record<string, any>;
+  };
+}
+
+export interface FunnelRequest {
+  steps: Array<{ event: string; properties?: Record<string, any> }>;
+  conversionWindowSeconds?: number;
+  startDate: string;
+  endDate: string;
+}
+
+export interface RetentionRequest {
+  startEvent?: { event: string; properties?: Record<string, any> };
+  returnEvent: { event: string; properties?: Record<string, any> };
+  interval: RetentionInterval;
+  timezone?: string;
+  startDate: string;
+  endDate: string;
+  breakdownBy?: string; // "properties.<trait>"
+}
+
+export interface BatchItemResult {
+  index: number;
+  type: string;
+  success: boolean;
+  eventId?: string;
+  userId?: string;
+  groupId?: string;
+  duplicate?: boolean;
+  error?: string;
+}
+
 export interface HealthResponse {
   status: 'healthy' | 'degraded' | 'unhealthy';
   version: string;
@@ -239,7 +571,8 @@ export type StorageType =
   | 'postgres'
   | 'dynamodb'
   | 'memory'
-  | 'redis';
+  | 'redis'
+  | 'sqlite';
 
 export interface Config {
   // Server configuration
@@ -249,6 +582,7 @@ export interface Config {
 
   // Security
   jwtSecret?: string;
+  cursorSecret?: string; // signs pagination cursors
   apiKeyHeader: string;
   corsOrigins: string[];
 
@@ -259,14 +593,23 @@ export interface Config {
     events: StorageType;
     users: StorageType;
     rateLimits: StorageType;
+    deduplication: StorageType;
+    sessions: StorageType;
+    groups: StorageType;
   };
 
   // File storage paths
   paths: {
     events: string;
     users: string;
+    groups: string;
+    sqlite: string; // database file shared by the sqlite adapters
+    deletions: string; // user deletion receipts, whatever the stores
   };
 
+  // Flat-file event partition size (partitions are cut in UTC)
+  eventsPartition: 'daily' | 'hourly';
+
   // Database URLs
   urls: {
     clickhouse?: string;
@@ -280,6 +623,17 @@ export interface Config {
     maxRequests: number; // requests per window
   };
 
+  // Deduplication
+  deduplication: {
+    ttlSeconds: number; // how long a messageId is remembered
+  };
+
+  // Sessionization
+  sessions: {
+    timeoutMinutes: number; // inactivity that ends a session
+    tenantTimeoutMinutes: Record<string, number>; // per-tenant overrides
+  };
+
   // Observability
   observability: {
     enableTracing: boolean;
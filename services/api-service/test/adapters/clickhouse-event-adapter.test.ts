@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { createClient, ClickHouseClient } from '@clickhouse/client';
+import { ClickHouseEventAdapter } from '../../src/adapters/clickhouse-event-adapter.js';
+import { makeEvent } from '../shared/test-utilities.js';
+
+// Requires a local server, e.g. CLICKHOUSE_TEST_URL=http://localhost:8123/default
+const CLICKHOUSE_TEST_URL = process.env.CLICKHOUSE_TEST_URL;
+const TEST_TABLE = 'events_adapter_test';
+
+describe.skipIf(!CLICKHOUSE_TEST_URL)('ClickHouseEventAdapter', () => {
+  let client: ClickHouseClient;
+  let adapter: ClickHouseEventAdapter;
+
+  beforeAll(async () => {
+    client = createClient({ url: CLICKHOUSE_TEST_URL });
+    await client.command({ query: `DROP TABLE IF EXISTS ${TEST_TABLE}` });
+    adapter = new ClickHouseEventAdapter(client, TEST_TABLE);
+    await adapter.initialize();
+  });
+
+  beforeEach(async () => {
+    await client.command({ query: `TRUNCATE TABLE ${TEST_TABLE}` });
+  });
+
+  afterAll(async () => {
+    await client.command({ query: `DROP TABLE IF EXISTS ${TEST_TABLE}` });
+    await adapter.close();
+    await client.close();
+  });
+
+  it('should round-trip an event', async () => {
+    const event = makeEvent({
+      properties: { page: '/home', nested: { depth: 2 } },
+      sessionId: 'session-1',
+      timestamp: new Date('2024-01-01T10:20:30.456Z'),
+    });
+
+    const result = await adapter.insert(event);
+    expect(result).toEqual({ success: true, eventId: 'evt-1' });
+
+    const { events } = await adapter.query({ tenantId: 'tenant-a' });
+    expect(events).toEqual([event]);
+  });
+
+  it('should isolate tenants', async () => {
+    await adapter.insertBatch([
+      makeEvent({ eventId: 'a' }),
+      makeEvent({ eventId: 'b', tenantId: 'tenant-b' }),
+    ]);
+
+    const result = await adapter.query({ tenantId: 'tenant-b' });
+    expect(result.events.map((event) => event.eventId)).toEqual(['b']);
+  });
+
+  it('should push filters, sorting and pagination down to SQL', async () => {
+    const results = await adapter.insertBatch(
+      Array.from({ length: 6 }, (_, i) =>
+        makeEvent({
+          eventId: `evt-${i}`,
+          eventName: i % 2 === 0 ? 'signup' : 'page_view',
+          userId: i < 4 ? 'user-1' : 'user-2',
+          properties: { plan: i % 3 === 0 ? 'pro' : 'free' },
+          timestamp: new Date(Date.UTC(2024, 0, i + 1)),
+        })
+      )
+    );
+    expect(results.map((result) => result.eventId)).toEqual([
+      'evt-0',
+      'evt-1',
+      'evt-2',
+      'evt-3',
+      'evt-4',
+      'evt-5',
+    ]);
+
+    const byName = await adapter.query({
+      tenantId: 'tenant-a',
+      eventName: 'signup',
+      limit: 2,
+    });
+    expect(byName.totalCount).toBe(3);
+    expect(byName.events.map((event) => event.eventId)).toEqual([
+      'evt-4',
+      'evt-2',
+    ]);
+    expect(byName.hasMore).toBe(true);
+    expect(byName.pagination.nextOffset).toBe(2);
+
+    const windowed = await adapter.query({
+      tenantId: 'tenant-a',
+      userId: 'user-1',
+      startTime: new Date('2024-01-02T00:00:00Z'),
+      endTime: new Date('2024-01-03T00:00:00Z'),
+      sortBy: 'timestamp',
+      sortOrder: 'asc',
+    });
+    expect(windowed.events.map((event) => event.eventId)).toEqual([
+      'evt-1',
+      'evt-2',
+    ]);
+
+    const byProperty = await adapter.query({
+      tenantId: 'tenant-a',
+      eventTypes: ['signup', 'page_view'],
+      properties: { plan: 'pro' },
+    });
+    expect(byProperty.events.map((event) => event.eventId)).toEqual([
+      'evt-3',
+      'evt-0',
+    ]);
+  });
+
+  it('should export events within a time range', async () => {
+    await adapter.insertBatch([
+      makeEvent({ eventId: 'in-range' }),
+      makeEvent({
+        eventId: 'out-of-range',
+        timestamp: new Date('2024-02-01T00:00:00Z'),
+      }),
+    ]);
+
+    const result = await adapter.export(
+      {
+        tenantId: 'tenant-a',
+        startTime: new Date('2024-01-01T00:00:00Z'),
+        endTime: new Date('2024-01-31T23:59:59Z'),
+      },
+      'csv'
+    );
+    let data = '';
+    for await (const chunk of result.chunks) {
+      data += chunk;
+    }
+
+    expect(result.contentType).toMatch(/^text\/csv/);
+    expect(data.trim().split('\n')).toHaveLength(2);
+    expect(data).toContain('in-range');
+    expect(data).not.toContain('out-of-range');
+  });
+
+  it('should aggregate with time buckets and groups in SQL', async () => {
+    await adapter.insertBatch(
+      Array.from({ length: 6 }, (_, i) =>
+        makeEvent({
+          eventId: `evt-${i}`,
+          userId: `user-${i % 2}`,
+          properties: { amount: i, ...(i < 4 && { plan: 'pro' }) },
+          timestamp: new Date(Date.UTC(2024, 0, 1, i * 6)),
+        })
+      )
+    );
+
+    const { buckets } = await adapter.aggregate({
+      filter: { tenantId: 'tenant-a' },
+      metric: 'sum',
+      property: 'amount',
+      groupBy: { property: 'plan' },
+      interval: 'day',
+      timezone: 'UTC',
+    });
+    const byKey = Object.fromEntries(
+      buckets.map((bucket) => [
+        `${bucket.time!.toISOString()} ${bucket.group}`,
+        bucket.value,
+      ])
+    );
+
+    expect(byKey).toEqual({
+      '2024-01-01T00:00:00.000Z pro': 6,
+      '2024-01-02T00:00:00.000Z null': 9,
+    });
+  });
+
+  it("should delete only the user's events within the tenant", async () => {
+    await adapter.insertBatch([
+      makeEvent({ eventId: 'a' }),
+      makeEvent({ eventId: 'b', userId: 'user-2' }),
+      makeEvent({ eventId: 'c', tenantId: 'tenant-b' }),
+    ]);
+
+    expect(await adapter.deleteUserEvents('tenant-a', 'user-1')).toEqual(['a']);
+
+    const remaining = await adapter.query({ tenantId: 'tenant-a' });
+    expect(remaining.events.map((event) => event.eventId)).toEqual(['b']);
+    const otherTenant = await adapter.query({ tenantId: 'tenant-b' });
+    expect(otherTenant.events.map((event) => event.eventId)).toEqual(['c']);
+  });
+
+  it('should report events inserted while deleting', async () => {
+    await adapter.insert(makeEvent({ eventId: 'a' }));
+    // Insert another event right after the first read of the user's events
+    let inserted = false;
+    const racing = new ClickHouseEventAdapter(
+      new Proxy(client, {
+        get(target, key, receiver) {
+          if (key !== 'query') return Reflect.get(target, key, receiver);
+          return async (params: Parameters<ClickHouseClient['query']>[0]) => {
+            const resultSet = await target.query(params);
+            if (!inserted) {
+              inserted = true;
+              await adapter.insert(makeEvent({ eventId: 'late' }));
+            }
+            return resultSet;
+          };
+        },
+      }),
+      TEST_TABLE
+    );
+
+    const deleted = await racing.deleteUserEvents('tenant-a', 'user-1');
+
+    expect(deleted.sort()).toEqual(['a', 'late']);
+    const remaining = await adapter.query({ tenantId: 'tenant-a' });
+    expect(remaining.events).toEqual([]);
+  });
+
+  it('should report health', async () => {
+    expect(await adapter.healthCheck()).toBe(true);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateEvents,
+  bucketStart,
+  bucketsBetween,
+} from '../../src/adapters/event-aggregation.js';
+import { AnalyticsEvent } from '../../src/types/core.js';
+
+const events: AnalyticsEvent[] = [
+  ['evt-1', 'user-1', 'purchase', { amount: 10, plan: 'pro' }, 1],
+  ['evt-2', 'user-2', 'purchase', { amount: 5, plan: 'free' }, 2],
+  ['evt-3', 'user-1', 'purchase', { amount: 'n/a', plan: 'pro' }, 25],
+  ['evt-4', undefined, 'page_view', { plan: 3 }, 26],
+].map(([eventId, userId, eventName, properties, hour]) => ({
+  eventId: eventId as string,
+  tenantId: 'tenant-a',
+  ...(userId !== undefined && { userId: userId as string }),
+  eventName: eventName as string,
+  properties: properties as Record<string, any>,
+  timestamp: new Date(Date.UTC(2024, 0, 1, hour as number)),
+  receivedAt: new Date(Date.UTC(2024, 0, 1, hour as number)),
+}));
+
+const filter = { tenantId: 'tenant-a' };
+
+function utc(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+describe('event aggregation', () => {
+  describe('bucketStart', () => {
+    it('should truncate to the interval in UTC', () => {
+      const ms = utc('2024-03-14T15:09:26.535Z');
+
+      expect(bucketStart(ms, 'minute', 'UTC')).toBe(
+        utc('2024-03-14T15:09:00Z')
+      );
+      expect(bucketStart(ms, 'hour', 'UTC')).toBe(utc('2024-03-14T15:00:00Z'));
+      expect(bucketStart(ms, 'day', 'UTC')).toBe(utc('2024-03-14T00:00:00Z'));
+      expect(bucketStart(ms, 'week', 'UTC')).toBe(utc('2024-03-11T00:00:00Z'));
+      expect(bucketStart(ms, 'month', 'UTC')).toBe(utc('2024-03-01T00:00:00Z'));
+    });
+
+    it('should align days, weeks and months to local midnight', () => {
+      // 02:00 UTC on the 1st is still the previous day in New York
+      const ms = utc('2024-09-01T02:00:00Z');
+
+      expect(bucketStart(ms, 'day', 'America/New_York')).toBe(
+        utc('2024-08-31T04:00:00Z')
+      );
+      expect(bucketStart(ms, 'week', 'America/New_York')).toBe(
+        utc('2024-08-26T04:00:00Z')
+      );
+      expect(bucketStart(ms, 'month', 'America/New_York')).toBe(
+        utc('2024-08-01T04:00:00Z')
+      );
+      expect(bucketStart(ms, 'hour', 'Asia/Kolkata')).toBe(
+        utc('2024-09-01T01:30:00Z')
+      );
+    });
+
+    it('should use the offset in effect at the bucket start across DST', () => {
+      // Berlin switches to summer time on 2024-03-31
+      expect(
+        bucketStart(utc('2024-03-31T12:00:00Z'), 'day', 'Europe/Berlin')
+      ).toBe(utc('2024-03-30T23:00:00Z'));
+      expect(
+        bucketStart(utc('2024-04-10T12:00:00Z'), 'month', 'Europe/Berlin')
+      ).toBe(utc('2024-03-31T22:00:00Z'));
+    });
+
+    it('should step back across month and year boundaries for weeks', () => {
+      expect(bucketStart(utc('2025-01-01T12:00:00Z'), 'week', 'UTC')).toBe(
+        utc('2024-12-30T00:00:00Z')
+      );
+    });
+  });
+
+  describe('bucketsBetween', () => {
+    it('should count calendar periods in the timezone', () => {
+      const from = utc('2024-01-31T23:30:00Z');
+      const to = utc('2024-03-04T00:30:00Z');
+
+      expect(bucketsBetween(from, to, 'day', 'UTC')).toBe(33);
+      expect(bucketsBetween(from, to, 'week', 'UTC')).toBe(5);
+      expect(bucketsBetween(from, to, 'month', 'UTC')).toBe(2);
+      // Already February 1st in Tokyo
+      expect(bucketsBetween(from, to, 'month', 'Asia/Tokyo')).toBe(1);
+      expect(bucketsBetween(to, from, 'day', 'UTC')).toBe(-33);
+    });
+
+    it('should count days across DST changes', () => {
+      expect(
+        bucketsBetween(
+          utc('2024-03-30T12:00:00Z'),
+          utc('2024-04-01T12:00:00Z'),
+          'day',
+          'Europe/Berlin'
+        )
+      ).toBe(2);
+    });
+  });
+
+  describe('aggregateEvents', () => {
+    it('should compute each metric over numeric values only', async () => {
+      const value = async (
+        metric: 'count' | 'uniqueUsers' | 'sum' | 'avg' | 'min' | 'max'
+      ) =>
+        (
+          await aggregateEvents(events, { filter, metric, property: 'amount' })
+        )[0]!.value;
+
+      expect(await value('count')).toBe(4);
+      expect(await value('uniqueUsers')).toBe(2);
+      expect(await value('sum')).toBe(15);
+      expect(await value('avg')).toBe(7.5);
+      expect(await value('min')).toBe(5);
+      expect(await value('max')).toBe(10);
+    });
+
+    it('should return a single empty bucket when nothing matches', async () => {
+      expect(await aggregateEvents([], { filter, metric: 'count' })).toEqual([
+        { value: 0 },
+      ]);
+      expect(
+        await aggregateEvents([], { filter, metric: 'avg', property: 'amount' })
+      ).toEqual([{ value: null }]);
+      expect(
+        await aggregateEvents([], { filter, metric: 'count', interval: 'day' })
+      ).toEqual([]);
+    });
+
+    it('should group by property value and time bucket', async () => {
+      const buckets = await aggregateEvents(events, {
+        filter,
+        metric: 'count',
+        groupBy: { property: 'plan' },
+        interval: 'day',
+      });
+
+      expect(buckets).toEqual([
+        { time: new Date('2024-01-01T00:00:00Z'), group: 'pro', value: 1 },
+        { time: new Date('2024-01-01T00:00:00Z'), group: 'free', value: 1 },
+        { time: new Date('2024-01-02T00:00:00Z'), group: 'pro', value: 1 },
+        { time: new Date('2024-01-02T00:00:00Z'), group: '3', value: 1 },
+      ]);
+    });
+
+    it('should put events without the property in a null group', async () => {
+      const buckets = await aggregateEvents(events, {
+        filter,
+        metric: 'count',
+        groupBy: { property: 'amount' },
+      });
+
+      expect(buckets).toContainEqual({ group: null, value: 1 });
+      expect(buckets).toContainEqual({ group: '10', value: 1 });
+    });
+
+    it('should count events under each group their user belongs to', async () => {
+      const groups: Record<string, string[]> = {
+        'user-1': ['acme', 'globex'],
+        'user-2': ['acme'],
+      };
+
+      const buckets = await aggregateEvents(
+        events,
+        { filter, metric: 'uniqueUsers' },
+        (event) => groups[event.userId ?? ''] ?? []
+      );
+
+      expect(buckets).toEqual([
+        { group: 'acme', value: 2 },
+        { group: 'globex', value: 1 },
+        { group: null, value: 0 },
+      ]);
+      expect(
+        await aggregateEvents([], { filter, metric: 'count' }, () => [])
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createExportResult } from '../../src/adapters/event-export.js';
+import { AnalyticsEvent, ExportFormat } from '../../src/types/core.js';
+import { makeEvent } from '../shared/test-utilities.js';
+
+async function* stream(events: AnalyticsEvent[]) {
+  yield* events;
+}
+
+async function collect(events: AnalyticsEvent[], format: ExportFormat) {
+  const chunks: string[] = [];
+  for await (const chunk of createExportResult(stream(events), format).chunks) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('event export serialization', () => {
+  it('should produce valid JSON for empty and non-empty exports', async () => {
+    expect(JSON.parse((await collect([], 'json')).join(''))).toEqual([]);
+
+    const data = (
+      await collect([makeEvent(), makeEvent({ eventId: 'evt-2' })], 'json')
+    ).join('');
+    expect(JSON.parse(data).map((event: any) => event.eventId)).toEqual([
+      'evt-1',
+      'evt-2',
+    ]);
+  });
+
+  it('should split large exports into chunks', async () => {
+    const events = Array.from({ length: 1200 }, (_, i) =>
+      makeEvent({ eventId: `evt-${i}` })
+    );
+    const chunks = await collect(events, 'ndjson');
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('').trim().split('\n')).toHaveLength(1200);
+  });
+
+  it('should quote CSV fields containing separators and quotes', async () => {
+    const [data] = await collect(
+      [makeEvent({ properties: { title: 'Hello, "world"' } })],
+      'csv'
+    );
+    const [header, row] = data!.trim().split('\n');
+
+    expect(header).toBe(
+      'eventId,tenantId,userId,eventName,timestamp,receivedAt,sessionId,deviceId,properties'
+    );
+    expect(row).toBe(
+      'evt-1,tenant-a,user-1,page_view,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z,,,"{""title"":""Hello, \\""world\\""""}"'
+    );
+  });
+});
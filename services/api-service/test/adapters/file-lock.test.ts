@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  LOCK_FILE_SUFFIX,
+  withAdvisoryLock,
+} from '../../src/adapters/file-lock.js';
+
+describe('withAdvisoryLock', () => {
+  let dataDir: string;
+  let counterPath: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(join(tmpdir(), 'nodash-file-lock-'));
+    counterPath = join(dataDir, 'counter.json');
+    await fs.writeFile(counterPath, '0');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const increment = () =>
+    withAdvisoryLock(
+      counterPath,
+      async () => {
+        const count = Number(await fs.readFile(counterPath, 'utf8'));
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        await fs.writeFile(counterPath, String(count + 1));
+      },
+      { retryMs: 1 }
+    );
+
+  it('should run one holder at a time', async () => {
+    await Promise.all(Array.from({ length: 20 }, increment));
+
+    expect(await fs.readFile(counterPath, 'utf8')).toBe('20');
+    expect(await fs.readdir(dataDir)).toEqual(['counter.json']);
+  });
+
+  it('should release the lock when the update fails', async () => {
+    await expect(
+      withAdvisoryLock(counterPath, async () => {
+        throw new Error('write failed');
+      })
+    ).rejects.toThrow('write failed');
+
+    await increment();
+    expect(await fs.readFile(counterPath, 'utf8')).toBe('1');
+  });
+
+  it('should take over a lock left by a crashed holder', async () => {
+    const lockPath = counterPath + LOCK_FILE_SUFFIX;
+    await fs.writeFile(lockPath, '{}');
+    const longAgo = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+
+    await Promise.all(Array.from({ length: 20 }, increment));
+
+    expect(await fs.readFile(counterPath, 'utf8')).toBe('20');
+    expect(await fs.readdir(dataDir)).toEqual(['counter.json']);
+  });
+
+  it('should keep the lock of a holder that runs longer than staleMs', async () => {
+    const options = { retryMs: 1, staleMs: 30 };
+    const order: string[] = [];
+
+    await Promise.all([
+      withAdvisoryLock(
+        counterPath,
+        async () => {
+          order.push('first');
+          await new Promise((resolve) => setTimeout(resolve, 150));
+          order.push('first done');
+        },
+        options
+      ),
+      new Promise((resolve) => setTimeout(resolve, 10)).then(() =>
+        withAdvisoryLock(counterPath, async () => order.push('second'), options)
+      ),
+    ]);
+
+    expect(order).toEqual(['first', 'first done', 'second']);
+    expect(await fs.readdir(dataDir)).toEqual(['counter.json']);
+  });
+
+  it('should put back a fresh lock it moved aside once the file is free', async () => {
+    const lockPath = counterPath + LOCK_FILE_SUFFIX;
+    const longAgo = new Date(Date.now() - 60_000);
+    await fs.writeFile(lockPath, JSON.stringify({ token: 'crashed' }));
+    await fs.utimes(lockPath, longAgo, longAgo);
+
+    // Between this waiter finding the lock stale and moving it, another
+    // waiter takes it over; while it is moved aside a third locks the file
+    const rename = fs.rename;
+    const spy = vi
+      .spyOn(fs, 'rename')
+      .mockImplementationOnce(async (from, to) => {
+        await fs.writeFile(lockPath, JSON.stringify({ token: 'second' }));
+        await rename(from, to);
+        await fs.writeFile(lockPath, JSON.stringify({ token: 'third' }));
+        setTimeout(() => void fs.unlink(lockPath), 20);
+      });
+
+    const waiter = withAdvisoryLock(counterPath, async () => undefined, {
+      retryMs: 1,
+      timeoutMs: 200,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    spy.mockRestore();
+
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf8'))).toEqual({
+      token: 'second',
+    });
+    await fs.unlink(lockPath);
+    await waiter;
+    expect(await fs.readdir(dataDir)).toEqual(['counter.json']);
+  });
+
+  it('should give up waiting for a live lock after the timeout', async () => {
+    await fs.writeFile(counterPath + LOCK_FILE_SUFFIX, '{}');
+
+    await expect(
+      withAdvisoryLock(counterPath, async () => undefined, {
+        retryMs: 1,
+        timeoutMs: 20,
+      })
+    ).rejects.toThrow(/Timed out waiting for lock/);
+  });
+});
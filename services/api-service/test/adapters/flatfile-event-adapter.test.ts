@@ -0,0 +1,364 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FlatFileEventAdapter } from '../../src/adapters/flatfile-event-adapter.js';
+import { AnalyticsEvent } from '../../src/types/core.js';
+import { makeEvent } from '../shared/test-utilities.js';
+
+const day = (date: number, hour: number = 12) =>
+  new Date(Date.UTC(2024, 0, date, hour));
+
+// Reads of this file fail after the first chunk, like a disk error would
+const readFailure = vi.hoisted(() => ({
+  path: undefined as string | undefined,
+}));
+
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>();
+  const createReadStream = (
+    path: string,
+    options: { encoding?: BufferEncoding } = {}
+  ) => {
+    if (path !== readFailure.path) {
+      return actual.createReadStream(path, options);
+    }
+    const stream = actual.createReadStream(path, {
+      ...options,
+      highWaterMark: 64,
+    });
+    stream.once('data', () => stream.destroy(new Error('EIO: i/o error')));
+    return stream;
+  };
+  return { ...actual, createReadStream };
+});
+
+describe('FlatFileEventAdapter', () => {
+  let dataDir: string;
+  let adapter: FlatFileEventAdapter;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(join(tmpdir(), 'nodash-flatfile-events-'));
+    adapter = new FlatFileEventAdapter(dataDir);
+    await adapter.insertBatch([
+      makeEvent({ eventId: 'day-1', timestamp: day(1) }),
+      makeEvent({ eventId: 'day-2', timestamp: day(2) }),
+      makeEvent({ eventId: 'day-3a', timestamp: day(3, 9) }),
+      makeEvent({ eventId: 'day-3b', timestamp: day(3, 18) }),
+    ]);
+  });
+
+  afterEach(async () => {
+    readFailure.path = undefined;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should skip partitions outside the requested range', async () => {
+    // An event filed under the wrong day is only found if that file is read
+    const misfiled = makeEvent({ eventId: 'misfiled', timestamp: day(2) });
+    await fs.appendFile(
+      join(dataDir, 'tenant-a', '2024', '01', 'events-2024-01-01.jsonl'),
+      JSON.stringify(misfiled) + '\n'
+    );
+
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      startTime: day(2, 0),
+      endTime: day(2, 23),
+    });
+
+    expect(result.events.map((event) => event.eventId)).toEqual(['day-2']);
+  });
+
+  it('should stop reading once the newest partitions fill the page', async () => {
+    const result = await adapter.query({ tenantId: 'tenant-a', limit: 2 });
+
+    expect(result.events.map((event) => event.eventId)).toEqual([
+      'day-3b',
+      'day-3a',
+    ]);
+    expect(result.totalCount).toBe(2);
+    expect(result.totalCountIsLowerBound).toBe(true);
+    expect(result.hasMore).toBe(true);
+    expect(result.pagination.nextOffset).toBe(2);
+  });
+
+  it('should page through partitions in ascending order', async () => {
+    const firstPage = await adapter.query({
+      tenantId: 'tenant-a',
+      sortBy: 'timestamp',
+      sortOrder: 'asc',
+      limit: 2,
+    });
+    const secondPage = await adapter.query({
+      tenantId: 'tenant-a',
+      sortBy: 'timestamp',
+      sortOrder: 'asc',
+      limit: 2,
+      offset: 2,
+    });
+
+    expect(firstPage.events.map((event) => event.eventId)).toEqual([
+      'day-1',
+      'day-2',
+    ]);
+    expect(secondPage.events.map((event) => event.eventId)).toEqual([
+      'day-3a',
+      'day-3b',
+    ]);
+    expect(secondPage.hasMore).toBe(false);
+  });
+
+  it('should resume after a cursor without reading earlier partitions', async () => {
+    // An event filed under the wrong day is only found if that file is read
+    const misfiled = makeEvent({ eventId: 'misfiled', timestamp: day(1, 6) });
+    await fs.appendFile(
+      join(dataDir, 'tenant-a', '2024', '01', 'events-2024-01-03.jsonl'),
+      JSON.stringify(misfiled) + '\n'
+    );
+
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      after: { value: day(2).getTime(), id: 'day-2' },
+    });
+
+    expect(result.events.map((event) => event.eventId)).toEqual(['day-1']);
+    expect(result.totalCount).toBe(1);
+    expect(result.hasMore).toBe(false);
+  });
+
+  it('should read every partition when results are not time ordered', async () => {
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      sortBy: 'eventName',
+      limit: 1,
+    });
+
+    expect(result.totalCount).toBe(4);
+    expect(result.totalCountIsLowerBound).toBe(undefined);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should partition by UTC day regardless of the server timezone', async () => {
+    const files = await fs.readdir(join(dataDir, 'tenant-a', '2024', '01'));
+
+    expect(files.sort()).toEqual([
+      'events-2024-01-01.jsonl',
+      'events-2024-01-02.jsonl',
+      'events-2024-01-03.jsonl',
+    ]);
+  });
+
+  it('should write hourly partitions when configured', async () => {
+    const hourly = new FlatFileEventAdapter(join(dataDir, 'hourly'), 'hourly');
+    await hourly.insert(
+      makeEvent({
+        eventId: 'late',
+        timestamp: new Date('2024-01-31T23:30:00Z'),
+      })
+    );
+
+    const result = await hourly.query({
+      tenantId: 'tenant-a',
+      startTime: new Date('2024-01-31T23:00:00Z'),
+      endTime: new Date('2024-01-31T23:59:59Z'),
+    });
+
+    expect(result.events.map((event) => event.eventId)).toEqual(['late']);
+    await expect(
+      fs.access(
+        join(
+          dataDir,
+          'hourly',
+          'tenant-a',
+          '2024',
+          '01',
+          'events-2024-01-31-23.jsonl'
+        )
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it('should re-bucket misplaced events into UTC partitions', async () => {
+    // Simulate a file written by a server at UTC-8, where 2024-01-02T05:00Z
+    // was still January 1st locally, plus a copy left by an interrupted run
+    const legacyDir = join(dataDir, 'tenant-b', '2024', '01');
+    const legacyEvent = {
+      ...makeEvent({
+        eventId: 'legacy',
+        timestamp: new Date('2024-01-02T05:00:00Z'),
+      }),
+      tenantId: 'tenant-b',
+    };
+    await fs.mkdir(legacyDir, { recursive: true });
+    await fs.writeFile(
+      join(legacyDir, 'events-2024-01-01.jsonl'),
+      JSON.stringify(legacyEvent) + '\n' + JSON.stringify(legacyEvent) + '\n'
+    );
+    await fs.writeFile(
+      join(legacyDir, 'events-2024-01-02.jsonl.repartition'),
+      'stale\n'
+    );
+
+    const result = await adapter.repartition();
+
+    expect(result).toMatchObject({
+      tenants: 2,
+      eventsWritten: 5,
+      duplicatesDropped: 1,
+    });
+    expect(await fs.readdir(legacyDir)).toEqual(['events-2024-01-02.jsonl']);
+
+    const tenantA = await adapter.query({ tenantId: 'tenant-a' });
+    expect(tenantA.events.map((event) => event.eventId)).toEqual([
+      'day-3b',
+      'day-3a',
+      'day-2',
+      'day-1',
+    ]);
+
+    // Running again changes nothing
+    const rerun = await adapter.repartition();
+    expect(rerun).toMatchObject({ eventsWritten: 5, duplicatesDropped: 0 });
+  });
+
+  it("should export only the tenant's events within the range", async () => {
+    await adapter.insert({
+      ...makeEvent({ eventId: 'other', timestamp: day(2) }),
+      tenantId: 'tenant-b',
+    });
+
+    const result = await adapter.export(
+      { tenantId: 'tenant-a', startTime: day(2, 0), endTime: day(3, 12) },
+      'json'
+    );
+    let data = '';
+    for await (const chunk of result.chunks) {
+      data += chunk;
+    }
+
+    expect(
+      JSON.parse(data).map((event: AnalyticsEvent) => event.eventId)
+    ).toEqual(['day-2', 'day-3a']);
+  });
+
+  it('should export in time order within a partition', async () => {
+    // Late-arriving event appended after newer ones in the same file
+    await adapter.insert({
+      ...makeEvent({ eventId: 'day-3-early', timestamp: day(3, 1) }),
+      eventName: 'signup',
+    });
+
+    const result = await adapter.export(
+      {
+        tenantId: 'tenant-a',
+        startTime: day(3, 0),
+        eventTypes: ['page_view', 'signup'],
+      },
+      'ndjson'
+    );
+    let data = '';
+    for await (const chunk of result.chunks) {
+      data += chunk;
+    }
+
+    expect(
+      data
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).eventId)
+    ).toEqual(['day-3-early', 'day-3a', 'day-3b']);
+  });
+
+  it("should rewrite only the partitions holding the user's events", async () => {
+    await adapter.insertBatch([
+      {
+        ...makeEvent({ eventId: 'other-1', timestamp: day(1) }),
+        userId: 'user-2',
+      },
+      {
+        ...makeEvent({ eventId: 'other-5', timestamp: day(5) }),
+        userId: 'user-2',
+      },
+      {
+        ...makeEvent({ eventId: 'other-tenant', timestamp: day(2) }),
+        tenantId: 'tenant-b',
+      },
+    ]);
+    // A partition without the user's events keeps its file untouched
+    const untouched = join(
+      dataDir,
+      'tenant-a',
+      '2024',
+      '01',
+      'events-2024-01-05.jsonl'
+    );
+    const { mtimeMs } = await fs.stat(untouched);
+
+    const deleted = await adapter.deleteUserEvents('tenant-a', 'user-1');
+
+    expect(deleted.sort()).toEqual(['day-1', 'day-2', 'day-3a', 'day-3b']);
+    const { events } = await adapter.query({ tenantId: 'tenant-a' });
+    expect(events.map((event) => event.eventId)).toEqual([
+      'other-5',
+      'other-1',
+    ]);
+    expect((await adapter.query({ tenantId: 'tenant-b' })).totalCount).toBe(1);
+    expect((await fs.stat(untouched)).mtimeMs).toBe(mtimeMs);
+    expect(
+      await fs.readdir(join(dataDir, 'tenant-a', '2024', '01'))
+    ).not.toContain('events-2024-01-01.jsonl.erasure');
+  });
+
+  it('should fail rather than drop what a failed read left unread', async () => {
+    await adapter.insertBatch(
+      Array.from({ length: 20 }, (_, i) =>
+        makeEvent({
+          eventId: `other-${i}`,
+          userId: 'user-2',
+          timestamp: day(2),
+        })
+      )
+    );
+    const partition = join(
+      dataDir,
+      'tenant-a',
+      '2024',
+      '01',
+      'events-2024-01-02.jsonl'
+    );
+    const content = await fs.readFile(partition, 'utf8');
+    readFailure.path = partition;
+
+    await expect(
+      adapter.deleteUserEvents('tenant-a', 'user-1')
+    ).rejects.toThrow('EIO');
+    const result = await adapter.export(
+      { tenantId: 'tenant-a', startTime: day(2, 0) },
+      'ndjson'
+    );
+    await expect(
+      (async () => {
+        for await (const chunk of result.chunks) void chunk;
+      })()
+    ).rejects.toThrow('EIO');
+
+    expect(await fs.readFile(partition, 'utf8')).toBe(content);
+  });
+
+  it('should not lose events inserted while partitions are rewritten', async () => {
+    const [deleted] = await Promise.all([
+      adapter.deleteUserEvents('tenant-a', 'user-1'),
+      ...Array.from({ length: 20 }, (_, i) =>
+        adapter.insert({
+          ...makeEvent({ eventId: `late-${i}`, timestamp: day(2) }),
+          userId: 'user-2',
+        })
+      ),
+    ]);
+
+    expect(deleted).toHaveLength(4);
+    const { totalCount } = await adapter.query({ tenantId: 'tenant-a' });
+    expect(totalCount).toBe(20);
+  });
+});
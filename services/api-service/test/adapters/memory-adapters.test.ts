@@ -0,0 +1,478 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { MemoryEventAdapter } from '../../src/adapters/memory-event-adapter.js';
+import { MemoryUserAdapter } from '../../src/adapters/memory-user-adapter.js';
+import { MemoryGroupAdapter } from '../../src/adapters/memory-group-adapter.js';
+import { FlatFileEventAdapter } from '../../src/adapters/flatfile-event-adapter.js';
+import { FlatFileUserAdapter } from '../../src/adapters/flatfile-user-adapter.js';
+import { FlatFileGroupAdapter } from '../../src/adapters/flatfile-group-adapter.js';
+import {
+  AggregationBucket,
+  AggregationQuery,
+  AnalyticsEvent,
+  GroupRecord,
+  QueryFilter,
+  UserQueryFilter,
+  UserRecord,
+} from '../../src/types/core.js';
+
+const events: AnalyticsEvent[] = Array.from({ length: 8 }, (_, i) => ({
+  eventId: `evt-${i}`,
+  tenantId: i === 7 ? 'tenant-b' : 'tenant-a',
+  userId: i < 4 ? 'user-1' : 'user-2',
+  eventName: i % 2 === 0 ? 'signup' : 'page_view',
+  properties: { plan: i % 3 === 0 ? 'pro' : 'free', seats: i },
+  timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+  receivedAt: new Date(Date.UTC(2024, 0, 1, i, 0, 1)),
+}));
+
+const users: UserRecord[] = Array.from({ length: 5 }, (_, i) => ({
+  userId: `user-${i}`,
+  tenantId: 'tenant-a',
+  properties: { plan: i % 2 === 0 ? 'pro' : 'free' },
+  firstSeen: new Date(Date.UTC(2024, 0, 1)),
+  lastSeen: new Date(Date.UTC(2024, 0, i + 1)),
+  sessionCount: i,
+  eventCount: 10 - i,
+}));
+
+const eventFilters: QueryFilter[] = [
+  { tenantId: 'tenant-a' },
+  { tenantId: 'tenant-a', eventName: 'signup', limit: 2, offset: 1 },
+  { tenantId: 'tenant-a', eventTypes: ['page_view'], userId: 'user-2' },
+  { tenantId: 'tenant-a', eventName: 'signup', userIds: ['user-1', 'anon'] },
+  {
+    tenantId: 'tenant-a',
+    startTime: new Date(Date.UTC(2024, 0, 1, 2)),
+    endTime: new Date(Date.UTC(2024, 0, 1, 5)),
+  },
+  { tenantId: 'tenant-a', properties: { plan: 'pro' } },
+  { tenantId: 'tenant-a', sortBy: 'eventName', sortOrder: 'asc' },
+  {
+    tenantId: 'tenant-a',
+    where: {
+      or: [
+        { property: 'seats', operator: 'gte', value: 5 },
+        { property: 'plan', operator: 'in', value: ['pro'] },
+      ],
+    },
+    limit: 3,
+  },
+  {
+    tenantId: 'tenant-a',
+    after: { value: Date.UTC(2024, 0, 1, 4), id: 'evt-4' },
+    limit: 2,
+  },
+  {
+    tenantId: 'tenant-a',
+    sortBy: 'eventName',
+    sortOrder: 'desc',
+    after: { value: 'signup', id: 'evt-2' },
+  },
+  { tenantId: 'tenant-b' },
+  { tenantId: 'tenant-c' },
+];
+
+const userFilters: UserQueryFilter[] = [
+  { tenantId: 'tenant-a', sortBy: 'lastSeen', sortOrder: 'desc' },
+  { tenantId: 'tenant-a', properties: { plan: 'pro' }, sortBy: 'eventCount' },
+  {
+    tenantId: 'tenant-a',
+    activeSince: new Date(Date.UTC(2024, 0, 3)),
+    sortBy: 'sessionCount',
+    limit: 2,
+  },
+  {
+    tenantId: 'tenant-a',
+    where: { property: 'plan', operator: 'neq', value: 'pro' },
+  },
+  { tenantId: 'tenant-a', after: { value: 'user-1', id: 'user-1' } },
+  {
+    tenantId: 'tenant-a',
+    sortBy: 'firstSeen',
+    sortOrder: 'desc',
+    after: { value: Date.UTC(2024, 0, 1), id: 'user-2' },
+  },
+  { tenantId: 'tenant-b' },
+];
+
+const aggregationQueries: AggregationQuery[] = [
+  { filter: { tenantId: 'tenant-a' }, metric: 'count' },
+  {
+    filter: { tenantId: 'tenant-a', eventTypes: ['signup'] },
+    metric: 'sum',
+    property: 'seats',
+    groupBy: { property: 'plan' },
+  },
+  {
+    filter: {
+      tenantId: 'tenant-a',
+      where: { property: 'plan', operator: 'startsWith', value: 'fr' },
+    },
+    metric: 'max',
+    property: 'seats',
+  },
+  {
+    filter: { tenantId: 'tenant-a' },
+    metric: 'uniqueUsers',
+    groupBy: { field: 'eventName' },
+    interval: 'hour',
+    timezone: 'Asia/Kolkata',
+  },
+];
+
+function sortedBuckets(buckets: AggregationBucket[]) {
+  return [...buckets].sort((a, b) =>
+    `${a.time?.toISOString()}${a.group}`.localeCompare(
+      `${b.time?.toISOString()}${b.group}`
+    )
+  );
+}
+
+function withoutTiming<T extends { executionTime: number }>(result: T) {
+  return { ...result, executionTime: 0 };
+}
+
+describe('Memory adapters', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(join(tmpdir(), 'nodash-memory-adapters-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should answer event queries exactly like the flat-file adapter', async () => {
+    const memory = new MemoryEventAdapter();
+    const flatFile = new FlatFileEventAdapter(join(dataDir, 'events'));
+
+    await memory.insertBatch(events);
+    await flatFile.insertBatch(events);
+
+    for (const filter of eventFilters) {
+      expect(withoutTiming(await memory.query(filter))).toEqual(
+        withoutTiming(await flatFile.query(filter))
+      );
+    }
+  });
+
+  it('should aggregate exactly like the flat-file adapter', async () => {
+    const memory = new MemoryEventAdapter();
+    const flatFile = new FlatFileEventAdapter(join(dataDir, 'events'));
+
+    await memory.insertBatch(events);
+    await flatFile.insertBatch(events);
+
+    for (const query of aggregationQueries) {
+      expect(sortedBuckets((await memory.aggregate(query)).buckets)).toEqual(
+        sortedBuckets((await flatFile.aggregate(query)).buckets)
+      );
+    }
+  });
+
+  it('should answer user queries exactly like the flat-file adapter', async () => {
+    const memory = new MemoryUserAdapter();
+    const flatFile = new FlatFileUserAdapter(join(dataDir, 'users'));
+
+    for (const user of users) {
+      await memory.upsert(user);
+      await flatFile.upsert(user);
+    }
+
+    for (const filter of userFilters) {
+      expect(withoutTiming(await memory.query(filter))).toEqual(
+        withoutTiming(await flatFile.query(filter))
+      );
+    }
+  });
+
+  it('should resolve aliases exactly like the flat-file adapter', async () => {
+    const memory = new MemoryUserAdapter();
+    const flatFile = new FlatFileUserAdapter(join(dataDir, 'users'));
+    const anonymous: UserRecord = {
+      ...users[1]!,
+      userId: 'anon-1',
+      properties: { plan: 'trial', referrer: 'google' },
+      firstSeen: new Date(Date.UTC(2023, 11, 1)),
+    };
+
+    for (const adapter of [memory, flatFile]) {
+      await adapter.upsert(users[0]!);
+      await adapter.upsert(anonymous);
+      await adapter.alias('tenant-a', 'anon-2', 'anon-1');
+    }
+
+    const steps = async (adapter: MemoryUserAdapter | FlatFileUserAdapter) => [
+      await adapter.alias('tenant-a', 'anon-1', 'user-0'),
+      await adapter.alias('tenant-a', 'anon-1', 'user-0'),
+      await adapter.alias('tenant-a', 'anon-3', 'anon-1'),
+      await adapter.alias('tenant-a', 'anon-1', 'user-4'),
+      await adapter.resolveIdentities('tenant-a', ['anon-2', 'user-0', 'x']),
+      await adapter.getAliases('tenant-a', 'user-0'),
+      await adapter.get('tenant-a', 'user-0'),
+      await adapter.get('tenant-a', 'anon-1'),
+      await adapter.resolveIdentities('tenant-b', ['anon-1']),
+    ];
+
+    const memorySteps = await steps(memory);
+    expect(memorySteps).toEqual(await steps(flatFile));
+
+    expect(memorySteps.slice(0, 4)).toEqual([
+      { success: true, userId: 'user-0', linked: true, profileMerged: true },
+      { success: true, userId: 'user-0', linked: false, profileMerged: false },
+      { success: true, userId: 'user-0', linked: true, profileMerged: false },
+      {
+        success: false,
+        userId: 'user-0',
+        linked: false,
+        profileMerged: false,
+        conflict: true,
+        error: 'Alias anon-1 already belongs to user user-0',
+      },
+    ]);
+    expect(memorySteps[4]).toEqual(new Map([['anon-2', 'user-0']]));
+    expect(memorySteps[5]).toEqual(['anon-1', 'anon-2', 'anon-3']);
+    expect(memorySteps[6]).toMatchObject({
+      properties: { plan: 'pro', referrer: 'google' },
+      firstSeen: anonymous.firstSeen,
+      sessionCount: users[0]!.sessionCount + anonymous.sessionCount,
+      eventCount: users[0]!.eventCount + anonymous.eventCount,
+    });
+    expect(memorySteps[7]).toBeNull();
+    expect(memorySteps[8]).toEqual(new Map());
+
+    // Deleting an alias unlinks it from its user
+    for (const adapter of [memory, flatFile]) {
+      await adapter.delete('tenant-a', 'anon-3');
+      expect(await adapter.getAliases('tenant-a', 'user-0')).toEqual([
+        'anon-1',
+        'anon-2',
+      ]);
+      expect(await adapter.resolveIdentities('tenant-a', ['anon-3'])).toEqual(
+        new Map()
+      );
+    }
+
+    expect(await memory.delete('tenant-a', 'user-0')).toBe(true);
+    expect(await memory.getAliases('tenant-a', 'user-0')).toEqual([]);
+    expect(await flatFile.delete('tenant-a', 'user-0')).toBe(true);
+    expect(await flatFile.resolveIdentities('tenant-a', ['anon-1'])).toEqual(
+      new Map()
+    );
+  });
+
+  it('should track group members exactly like the flat-file adapter', async () => {
+    const memory = new MemoryGroupAdapter();
+    const flatFile = new FlatFileGroupAdapter(join(dataDir, 'groups'));
+    const group = (
+      groupId: string,
+      groupType: string,
+      properties: Record<string, any>,
+      day: number
+    ): GroupRecord => ({
+      groupId,
+      tenantId: 'tenant-a',
+      groupType,
+      properties,
+      createdAt: new Date(Date.UTC(2024, 0, day)),
+      updatedAt: new Date(Date.UTC(2024, 0, day)),
+    });
+
+    const steps = async (
+      adapter: MemoryGroupAdapter | FlatFileGroupAdapter
+    ) => [
+      await adapter.upsert(
+        group('acme', 'company', { plan: 'pro' }, 1),
+        'user-1'
+      ),
+      await adapter.upsert(
+        group('acme', 'company', { seats: 10 }, 2),
+        'user-2'
+      ),
+      await adapter.upsert(group('acme', 'company', {}, 3), 'user-1'),
+      await adapter.upsert(group('team-a', 'team', {}, 3), 'user-1'),
+      await adapter.upsert({
+        ...group('team-a', 'team', {}, 4),
+        groupType: undefined,
+      }),
+      await adapter.get('tenant-a', 'acme'),
+      await adapter.get('tenant-b', 'acme'),
+      await adapter.getMembers('tenant-a', 'acme'),
+      await adapter.getMemberships('tenant-a', 'company'),
+      await adapter.removeMember('tenant-a', 'user-1'),
+      await adapter.getMemberships('tenant-a'),
+    ];
+
+    const memorySteps = await steps(memory);
+    expect(memorySteps).toEqual(await steps(flatFile));
+
+    const upserted = { success: true, groupId: 'acme', groupType: 'company' };
+    expect(memorySteps.slice(0, 3)).toEqual([
+      { ...upserted, created: true, memberAdded: true },
+      { ...upserted, created: false, memberAdded: true },
+      { ...upserted, created: false, memberAdded: false },
+    ]);
+    // A group call without a groupType keeps the stored one
+    expect(memorySteps[4]).toMatchObject({ groupType: 'team' });
+    expect(memorySteps[5]).toEqual({
+      ...group('acme', 'company', { plan: 'pro', seats: 10 }, 1),
+      updatedAt: new Date(Date.UTC(2024, 0, 3)),
+    });
+    expect(memorySteps[6]).toBeNull();
+    expect(memorySteps[7]).toEqual(['user-1', 'user-2']);
+    expect(memorySteps[9]).toBe(2);
+    expect(memorySteps[10]).toEqual([
+      { groupId: 'acme', groupType: 'company', userId: 'user-2' },
+    ]);
+  });
+
+  it('should apply concurrent trait operators without losing updates', async () => {
+    const memory = new MemoryUserAdapter();
+    const flatFile = new FlatFileUserAdapter(join(dataDir, 'users'));
+
+    for (const adapter of [memory, flatFile]) {
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          adapter.upsert(
+            { ...users[0]!, properties: {} },
+            {
+              $setOnce: { firstPlan: i === 0 ? 'free' : 'pro' },
+              $increment: { purchases: 1 },
+              $union: { skus: [`sku-${i % 4}`] },
+            }
+          )
+        )
+      );
+      await adapter.upsert(
+        { ...users[0]!, properties: {} },
+        { $unset: ['firstPlan'] }
+      );
+    }
+
+    const user = await memory.get('tenant-a', 'user-0');
+    expect(user?.properties).toEqual({
+      purchases: 20,
+      skus: ['sku-0', 'sku-1', 'sku-2', 'sku-3'],
+    });
+    expect((await flatFile.get('tenant-a', 'user-0'))?.properties).toEqual(
+      user?.properties
+    );
+  });
+
+  it('should count concurrent increments exactly like the flat-file adapter', async () => {
+    const memory = new MemoryUserAdapter();
+    const flatFile = new FlatFileUserAdapter(join(dataDir, 'users'));
+
+    for (const adapter of [memory, flatFile]) {
+      await adapter.upsert({ ...users[0]!, properties: { plan: 'pro' } });
+      const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          adapter.incrementCounters(
+            'tenant-a',
+            i % 2 === 0 ? 'user-0' : 'new-user',
+            { eventCount: 1, ...(i < 4 && { sessionCount: 1 }) },
+            new Date(Date.UTC(2023, 11, 31, i))
+          )
+        )
+      );
+      expect(results.filter((result) => result.created)).toHaveLength(1);
+    }
+
+    const existing = await memory.get('tenant-a', 'user-0');
+    expect(existing).toMatchObject({
+      properties: { plan: 'pro' },
+      firstSeen: new Date(Date.UTC(2023, 11, 31, 0)),
+      lastSeen: users[0]!.lastSeen,
+      sessionCount: users[0]!.sessionCount + 2,
+      eventCount: users[0]!.eventCount + 10,
+    });
+    expect(await memory.get('tenant-a', 'new-user')).toMatchObject({
+      properties: {},
+      firstSeen: new Date(Date.UTC(2023, 11, 31, 1)),
+      lastSeen: new Date(Date.UTC(2023, 11, 31, 19)),
+      sessionCount: 2,
+      eventCount: 10,
+    });
+    expect(await flatFile.get('tenant-a', 'user-0')).toEqual(existing);
+    expect(await flatFile.get('tenant-a', 'new-user')).toEqual(
+      await memory.get('tenant-a', 'new-user')
+    );
+
+    // Neither temporary files nor locks are left behind
+    expect(
+      (await fs.readdir(join(dataDir, 'users', 'tenant-a', 'users'))).sort()
+    ).toEqual(['new-user.json', 'user-0.json']);
+  });
+
+  it('should merge traits on upsert and keep the first-seen time', async () => {
+    const adapter = new MemoryUserAdapter();
+
+    const first = await adapter.upsert({
+      ...users[0]!,
+      properties: { plan: 'free', referrer: 'google' },
+    });
+    const second = await adapter.upsert({
+      ...users[0]!,
+      properties: { plan: 'pro' },
+      firstSeen: new Date(Date.UTC(2024, 1, 1)),
+      lastSeen: new Date(Date.UTC(2024, 1, 1)),
+    });
+
+    expect(first).toMatchObject({ success: true, created: true });
+    expect(second).toMatchObject({ success: true, created: false });
+
+    const user = await adapter.get('tenant-a', 'user-0');
+    expect(user?.properties).toEqual({ plan: 'pro', referrer: 'google' });
+    expect(user?.firstSeen).toEqual(users[0]!.firstSeen);
+    expect(user?.lastSeen).toEqual(new Date(Date.UTC(2024, 1, 1)));
+  });
+
+  it('should not share references with stored records', async () => {
+    const adapter = new MemoryEventAdapter();
+    const event = { ...events[0]!, properties: { plan: 'pro' } };
+
+    await adapter.insert(event);
+    event.properties.plan = 'free';
+
+    const { events: stored } = await adapter.query({ tenantId: 'tenant-a' });
+    stored[0]!.properties.plan = 'enterprise';
+
+    const { events: reread } = await adapter.query({ tenantId: 'tenant-a' });
+    expect(reread[0]!.properties).toEqual({ plan: 'pro' });
+  });
+
+  it('should delete users and export only the requested tenant', async () => {
+    const userAdapter = new MemoryUserAdapter();
+    await userAdapter.upsert(users[0]!);
+
+    expect(await userAdapter.delete('tenant-a', 'user-0')).toBe(true);
+    expect(await userAdapter.delete('tenant-a', 'user-0')).toBe(false);
+
+    const eventAdapter = new MemoryEventAdapter();
+    await eventAdapter.insertBatch(events);
+
+    const exported = await eventAdapter.export(
+      {
+        tenantId: 'tenant-a',
+        startTime: new Date(Date.UTC(2024, 0, 1, 6)),
+        endTime: new Date(Date.UTC(2024, 0, 2)),
+      },
+      'ndjson'
+    );
+    let data = '';
+    for await (const chunk of exported.chunks) {
+      data += chunk;
+    }
+
+    expect(
+      data
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).eventId)
+    ).toEqual(['evt-6']);
+  });
+});
@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import pg from 'pg';
+import { DataType, newDb } from 'pg-mem';
+import { PostgresUserAdapter } from '../../src/adapters/postgres-user-adapter.js';
+import { makeUser } from '../shared/test-utilities.js';
+
+// Runs against a real server when POSTGRES_TEST_URL is set, otherwise pg-mem
+function createPool(): pg.Pool {
+  if (process.env.POSTGRES_TEST_URL) {
+    return new pg.Pool({ connectionString: process.env.POSTGRES_TEST_URL });
+  }
+  const db = newDb();
+  // pg-mem has no advisory locks; each test has its own database anyway
+  db.public.registerFunction({
+    name: 'hashtext',
+    args: [DataType.text],
+    returns: DataType.integer,
+    implementation: () => 0,
+  });
+  for (const name of ['pg_advisory_lock', 'pg_advisory_unlock']) {
+    db.public.registerFunction({
+      name,
+      args: [DataType.integer],
+      returns: DataType.bool,
+      implementation: () => true,
+    });
+  }
+  const { Pool } = db.adapters.createPg();
+  return new Pool();
+}
+
+describe('PostgresUserAdapter', () => {
+  let pool: pg.Pool;
+  let adapter: PostgresUserAdapter;
+
+  beforeEach(async () => {
+    pool = createPool();
+    if (process.env.POSTGRES_TEST_URL) {
+      await pool.query(
+        'DROP TABLE IF EXISTS users, user_aliases, schema_migrations'
+      );
+    }
+    adapter = new PostgresUserAdapter(pool);
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+    await pool.end();
+  });
+
+  it('should apply migrations only once', async () => {
+    await adapter.initialize();
+
+    const { rows } = await pool.query(
+      'SELECT version FROM schema_migrations ORDER BY version'
+    );
+    expect(rows.map((row) => Number(row.version))).toEqual([1, 2, 3]);
+  });
+
+  it('should create then merge traits on upsert', async () => {
+    const first = await adapter.upsert(
+      makeUser({ properties: { plan: 'free', referrer: 'google' } })
+    );
+    const second = await adapter.upsert(
+      makeUser({
+        properties: { plan: 'pro' },
+        firstSeen: new Date('2024-02-01T00:00:00Z'),
+        lastSeen: new Date('2024-02-01T00:00:00Z'),
+      })
+    );
+
+    expect(first).toMatchObject({ success: true, created: true });
+    expect(second).toMatchObject({ success: true, created: false });
+
+    const user = await adapter.get('tenant-a', 'user-1');
+    expect(user?.properties).toEqual({ plan: 'pro', referrer: 'google' });
+    expect(user?.firstSeen).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(user?.lastSeen).toEqual(new Date('2024-02-01T00:00:00Z'));
+  });
+
+  it('should apply trait operators inside the upsert', async () => {
+    await adapter.upsert(
+      makeUser({ properties: { referrer: 'google', purchases: 1 } })
+    );
+    // One at a time, since pg-mem has no row locks to order concurrent ones
+    for (let i = 0; i < 5; i++) {
+      await adapter.upsert(makeUser({ properties: {} }), {
+        $setOnce: { referrer: 'newsletter' },
+        $increment: { purchases: 2 },
+        $append: { skus: 'sku-1' },
+      });
+    }
+    await adapter.upsert(makeUser({ userId: 'new' }), {
+      $setOnce: { referrer: 'newsletter' },
+      $unset: ['missing'],
+    });
+
+    expect((await adapter.get('tenant-a', 'user-1'))?.properties).toEqual({
+      referrer: 'google',
+      purchases: 11,
+      skus: ['sku-1', 'sku-1', 'sku-1', 'sku-1', 'sku-1'],
+    });
+    expect((await adapter.get('tenant-a', 'new'))?.properties).toEqual({
+      referrer: 'newsletter',
+    });
+  });
+
+  it('should increment counters atomically, creating missing users', async () => {
+    await adapter.upsert(
+      makeUser({ properties: { plan: 'pro' }, sessionCount: 1, eventCount: 3 })
+    );
+    // One at a time, since pg-mem returns conflicting rows from an insert
+    // that did nothing, so it cannot tell which concurrent insert created
+    const results = [];
+    for (let i = 0; i < 10; i++) {
+      results.push(
+        await adapter.incrementCounters(
+          'tenant-a',
+          i < 5 ? 'user-1' : 'new',
+          { eventCount: 1, ...(i % 5 === 0 && { sessionCount: 1 }) },
+          new Date(Date.UTC(2024, 0, 1 + (i % 5)))
+        )
+      );
+    }
+
+    expect(results.filter((result) => result.created)).toHaveLength(1);
+    expect(await adapter.get('tenant-a', 'user-1')).toMatchObject({
+      properties: { plan: 'pro' },
+      firstSeen: new Date('2024-01-01T00:00:00Z'),
+      lastSeen: new Date('2024-01-05T00:00:00Z'),
+      sessionCount: 2,
+      eventCount: 8,
+    });
+    expect(await adapter.get('tenant-a', 'new')).toMatchObject({
+      properties: {},
+      firstSeen: new Date('2024-01-01T00:00:00Z'),
+      lastSeen: new Date('2024-01-05T00:00:00Z'),
+      sessionCount: 1,
+      eventCount: 5,
+    });
+  });
+
+  it('should isolate tenants', async () => {
+    await adapter.upsert(makeUser());
+
+    expect(await adapter.get('tenant-b', 'user-1')).toBeNull();
+  });
+
+  it('should get users in batch and delete them', async () => {
+    await adapter.upsert(makeUser({ userId: 'a' }));
+    await adapter.upsert(makeUser({ userId: 'b' }));
+
+    const users = await adapter.getBatch('tenant-a', ['b', 'missing', 'a']);
+    expect(users.map((user) => user.userId)).toEqual(['b', 'a']);
+
+    expect(await adapter.delete('tenant-a', 'a')).toBe(true);
+    expect(await adapter.delete('tenant-a', 'a')).toBe(false);
+    expect(await adapter.get('tenant-a', 'a')).toBeNull();
+  });
+
+  it('should link aliases, merge profiles and unlink them on delete', async () => {
+    await adapter.upsert(makeUser({ properties: { plan: 'pro' } }));
+    await adapter.upsert(
+      makeUser({
+        userId: 'anon-1',
+        properties: { plan: 'free', referrer: 'google' },
+        firstSeen: new Date('2023-12-01T00:00:00Z'),
+        sessionCount: 2,
+        eventCount: 5,
+      })
+    );
+    await adapter.alias('tenant-a', 'anon-2', 'anon-1');
+
+    expect(await adapter.alias('tenant-a', 'anon-1', 'user-1')).toEqual({
+      success: true,
+      userId: 'user-1',
+      linked: true,
+      profileMerged: true,
+    });
+    expect(await adapter.alias('tenant-a', 'anon-3', 'anon-2')).toMatchObject({
+      success: true,
+      userId: 'user-1',
+      linked: true,
+    });
+    expect(await adapter.alias('tenant-a', 'anon-1', 'user-2')).toMatchObject({
+      success: false,
+      conflict: true,
+    });
+
+    expect(await adapter.getAliases('tenant-a', 'user-1')).toEqual([
+      'anon-1',
+      'anon-2',
+      'anon-3',
+    ]);
+    expect(
+      await adapter.resolveIdentities('tenant-a', ['anon-2', 'user-1'])
+    ).toEqual(new Map([['anon-2', 'user-1']]));
+    expect(await adapter.resolveIdentities('tenant-b', ['anon-2'])).toEqual(
+      new Map()
+    );
+    expect(await adapter.get('tenant-a', 'anon-1')).toBeNull();
+    expect(await adapter.get('tenant-a', 'user-1')).toMatchObject({
+      properties: { plan: 'pro', referrer: 'google' },
+      firstSeen: new Date('2023-12-01T00:00:00Z'),
+      sessionCount: 3,
+      eventCount: 5,
+    });
+
+    expect(await adapter.delete('tenant-a', 'user-1')).toBe(true);
+    expect(await adapter.getAliases('tenant-a', 'user-1')).toEqual([]);
+  });
+
+  it('should query with property filters, sorting and pagination', async () => {
+    for (let i = 0; i < 5; i++) {
+      await adapter.upsert(
+        makeUser({
+          userId: `user-${i}`,
+          properties: { plan: i % 2 === 0 ? 'pro' : 'free' },
+          lastSeen: new Date(Date.UTC(2024, 0, i + 1)),
+        })
+      );
+    }
+
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      properties: { plan: 'pro' },
+      sortBy: 'lastSeen',
+      sortOrder: 'desc',
+      limit: 2,
+    });
+
+    expect(result.totalCount).toBe(3);
+    expect(result.users.map((user) => user.userId)).toEqual([
+      'user-4',
+      'user-2',
+    ]);
+    expect(result.hasMore).toBe(true);
+    expect(result.pagination.nextOffset).toBe(2);
+
+    const nextPage = await adapter.query({
+      tenantId: 'tenant-a',
+      properties: { plan: 'pro' },
+      sortBy: 'lastSeen',
+      sortOrder: 'desc',
+      limit: 2,
+      offset: 2,
+    });
+    expect(nextPage.users.map((user) => user.userId)).toEqual(['user-0']);
+    expect(nextPage.hasMore).toBe(false);
+  });
+
+  it('should evaluate filter expressions over the matching rows', async () => {
+    for (let i = 0; i < 5; i++) {
+      await adapter.upsert(
+        makeUser({
+          userId: `user-${i}`,
+          properties: {
+            plan: i % 2 === 0 ? 'pro' : 'free',
+            address: { zip: `1000${i}` },
+          },
+          lastSeen: new Date(Date.UTC(2024, 0, i + 1)),
+        })
+      );
+    }
+
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      where: {
+        or: [
+          { property: 'plan', operator: 'eq', value: 'free' },
+          { property: 'address.zip', operator: 'regex', value: '4$' },
+        ],
+      },
+      sortBy: 'lastSeen',
+      sortOrder: 'desc',
+      limit: 2,
+      offset: 1,
+    });
+
+    expect(result.totalCount).toBe(3);
+    expect(result.users.map((user) => user.userId)).toEqual([
+      'user-3',
+      'user-1',
+    ]);
+    expect(result.hasMore).toBe(false);
+  });
+
+  it('should resume after a keyset position, breaking ties by userId', async () => {
+    for (let i = 0; i < 5; i++) {
+      await adapter.upsert(
+        makeUser({
+          userId: `user-${i}`,
+          lastSeen: new Date(Date.UTC(2024, 0, i < 2 ? 1 : 2)),
+        })
+      );
+    }
+
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      sortBy: 'lastSeen',
+      sortOrder: 'desc',
+      after: { value: Date.UTC(2024, 0, 2), id: 'user-3' },
+      limit: 2,
+    });
+
+    expect(result.totalCount).toBe(3);
+    expect(result.users.map((user) => user.userId)).toEqual([
+      'user-4',
+      'user-0',
+    ]);
+    expect(result.hasMore).toBe(true);
+
+    const unsorted = await adapter.query({
+      tenantId: 'tenant-a',
+      after: { value: 'user-2', id: 'user-2' },
+    });
+    expect(unsorted.users.map((user) => user.userId)).toEqual([
+      'user-3',
+      'user-4',
+    ]);
+  });
+
+  it('should filter by activity window', async () => {
+    await adapter.upsert(
+      makeUser({
+        userId: 'old',
+        firstSeen: new Date('2023-01-01T00:00:00Z'),
+        lastSeen: new Date('2023-06-01T00:00:00Z'),
+      })
+    );
+    await adapter.upsert(
+      makeUser({
+        userId: 'recent',
+        firstSeen: new Date('2024-03-01T00:00:00Z'),
+        lastSeen: new Date('2024-03-02T00:00:00Z'),
+      })
+    );
+
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      activeSince: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    expect(result.users.map((user) => user.userId)).toEqual(['recent']);
+  });
+
+  it('should report health', async () => {
+    expect(await adapter.healthCheck()).toBe(true);
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Redis } from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { RedisRateLimitAdapter } from '../../src/adapters/redis-rate-limiter.js';
+import { RedisDeduplicationAdapter } from '../../src/adapters/redis-deduplication.js';
+import { RedisSessionAdapter } from '../../src/adapters/redis-session.js';
+import { MemorySessionAdapter } from '../../src/adapters/memory-session.js';
+import { SessionAdapter } from '../../src/interfaces/storage.js';
+import { RateLimitKey } from '../../src/types/core.js';
+
+// Runs against a real server when REDIS_TEST_URL is set, otherwise ioredis-mock
+function createClient(): Redis {
+  if (process.env.REDIS_TEST_URL) {
+    return new Redis(process.env.REDIS_TEST_URL);
+  }
+  return new RedisMock() as unknown as Redis;
+}
+
+const key: RateLimitKey = {
+  tenantId: 'tenant-a',
+  sourceIp: '127.0.0.1',
+  userId: 'user-1',
+};
+
+describe('RedisRateLimitAdapter', () => {
+  let redis: Redis;
+  let adapter: RedisRateLimitAdapter;
+
+  beforeEach(async () => {
+    redis = createClient();
+    await redis.flushdb();
+    adapter = new RedisRateLimitAdapter(redis);
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+    await redis.quit();
+  });
+
+  it('should count requests within a window', async () => {
+    expect((await adapter.checkLimit(key, 2, 60)).allowed).toBe(true);
+
+    await adapter.increment(key, 60);
+    await adapter.increment(key, 60);
+
+    const result = await adapter.checkLimit(key, 2, 60);
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    expect(await adapter.getCount(key, 60)).toBe(2);
+  });
+
+  it('should expire the window from the first request', async () => {
+    await adapter.increment(key, 60);
+    await adapter.increment(key, 60);
+
+    const ttl = await redis.ttl('ratelimit:tenant-a:127.0.0.1:user-1');
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(60);
+
+    const { resetTime } = await adapter.checkLimit(key, 10, 60);
+    expect(resetTime.getTime()).toBeLessThanOrEqual(Date.now() + 60000);
+  });
+
+  it('should keep separate buckets per tenant and reset them', async () => {
+    await adapter.increment(key, 60);
+    await adapter.increment({ ...key, tenantId: 'tenant-b' }, 60);
+    await adapter.reset(key);
+
+    expect(await adapter.getCount(key, 60)).toBe(0);
+    expect(await adapter.getCount({ ...key, tenantId: 'tenant-b' }, 60)).toBe(
+      1
+    );
+  });
+
+  it('should report health', async () => {
+    expect(await adapter.healthCheck()).toBe(true);
+  });
+});
+
+describe('RedisDeduplicationAdapter', () => {
+  let redis: Redis;
+  let adapter: RedisDeduplicationAdapter;
+
+  beforeEach(async () => {
+    redis = createClient();
+    await redis.flushdb();
+    adapter = new RedisDeduplicationAdapter(redis, 120);
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+    await redis.quit();
+  });
+
+  it('should remember processed events per tenant', async () => {
+    expect(await adapter.isDuplicate('tenant-a', 'msg-1')).toBe(false);
+
+    expect(await adapter.markProcessed('tenant-a', 'msg-1')).toBe(true);
+    expect(await adapter.markProcessed('tenant-a', 'msg-1')).toBe(false);
+
+    expect(await adapter.isDuplicate('tenant-a', 'msg-1')).toBe(true);
+    expect(await adapter.isDuplicate('tenant-b', 'msg-1')).toBe(false);
+  });
+
+  it('should let only one concurrent claim of an event succeed', async () => {
+    const claims = await Promise.all(
+      Array.from({ length: 5 }, () => adapter.claim('tenant-a', 'msg-1'))
+    );
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(await adapter.isDuplicate('tenant-a', 'msg-1')).toBe(true);
+    expect(await adapter.claim('tenant-b', 'msg-1')).toBe(true);
+
+    await adapter.forget('tenant-a', ['msg-1']);
+    expect(await adapter.claim('tenant-a', 'msg-1', 30)).toBe(true);
+    expect(await redis.ttl('dedup:tenant-a:msg-1')).toBeLessThanOrEqual(30);
+  });
+
+  it('should forget specific events', async () => {
+    await adapter.markProcessed('tenant-a', 'msg-1');
+    await adapter.markProcessed('tenant-a', 'msg-2');
+    await adapter.markProcessed('tenant-b', 'msg-1');
+
+    expect(await adapter.forget('tenant-a', ['msg-1', 'missing'])).toBe(1);
+    expect(await adapter.forget('tenant-a', [])).toBe(0);
+
+    expect(await adapter.isDuplicate('tenant-a', 'msg-1')).toBe(false);
+    expect(await adapter.isDuplicate('tenant-a', 'msg-2')).toBe(true);
+    expect(await adapter.isDuplicate('tenant-b', 'msg-1')).toBe(true);
+  });
+
+  it('should expire records after the retention period', async () => {
+    await adapter.markProcessed('tenant-a', 'default-ttl');
+    await adapter.markProcessed('tenant-a', 'custom-ttl', 30);
+
+    expect(await redis.ttl('dedup:tenant-a:default-ttl')).toBeGreaterThan(30);
+    expect(await redis.ttl('dedup:tenant-a:custom-ttl')).toBeLessThanOrEqual(
+      30
+    );
+  });
+
+  it('should report health', async () => {
+    expect(await adapter.healthCheck()).toBe(true);
+  });
+});
+
+describe('RedisSessionAdapter', () => {
+  const MINUTE = 60 * 1000;
+  const TIMEOUT = 30 * MINUTE;
+  const at = (minutes: number) =>
+    new Date(Date.UTC(2024, 0, 1) + minutes * MINUTE);
+
+  let redis: Redis;
+  let adapter: RedisSessionAdapter;
+
+  beforeEach(async () => {
+    redis = createClient();
+    await redis.flushdb();
+    adapter = new RedisSessionAdapter(redis);
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+    await redis.quit();
+  });
+
+  // Generated ids differ per run, so they are numbered in order of appearance
+  async function assignAll(sessions: SessionAdapter) {
+    const labels = new Map<string, string>();
+    const steps: Array<[string, string, number, string?]> = [
+      ['tenant-a', 'user-1', 0],
+      ['tenant-a', 'user-1', 10],
+      ['tenant-a', 'user-1', 50],
+      ['tenant-a', 'user-1', 5],
+      ['tenant-a', 'user-1', 60],
+      ['tenant-a', 'user-1', 61, 'client-1'],
+      ['tenant-a', 'user-1', 200, 'client-1'],
+      ['tenant-a', 'user-2', 0],
+      ['tenant-b', 'user-1', 10],
+    ];
+
+    const results = [];
+    for (const [tenantId, userId, minutes, sessionId] of steps) {
+      const { sessionId: assigned, started } = await sessions.assign(
+        tenantId,
+        userId,
+        at(minutes),
+        TIMEOUT,
+        sessionId
+      );
+      if (!labels.has(assigned)) {
+        labels.set(
+          assigned,
+          assigned === sessionId ? assigned : `s${labels.size}`
+        );
+      }
+      results.push([labels.get(assigned), started]);
+    }
+    return results;
+  }
+
+  it('should assign sessions exactly like the memory adapter', async () => {
+    const memory = new MemorySessionAdapter();
+    const results = await assignAll(adapter);
+
+    expect(results).toEqual(await assignAll(memory));
+    await memory.close();
+
+    expect(results).toEqual([
+      ['s0', true],
+      ['s0', false],
+      ['s1', true], // More than the timeout after the last activity
+      ['s2', true], // A late event starts a session without ending s1
+      ['s1', false],
+      ['client-1', true],
+      ['client-1', false], // A client sessionId continues however long the gap
+      ['s4', true],
+      ['s5', true],
+    ]);
+  });
+
+  it('should agree on one session for concurrent activities', async () => {
+    const assignments = await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        adapter.assign('tenant-a', 'user-1', at(i), TIMEOUT)
+      )
+    );
+
+    expect(assignments.filter((session) => session.started)).toHaveLength(1);
+    expect(new Set(assignments.map((session) => session.sessionId)).size).toBe(
+      1
+    );
+  });
+
+  it('should expire a session after the timeout of inactivity', async () => {
+    await adapter.assign('tenant-a', 'user-1', at(0), TIMEOUT);
+
+    const ttl = await redis.pttl('session:tenant-a:user-1');
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(TIMEOUT);
+  });
+
+  it('should forget sessions exactly like the memory adapter', async () => {
+    const memory = new MemorySessionAdapter();
+
+    for (const sessions of [adapter, memory]) {
+      await sessions.assign('tenant-a', 'user-1', at(0), TIMEOUT);
+      await sessions.assign('tenant-b', 'user-1', at(0), TIMEOUT);
+
+      expect(await sessions.forget('tenant-a', ['user-1', 'user-2'])).toBe(1);
+      expect(await sessions.forget('tenant-a', [])).toBe(0);
+      expect(
+        (await sessions.assign('tenant-a', 'user-1', at(1), TIMEOUT)).started
+      ).toBe(true);
+      expect(
+        (await sessions.assign('tenant-b', 'user-1', at(1), TIMEOUT)).started
+      ).toBe(false);
+    }
+    await memory.close();
+  });
+
+  it('should report health', async () => {
+    expect(await adapter.healthCheck()).toBe(true);
+  });
+});
@@ -0,0 +1,488 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqliteEventAdapter } from '../../src/adapters/sqlite-event-adapter.js';
+import { SqliteUserAdapter } from '../../src/adapters/sqlite-user-adapter.js';
+import { MemoryEventAdapter } from '../../src/adapters/memory-event-adapter.js';
+import { AggregationQuery } from '../../src/types/core.js';
+import { makeEvent, makeUser } from '../shared/test-utilities.js';
+
+describe('SqliteEventAdapter', () => {
+  let adapter: SqliteEventAdapter;
+
+  beforeEach(async () => {
+    adapter = new SqliteEventAdapter(':memory:');
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  it('should round-trip an event', async () => {
+    const event = makeEvent({
+      properties: { page: '/home', nested: { depth: 2 } },
+      sessionId: 'session-1',
+      timestamp: new Date('2024-01-01T10:20:30.456Z'),
+    });
+
+    expect(await adapter.insert(event)).toEqual({
+      success: true,
+      eventId: 'evt-1',
+    });
+
+    const { events } = await adapter.query({ tenantId: 'tenant-a' });
+    expect(events).toEqual([event]);
+  });
+
+  it('should isolate tenants', async () => {
+    await adapter.insertBatch([
+      makeEvent({ eventId: 'a' }),
+      makeEvent({ eventId: 'b', tenantId: 'tenant-b' }),
+    ]);
+
+    const result = await adapter.query({ tenantId: 'tenant-b' });
+    expect(result.events.map((event) => event.eventId)).toEqual(['b']);
+  });
+
+  it('should push filters, sorting and pagination down to SQL', async () => {
+    await adapter.insertBatch(
+      Array.from({ length: 6 }, (_, i) =>
+        makeEvent({
+          eventId: `evt-${i}`,
+          eventName: i % 2 === 0 ? 'signup' : 'page_view',
+          userId: i < 4 ? 'user-1' : 'user-2',
+          properties: { plan: i % 3 === 0 ? 'pro' : 'free', seats: i },
+          timestamp: new Date(Date.UTC(2024, 0, i + 1)),
+        })
+      )
+    );
+
+    const byName = await adapter.query({
+      tenantId: 'tenant-a',
+      eventName: 'signup',
+      limit: 2,
+    });
+    expect(byName.totalCount).toBe(3);
+    expect(byName.events.map((event) => event.eventId)).toEqual([
+      'evt-4',
+      'evt-2',
+    ]);
+    expect(byName.hasMore).toBe(true);
+    expect(byName.pagination.nextOffset).toBe(2);
+
+    const windowed = await adapter.query({
+      tenantId: 'tenant-a',
+      userId: 'user-1',
+      startTime: new Date('2024-01-02T00:00:00Z'),
+      endTime: new Date('2024-01-03T00:00:00Z'),
+      sortBy: 'timestamp',
+      sortOrder: 'asc',
+    });
+    expect(windowed.events.map((event) => event.eventId)).toEqual([
+      'evt-1',
+      'evt-2',
+    ]);
+
+    const byProperty = await adapter.query({
+      tenantId: 'tenant-a',
+      eventTypes: ['signup', 'page_view'],
+      properties: { plan: 'pro' },
+    });
+    expect(byProperty.events.map((event) => event.eventId)).toEqual([
+      'evt-3',
+      'evt-0',
+    ]);
+
+    const byNumber = await adapter.query({
+      tenantId: 'tenant-a',
+      properties: { seats: 5 },
+    });
+    expect(byNumber.events.map((event) => event.eventId)).toEqual(['evt-5']);
+
+    const byExpression = await adapter.query({
+      tenantId: 'tenant-a',
+      where: {
+        and: [
+          { property: 'seats', operator: 'gt', value: 1 },
+          { property: 'plan', operator: 'neq', value: 'pro' },
+        ],
+      },
+      limit: 2,
+    });
+    expect(byExpression.totalCount).toBe(3);
+    expect(byExpression.events.map((event) => event.eventId)).toEqual([
+      'evt-5',
+      'evt-4',
+    ]);
+
+    const afterCursor = await adapter.query({
+      tenantId: 'tenant-a',
+      sortBy: 'userId',
+      sortOrder: 'desc',
+      after: { value: 'user-1', id: 'evt-2' },
+    });
+    expect(afterCursor.totalCount).toBe(2);
+    expect(afterCursor.events.map((event) => event.eventId)).toEqual([
+      'evt-1',
+      'evt-0',
+    ]);
+  });
+
+  it('should export events within a time range', async () => {
+    await adapter.insertBatch([
+      makeEvent({ eventId: 'in-range' }),
+      makeEvent({
+        eventId: 'out-of-range',
+        timestamp: new Date('2024-02-01T00:00:00Z'),
+      }),
+    ]);
+
+    const result = await adapter.export(
+      {
+        tenantId: 'tenant-a',
+        startTime: new Date('2024-01-01T00:00:00Z'),
+        endTime: new Date('2024-01-31T23:59:59Z'),
+      },
+      'csv'
+    );
+    let data = '';
+    for await (const chunk of result.chunks) {
+      data += chunk;
+    }
+
+    expect(result.contentType).toMatch(/^text\/csv/);
+    expect(data.trim().split('\n')).toHaveLength(2);
+    expect(data).toContain('in-range');
+    expect(data).not.toContain('out-of-range');
+  });
+
+  it('should export large tenants in time order across pages', async () => {
+    // Several events share each timestamp, so pages must break ties by rowid
+    await adapter.insertBatch(
+      Array.from({ length: 2500 }, (_, i) =>
+        makeEvent({
+          eventId: `evt-${i}`,
+          timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, Math.floor(i / 3))),
+        })
+      )
+    );
+    await adapter.insert(makeEvent({ eventId: 'other', tenantId: 'tenant-b' }));
+
+    const result = await adapter.export({ tenantId: 'tenant-a' }, 'ndjson');
+    const eventIds: string[] = [];
+    for await (const chunk of result.chunks) {
+      for (const line of chunk.trim().split('\n')) {
+        eventIds.push(JSON.parse(line).eventId);
+      }
+    }
+
+    expect(eventIds).toHaveLength(2500);
+    expect(new Set(eventIds).size).toBe(2500);
+    expect(eventIds).not.toContain('other');
+    expect(eventIds[0]).toBe('evt-0');
+    expect(eventIds[2499]).toBe('evt-2499');
+  });
+
+  it('should aggregate in SQL like the in-process implementation', async () => {
+    const events = Array.from({ length: 12 }, (_, i) =>
+      makeEvent({
+        eventId: `evt-${i}`,
+        userId: `user-${i % 4}`,
+        eventName: i % 3 === 0 ? 'purchase' : 'page_view',
+        properties: {
+          amount: i % 5 === 0 ? 'free' : i * 1.5,
+          ...(i % 4 !== 0 && { plan: i % 2 === 0 ? 'pro' : 7 }),
+          $lib: 'web',
+        },
+        timestamp: new Date(Date.UTC(2024, 2, 30, i * 5)),
+      })
+    );
+    const memory = new MemoryEventAdapter();
+    await adapter.insertBatch(events);
+    await memory.insertBatch(events);
+
+    const filter = { tenantId: 'tenant-a', properties: { $lib: 'web' } };
+    const queries: AggregationQuery[] = [
+      { filter, metric: 'count' },
+      {
+        filter,
+        metric: 'avg',
+        property: 'amount',
+        groupBy: { property: 'plan' },
+      },
+      { filter, metric: 'max', property: 'amount', interval: 'week' },
+      {
+        filter,
+        metric: 'uniqueUsers',
+        groupBy: { field: 'eventName' },
+        interval: 'day',
+        timezone: 'Europe/Berlin',
+      },
+      { filter, metric: 'min', property: 'missing' },
+    ];
+
+    const sorted = (result: Awaited<ReturnType<typeof adapter.aggregate>>) =>
+      [...result.buckets].sort((a, b) =>
+        `${a.time?.toISOString()}${a.group}`.localeCompare(
+          `${b.time?.toISOString()}${b.group}`
+        )
+      );
+    for (const query of queries) {
+      expect(sorted(await adapter.aggregate(query))).toEqual(
+        sorted(await memory.aggregate(query))
+      );
+    }
+  });
+
+  it('should match keys with quotes and backslashes like memory', async () => {
+    const events = Array.from({ length: 6 }, (_, i) =>
+      makeEvent({
+        eventId: `evt-${i}`,
+        properties: { 'say "hi"': i % 2 === 0 ? 'yes' : 'no', 'a\\b': i },
+      })
+    );
+    const memory = new MemoryEventAdapter();
+    await adapter.insertBatch(events);
+    await memory.insertBatch(events);
+
+    const filter = { tenantId: 'tenant-a', properties: { 'say "hi"': 'yes' } };
+    expect((await adapter.query(filter)).totalCount).toBe(3);
+    const query: AggregationQuery = {
+      filter: { tenantId: 'tenant-a' },
+      metric: 'sum',
+      property: 'a\\b',
+      groupBy: { property: 'say "hi"' },
+    };
+    const byGroup = (result: Awaited<ReturnType<typeof adapter.aggregate>>) =>
+      [...result.buckets].sort((a, b) =>
+        String(a.group).localeCompare(String(b.group))
+      );
+    expect(byGroup(await adapter.aggregate(query))).toEqual(
+      byGroup(await memory.aggregate(query))
+    );
+  });
+
+  it("should delete only the user's events within the tenant", async () => {
+    await adapter.insertBatch([
+      makeEvent({ eventId: 'a' }),
+      makeEvent({ eventId: 'b', userId: 'user-2' }),
+      makeEvent({ eventId: 'c' }),
+      makeEvent({ eventId: 'd', tenantId: 'tenant-b' }),
+    ]);
+
+    expect(
+      (await adapter.deleteUserEvents('tenant-a', 'user-1')).sort()
+    ).toEqual(['a', 'c']);
+    expect(await adapter.deleteUserEvents('tenant-a', 'user-1')).toEqual([]);
+
+    const remaining = await adapter.query({ tenantId: 'tenant-a' });
+    expect(remaining.events.map((event) => event.eventId)).toEqual(['b']);
+    const otherTenant = await adapter.query({ tenantId: 'tenant-b' });
+    expect(otherTenant.events.map((event) => event.eventId)).toEqual(['d']);
+  });
+});
+
+describe('SqliteUserAdapter', () => {
+  let adapter: SqliteUserAdapter;
+
+  beforeEach(async () => {
+    adapter = new SqliteUserAdapter(':memory:');
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+  });
+
+  it('should create then merge traits on upsert', async () => {
+    const first = await adapter.upsert(
+      makeUser({ properties: { plan: 'free', referrer: 'google' } })
+    );
+    const second = await adapter.upsert(
+      makeUser({
+        properties: { plan: 'pro' },
+        firstSeen: new Date('2024-02-01T00:00:00Z'),
+        lastSeen: new Date('2024-02-01T00:00:00Z'),
+      })
+    );
+
+    expect(first).toMatchObject({ success: true, created: true });
+    expect(second).toMatchObject({ success: true, created: false });
+
+    const user = await adapter.get('tenant-a', 'user-1');
+    expect(user?.properties).toEqual({ plan: 'pro', referrer: 'google' });
+    expect(user?.firstSeen).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(user?.lastSeen).toEqual(new Date('2024-02-01T00:00:00Z'));
+    expect(await adapter.get('tenant-b', 'user-1')).toBeNull();
+  });
+
+  it('should apply trait operators inside the upsert', async () => {
+    await adapter.upsert(
+      makeUser({ properties: { referrer: 'google', purchases: 1 } })
+    );
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        adapter.upsert(makeUser({ properties: {} }), {
+          $setOnce: { referrer: 'newsletter' },
+          $increment: { purchases: 2 },
+          $append: { skus: 'sku-1' },
+        })
+      )
+    );
+    await adapter.upsert(makeUser({ userId: 'new' }), {
+      $setOnce: { referrer: 'newsletter' },
+      $unset: ['missing'],
+    });
+
+    expect((await adapter.get('tenant-a', 'user-1'))?.properties).toEqual({
+      referrer: 'google',
+      purchases: 11,
+      skus: ['sku-1', 'sku-1', 'sku-1', 'sku-1', 'sku-1'],
+    });
+    expect((await adapter.get('tenant-a', 'new'))?.properties).toEqual({
+      referrer: 'newsletter',
+    });
+  });
+
+  it('should increment counters atomically, creating missing users', async () => {
+    await adapter.upsert(
+      makeUser({ properties: { plan: 'pro' }, sessionCount: 1, eventCount: 3 })
+    );
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        adapter.incrementCounters(
+          'tenant-a',
+          i < 5 ? 'user-1' : 'new',
+          { eventCount: 1, ...(i % 5 === 0 && { sessionCount: 1 }) },
+          new Date(Date.UTC(2024, 0, 1 + (i % 5)))
+        )
+      )
+    );
+
+    expect(results.filter((result) => result.created)).toHaveLength(1);
+    expect(await adapter.get('tenant-a', 'user-1')).toMatchObject({
+      properties: { plan: 'pro' },
+      firstSeen: new Date('2024-01-01T00:00:00Z'),
+      lastSeen: new Date('2024-01-05T00:00:00Z'),
+      sessionCount: 2,
+      eventCount: 8,
+    });
+    expect(await adapter.get('tenant-a', 'new')).toMatchObject({
+      properties: {},
+      firstSeen: new Date('2024-01-01T00:00:00Z'),
+      lastSeen: new Date('2024-01-05T00:00:00Z'),
+      sessionCount: 1,
+      eventCount: 5,
+    });
+  });
+
+  it('should get users in batch and delete them', async () => {
+    await adapter.upsert(makeUser({ userId: 'a' }));
+    await adapter.upsert(makeUser({ userId: 'b' }));
+
+    const users = await adapter.getBatch('tenant-a', ['b', 'missing', 'a']);
+    expect(users.map((user) => user.userId)).toEqual(['b', 'a']);
+
+    expect(await adapter.delete('tenant-a', 'a')).toBe(true);
+    expect(await adapter.delete('tenant-a', 'a')).toBe(false);
+    expect(await adapter.get('tenant-a', 'a')).toBeNull();
+  });
+
+  it('should link aliases, merge profiles and unlink them on delete', async () => {
+    await adapter.upsert(makeUser({ properties: { plan: 'pro' } }));
+    await adapter.upsert(
+      makeUser({
+        userId: 'anon-1',
+        properties: { plan: 'free', referrer: 'google' },
+        firstSeen: new Date('2023-12-01T00:00:00Z'),
+        sessionCount: 2,
+        eventCount: 5,
+      })
+    );
+    await adapter.alias('tenant-a', 'anon-2', 'anon-1');
+
+    expect(await adapter.alias('tenant-a', 'anon-1', 'user-1')).toEqual({
+      success: true,
+      userId: 'user-1',
+      linked: true,
+      profileMerged: true,
+    });
+    expect(await adapter.alias('tenant-a', 'anon-3', 'anon-2')).toMatchObject({
+      success: true,
+      userId: 'user-1',
+      linked: true,
+    });
+    expect(await adapter.alias('tenant-a', 'anon-1', 'user-2')).toMatchObject({
+      success: false,
+      conflict: true,
+    });
+
+    expect(await adapter.getAliases('tenant-a', 'user-1')).toEqual([
+      'anon-1',
+      'anon-2',
+      'anon-3',
+    ]);
+    expect(
+      await adapter.resolveIdentities('tenant-a', ['anon-2', 'user-1'])
+    ).toEqual(new Map([['anon-2', 'user-1']]));
+    expect(await adapter.resolveIdentities('tenant-b', ['anon-2'])).toEqual(
+      new Map()
+    );
+    expect(await adapter.get('tenant-a', 'anon-1')).toBeNull();
+    expect(await adapter.get('tenant-a', 'user-1')).toMatchObject({
+      properties: { plan: 'pro', referrer: 'google' },
+      firstSeen: new Date('2023-12-01T00:00:00Z'),
+      sessionCount: 3,
+      eventCount: 5,
+    });
+
+    expect(await adapter.delete('tenant-a', 'user-1')).toBe(true);
+    expect(await adapter.getAliases('tenant-a', 'user-1')).toEqual([]);
+  });
+
+  it('should query with property filters, sorting and pagination', async () => {
+    for (let i = 0; i < 5; i++) {
+      await adapter.upsert(
+        makeUser({
+          userId: `user-${i}`,
+          properties: { plan: i % 2 === 0 ? 'pro' : 'free' },
+          lastSeen: new Date(Date.UTC(2024, 0, i + 1)),
+        })
+      );
+    }
+
+    const result = await adapter.query({
+      tenantId: 'tenant-a',
+      properties: { plan: 'pro' },
+      activeSince: new Date('2024-01-02T00:00:00Z'),
+      sortBy: 'lastSeen',
+      sortOrder: 'desc',
+      limit: 1,
+    });
+
+    expect(result.totalCount).toBe(2);
+    expect(result.users.map((user) => user.userId)).toEqual(['user-4']);
+    expect(result.hasMore).toBe(true);
+    expect(result.pagination.nextOffset).toBe(1);
+
+    const byExpression = await adapter.query({
+      tenantId: 'tenant-a',
+      where: { property: 'plan', operator: 'in', value: ['free'] },
+      sortBy: 'lastSeen',
+    });
+    expect(byExpression.users.map((user) => user.userId)).toEqual([
+      'user-1',
+      'user-3',
+    ]);
+
+    const afterCursor = await adapter.query({
+      tenantId: 'tenant-a',
+      sortBy: 'lastSeen',
+      sortOrder: 'desc',
+      after: { value: Date.UTC(2024, 0, 3), id: 'user-2' },
+    });
+    expect(afterCursor.users.map((user) => user.userId)).toEqual([
+      'user-1',
+      'user-0',
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { applyTraitOperations } from '../../src/adapters/trait-operations.js';
+
+const stored = {
+  plan: 'free',
+  referrer: 'google',
+  purchases: 2,
+  tags: ['beta'],
+  sections: ['docs'],
+  trialEndsAt: '2024-02-01',
+};
+
+describe('applyTraitOperations', () => {
+  it('should merge traits and $set over the stored traits', () => {
+    expect(
+      applyTraitOperations(
+        stored,
+        { plan: 'pro', seats: 3 },
+        {
+          $set: { seats: 5 },
+        }
+      )
+    ).toEqual({ ...stored, plan: 'pro', seats: 5 });
+  });
+
+  it('should set once, increment and unset', () => {
+    const result = applyTraitOperations(
+      stored,
+      {},
+      {
+        $setOnce: { referrer: 'newsletter', firstPlan: 'free', cleared: 1 },
+        $increment: { purchases: 1, refunds: 2, plan: 1 },
+        $unset: ['trialEndsAt', 'missing'],
+      }
+    );
+
+    expect(result).toEqual({
+      plan: 1,
+      referrer: 'google',
+      purchases: 3,
+      refunds: 2,
+      tags: ['beta'],
+      sections: ['docs'],
+      firstPlan: 'free',
+      cleared: 1,
+    });
+  });
+
+  it('should keep a stored null for $setOnce', () => {
+    expect(
+      applyTraitOperations(
+        { referrer: null },
+        {},
+        {
+          $setOnce: { referrer: 'newsletter' },
+        }
+      )
+    ).toEqual({ referrer: null });
+  });
+
+  it('should append and union list items', () => {
+    const result = applyTraitOperations(
+      { ...stored, role: 'admin' },
+      {},
+      {
+        $append: { tags: ['beta', 'vip'], log: { step: 1 }, role: 'owner' },
+        $union: {
+          sections: ['docs', 'pricing', 'pricing'],
+          visited: { path: '/' },
+        },
+      }
+    );
+
+    expect(result.tags).toEqual(['beta', 'beta', 'vip']);
+    expect(result.log).toEqual([{ step: 1 }]);
+    expect(result.role).toEqual(['admin', 'owner']);
+    expect(result.sections).toEqual(['docs', 'pricing']);
+    expect(result.visited).toEqual([{ path: '/' }]);
+  });
+
+  it('should not modify the stored traits', () => {
+    const before = structuredClone(stored);
+
+    applyTraitOperations(
+      stored,
+      {},
+      {
+        $append: { tags: 'new' },
+        $union: { sections: 'blog' },
+        $unset: ['plan'],
+      }
+    );
+
+    expect(stored).toEqual(before);
+  });
+});
@@ -50,6 +50,73 @@ describe('API Endpoints Integration Tests', () => {
       expect(data.eventId).toBeDefined();
     });
 
+    it('should deduplicate retries that reuse a messageId', async () => {
+      const messageId = `msg-${Date.now()}`;
+      const send = () =>
+        fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-tenant-id': TENANT_ID,
+            'x-api-key': API_KEY,
+          },
+          body: JSON.stringify({ messageId, event: 'retry_test' }),
+        });
+
+      const first = await (await send()).json();
+      const replay = await (await send()).json();
+
+      expect(first.eventId).toBe(messageId);
+      expect(replay.success).toBe(true);
+      expect(replay.eventId).toBe(messageId);
+      expect(replay.message).toBe('Event already processed');
+    });
+
+    it('should store a messageId once when sent concurrently', async () => {
+      const messageId = `msg-concurrent-${Date.now()}`;
+      const headers = {
+        'Content-Type': 'application/json',
+        'x-tenant-id': TENANT_ID,
+        'x-api-key': API_KEY,
+      };
+
+      const responses = await Promise.all([
+        fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ messageId, event: 'concurrent_retry_test' }),
+        }),
+        fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ messageId, event: 'concurrent_retry_test' }),
+        }),
+        fetch(`${baseUrl}/v1/batch`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            batch: [
+              { type: 'track', messageId, event: 'concurrent_retry_test' },
+            ],
+          }),
+        }),
+      ]);
+      const bodies = await Promise.all(
+        responses.map((response) => response.json())
+      );
+      expect(bodies.every((body) => body.success)).toBe(true);
+
+      const query = await (
+        await fetch(
+          `${baseUrl}/v1/events/query?eventType=concurrent_retry_test`,
+          { headers }
+        )
+      ).json();
+      expect(
+        query.data.events.map((event: { eventId: string }) => event.eventId)
+      ).toEqual([messageId]);
+    });
+
     it('should reject requests without tenant ID', async () => {
       const response = await fetch(`${baseUrl}/v1/track`, {
         method: 'POST',
@@ -82,6 +149,1016 @@ describe('API Endpoints Integration Tests', () => {
     });
   });
 
+  describe('Batch Endpoint', () => {
+    it('should process mixed track and identify messages', async () => {
+      const response = await fetch(`${baseUrl}/v1/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-tenant-id': TENANT_ID,
+          'x-api-key': API_KEY,
+        },
+        body: JSON.stringify({
+          batch: [
+            { type: 'identify', userId: 'batch-user', traits: { plan: 'pro' } },
+            { type: 'track', event: 'page_view', userId: 'batch-user' },
+            { type: 'track', event: 'click', properties: { button: 'buy' } },
+          ],
+        }),
+      });
+
+      const data = await response.json();
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.processed).toBe(3);
+      expect(data.results.map((r: any) => r.type)).toEqual([
+        'identify',
+        'track',
+        'track',
+      ]);
+      expect(data.results[1].eventId).toBeDefined();
+    });
+
+    it('should report invalid items without failing the rest', async () => {
+      const response = await fetch(`${baseUrl}/v1/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-tenant-id': TENANT_ID,
+          'x-api-key': API_KEY,
+        },
+        body: JSON.stringify({
+          batch: [
+            { type: 'track', event: 'page_view' },
+            { type: 'track', properties: { missing: 'event' } },
+            { type: 'page', userId: 'someone' },
+          ],
+        }),
+      });
+
+      const data = await response.json();
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(false);
+      expect(data.processed).toBe(1);
+      expect(data.failed).toBe(2);
+      expect(data.results[0].success).toBe(true);
+      expect(data.results[1].error).toContain('event');
+      expect(data.results[2].error).toContain('type');
+    });
+
+    it('should reject an empty batch', async () => {
+      const response = await fetch(`${baseUrl}/v1/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-tenant-id': TENANT_ID,
+          'x-api-key': API_KEY,
+        },
+        body: JSON.stringify({ batch: [] }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Export Endpoint', () => {
+    const headers = { 'x-tenant-id': TENANT_ID, 'x-api-key': API_KEY };
+
+    it("should stream the tenant's events as NDJSON", async () => {
+      const eventName = `export_${Date.now()}`;
+      await fetch(`${baseUrl}/v1/track`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event: eventName, userId: 'export-user' }),
+      });
+
+      const startDate = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const response = await fetch(
+        `${baseUrl}/v1/events/export?format=ndjson&eventType=${eventName}&startDate=${startDate}`,
+        { headers }
+      );
+      const lines = (await response.text()).trim().split('\n');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain(
+        'application/x-ndjson'
+      );
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]!)).toMatchObject({
+        tenantId: TENANT_ID,
+        eventName,
+        userId: 'export-user',
+      });
+    });
+
+    it('should export CSV with a header row', async () => {
+      const response = await fetch(
+        `${baseUrl}/v1/events/export?format=csv&eventType=never_tracked`,
+        { headers }
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-disposition')).toContain(
+        'events-tenant1.csv'
+      );
+      expect((await response.text()).startsWith('eventId,tenantId')).toBe(true);
+    });
+
+    it('should reject unknown formats', async () => {
+      const response = await fetch(`${baseUrl}/v1/events/export?format=xml`, {
+        headers,
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject repeated and malformed parameters', async () => {
+      for (const query of [
+        'eventTypes=a&eventTypes=b',
+        'startDate=yesterday',
+        'startDate=2024-02-01T00:00:00Z&endDate=2024-01-01T00:00:00Z',
+      ]) {
+        const response = await fetch(`${baseUrl}/v1/events/export?${query}`, {
+          headers,
+        });
+        const body = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(body.error).toBe('Invalid export request');
+      }
+    });
+  });
+
+  describe('Query Output Formats', () => {
+    const headers = { 'x-tenant-id': TENANT_ID, 'x-api-key': API_KEY };
+
+    it('should return events as CSV', async () => {
+      const response = await fetch(
+        `${baseUrl}/v1/events/query?format=csv&limit=5`,
+        { headers }
+      );
+      const body = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/csv');
+      expect(response.headers.get('x-total-count')).toBeDefined();
+      expect(body.startsWith('eventId,tenantId,userId,eventName')).toBe(true);
+    });
+
+    it('should return users as a plain-text table', async () => {
+      const response = await fetch(`${baseUrl}/v1/users/query?format=table`, {
+        headers,
+      });
+      const lines = (await response.text()).split('\n');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(lines[0]).toMatch(/^userId\s+\| firstSeen/);
+      expect(lines[1]).toMatch(/^-+\+-/);
+    });
+  });
+
+  describe('Cursor Pagination', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should page through events with signed cursors', async () => {
+      for (let i = 0; i < 3; i++) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            event: 'cursor_test',
+            userId: 'user123',
+            properties: { i },
+          }),
+        });
+      }
+
+      const query = `${baseUrl}/v1/events/query?eventTypes=cursor_test&limit=2`;
+      const first = await (await fetch(query, { headers })).json();
+      expect(first.data.hasMore).toBe(true);
+      expect(typeof first.data.nextCursor).toBe('string');
+
+      const second = await (
+        await fetch(
+          `${query}&cursor=${encodeURIComponent(first.data.nextCursor)}`,
+          { headers }
+        )
+      ).json();
+      const ids = [...first.data.events, ...second.data.events].map(
+        (event: any) => event.eventId
+      );
+      expect(second.data.events.length).toBeGreaterThan(0);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(second.data.pagination.nextOffset).toBeUndefined();
+    });
+
+    it('should reject tampered cursors and cursors combined with offset', async () => {
+      const tampered = await fetch(
+        `${baseUrl}/v1/users/query?cursor=eyJmb28iOjF9.c2lnbmF0dXJl`,
+        { headers }
+      );
+      expect(tampered.status).toBe(400);
+      expect((await tampered.json()).error).toBe('Invalid cursor');
+
+      const combined = await fetch(
+        `${baseUrl}/v1/events/query?cursor=abc.def&offset=10`,
+        { headers }
+      );
+      expect(combined.status).toBe(400);
+      expect((await combined.json()).message).toBe(
+        'cursor cannot be combined with offset'
+      );
+    });
+  });
+
+  describe('Property Filter Expressions', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should filter events on nested properties', async () => {
+      for (const source of ['newsletter', 'search']) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            event: 'where_test',
+            userId: 'user123',
+            properties: { utm: { source }, amount: source.length },
+          }),
+        });
+      }
+
+      const where = {
+        and: [
+          { property: 'utm.source', operator: 'startsWith', value: 'news' },
+          { property: 'amount', operator: 'gt', value: 5 },
+        ],
+      };
+      const response = await fetch(
+        `${baseUrl}/v1/events/query?eventTypes=where_test&where=${encodeURIComponent(JSON.stringify(where))}`,
+        { headers }
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.events.length).toBeGreaterThan(0);
+      expect(
+        body.data.events.every(
+          (event: any) => event.properties.utm.source === 'newsletter'
+        )
+      ).toBe(true);
+    });
+
+    it('should reject invalid filter expressions', async () => {
+      const invalid = await fetch(
+        `${baseUrl}/v1/users/query?where=${encodeURIComponent(JSON.stringify({ property: 'plan', operator: 'in', value: 'pro' }))}`,
+        { headers }
+      );
+      const invalidBody = await invalid.json();
+      expect(invalid.status).toBe(400);
+      expect(invalidBody.error).toBe('Invalid where');
+      expect(invalidBody.message).toContain('Validation failed');
+
+      const malformed = await fetch(
+        `${baseUrl}/v1/events/query?where=%7Bnope`,
+        { headers }
+      );
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).message).toBe('where must be valid JSON');
+    });
+  });
+
+  describe('User Profile and Timeline', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should return an identified user and 404 for unknown users', async () => {
+      await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'profile-user',
+          traits: { plan: 'pro' },
+        }),
+      });
+
+      const response = await fetch(`${baseUrl}/v1/users/profile-user`, {
+        headers,
+      });
+      const body = await response.json();
+      expect(response.status).toBe(200);
+      expect(body.data.userId).toBe('profile-user');
+      expect(body.data.properties.plan).toBe('pro');
+
+      const missing = await fetch(`${baseUrl}/v1/users/nobody-here`, {
+        headers,
+      });
+      expect(missing.status).toBe(404);
+      expect((await missing.json()).error).toBe('User not found');
+    });
+
+    it('should page through a user timeline filtered by event type', async () => {
+      for (const event of [
+        'timeline_view',
+        'timeline_click',
+        'timeline_view',
+        'timeline_view',
+      ]) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ event, userId: 'timeline-user' }),
+        });
+      }
+      await fetch(`${baseUrl}/v1/track`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          event: 'timeline_view',
+          userId: 'someone-else',
+        }),
+      });
+
+      const url = `${baseUrl}/v1/users/timeline-user/events?eventType=timeline_view&limit=2`;
+      const first = await (await fetch(url, { headers })).json();
+      expect(first.data.userId).toBe('timeline-user');
+      expect(first.data.events).toHaveLength(2);
+      expect(first.data.hasMore).toBe(true);
+
+      const second = await (
+        await fetch(
+          `${url}&cursor=${encodeURIComponent(first.data.nextCursor)}`,
+          { headers }
+        )
+      ).json();
+      const events = [...first.data.events, ...second.data.events];
+      expect(events).toHaveLength(3);
+      expect(
+        events.every(
+          (event: any) =>
+            event.userId === 'timeline-user' &&
+            event.eventName === 'timeline_view'
+        )
+      ).toBe(true);
+      const times = events.map((event: any) => Date.parse(event.timestamp));
+      expect([...times].sort((a, b) => b - a)).toEqual(times);
+    });
+
+    it('should count every event of concurrent tracks on the profile', async () => {
+      await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ userId: 'busy-user', traits: { plan: 'pro' } }),
+      });
+      await Promise.all(
+        Array.from({ length: 10 }, () =>
+          fetch(`${baseUrl}/v1/track`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ event: 'busy_click', userId: 'busy-user' }),
+          })
+        )
+      );
+
+      const body = await (
+        await fetch(`${baseUrl}/v1/users/busy-user`, { headers })
+      ).json();
+      expect(body.data.eventCount).toBe(10);
+      expect(body.data.properties.plan).toBe('pro');
+    });
+
+    it('should reject invalid timeline parameters', async () => {
+      const response = await fetch(
+        `${baseUrl}/v1/users/timeline-user/events?limit=0`,
+        { headers }
+      );
+      const body = await response.json();
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Invalid timeline request');
+      expect(body.message).toContain('Validation failed');
+    });
+  });
+
+  describe('Identity Resolution', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should resolve anonymous events to the user once aliased', async () => {
+      await fetch(`${baseUrl}/v1/track`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          event: 'alias_landing',
+          anonymousId: 'alias-anon-1',
+          timestamp: '2024-05-01T10:00:00.000Z',
+        }),
+      });
+      await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'alias-anon-1',
+          traits: { referrer: 'newsletter' },
+        }),
+      });
+      await fetch(`${baseUrl}/v1/track`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          event: 'alias_signup',
+          userId: 'alias-user',
+          timestamp: '2024-05-01T10:05:00.000Z',
+        }),
+      });
+
+      const response = await fetch(`${baseUrl}/v1/alias`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'alias-user',
+          previousId: 'alias-anon-1',
+        }),
+      });
+      const body = await response.json();
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({
+        success: true,
+        userId: 'alias-user',
+        previousId: 'alias-anon-1',
+        linked: true,
+        profileMerged: true,
+      });
+
+      const profile = await (
+        await fetch(`${baseUrl}/v1/users/alias-anon-1`, { headers })
+      ).json();
+      expect(profile.data.userId).toBe('alias-user');
+      expect(profile.data.properties.referrer).toBe('newsletter');
+
+      const timeline = await (
+        await fetch(`${baseUrl}/v1/users/alias-user/events?sortOrder=asc`, {
+          headers,
+        })
+      ).json();
+      expect(
+        timeline.data.events.map(
+          (event: { eventName: string }) => event.eventName
+        )
+      ).toEqual(['alias_landing', 'alias_signup']);
+
+      const funnel = await (
+        await fetch(`${baseUrl}/v1/analytics/funnel`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            steps: [{ event: 'alias_landing' }, { event: 'alias_signup' }],
+            startDate: '2024-05-01T00:00:00.000Z',
+            endDate: '2024-05-02T00:00:00.000Z',
+          }),
+        })
+      ).json();
+      expect(
+        funnel.data.steps.map((step: { count: number }) => step.count)
+      ).toEqual([1, 1]);
+    });
+
+    it('should link an anonymousId sent with identify and reject re-assigning it', async () => {
+      await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'alias-owner',
+          anonymousId: 'alias-anon-2',
+        }),
+      });
+
+      const response = await fetch(`${baseUrl}/v1/alias`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'alias-other',
+          previousId: 'alias-anon-2',
+        }),
+      });
+      const body = await response.json();
+      expect(response.status).toBe(409);
+      expect(body.error).toBe('Alias conflict');
+      expect(body.message).toBe(
+        'Alias alias-anon-2 already belongs to user alias-owner'
+      );
+    });
+
+    it('should reject aliasing a user to itself', async () => {
+      const response = await fetch(`${baseUrl}/v1/alias`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'alias-user',
+          previousId: 'alias-user',
+        }),
+      });
+      const body = await response.json();
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Invalid alias request');
+    });
+  });
+
+  describe('Group Endpoint', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it("should attribute members' events to their groups", async () => {
+      for (const [userId, event] of [
+        ['group-user-1', 'group_test'],
+        ['group-user-2', 'group_test'],
+        ['group-user-3', 'group_test'],
+      ]) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ event, userId }),
+        });
+      }
+
+      const response = await fetch(`${baseUrl}/v1/group`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          groupId: 'group-acme',
+          traits: { plan: 'enterprise' },
+          userId: 'group-user-1',
+        }),
+      });
+      const body = await response.json();
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({
+        success: true,
+        groupId: 'group-acme',
+        groupType: 'company',
+        userId: 'group-user-1',
+        created: true,
+        memberAdded: true,
+      });
+
+      await fetch(`${baseUrl}/v1/batch`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          batch: [
+            { type: 'group', groupId: 'group-acme', userId: 'group-user-2' },
+            { type: 'group', groupId: 'group-globex', userId: 'group-user-3' },
+          ],
+        }),
+      });
+
+      const query = await (
+        await fetch(
+          `${baseUrl}/v1/events/query?eventType=group_test&groupId=group-acme&sortBy=userId&sortOrder=asc`,
+          { headers }
+        )
+      ).json();
+      expect(
+        query.data.events.map((event: { userId: string }) => event.userId)
+      ).toEqual(['group-user-1', 'group-user-2']);
+
+      const aggregate = await (
+        await fetch(`${baseUrl}/v1/events/aggregate`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            metric: 'count',
+            groupBy: 'groups.company',
+            filter: { eventTypes: ['group_test'] },
+          }),
+        })
+      ).json();
+      expect(aggregate.data.buckets).toEqual([
+        { group: 'group-acme', value: 2 },
+        { group: 'group-globex', value: 1 },
+      ]);
+    });
+
+    it('should keep the groupType when a group call omits it', async () => {
+      const group = (body: Record<string, unknown>) =>
+        fetch(`${baseUrl}/v1/group`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ groupId: 'group-team', ...body }),
+        }).then((response) => response.json());
+
+      expect(await group({ groupType: 'team' })).toMatchObject({
+        groupType: 'team',
+        created: true,
+      });
+      expect(await group({ traits: { size: 5 } })).toMatchObject({
+        groupType: 'team',
+        created: false,
+      });
+    });
+
+    it('should reject a group without a groupId', async () => {
+      const response = await fetch(`${baseUrl}/v1/group`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ userId: 'group-user-1' }),
+      });
+      const body = await response.json();
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Invalid group request');
+    });
+  });
+
+  describe('User Data Export', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should download a tar archive of the user profile and events', async () => {
+      await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'export-user',
+          traits: { email: 'export@example.com' },
+        }),
+      });
+      await fetch(`${baseUrl}/v1/track`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          event: 'export_checkout',
+          userId: 'export-user',
+        }),
+      });
+
+      const response = await fetch(
+        `${baseUrl}/v1/users/export-user/export?format=csv`,
+        { headers }
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('application/x-tar');
+      expect(response.headers.get('content-disposition')).toBe(
+        `attachment; filename="user-export-${TENANT_ID}.tar"`
+      );
+
+      const archive = Buffer.from(await response.arrayBuffer());
+      expect(archive.length % 512).toBe(0);
+      const text = archive.toString('utf8');
+      for (const file of [
+        'manifest.json',
+        'user.csv',
+        'events.csv',
+        'aliases.csv',
+      ]) {
+        expect(text).toContain(file);
+      }
+      expect(text).toContain('export@example.com');
+      expect(text).toContain('export_checkout');
+    });
+
+    it('should reject unknown formats', async () => {
+      const response = await fetch(
+        `${baseUrl}/v1/users/export-user/export?format=xml`,
+        { headers }
+      );
+      const body = await response.json();
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Invalid export request');
+    });
+  });
+
+  describe('User Deletion', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should erase the profile and events and complete the receipt', async () => {
+      await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'erased-user',
+          traits: { email: 'erased@example.com' },
+        }),
+      });
+      for (let i = 0; i < 3; i++) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            event: 'erasure_test',
+            userId: 'erased-user',
+            messageId: `erasure-msg-${i}`,
+          }),
+        });
+      }
+
+      const response = await fetch(`${baseUrl}/v1/users/erased-user`, {
+        method: 'DELETE',
+        headers,
+      });
+      const body = await response.json();
+      expect(response.status).toBe(202);
+      expect(body.data.status).toBe('pending');
+      expect(response.headers.get('location')).toBe(
+        `/v1/deletions/${body.data.receiptId}`
+      );
+
+      let receipt: any;
+      for (let attempt = 0; attempt < 50; attempt++) {
+        receipt = (
+          await (
+            await fetch(`${baseUrl}${response.headers.get('location')}`, {
+              headers,
+            })
+          ).json()
+        ).data;
+        if (receipt.status === 'completed' || receipt.status === 'failed')
+          break;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      expect(receipt.status).toBe('completed');
+      expect(receipt.eventsDeleted).toBe(3);
+      expect(receipt.deduplicationRecordsPurged).toBe(3);
+      expect(receipt.profileDeleted).toBe(true);
+      expect(receipt.userId).toBeUndefined();
+
+      expect(
+        (await fetch(`${baseUrl}/v1/users/erased-user`, { headers })).status
+      ).toBe(404);
+      const timeline = await (
+        await fetch(`${baseUrl}/v1/users/erased-user/events`, { headers })
+      ).json();
+      expect(timeline.data.events).toEqual([]);
+    });
+
+    it('should return 404 for unknown receipts', async () => {
+      const response = await fetch(
+        `${baseUrl}/v1/deletions/3f1c2a9e-6b7d-4e2f-9a1b-5c8d7e6f4a3b`,
+        { headers }
+      );
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toBe('Deletion receipt not found');
+    });
+  });
+
+  describe('Event Aggregation', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should count events grouped by name', async () => {
+      await fetch(`${baseUrl}/v1/track`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          event: 'aggregate_test',
+          userId: 'user123',
+          properties: { amount: 12 },
+        }),
+      });
+
+      const response = await fetch(`${baseUrl}/v1/events/aggregate`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          metric: 'sum',
+          property: 'amount',
+          groupBy: 'eventName',
+          filter: { eventTypes: ['aggregate_test'] },
+        }),
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.timezone).toBe('UTC');
+      expect(body.data.buckets).toEqual([
+        { group: 'aggregate_test', value: 12 },
+      ]);
+    });
+
+    it('should reject property metrics without a property', async () => {
+      const response = await fetch(`${baseUrl}/v1/events/aggregate`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ metric: 'avg', timezone: 'Mars/Olympus' }),
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Invalid aggregate request');
+    });
+  });
+
+  describe('Funnel Analysis', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should report per-step counts for tracked events', async () => {
+      const startDate = new Date(Date.now() - 60000).toISOString();
+      for (const event of ['funnel_signup', 'funnel_activate']) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ event, userId: 'funnel-user' }),
+        });
+      }
+
+      const response = await fetch(`${baseUrl}/v1/analytics/funnel`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          steps: [
+            { event: 'funnel_signup' },
+            { event: 'funnel_activate' },
+            { event: 'funnel_purchase' },
+          ],
+          startDate,
+          endDate: new Date(Date.now() + 60000).toISOString(),
+        }),
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.conversionWindowSeconds).toBe(604800);
+      expect(body.data.steps.map((step: any) => step.count)).toEqual([1, 1, 0]);
+      expect(body.data.steps[2].medianSecondsToConvert).toBeNull();
+    });
+
+    it('should reject funnels with a single step', async () => {
+      const response = await fetch(`${baseUrl}/v1/analytics/funnel`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          steps: [{ event: 'signup' }],
+          startDate: '2024-01-01T00:00:00Z',
+          endDate: '2024-02-01T00:00:00Z',
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Invalid funnel request');
+    });
+  });
+
+  describe('Retention Analysis', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should return a cohort for users who performed the start event', async () => {
+      const startDate = new Date(Date.now() - 60000).toISOString();
+      for (const event of ['retention_signup', 'retention_login']) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ event, userId: 'retention-user' }),
+        });
+      }
+
+      const response = await fetch(`${baseUrl}/v1/analytics/retention`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          startEvent: { event: 'retention_signup' },
+          returnEvent: { event: 'retention_login' },
+          interval: 'day',
+          startDate,
+          endDate: new Date(Date.now() + 60000).toISOString(),
+        }),
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data.cohorts).toHaveLength(1);
+      expect(body.data.cohorts[0].size).toBe(1);
+      expect(body.data.cohorts[0].retained[0]).toBe(1);
+      expect(body.data.cohorts[0].rates[0]).toBe(1);
+    });
+
+    it('should reject ranges with too many periods', async () => {
+      const response = await fetch(`${baseUrl}/v1/analytics/retention`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          returnEvent: { event: 'login' },
+          interval: 'day',
+          startDate: '2020-01-01T00:00:00Z',
+          endDate: '2024-01-01T00:00:00Z',
+        }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Invalid retention request');
+    });
+  });
+
+  describe('Session Analytics', () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-tenant-id': TENANT_ID,
+      'x-api-key': API_KEY,
+    };
+
+    it('should assign sessions on track and report them', async () => {
+      // tenant1 ends sessions after 20 minutes of inactivity
+      const tracks = [
+        ['session-user-a', '2021-03-01T10:00:00Z'],
+        ['session-user-b', '2021-03-01T10:05:00Z'],
+        ['session-user-a', '2021-03-01T10:15:00Z'],
+        ['session-user-a', '2021-03-01T10:40:00Z'],
+      ];
+      for (const [userId, timestamp] of tracks) {
+        await fetch(`${baseUrl}/v1/track`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ event: 'session_view', userId, timestamp }),
+        });
+      }
+
+      const profile = await (
+        await fetch(`${baseUrl}/v1/users/session-user-a`, { headers })
+      ).json();
+      expect(profile.data.sessionCount).toBe(2);
+      expect(profile.data.eventCount).toBe(3);
+
+      const timeline = await (
+        await fetch(`${baseUrl}/v1/users/session-user-a/events?sortOrder=asc`, {
+          headers,
+        })
+      ).json();
+      const sessionIds = timeline.data.events.map(
+        (event: any) => event.sessionId
+      );
+      expect(sessionIds[0]).toBeTruthy();
+      expect(sessionIds[1]).toBe(sessionIds[0]);
+      expect(sessionIds[2]).not.toBe(sessionIds[0]);
+
+      const response = await fetch(
+        `${baseUrl}/v1/analytics/sessions?startDate=2021-03-01T00:00:00Z&endDate=2021-03-02T00:00:00Z&interval=day`,
+        { headers }
+      );
+      const body = await response.json();
+      expect(response.status).toBe(200);
+      expect(body.data).toMatchObject({
+        sessionTimeoutMinutes: 20,
+        sessions: 3,
+        users: 2,
+        bounces: 2,
+        averageDurationSeconds: 300,
+        medianDurationSeconds: 0,
+      });
+      expect(body.data.bounceRate).toBeCloseTo(2 / 3);
+      expect(body.data.periods).toEqual([
+        expect.objectContaining({
+          periodStart: '2021-03-01T00:00:00.000Z',
+          sessions: 3,
+        }),
+      ]);
+    });
+
+    it('should reject invalid session parameters', async () => {
+      const response = await fetch(
+        `${baseUrl}/v1/analytics/sessions?startDate=2021-03-02T00:00:00Z&endDate=2021-03-01T00:00:00Z`,
+        { headers }
+      );
+      const body = await response.json();
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Invalid sessions request');
+      expect(body.message).toBe(
+        'Validation failed: startDate: must be before endDate'
+      );
+    });
+  });
+
   describe('Identify Endpoint', () => {
     it('should identify users successfully', async () => {
       const response = await fetch(`${baseUrl}/v1/identify`, {
@@ -102,6 +1179,72 @@ describe('API Endpoints Integration Tests', () => {
       expect(data.success).toBe(true);
       expect(data.userId).toBe('user456');
     });
+
+    it('should apply trait operators across concurrent calls', async () => {
+      const headers = {
+        'Content-Type': 'application/json',
+        'x-tenant-id': TENANT_ID,
+        'x-api-key': API_KEY,
+      };
+      await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          userId: 'operator-user',
+          traits: { trialEndsAt: '2024-02-01' },
+          $setOnce: { firstReferrer: 'newsletter' },
+        }),
+      });
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () =>
+          fetch(`${baseUrl}/v1/identify`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+              userId: 'operator-user',
+              $setOnce: { firstReferrer: 'ads' },
+              $increment: { lifetimePurchases: 1 },
+              $union: { visitedSections: ['pricing'] },
+              $unset: ['trialEndsAt'],
+            }),
+          })
+        )
+      );
+      expect(responses.map((response) => response.status)).toEqual([
+        200, 200, 200, 200, 200,
+      ]);
+
+      const profile = await (
+        await fetch(`${baseUrl}/v1/users/operator-user`, { headers })
+      ).json();
+      expect(profile.data.properties).toEqual({
+        firstReferrer: 'newsletter',
+        lifetimePurchases: 5,
+        visitedSections: ['pricing'],
+      });
+    });
+
+    it('should reject a trait updated by two operators', async () => {
+      const response = await fetch(`${baseUrl}/v1/identify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-tenant-id': TENANT_ID,
+          'x-api-key': API_KEY,
+        },
+        body: JSON.stringify({
+          userId: 'operator-user',
+          traits: { plan: 'pro' },
+          $unset: ['plan'],
+        }),
+      });
+
+      const data = await response.json();
+      expect(response.status).toBe(400);
+      expect(data.message).toBe(
+        'Validation failed: $unset: trait "plan" is already updated by traits'
+      );
+    });
   });
 });
 it('should handle high-frequency requests without performance degradation', async () => {
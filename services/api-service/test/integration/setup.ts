@@ -7,10 +7,13 @@ import { spawn, ChildProcess } from 'child_process';
 const INTEGRATION_DATA_DIR = './integration-test-data';
 const INTEGRATION_EVENTS_DIR = join(INTEGRATION_DATA_DIR, 'events');
 const INTEGRATION_USERS_DIR = join(INTEGRATION_DATA_DIR, 'users');
+const INTEGRATION_GROUPS_DIR = join(INTEGRATION_DATA_DIR, 'groups');
+const INTEGRATION_DELETIONS_DIR = join(INTEGRATION_DATA_DIR, 'deletions');
 
 // Shared integration test server
 let integrationServerProcess: ChildProcess | null = null;
-const INTEGRATION_TEST_PORT = 3001 + Math.floor(Math.random() * 10000) + process.pid % 1000;
+const INTEGRATION_TEST_PORT =
+  3001 + Math.floor(Math.random() * 10000) + (process.pid % 1000);
 
 export function getIntegrationServerUrl(): string {
   return `http://localhost:${INTEGRATION_TEST_PORT}`;
@@ -30,10 +33,13 @@ async function startIntegrationServer(): Promise<void> {
         STORE_RATELIMIT: 'memory',
         EVENTS_PATH: INTEGRATION_EVENTS_DIR,
         USERS_PATH: INTEGRATION_USERS_DIR,
-        RATE_LIMIT_MAX: '100',
+        GROUPS_PATH: INTEGRATION_GROUPS_DIR,
+        DELETIONS_PATH: INTEGRATION_DELETIONS_DIR,
+        RATE_LIMIT_MAX: '1000',
         RATE_LIMIT_WINDOW: '60',
         API_KEY_HEADER: 'x-api-key',
         CORS_ORIGINS: '*',
+        TENANT_SESSION_TIMEOUTS: 'tenant1=20',
         // Don't set JWT_SECRET to keep authentication disabled for integration tests
       },
     });
@@ -97,7 +103,9 @@ beforeAll(async () => {
   process.env.STORE_RATELIMIT = 'memory';
   process.env.EVENTS_PATH = INTEGRATION_EVENTS_DIR;
   process.env.USERS_PATH = INTEGRATION_USERS_DIR;
-  process.env.RATE_LIMIT_MAX = '100';
+  process.env.GROUPS_PATH = INTEGRATION_GROUPS_DIR;
+  process.env.DELETIONS_PATH = INTEGRATION_DELETIONS_DIR;
+  process.env.RATE_LIMIT_MAX = '1000';
   process.env.RATE_LIMIT_WINDOW = '60';
   process.env.API_KEY_HEADER = 'x-api-key';
   process.env.CORS_ORIGINS = '*';
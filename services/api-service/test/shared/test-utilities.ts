@@ -1,4 +1,5 @@
 import { expect } from 'vitest';
+import { AnalyticsEvent, UserRecord } from '../../src/types/core.js';
 
 export const COMMON_TEST_DATA = {
   API_KEY: 'demo-api-key-tenant1',
@@ -8,6 +9,43 @@ export const COMMON_TEST_DATA = {
   TEST_PROPERTIES: { page: '/home', source: 'test' }
 };
 
+/**
+ * Build a stored event for adapter and service tests; received when it
+ * happened unless overridden
+ */
+export function makeEvent(
+  overrides: Partial<AnalyticsEvent> = {}
+): AnalyticsEvent {
+  const timestamp =
+    overrides.timestamp ?? new Date('2024-01-01T00:00:00.000Z');
+  return {
+    eventId: 'evt-1',
+    tenantId: 'tenant-a',
+    userId: 'user-1',
+    eventName: 'page_view',
+    properties: {},
+    timestamp,
+    receivedAt: timestamp,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a stored user profile for adapter and service tests
+ */
+export function makeUser(overrides: Partial<UserRecord> = {}): UserRecord {
+  return {
+    userId: 'user-1',
+    tenantId: 'tenant-a',
+    properties: {},
+    firstSeen: new Date('2024-01-01T00:00:00Z'),
+    lastSeen: new Date('2024-01-01T00:00:00Z'),
+    sessionCount: 1,
+    eventCount: 0,
+    ...overrides,
+  };
+}
+
 export class SharedTestUtilities {
   /**
    * Validate health endpoint response
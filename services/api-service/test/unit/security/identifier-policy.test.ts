@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  validateTenantId,
+  validateUserId,
+  userIdToPathSegment,
+  MAX_TENANT_ID_LENGTH,
+  MAX_USER_ID_LENGTH,
+} from '../../../src/security/identifier-policy.js';
+import { ExpressRequestRouter } from '../../../src/middleware/request-router.js';
+import { FlatFileEventAdapter } from '../../../src/adapters/flatfile-event-adapter.js';
+import { FlatFileUserAdapter } from '../../../src/adapters/flatfile-user-adapter.js';
+
+describe('Identifier policy', () => {
+  describe('tenant IDs', () => {
+    it('should accept ordinary tenant IDs', () => {
+      for (const tenantId of ['tenant1', 'tenant_abc123', 'acme-prod', 'a.b']) {
+        expect(validateTenantId(tenantId).success).toBe(true);
+      }
+    });
+
+    it('should reject traversal and path separators', () => {
+      for (const tenantId of [
+        '..',
+        '.',
+        '../../etc',
+        'tenant/../other',
+        'a\\b',
+        '.hidden',
+      ]) {
+        expect(validateTenantId(tenantId).success).toBe(false);
+      }
+    });
+
+    it('should reject null bytes and control characters', () => {
+      expect(validateTenantId('tenant\0').success).toBe(false);
+      expect(validateTenantId('tenant\n1').success).toBe(false);
+    });
+
+    it('should reject very long IDs', () => {
+      expect(validateTenantId('t'.repeat(MAX_TENANT_ID_LENGTH)).success).toBe(
+        true
+      );
+      expect(
+        validateTenantId('t'.repeat(MAX_TENANT_ID_LENGTH + 1)).success
+      ).toBe(false);
+    });
+  });
+
+  describe('user IDs', () => {
+    it('should accept free-form user IDs', () => {
+      for (const userId of ['user-1', 'jane@example.com', 'auth0|123', 'ü']) {
+        expect(validateUserId(userId).success).toBe(true);
+      }
+    });
+
+    it('should reject null bytes, control characters and very long IDs', () => {
+      expect(validateUserId('user\0.json').success).toBe(false);
+      expect(validateUserId('user\r\n').success).toBe(false);
+      expect(validateUserId('u'.repeat(MAX_USER_ID_LENGTH + 1)).success).toBe(
+        false
+      );
+    });
+
+    it('should keep safe IDs unchanged as path segments', () => {
+      expect(userIdToPathSegment('jane@example.com')).toBe('jane@example.com');
+    });
+
+    it('should encode separators, traversal and percent signs', () => {
+      expect(userIdToPathSegment('../../etc/passwd')).toBe(
+        '%2E.%2F..%2Fetc%2Fpasswd'
+      );
+      expect(userIdToPathSegment('..')).toBe('%2E.');
+      expect(userIdToPathSegment('a\\b')).toBe('a%5Cb');
+      expect(userIdToPathSegment('100%')).toBe('100%25');
+      expect(userIdToPathSegment('%2F')).not.toBe(userIdToPathSegment('/'));
+    });
+
+    it('should hash IDs whose encoding is too long for a file name', () => {
+      const segment = userIdToPathSegment('/'.repeat(MAX_USER_ID_LENGTH));
+
+      expect(segment).toMatch(/^%h[0-9a-f]{64}$/);
+      expect(userIdToPathSegment('ü'.repeat(MAX_USER_ID_LENGTH))).not.toBe(
+        segment
+      );
+    });
+
+    it('should refuse to encode invalid IDs', () => {
+      expect(() => userIdToPathSegment('user\0')).toThrow(/Invalid user ID/);
+    });
+  });
+
+  describe('request router', () => {
+    let app: express.Application;
+
+    beforeEach(() => {
+      const router = new ExpressRequestRouter();
+      app = express();
+      app.use(express.json());
+      app.post(
+        '/identify',
+        router.attachRequestId.bind(router),
+        router.enforceTenantHeader.bind(router),
+        router.validateIdentifyRequest.bind(router),
+        (req, res) => {
+          res.json({ tenantId: req.tenantInfo?.tenantId });
+        }
+      );
+    });
+
+    it('should reject tenant headers that escape the data directory', async () => {
+      const response = await request(app)
+        .post('/identify')
+        .set('x-tenant-id', '../../etc')
+        .send({ userId: 'user-1' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid tenant ID');
+    });
+
+    it('should reject user IDs with null bytes or excessive length', async () => {
+      for (const userId of ['user\0', 'u'.repeat(MAX_USER_ID_LENGTH + 1)]) {
+        const response = await request(app)
+          .post('/identify')
+          .set('x-tenant-id', 'tenant1')
+          .send({ userId })
+          .expect(400);
+
+        expect(response.body.error).toBe('Invalid identify request');
+      }
+    });
+
+    it('should accept valid identifiers', async () => {
+      const response = await request(app)
+        .post('/identify')
+        .set('x-tenant-id', 'tenant1')
+        .send({ userId: '../not-a-path' })
+        .expect(200);
+
+      expect(response.body.tenantId).toBe('tenant1');
+    });
+  });
+
+  describe('flat-file adapters', () => {
+    let rootDir: string;
+    let dataDir: string;
+
+    beforeEach(async () => {
+      rootDir = await fs.mkdtemp(join(tmpdir(), 'nodash-identifiers-'));
+      dataDir = join(rootDir, 'data');
+    });
+
+    afterEach(async () => {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('should keep traversal user IDs inside the tenant directory', async () => {
+      const adapter = new FlatFileUserAdapter(dataDir);
+      const now = new Date();
+
+      const result = await adapter.upsert({
+        userId: '../../../escaped',
+        tenantId: 'tenant1',
+        properties: {},
+        firstSeen: now,
+        lastSeen: now,
+        sessionCount: 1,
+        eventCount: 0,
+      });
+
+      expect(result.success).toBe(true);
+      expect(await fs.readdir(rootDir)).toEqual(['data']);
+      expect(await fs.readdir(join(dataDir, 'tenant1', 'users'))).toEqual([
+        '%2E.%2F..%2F..%2Fescaped.json',
+      ]);
+      expect((await adapter.get('tenant1', '../../../escaped'))?.userId).toBe(
+        '../../../escaped'
+      );
+    });
+
+    it('should refuse traversal tenant IDs', async () => {
+      const userAdapter = new FlatFileUserAdapter(dataDir);
+      const eventAdapter = new FlatFileEventAdapter(dataDir);
+      const now = new Date();
+
+      const upsert = await userAdapter.upsert({
+        userId: 'user-1',
+        tenantId: '../escaped',
+        properties: {},
+        firstSeen: now,
+        lastSeen: now,
+        sessionCount: 1,
+        eventCount: 0,
+      });
+      const [insert] = await eventAdapter.insertBatch([
+        {
+          eventId: 'evt-1',
+          tenantId: '../escaped',
+          eventName: 'page_view',
+          properties: {},
+          timestamp: now,
+          receivedAt: now,
+        },
+      ]);
+
+      expect(upsert.success).toBe(false);
+      expect(insert?.success).toBe(false);
+      expect(await userAdapter.get('..', 'user-1')).toBeNull();
+      await expect(
+        eventAdapter.query({ tenantId: '../escaped' })
+      ).rejects.toThrow(/Invalid tenant ID/);
+      expect(await fs.readdir(rootDir)).toEqual([]);
+    });
+  });
+});
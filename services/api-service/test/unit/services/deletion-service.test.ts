@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { DeletionService } from '../../../src/services/deletion-service.js';
+import { MemoryEventAdapter } from '../../../src/adapters/memory-event-adapter.js';
+import { MemoryUserAdapter } from '../../../src/adapters/memory-user-adapter.js';
+import { MemoryGroupAdapter } from '../../../src/adapters/memory-group-adapter.js';
+import { MemorySessionAdapter } from '../../../src/adapters/memory-session.js';
+import {
+  DeduplicationAdapter,
+  EventAdapter,
+  StoreSelector,
+} from '../../../src/interfaces/storage.js';
+import { makeEvent } from '../../shared/test-utilities.js';
+
+// Records forgotten event ids instead of running a cleanup timer
+class RecordingDeduplicationAdapter {
+  processed = new Set<string>();
+
+  async forget(tenantId: string, eventIds: string[]): Promise<number> {
+    let removed = 0;
+    for (const eventId of eventIds) {
+      if (this.processed.delete(`${tenantId}:${eventId}`)) removed++;
+    }
+    return removed;
+  }
+}
+
+describe('DeletionService', () => {
+  let receiptsDir: string;
+  let eventAdapter: MemoryEventAdapter;
+  let userAdapter: MemoryUserAdapter;
+  let groupAdapter: MemoryGroupAdapter;
+  let sessionAdapter: MemorySessionAdapter;
+  let deduplication: RecordingDeduplicationAdapter;
+  let selector: StoreSelector;
+
+  beforeEach(async () => {
+    receiptsDir = await fs.mkdtemp(join(tmpdir(), 'nodash-deletions-'));
+    eventAdapter = new MemoryEventAdapter();
+    userAdapter = new MemoryUserAdapter();
+    groupAdapter = new MemoryGroupAdapter();
+    sessionAdapter = new MemorySessionAdapter();
+    deduplication = new RecordingDeduplicationAdapter();
+    selector = {
+      getEventAdapter: () => eventAdapter,
+      getUserAdapter: () => userAdapter,
+      getGroupAdapter: () => groupAdapter,
+      getSessionAdapter: () => sessionAdapter,
+      getDeduplicationAdapter: () =>
+        deduplication as unknown as DeduplicationAdapter,
+    } as StoreSelector;
+
+    await eventAdapter.insertBatch([
+      makeEvent({ eventId: 'a', userId: 'user-1' }),
+      makeEvent({ eventId: 'b', userId: 'user-2' }),
+      makeEvent({ eventId: 'c', userId: 'user-1' }),
+    ]);
+    await userAdapter.upsert({
+      userId: 'user-1',
+      tenantId: 'tenant-a',
+      properties: { email: 'one@example.com' },
+      firstSeen: new Date('2024-01-01T00:00:00.000Z'),
+      lastSeen: new Date('2024-01-01T00:00:00.000Z'),
+      sessionCount: 1,
+      eventCount: 2,
+    });
+    await groupAdapter.upsert(
+      {
+        groupId: 'acme',
+        tenantId: 'tenant-a',
+        groupType: 'company',
+        properties: {},
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+      },
+      'user-1'
+    );
+    await sessionAdapter.assign(
+      'tenant-a',
+      'user-1',
+      new Date('2024-01-01T00:00:00.000Z'),
+      30 * 60 * 1000
+    );
+    deduplication.processed = new Set(['tenant-a:a', 'tenant-a:b']);
+  });
+
+  afterEach(async () => {
+    await sessionAdapter.close();
+    await fs.rm(receiptsDir, { recursive: true, force: true });
+  });
+
+  it('should erase the user everywhere and complete the receipt', async () => {
+    const service = new DeletionService(selector, receiptsDir);
+
+    const requested = await service.requestDeletion('tenant-a', 'user-1');
+    expect(requested.status).toBe('pending');
+    expect(requested.userId).toBe('user-1');
+    expect(requested.userIdHash).toBe(
+      createHash('sha256').update('user-1').digest('hex')
+    );
+
+    await service.whenIdle();
+
+    const receipt = await service.getReceipt('tenant-a', requested.receiptId);
+    expect(receipt).toMatchObject({
+      status: 'completed',
+      userIdHash: requested.userIdHash,
+      profileDeleted: true,
+      eventsDeleted: 2,
+      deduplicationRecordsPurged: 1,
+      groupMembershipsDeleted: 1,
+      sessionsDeleted: 1,
+    });
+    expect(receipt!.userId).toBeUndefined();
+    expect(receipt!.completedAt).toBeInstanceOf(Date);
+
+    const { events } = await eventAdapter.query({ tenantId: 'tenant-a' });
+    expect(events.map((event) => event.eventId)).toEqual(['b']);
+    expect(await userAdapter.get('tenant-a', 'user-1')).toBeNull();
+    expect(await groupAdapter.getMembers('tenant-a', 'acme')).toEqual([]);
+    expect(await sessionAdapter.forget('tenant-a', ['user-1'])).toBe(0);
+    expect([...deduplication.processed]).toEqual(['tenant-a:b']);
+  });
+
+  it("should erase the user's aliases and their events", async () => {
+    await eventAdapter.insert(makeEvent({ eventId: 'd', userId: 'anon-1' }));
+    await userAdapter.alias('tenant-a', 'anon-1', 'user-1');
+    const service = new DeletionService(selector, receiptsDir);
+
+    const { receiptId } = await service.requestDeletion('tenant-a', 'anon-1');
+    await service.whenIdle();
+
+    expect(await service.getReceipt('tenant-a', receiptId)).toMatchObject({
+      status: 'completed',
+      profileDeleted: true,
+      eventsDeleted: 3,
+      aliasesDeleted: 1,
+    });
+    const { events } = await eventAdapter.query({ tenantId: 'tenant-a' });
+    expect(events.map((event) => event.eventId)).toEqual(['b']);
+    expect(await userAdapter.get('tenant-a', 'user-1')).toBeNull();
+    expect(await userAdapter.resolveIdentities('tenant-a', ['anon-1'])).toEqual(
+      new Map()
+    );
+  });
+
+  it('should record failures and succeed when requested again', async () => {
+    const failing = {
+      deleteUserEvents: async () => {
+        throw new Error('event store unavailable');
+      },
+    } as unknown as EventAdapter;
+    const service = new DeletionService(
+      { ...selector, getEventAdapter: () => failing },
+      receiptsDir
+    );
+
+    const { receiptId } = await service.requestDeletion('tenant-a', 'user-1');
+    await service.whenIdle();
+
+    const failed = await service.getReceipt('tenant-a', receiptId);
+    expect(failed).toMatchObject({
+      status: 'failed',
+      userId: 'user-1',
+      error: 'event store unavailable',
+    });
+    expect(await userAdapter.get('tenant-a', 'user-1')).not.toBeNull();
+
+    const retry = new DeletionService(selector, receiptsDir);
+    const retried = await retry.requestDeletion('tenant-a', 'user-1');
+    await retry.whenIdle();
+    expect(
+      (await retry.getReceipt('tenant-a', retried.receiptId))!.status
+    ).toBe('completed');
+  });
+
+  it('should resume erasures left unfinished by a restart', async () => {
+    const receiptId = '3f1c2a9e-6b7d-4e2f-9a1b-5c8d7e6f4a3b';
+    await fs.mkdir(join(receiptsDir, 'tenant-a'));
+    await fs.writeFile(
+      join(receiptsDir, 'tenant-a', `${receiptId}.json`),
+      JSON.stringify({
+        receiptId,
+        tenantId: 'tenant-a',
+        userId: 'user-1',
+        userIdHash: 'hash',
+        status: 'running',
+        requestedAt: '2024-01-01T00:00:00.000Z',
+        startedAt: '2024-01-01T00:00:01.000Z',
+      })
+    );
+
+    const service = new DeletionService(selector, receiptsDir);
+    expect(await service.resumePending()).toBe(1);
+    await service.whenIdle();
+
+    expect((await service.getReceipt('tenant-a', receiptId))!.status).toBe(
+      'completed'
+    );
+    expect(await userAdapter.get('tenant-a', 'user-1')).toBeNull();
+    expect(await service.resumePending()).toBe(0);
+  });
+
+  it("should not return another tenant's or malformed receipts", async () => {
+    const service = new DeletionService(selector, receiptsDir);
+    const { receiptId } = await service.requestDeletion('tenant-a', 'user-1');
+    await service.whenIdle();
+
+    expect(await service.getReceipt('tenant-b', receiptId)).toBeNull();
+    expect(await service.getReceipt('tenant-a', '../tenant-a')).toBeNull();
+    expect(
+      await service.getReceipt('tenant-a', receiptId.toUpperCase())
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { computeFunnel } from '../../../src/services/funnel-analysis.js';
+import { AnalyticsEvent, FunnelQuery } from '../../../src/types/core.js';
+
+const HOUR = 60 * 60 * 1000;
+
+let nextId = 0;
+function event(
+  userId: string | undefined,
+  eventName: string,
+  hour: number,
+  properties: Record<string, any> = {}
+): AnalyticsEvent {
+  const timestamp = new Date(Date.UTC(2024, 0, 1) + hour * HOUR);
+  return {
+    eventId: `evt-${nextId++}`,
+    tenantId: 'tenant-a',
+    ...(userId && { userId }),
+    eventName,
+    properties,
+    timestamp,
+    receivedAt: timestamp,
+  };
+}
+
+const query: FunnelQuery = {
+  tenantId: 'tenant-a',
+  steps: [
+    { eventName: 'signup' },
+    { eventName: 'activate' },
+    { eventName: 'purchase', properties: { plan: 'pro' } },
+  ],
+  conversionWindowMs: 24 * HOUR,
+  startTime: new Date(Date.UTC(2024, 0, 1)),
+  endTime: new Date(Date.UTC(2024, 1, 1)),
+};
+
+describe('Funnel analysis', () => {
+  it('should count users per step with conversion rates and medians', async () => {
+    const steps = await computeFunnel(
+      [
+        event('a', 'signup', 0),
+        event('a', 'activate', 1),
+        event('a', 'purchase', 4, { plan: 'pro' }),
+        event('b', 'signup', 0),
+        event('b', 'activate', 3),
+        event('b', 'purchase', 5, { plan: 'free' }),
+        event('c', 'signup', 2),
+        event('d', 'activate', 2),
+      ],
+      query
+    );
+
+    expect(steps).toEqual([
+      {
+        eventName: 'signup',
+        count: 3,
+        conversionRate: 1,
+        stepConversionRate: 1,
+        medianTimeToConvert: null,
+      },
+      {
+        eventName: 'activate',
+        count: 2,
+        conversionRate: 2 / 3,
+        stepConversionRate: 2 / 3,
+        medianTimeToConvert: 2 * HOUR,
+      },
+      {
+        eventName: 'purchase',
+        count: 1,
+        conversionRate: 1 / 3,
+        stepConversionRate: 1 / 2,
+        medianTimeToConvert: 3 * HOUR,
+      },
+    ]);
+  });
+
+  it('should require steps in order and within the window', async () => {
+    const steps = await computeFunnel(
+      [
+        // Out of order
+        event('a', 'activate', 0),
+        event('a', 'signup', 1),
+        // Second step outside the window
+        event('b', 'signup', 0),
+        event('b', 'activate', 25),
+        // A later restart still converts
+        event('c', 'signup', 0),
+        event('c', 'signup', 30),
+        event('c', 'activate', 31),
+        // Anonymous events never count
+        event(undefined, 'signup', 0),
+        event(undefined, 'activate', 1),
+      ],
+      query
+    );
+
+    expect(steps.map((step) => step.count)).toEqual([3, 1, 0]);
+    expect(steps[1]!.medianTimeToConvert).toBe(HOUR);
+  });
+
+  it('should let one event advance a sequence by one step only', async () => {
+    const steps = await computeFunnel([event('a', 'view', 0)], {
+      ...query,
+      steps: [{ eventName: 'view' }, { eventName: 'view' }],
+    });
+
+    expect(steps.map((step) => step.count)).toEqual([1, 0]);
+  });
+
+  it('should report zero rates when nobody enters the funnel', async () => {
+    const steps = await computeFunnel([], query);
+
+    expect(steps.every((step) => step.count === 0)).toBe(true);
+    expect(steps.every((step) => step.conversionRate === 0)).toBe(true);
+  });
+});
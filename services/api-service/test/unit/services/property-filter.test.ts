@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PropertyFilterSchema,
+  matchesPropertyFilter,
+} from '../../../src/services/property-filter.js';
+import { PropertyFilter } from '../../../src/types/core.js';
+
+const properties = {
+  plan: 'pro',
+  amount: 120,
+  tags: ['beta', 'mobile'],
+  utm: { source: 'google', campaign: { id: 'spring-24' } },
+  coupon: null,
+  signedUpAt: '2024-03-01T10:00:00.000Z',
+};
+
+function matches(filter: PropertyFilter): boolean {
+  return matchesPropertyFilter(properties, filter);
+}
+
+describe('property filters', () => {
+  it('should evaluate every operator', () => {
+    expect(matches({ property: 'plan', operator: 'eq', value: 'pro' })).toBe(
+      true
+    );
+    expect(matches({ property: 'plan', operator: 'neq', value: 'pro' })).toBe(
+      false
+    );
+    expect(matches({ property: 'amount', operator: 'gt', value: 100 })).toBe(
+      true
+    );
+    expect(matches({ property: 'amount', operator: 'gte', value: 120 })).toBe(
+      true
+    );
+    expect(matches({ property: 'amount', operator: 'lt', value: 120 })).toBe(
+      false
+    );
+    expect(matches({ property: 'amount', operator: 'lte', value: 120 })).toBe(
+      true
+    );
+    expect(
+      matches({ property: 'plan', operator: 'in', value: ['free', 'pro'] })
+    ).toBe(true);
+    expect(
+      matches({ property: 'tags', operator: 'contains', value: 'beta' })
+    ).toBe(true);
+    expect(
+      matches({ property: 'plan', operator: 'contains', value: 'r' })
+    ).toBe(true);
+    expect(
+      matches({ property: 'plan', operator: 'startsWith', value: 'pr' })
+    ).toBe(true);
+    expect(matches({ property: 'coupon', operator: 'exists' })).toBe(true);
+    expect(matches({ property: 'referrer', operator: 'notExists' })).toBe(true);
+    expect(
+      matches({ property: 'signedUpAt', operator: 'regex', value: '^2024-03' })
+    ).toBe(true);
+  });
+
+  it('should resolve dotted paths into nested properties', () => {
+    expect(
+      matches({ property: 'utm.source', operator: 'eq', value: 'google' })
+    ).toBe(true);
+    expect(
+      matches({
+        property: 'utm.campaign',
+        operator: 'eq',
+        value: { id: 'spring-24' },
+      })
+    ).toBe(true);
+    expect(
+      matches({ property: 'utm.campaign.id.length', operator: 'exists' })
+    ).toBe(false);
+    expect(matches({ property: 'plan.length', operator: 'exists' })).toBe(
+      false
+    );
+  });
+
+  it('should not coerce types or match missing properties', () => {
+    expect(matches({ property: 'amount', operator: 'gt', value: '100' })).toBe(
+      false
+    );
+    expect(matches({ property: 'amount', operator: 'eq', value: '120' })).toBe(
+      false
+    );
+    expect(matches({ property: 'missing', operator: 'eq', value: null })).toBe(
+      false
+    );
+    expect(matches({ property: 'missing', operator: 'neq', value: 1 })).toBe(
+      true
+    );
+    expect(
+      matches({ property: 'signedUpAt', operator: 'gte', value: '2024-01-01' })
+    ).toBe(true);
+  });
+
+  it('should combine filters with and/or groups', () => {
+    expect(
+      matches({
+        or: [
+          { property: 'plan', operator: 'eq', value: 'free' },
+          {
+            and: [
+              { property: 'amount', operator: 'gte', value: 100 },
+              { property: 'utm.source', operator: 'in', value: ['google'] },
+            ],
+          },
+        ],
+      })
+    ).toBe(true);
+    expect(
+      matches({
+        and: [
+          { property: 'plan', operator: 'eq', value: 'pro' },
+          { property: 'referrer', operator: 'exists' },
+        ],
+      })
+    ).toBe(false);
+  });
+
+  it('should validate operator values and size limits', () => {
+    const valid = (filter: unknown) =>
+      PropertyFilterSchema.safeParse(filter).success;
+
+    expect(valid({ property: 'plan', operator: 'eq', value: 'pro' })).toBe(
+      true
+    );
+    expect(valid({ property: 'plan', operator: 'eq' })).toBe(false);
+    expect(valid({ property: 'plan', operator: 'exists', value: 1 })).toBe(
+      false
+    );
+    expect(valid({ property: 'plan', operator: 'in', value: 'pro' })).toBe(
+      false
+    );
+    expect(valid({ property: 'plan', operator: 'gt', value: true })).toBe(
+      false
+    );
+    expect(valid({ property: 'plan', operator: 'regex', value: '(' })).toBe(
+      false
+    );
+    for (const pattern of [
+      '(a+)+$',
+      '(a|ab)*c',
+      '((x)*y)+',
+      '(a?b){2,}',
+      '(\\w)\\1',
+      '(?<q>.)\\k<q>',
+    ]) {
+      expect(
+        valid({ property: 'plan', operator: 'regex', value: pattern })
+      ).toBe(false);
+    }
+    for (const pattern of [
+      '^(pro|team)$',
+      '(?:\\d{4}-)?\\d+',
+      '[(a+)+]',
+      '(?<year>\\d{4})-',
+    ]) {
+      expect(
+        valid({ property: 'plan', operator: 'regex', value: pattern })
+      ).toBe(true);
+    }
+    expect(valid({ property: 'plan', operator: 'like', value: 'p%' })).toBe(
+      false
+    );
+    expect(valid({ and: [] })).toBe(false);
+    expect(
+      valid({ and: [{ property: 'plan', operator: 'exists' }], extra: 1 })
+    ).toBe(false);
+
+    let nested: unknown = { property: 'plan', operator: 'exists' };
+    for (let depth = 0; depth < 6; depth++) {
+      nested = { and: [nested] };
+    }
+    expect(valid(nested)).toBe(false);
+
+    // Rejected before the recursive schema walks it, not with a stack overflow
+    let deep: unknown = { property: 'plan', operator: 'exists' };
+    for (let depth = 0; depth < 100_000; depth++) {
+      deep = { or: [deep] };
+    }
+    expect(valid(deep)).toBe(false);
+
+    const conditions = Array.from({ length: 51 }, () => ({
+      property: 'plan',
+      operator: 'exists',
+    }));
+    expect(valid({ or: conditions })).toBe(false);
+    expect(valid({ or: conditions.slice(1) })).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CursorScope,
+  QueryCursorCodec,
+} from '../../../src/services/query-cursor.js';
+
+const scope: CursorScope = {
+  resource: 'events',
+  tenantId: 'tenant-a',
+  sortBy: 'timestamp',
+  sortOrder: 'desc',
+};
+const position = { value: Date.UTC(2024, 0, 1), id: 'evt-1' };
+
+describe('QueryCursorCodec', () => {
+  it('should round-trip a position within its scope', () => {
+    const codec = new QueryCursorCodec('secret');
+    const cursor = codec.encode(scope, position);
+
+    expect(cursor).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(codec.decode(cursor, { ...scope })).toEqual(position);
+    expect(
+      codec.decode(
+        codec.encode(
+          { resource: 'users', tenantId: 'a' },
+          {
+            value: 'user-1',
+            id: 'user-1',
+          }
+        ),
+        { resource: 'users', tenantId: 'a' }
+      )
+    ).toEqual({ value: 'user-1', id: 'user-1' });
+  });
+
+  it('should reject cursors issued for another scope', () => {
+    const codec = new QueryCursorCodec('secret');
+    const cursor = codec.encode(scope, position);
+
+    expect(codec.decode(cursor, { ...scope, tenantId: 'tenant-b' })).toBe(
+      undefined
+    );
+    expect(codec.decode(cursor, { ...scope, resource: 'users' })).toBe(
+      undefined
+    );
+    expect(codec.decode(cursor, { ...scope, sortOrder: 'asc' })).toBe(
+      undefined
+    );
+    expect(
+      codec.decode(cursor, { resource: 'events', tenantId: 'tenant-a' })
+    ).toBe(undefined);
+  });
+
+  it('should reject tampered, foreign and malformed cursors', () => {
+    const codec = new QueryCursorCodec('secret');
+    const [, signature] = codec.encode(scope, position).split('.');
+    const forged = Buffer.from(
+      JSON.stringify(['events', 'tenant-a', 'timestamp', 'desc', 0, 'evt-0'])
+    ).toString('base64url');
+
+    expect(codec.decode(`${forged}.${signature}`, scope)).toBe(undefined);
+    expect(
+      codec.decode(new QueryCursorCodec('other').encode(scope, position), scope)
+    ).toBe(undefined);
+    expect(codec.decode('', scope)).toBe(undefined);
+    expect(codec.decode('not-a-cursor', scope)).toBe(undefined);
+    expect(codec.decode('a.b.c', scope)).toBe(undefined);
+  });
+
+  it('should generate a random secret when none is configured', () => {
+    const cursor = new QueryCursorCodec().encode(scope, position);
+
+    expect(new QueryCursorCodec().decode(cursor, scope)).toBe(undefined);
+  });
+});
@@ -0,0 +1,356 @@
+import { describe, it, expect } from 'vitest';
+import { QueryService } from '../../../src/services/query-service.js';
+import { MemoryEventAdapter } from '../../../src/adapters/memory-event-adapter.js';
+import { MemoryUserAdapter } from '../../../src/adapters/memory-user-adapter.js';
+import { MemoryGroupAdapter } from '../../../src/adapters/memory-group-adapter.js';
+import {
+  EventAdapter,
+  GroupAdapter,
+  StoreSelector,
+  UserAdapter,
+} from '../../../src/interfaces/storage.js';
+import { AnalyticsEvent } from '../../../src/types/core.js';
+
+const events: AnalyticsEvent[] = Array.from({ length: 2500 }, (_, i) => ({
+  eventId: `evt-${i}`,
+  tenantId: 'tenant-a',
+  userId: `user-${i % 7}`,
+  eventName: i % 2 === 0 ? 'signup' : 'page_view',
+  properties: { amount: i },
+  timestamp: new Date(Date.UTC(2024, 0, 1 + (i % 3), 12)),
+  receivedAt: new Date(Date.UTC(2024, 0, 1 + (i % 3), 12)),
+}));
+
+// Only the parts of the store selector the query service needs
+function selectorFor(
+  eventAdapter: EventAdapter,
+  userAdapter: UserAdapter = new MemoryUserAdapter(),
+  groupAdapter: GroupAdapter = new MemoryGroupAdapter()
+): StoreSelector {
+  return {
+    getEventAdapter: () => eventAdapter,
+    getUserAdapter: () => userAdapter,
+    getGroupAdapter: () => groupAdapter,
+  } as StoreSelector;
+}
+
+describe('QueryService', () => {
+  describe('aggregateEvents', () => {
+    it('should page through query() when the adapter cannot aggregate', async () => {
+      const memory = new MemoryEventAdapter();
+      await memory.insertBatch(events);
+      const queryOnly: EventAdapter = {
+        insert: memory.insert.bind(memory),
+        insertBatch: memory.insertBatch.bind(memory),
+        query: memory.query.bind(memory),
+        export: memory.export.bind(memory),
+        deleteUserEvents: memory.deleteUserEvents.bind(memory),
+        healthCheck: memory.healthCheck.bind(memory),
+        close: memory.close.bind(memory),
+      };
+
+      const query = {
+        filter: { tenantId: 'tenant-a' },
+        metric: 'sum' as const,
+        property: 'amount',
+        groupBy: { field: 'eventName' as const },
+        interval: 'day' as const,
+      };
+      const fallback = await new QueryService(
+        selectorFor(queryOnly)
+      ).aggregateEvents(query);
+      const native = await new QueryService(
+        selectorFor(memory)
+      ).aggregateEvents(query);
+
+      expect(fallback.buckets).toHaveLength(6);
+      expect(
+        fallback.buckets.reduce((total, bucket) => total + bucket.value!, 0)
+      ).toBe((2499 * 2500) / 2);
+      expect(fallback.buckets).toEqual(native.buckets);
+    });
+
+    it('should order buckets by time, then group with null last', async () => {
+      const adapter = {
+        aggregate: async () => ({
+          buckets: [
+            { time: new Date('2024-01-02'), group: 'b', value: 1 },
+            { time: new Date('2024-01-01'), group: null, value: 2 },
+            { time: new Date('2024-01-01'), group: 'b', value: 3 },
+            { time: new Date('2024-01-01'), group: 'a', value: 4 },
+          ],
+          executionTime: 0,
+        }),
+      } as unknown as EventAdapter;
+
+      const result = await new QueryService(
+        selectorFor(adapter)
+      ).aggregateEvents({ filter: { tenantId: 'tenant-a' }, metric: 'count' });
+
+      expect(result.buckets.map((bucket) => bucket.value)).toEqual([
+        4, 3, 2, 1,
+      ]);
+    });
+
+    it('should count each event once while older events arrive', async () => {
+      const memory = new MemoryEventAdapter();
+      await memory.insertBatch(events);
+      let inserted = false;
+      const queryOnly = {
+        query: async (filter: Parameters<EventAdapter['query']>[0]) => {
+          const page = await memory.query(filter);
+          if (!inserted) {
+            inserted = true;
+            await memory.insert({
+              ...events[0]!,
+              eventId: 'late',
+              timestamp: new Date(Date.UTC(2023, 11, 31)),
+            });
+          }
+          return page;
+        },
+      } as unknown as EventAdapter;
+
+      const result = await new QueryService(
+        selectorFor(queryOnly)
+      ).aggregateEvents({ filter: { tenantId: 'tenant-a' }, metric: 'count' });
+
+      expect(result.buckets).toEqual([{ value: events.length }]);
+    });
+  });
+
+  describe('queryEvents', () => {
+    it('should walk every page with cursors while events arrive', async () => {
+      const memory = new MemoryEventAdapter();
+      await memory.insertBatch(events.slice(0, 250));
+      const service = new QueryService(selectorFor(memory), 'secret');
+      const options = { sortBy: 'userId' as const, sortOrder: 'desc' as const };
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const after = cursor
+          ? service.decodeCursor('events', 'tenant-a', cursor, options)
+          : undefined;
+        const page = await service.queryEvents('tenant-a', {
+          ...options,
+          limit: 40,
+          ...(after && { after }),
+        });
+        seen.push(...page.events.map((event) => event.eventId));
+        expect(page.pagination.nextOffset).toBe(after ? undefined : 40);
+        cursor = page.nextCursor;
+
+        // Events that sort ahead of the cursor must not shift later pages
+        await memory.insert({
+          ...events[0]!,
+          eventId: `late-${seen.length}`,
+          userId: 'user-9',
+        });
+      } while (cursor);
+
+      expect(seen).toHaveLength(250);
+      expect(new Set(seen).size).toBe(250);
+      expect(
+        service.decodeCursor('events', 'tenant-a', 'forged.cursor', options)
+      ).toBe(undefined);
+    });
+
+    it('should return the adapter page, not a page of it', async () => {
+      const memory = new MemoryEventAdapter();
+      await memory.insertBatch(events.slice(0, 10));
+
+      const result = await new QueryService(selectorFor(memory)).queryEvents(
+        'tenant-a',
+        { limit: 4, offset: 8 }
+      );
+
+      expect(result.events).toHaveLength(2);
+      expect(result.totalCount).toBe(10);
+      expect(result.nextCursor).toBe(undefined);
+    });
+  });
+
+  describe('identity resolution', () => {
+    it("should treat an alias's events as the user's", async () => {
+      const eventAdapter = new MemoryEventAdapter();
+      const userAdapter = new MemoryUserAdapter();
+      const minute = (n: number) => new Date(Date.UTC(2024, 0, 1, 12, n));
+      await eventAdapter.insertBatch(
+        (
+          [
+            ['anon-1', 'view_pricing', 0],
+            ['user-1', 'signup', 5],
+            ['anon-2', 'view_pricing', 6],
+            ['user-2', 'signup', 7],
+          ] as const
+        ).map(([userId, eventName, n], i) => ({
+          eventId: `id-${i}`,
+          tenantId: 'tenant-a',
+          userId,
+          eventName,
+          properties: {},
+          timestamp: minute(n),
+          receivedAt: minute(n),
+        }))
+      );
+      await userAdapter.alias('tenant-a', 'anon-1', 'user-1');
+      const service = new QueryService(selectorFor(eventAdapter, userAdapter));
+
+      for (const userId of ['user-1', 'anon-1']) {
+        const { events: timeline } = await service.queryEvents('tenant-a', {
+          userId,
+          sortBy: 'timestamp',
+          sortOrder: 'asc',
+        });
+        expect(timeline.map((event) => event.eventId)).toEqual([
+          'id-0',
+          'id-1',
+        ]);
+      }
+
+      const funnel = await service.analyzeFunnel({
+        tenantId: 'tenant-a',
+        steps: [{ eventName: 'view_pricing' }, { eventName: 'signup' }],
+        conversionWindowMs: 60 * 60 * 1000,
+        startTime: minute(0),
+        endTime: minute(10),
+      });
+      expect(funnel.steps.map((step) => step.count)).toEqual([2, 1]);
+
+      const aggregate = await service.aggregateEvents({
+        filter: { tenantId: 'tenant-a', userId: 'anon-1' },
+        metric: 'uniqueUsers',
+      });
+      // Aggregations filter by the user's ids but count them as stored
+      expect(aggregate.buckets).toEqual([{ value: 2 }]);
+    });
+  });
+
+  describe('group attribution', () => {
+    it("should attribute events to their user's groups", async () => {
+      const eventAdapter = new MemoryEventAdapter();
+      const userAdapter = new MemoryUserAdapter();
+      const groupAdapter = new MemoryGroupAdapter();
+      await eventAdapter.insertBatch(
+        ['anon-1', 'user-1', 'user-2', 'user-3'].map((userId, i) => ({
+          eventId: `id-${i}`,
+          tenantId: 'tenant-a',
+          userId,
+          eventName: 'page_view',
+          properties: {},
+          timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+          receivedAt: new Date(Date.UTC(2024, 0, 1, i)),
+        }))
+      );
+      await userAdapter.alias('tenant-a', 'anon-1', 'user-1');
+      const join = (groupId: string, groupType: string, userId: string) =>
+        groupAdapter.upsert(
+          {
+            groupId,
+            tenantId: 'tenant-a',
+            groupType,
+            properties: {},
+            createdAt: new Date(Date.UTC(2024, 0, 1)),
+            updatedAt: new Date(Date.UTC(2024, 0, 1)),
+          },
+          userId
+        );
+      await join('acme', 'company', 'anon-1');
+      await join('globex', 'company', 'user-2');
+      await join('admins', 'team', 'user-3');
+      const service = new QueryService(
+        selectorFor(eventAdapter, userAdapter, groupAdapter)
+      );
+
+      const { events: acme } = await service.queryEvents('tenant-a', {
+        groupId: 'acme',
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+      });
+      expect(acme.map((event) => event.eventId)).toEqual(['id-0', 'id-1']);
+
+      const { events: none } = await service.queryEvents('tenant-a', {
+        groupId: 'acme',
+        userId: 'user-2',
+      });
+      expect(none).toEqual([]);
+
+      const breakdown = await service.aggregateEvents(
+        { filter: { tenantId: 'tenant-a' }, metric: 'count' },
+        'company'
+      );
+      expect(breakdown.buckets).toEqual([
+        { group: 'acme', value: 2 },
+        { group: 'globex', value: 1 },
+        { group: null, value: 1 },
+      ]);
+    });
+  });
+
+  describe('analyzeRetention', () => {
+    it('should build cohorts from firstSeen with trait breakdowns', async () => {
+      const eventAdapter = new MemoryEventAdapter();
+      const userAdapter = new MemoryUserAdapter();
+      const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n, 12));
+
+      for (const [userId, firstSeen, plan] of [
+        ['user-1', 0, 'pro'],
+        ['user-2', 0, 'free'],
+        ['user-3', 1, 'pro'],
+        ['user-old', -5, 'pro'],
+      ] as const) {
+        await userAdapter.upsert({
+          userId,
+          tenantId: 'tenant-a',
+          properties: { plan },
+          firstSeen: day(firstSeen),
+          lastSeen: day(2),
+          sessionCount: 1,
+          eventCount: 1,
+        });
+      }
+      await eventAdapter.insertBatch(
+        (
+          [
+            ['user-1', 1],
+            ['user-3', 2],
+            ['user-old', 1],
+          ] as const
+        ).map(([userId, n], i) => ({
+          eventId: `ret-${i}`,
+          tenantId: 'tenant-a',
+          userId,
+          eventName: 'login',
+          properties: {},
+          timestamp: day(n),
+          receivedAt: day(n),
+        }))
+      );
+
+      const result = await new QueryService(
+        selectorFor(eventAdapter, userAdapter)
+      ).analyzeRetention({
+        tenantId: 'tenant-a',
+        returnEvent: { eventName: 'login' },
+        interval: 'day',
+        startTime: new Date(Date.UTC(2024, 0, 1)),
+        endTime: new Date(Date.UTC(2024, 0, 3, 23)),
+        breakdownBy: 'plan',
+      });
+
+      expect(
+        result.cohorts.map((cohort) => [
+          cohort.cohortStart.toISOString().slice(0, 10),
+          cohort.group,
+          cohort.size,
+          cohort.retained,
+        ])
+      ).toEqual([
+        ['2024-01-01', 'free', 1, [0, 0, 0]],
+        ['2024-01-01', 'pro', 1, [0, 1, 0]],
+        ['2024-01-02', 'pro', 1, [0, 1]],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  eventsToCsv,
+  eventsToTable,
+  usersToCsv,
+  usersToTable,
+} from '../../../src/services/result-formatter.js';
+import { AnalyticsEvent, UserRecord } from '../../../src/types/core.js';
+
+const events: AnalyticsEvent[] = [
+  {
+    eventId: 'evt-1',
+    tenantId: 'tenant1',
+    userId: 'user-1',
+    eventName: 'page_view',
+    properties: { page: '/home', utm: { source: 'google' } },
+    timestamp: new Date('2024-01-15T10:30:00.000Z'),
+    receivedAt: new Date('2024-01-15T10:30:01.000Z'),
+  },
+  {
+    eventId: 'evt-2',
+    tenantId: 'tenant1',
+    eventName: 'purchase',
+    properties: { title: 'Say "hi", world\nagain', items: [1, 2] },
+    timestamp: new Date('2024-01-15T11:00:00.000Z'),
+    receivedAt: new Date('2024-01-15T11:00:01.000Z'),
+    sessionId: 'session-1',
+  },
+];
+
+const users: UserRecord[] = [
+  {
+    userId: 'user-1',
+    tenantId: 'tenant1',
+    properties: { plan: 'pro', seats: 5 },
+    firstSeen: new Date('2024-01-01T00:00:00.000Z'),
+    lastSeen: new Date('2024-01-15T00:00:00.000Z'),
+    sessionCount: 3,
+    eventCount: 120,
+  },
+];
+
+describe('Result formatter', () => {
+  describe('csv', () => {
+    it('should give every flattened property its own column', () => {
+      const [header, first] = eventsToCsv(events).split('\r\n');
+
+      expect(header).toBe(
+        'eventId,tenantId,userId,eventName,timestamp,receivedAt,sessionId,deviceId,' +
+          'properties.items,properties.page,properties.title,properties.utm.source'
+      );
+      expect(first).toBe(
+        'evt-1,tenant1,user-1,page_view,2024-01-15T10:30:00.000Z,2024-01-15T10:30:01.000Z,,,,/home,,google'
+      );
+    });
+
+    it('should quote fields per RFC 4180 and end records with CRLF', () => {
+      const csv = eventsToCsv(events);
+
+      expect(csv.endsWith('\r\n')).toBe(true);
+      expect(csv).toContain(
+        ',session-1,,"[1,2]",,"Say ""hi"", world\nagain",\r\n'
+      );
+    });
+
+    it('should render users with trait columns', () => {
+      expect(usersToCsv(users)).toBe(
+        'userId,tenantId,firstSeen,lastSeen,sessionCount,eventCount,properties.plan,properties.seats\r\n' +
+          'user-1,tenant1,2024-01-01T00:00:00.000Z,2024-01-15T00:00:00.000Z,3,120,pro,5\r\n'
+      );
+    });
+
+    it('should give dotted keys a column apart from nested ones', () => {
+      const [header, row] = eventsToCsv([
+        { ...events[0]!, properties: { 'a.b': 1, a: { b: 2 }, 'c[': 3 } },
+      ]).split('\r\n');
+
+      expect(header).toContain(
+        ',properties.a.b,"properties[""a.b""]","properties[""c[""]"'
+      );
+      expect(row).toMatch(/,2,1,3$/);
+    });
+
+    it('should keep formula-like text from running in spreadsheets', () => {
+      const [, row] = eventsToCsv([
+        {
+          ...events[0]!,
+          eventName: '=HYPERLINK("http://x")',
+          properties: { a: '+1+cmd', b: '@SUM(A1)', c: -5, d: '-2' },
+        },
+      ]).split('\r\n');
+
+      expect(row).toContain(',"\'=HYPERLINK(""http://x"")",');
+      expect(row).toMatch(/,'\+1\+cmd,'@SUM\(A1\),-5,-2$/);
+    });
+
+    it('should output only the header for empty results', () => {
+      expect(usersToCsv([])).toBe(
+        'userId,tenantId,firstSeen,lastSeen,sessionCount,eventCount\r\n'
+      );
+    });
+  });
+
+  describe('table', () => {
+    it('should align columns to a fixed width', () => {
+      const lines = usersToTable(users).trimEnd().split('\n');
+
+      expect(lines).toEqual([
+        'userId | firstSeen                | lastSeen                 | sessionCount | eventCount | properties',
+        '-------+--------------------------+--------------------------+--------------+------------+-------------------------',
+        'user-1 | 2024-01-01T00:00:00.000Z | 2024-01-15T00:00:00.000Z |            3 |        120 | {"plan":"pro","seats":5}',
+      ]);
+    });
+
+    it('should keep each row on one line and truncate long values', () => {
+      const lines = eventsToTable(events).trimEnd().split('\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[3]).toContain('…');
+      expect(
+        new Set(
+          lines
+            .filter((line) => !line.startsWith('-'))
+            .map((line) => line.indexOf('|'))
+        ).size
+      ).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeRetention,
+  RetentionMember,
+} from '../../../src/services/retention-analysis.js';
+import { AnalyticsEvent, RetentionQuery } from '../../../src/types/core.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+let nextId = 0;
+function event(
+  userId: string,
+  day: number,
+  eventName = 'return'
+): AnalyticsEvent {
+  const timestamp = new Date(START + day * DAY);
+  return {
+    eventId: `evt-${nextId++}`,
+    tenantId: 'tenant-a',
+    userId,
+    eventName,
+    properties: {},
+    timestamp,
+    receivedAt: timestamp,
+  };
+}
+
+function members(
+  entries: Array<[string, number, Record<string, any>?]>
+): Map<string, RetentionMember> {
+  return new Map(
+    entries.map(([userId, day, traits]) => [
+      userId,
+      { time: START + day * DAY, ...(traits && { traits }) },
+    ])
+  );
+}
+
+const query: RetentionQuery = {
+  tenantId: 'tenant-a',
+  returnEvent: { eventName: 'return' },
+  interval: 'day',
+  startTime: new Date(START),
+  endTime: new Date(START + 2.5 * DAY),
+};
+
+describe('Retention analysis', () => {
+  it('should build a triangular matrix of returning users', async () => {
+    const cohorts = await computeRetention(
+      members([
+        ['a', 0],
+        ['b', 0],
+        ['c', 1],
+      ]),
+      [
+        event('a', 0.5),
+        event('a', 1.2),
+        event('a', 1.4),
+        event('b', 2.1),
+        event('c', 1.5),
+        event('c', 2.5),
+        // Not a return event
+        event('b', 1.1, 'other'),
+      ],
+      query
+    );
+
+    expect(cohorts).toEqual([
+      { cohortStart: new Date(START), size: 2, retained: [1, 1, 1] },
+      { cohortStart: new Date(START + DAY), size: 1, retained: [1, 1] },
+    ]);
+  });
+
+  it('should not count returns before the user entered the cohort', async () => {
+    const cohorts = await computeRetention(
+      members([['a', 0.5]]),
+      [event('a', 0.2), event('stranger', 0.6)],
+      query
+    );
+
+    expect(cohorts[0]!.retained).toEqual([0, 0, 0]);
+  });
+
+  it('should split cohorts by trait with missing values last', async () => {
+    const cohorts = await computeRetention(
+      members([
+        ['a', 0, { plan: 'pro' }],
+        ['b', 0, { plan: 'free' }],
+        ['c', 0],
+      ]),
+      [event('a', 1), event('c', 2)],
+      { ...query, breakdownBy: 'plan' }
+    );
+
+    expect(cohorts.map((cohort) => [cohort.group, cohort.retained])).toEqual([
+      ['free', [0, 0, 0]],
+      ['pro', [0, 1, 0]],
+      [null, [0, 0, 1]],
+    ]);
+  });
+
+  it('should align weekly periods to Mondays in the timezone', async () => {
+    // 2024-01-07 is a Sunday; 23:00 UTC is already Monday in Berlin
+    const cohorts = await computeRetention(
+      new Map([['a', { time: Date.UTC(2024, 0, 7, 23) }]]),
+      [event('a', 7.5)],
+      {
+        ...query,
+        interval: 'week',
+        timezone: 'Europe/Berlin',
+        endTime: new Date(Date.UTC(2024, 0, 20)),
+      }
+    );
+
+    expect(cohorts).toEqual([
+      {
+        cohortStart: new Date('2024-01-07T23:00:00.000Z'),
+        size: 1,
+        retained: [1, 0],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { computeSessions } from '../../../src/services/session-analysis.js';
+import { AnalyticsEvent, SessionQuery } from '../../../src/types/core.js';
+
+const MINUTE = 60 * 1000;
+
+let nextId = 0;
+function event(
+  userId: string | undefined,
+  minutes: number,
+  sessionId?: string
+): AnalyticsEvent {
+  const timestamp = new Date(Date.UTC(2024, 0, 1) + minutes * MINUTE);
+  return {
+    eventId: `evt-${nextId++}`,
+    tenantId: 'tenant-a',
+    ...(userId && { userId }),
+    eventName: 'page_view',
+    properties: {},
+    timestamp,
+    receivedAt: timestamp,
+    ...(sessionId && { sessionId }),
+  };
+}
+
+const query: SessionQuery = {
+  tenantId: 'tenant-a',
+  startTime: new Date(Date.UTC(2024, 0, 1)),
+  endTime: new Date(Date.UTC(2024, 1, 1)),
+  timeoutMs: 30 * MINUTE,
+};
+
+describe('Session analysis', () => {
+  it('should group events by sessionId and summarize the sessions', async () => {
+    const { totals, periods } = await computeSessions(
+      [
+        event('a', 0, 's1'),
+        event('a', 10, 's1'),
+        event('a', 20, 's1'),
+        event('b', 5, 's2'),
+        event('b', 65, 's2'), // The stored sessionId wins over the gap
+        event('c', 30, 's3'),
+        event(undefined, 40), // Neither a user nor a session
+      ],
+      query
+    );
+
+    expect(periods).toBeUndefined();
+    expect(totals).toEqual({
+      sessions: 3,
+      users: 3,
+      bounces: 1,
+      bounceRate: 1 / 3,
+      averageDurationMs: ((20 + 60) * MINUTE) / 3,
+      medianDurationMs: 20 * MINUTE,
+      averageEventsPerSession: 2,
+    });
+  });
+
+  it('should split events without a sessionId at the timeout', async () => {
+    const { totals } = await computeSessions(
+      [
+        event('a', 0),
+        event('a', 30), // Exactly the timeout continues the session
+        event('b', 40),
+        event('a', 61),
+        event('a', 62, 'same-id'),
+        event('b', 62, 'same-id'), // Client ids are only unique per user
+      ],
+      query
+    );
+
+    expect(totals).toMatchObject({
+      sessions: 5,
+      users: 2,
+      bounces: 4,
+      medianDurationMs: 0,
+    });
+  });
+
+  it('should break sessions down by the period they started in', async () => {
+    const day = 24 * 60;
+    const { totals, periods } = await computeSessions(
+      [
+        event('a', day - 10, 's1'),
+        event('a', day + 5, 's1'), // Crosses midnight, counted on day one
+        event('b', day + 60, 's2'),
+        event('c', 3 * day, 's3'),
+      ],
+      { ...query, interval: 'day' }
+    );
+
+    expect(totals.sessions).toBe(3);
+    expect(
+      periods!.map((period) => [period.periodStart, period.sessions])
+    ).toEqual([
+      [new Date(Date.UTC(2024, 0, 1)), 1],
+      [new Date(Date.UTC(2024, 0, 2)), 1],
+      [new Date(Date.UTC(2024, 0, 4)), 1],
+    ]);
+    expect(periods![0]).toMatchObject({
+      bounces: 0,
+      averageDurationMs: 15 * MINUTE,
+    });
+  });
+
+  it('should report zeroes without sessions', async () => {
+    const { totals } = await computeSessions([], query);
+
+    expect(totals).toEqual({
+      sessions: 0,
+      users: 0,
+      bounces: 0,
+      bounceRate: 0,
+      averageDurationMs: 0,
+      medianDurationMs: null,
+      averageEventsPerSession: 0,
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UserExportService } from '../../../src/services/user-export-service.js';
+import { MemoryEventAdapter } from '../../../src/adapters/memory-event-adapter.js';
+import { MemoryUserAdapter } from '../../../src/adapters/memory-user-adapter.js';
+import { StoreSelector } from '../../../src/interfaces/storage.js';
+import { AnalyticsEvent } from '../../../src/types/core.js';
+import { makeEvent } from '../../shared/test-utilities.js';
+
+// Read the regular files of a ustar archive, checking each header checksum
+function readTar(archive: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) break;
+
+    const field = (start: number, length: number) =>
+      header
+        .subarray(start, start + length)
+        .toString('utf8')
+        .replace(/\0.*$/s, '');
+    const stored = parseInt(field(148, 8).trim(), 8);
+    const computed = [...header].reduce(
+      (sum, byte, index) => sum + (index >= 148 && index < 156 ? 32 : byte),
+      0
+    );
+    expect(computed).toBe(stored);
+    expect(field(257, 6)).toBe('ustar');
+
+    const size = parseInt(field(124, 12), 8);
+    files[field(0, 100)] = archive
+      .subarray(offset + 512, offset + 512 + size)
+      .toString('utf8');
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return files;
+}
+
+describe('UserExportService', () => {
+  let eventAdapter: MemoryEventAdapter;
+  let userAdapter: MemoryUserAdapter;
+  let service: UserExportService;
+
+  beforeEach(async () => {
+    eventAdapter = new MemoryEventAdapter();
+    userAdapter = new MemoryUserAdapter();
+    service = new UserExportService({
+      getEventAdapter: () => eventAdapter,
+      getUserAdapter: () => userAdapter,
+    } as StoreSelector);
+
+    await eventAdapter.insertBatch([
+      makeEvent({
+        eventId: 'b',
+        userId: 'user-1',
+        properties: { path: '/pricing' },
+        timestamp: new Date(Date.UTC(2024, 0, 2)),
+      }),
+      makeEvent({
+        eventId: 'other',
+        userId: 'user-2',
+        properties: { path: '/pricing' },
+        timestamp: new Date(Date.UTC(2024, 0, 1)),
+      }),
+      makeEvent({
+        eventId: 'a',
+        userId: 'user-1',
+        properties: { path: '/pricing' },
+        timestamp: new Date(Date.UTC(2024, 0, 1)),
+      }),
+    ]);
+    await userAdapter.upsert({
+      userId: 'user-1',
+      tenantId: 'tenant-a',
+      properties: { email: 'one@example.com' },
+      firstSeen: new Date('2024-01-01T00:00:00.000Z'),
+      lastSeen: new Date('2024-01-02T00:00:00.000Z'),
+      sessionCount: 1,
+      eventCount: 2,
+    });
+  });
+
+  it("should archive the user's profile, events and aliases as JSON", async () => {
+    const result = await service.exportUser('tenant-a', 'user-1', 'json');
+
+    expect(result.contentType).toBe('application/x-tar');
+    expect(result.archive.length % 512).toBe(0);
+
+    const files = readTar(result.archive);
+    expect(Object.keys(files)).toEqual([
+      'manifest.json',
+      'user.json',
+      'events.json',
+      'aliases.json',
+    ]);
+    expect(JSON.parse(files['manifest.json']!)).toMatchObject({
+      tenantId: 'tenant-a',
+      userId: 'user-1',
+      format: 'json',
+      profileFound: true,
+    });
+    expect(JSON.parse(files['user.json']!).properties).toEqual({
+      email: 'one@example.com',
+    });
+    expect(
+      JSON.parse(files['events.json']!).map(
+        (event: AnalyticsEvent) => event.eventId
+      )
+    ).toEqual(['a', 'b']);
+    expect(JSON.parse(files['aliases.json']!)).toEqual([]);
+  });
+
+  it('should write CSV files when asked', async () => {
+    const files = readTar(
+      (await service.exportUser('tenant-a', 'user-1', 'csv')).archive
+    );
+
+    expect(files['user.csv']!.split('\r\n')[0]).toBe(
+      'userId,tenantId,firstSeen,lastSeen,sessionCount,eventCount,properties.email'
+    );
+    expect(files['events.csv']!.trim().split('\n')).toHaveLength(3);
+    expect(files['aliases.csv']).toBe('alias\r\n');
+  });
+
+  it('should still export events of a user without a profile', async () => {
+    const files = readTar(
+      (await service.exportUser('tenant-a', 'user-2', 'json')).archive
+    );
+
+    expect(JSON.parse(files['manifest.json']!).profileFound).toBe(false);
+    expect(JSON.parse(files['user.json']!)).toBeNull();
+    expect(JSON.parse(files['events.json']!)).toHaveLength(1);
+  });
+});